@@ -5,7 +5,7 @@
  * Tests real performance on actual hardware
  */
 
-import { QuantumZKP, HashZKP, LatticeZKP, MultivariateZKP, HybridZKP } from '../src/index'
+import { QuantumZKP, HashZKP, LatticeZKP, MultivariateZKP, HybridZKP, ProofSerializer } from '../src/index'
 
 interface BenchmarkResult {
   algorithm: string
@@ -51,16 +51,7 @@ function formatTime(ms: number): string {
 
 function estimateProofSize(proof: any): number {
   try {
-    // Custom serializer to handle BigInt
-    const serializeProof = (obj: any): string => {
-      return JSON.stringify(obj, (key, value) => {
-        if (typeof value === 'bigint') {
-          return value.toString()
-        }
-        return value
-      })
-    }
-    return serializeProof(proof).length
+    return ProofSerializer.serializeProof(proof).length
   } catch (error) {
     // Fallback estimation
     return 1024 // Default 1KB estimate
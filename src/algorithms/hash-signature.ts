@@ -0,0 +1,245 @@
+/**
+ * Hash-based signatures (WOTS+ and XMSS)
+ * @author NeaByteLab
+ */
+
+import { QuantumCrypto } from '@utils/crypto'
+import { WinternitzOTS } from '@utils/wots'
+import type {
+  HashSignatureParameters,
+  WOTSPrivateKey,
+  WOTSPublicKey,
+  XMSSHeight,
+  XMSSPrivateKey,
+  XMSSPublicKey,
+  XMSSSignature
+} from '../types'
+
+/**
+ * Hash-based signatures built from Winternitz chains and Merkle trees
+ * WOTS+ keys sign a single message; XMSS authenticates 2^height WOTS+ keys under one Merkle root
+ * and tracks the next unused key in the private key
+ */
+export class HashSignature {
+  private static readonly DEFAULT_HEIGHT: XMSSHeight = 10
+  private static readonly SEED_LENGTH = 32
+  private static readonly ONE_TIME_ADDRESS = Buffer.from('wots')
+  private static readonly PARAMETER_SETS: Record<XMSSHeight, HashSignatureParameters> = {
+    4: { name: 'XMSS-SHA2_4_256', height: 4, winternitz: 16, hashLength: 32, maxSignatures: 16 },
+    8: { name: 'XMSS-SHA2_8_256', height: 8, winternitz: 16, hashLength: 32, maxSignatures: 256 },
+    10: { name: 'XMSS-SHA2_10_256', height: 10, winternitz: 16, hashLength: 32, maxSignatures: 1024 }
+  }
+
+  /**
+   * Generate WOTS+ one-time key pair
+   * @param seed - Optional seed for deterministic key generation
+   * @returns One-time key pair
+   */
+  public static generateOneTimeKeyPair(seed?: Buffer): { privateKey: WOTSPrivateKey; publicKey: WOTSPublicKey } {
+    const { secretSeed, publicSeed } = this.expandKeySeed(seed)
+    const key = WinternitzOTS.generatePublicKey(secretSeed, publicSeed, this.ONE_TIME_ADDRESS)
+    return {
+      privateKey: { secretSeed, publicSeed, used: false },
+      publicKey: { publicSeed, key }
+    }
+  }
+
+  /**
+   * Sign message with a WOTS+ one-time key
+   * @param message - Message to sign
+   * @param privateKey - One-time private key, marked used afterwards
+   * @returns WOTS+ signature
+   */
+  public static signOneTime(message: Buffer | string, privateKey: WOTSPrivateKey): Buffer[] {
+    if (privateKey.used) {
+      throw new Error('One-time key has already been used')
+    }
+    privateKey.used = true
+    const digest = this.hashOneTimeMessage(message, privateKey.publicSeed)
+    return WinternitzOTS.sign(digest, privateKey.secretSeed, privateKey.publicSeed, this.ONE_TIME_ADDRESS)
+  }
+
+  /**
+   * Verify WOTS+ one-time signature
+   * @param message - Signed message
+   * @param signature - WOTS+ signature
+   * @param publicKey - One-time public key
+   * @returns True if signature is valid
+   */
+  public static verifyOneTime(message: Buffer | string, signature: Buffer[], publicKey: WOTSPublicKey): boolean {
+    const digest = this.hashOneTimeMessage(message, publicKey.publicSeed)
+    const key = WinternitzOTS.publicKeyFromSignature(digest, signature, publicKey.publicSeed, this.ONE_TIME_ADDRESS)
+    return key !== null && key.equals(publicKey.key)
+  }
+
+  /**
+   * Generate XMSS key pair
+   * @param height - Tree height selecting the parameter set
+   * @param seed - Optional seed for deterministic key generation
+   * @returns Stateful private key and public key
+   */
+  public static generateKeyPair(
+    height: XMSSHeight = this.DEFAULT_HEIGHT,
+    seed?: Buffer
+  ): { privateKey: XMSSPrivateKey; publicKey: XMSSPublicKey } {
+    const { maxSignatures } = this.getParameterSet(height)
+    const { secretSeed, publicSeed, prfKey } = this.expandKeySeed(seed)
+    const leaves: Buffer[] = []
+    for (let index = 0; index < maxSignatures; index++) {
+      leaves.push(WinternitzOTS.generatePublicKey(secretSeed, publicSeed, this.getLeafAddress(index)))
+    }
+    const { tree, root } = QuantumCrypto.generateMerkleTree(leaves)
+    return {
+      privateKey: { height, index: 0, secretSeed, prfKey, publicSeed, root, tree },
+      publicKey: { height, root, publicSeed }
+    }
+  }
+
+  /**
+   * Sign message with the next unused one-time key of an XMSS private key
+   * @param message - Message to sign
+   * @param privateKey - Stateful private key, its index is advanced before the signature is returned
+   * @returns XMSS signature
+   */
+  public static sign(message: Buffer | string, privateKey: XMSSPrivateKey): XMSSSignature {
+    const { maxSignatures } = this.getParameterSet(privateKey.height)
+    const { index } = privateKey
+    if (index >= maxSignatures) {
+      throw new Error('XMSS private key is exhausted')
+    }
+    privateKey.index = index + 1
+    const messageBuffer = typeof message === 'string' ? Buffer.from(message, 'utf8') : message
+    const indexBuffer = this.encodeIndex(index)
+    const randomness = QuantumCrypto.domainHash('quantum-zkp/xmss/randomness', [
+      privateKey.prfKey,
+      indexBuffer,
+      messageBuffer
+    ])
+    const digest = this.hashMessage(messageBuffer, randomness, privateKey.root, index)
+    const address = this.getLeafAddress(index)
+    return {
+      index,
+      randomness,
+      wotsSignature: WinternitzOTS.sign(digest, privateKey.secretSeed, privateKey.publicSeed, address),
+      authPath: QuantumCrypto.generateMerkleProof(privateKey.tree, index)
+    }
+  }
+
+  /**
+   * Verify XMSS signature
+   * @param message - Signed message
+   * @param signature - XMSS signature
+   * @param publicKey - XMSS public key
+   * @returns True if signature is valid
+   */
+  public static verify(message: Buffer | string, signature: XMSSSignature, publicKey: XMSSPublicKey): boolean {
+    const parameters = this.PARAMETER_SETS[publicKey.height]
+    const { index, randomness, wotsSignature, authPath } = signature
+    if (
+      !parameters ||
+      !Number.isInteger(index) ||
+      index < 0 ||
+      index >= parameters.maxSignatures ||
+      authPath.length !== parameters.height
+    ) {
+      return false
+    }
+    const messageBuffer = typeof message === 'string' ? Buffer.from(message, 'utf8') : message
+    const digest = this.hashMessage(messageBuffer, randomness, publicKey.root, index)
+    const leaf = WinternitzOTS.publicKeyFromSignature(
+      digest,
+      wotsSignature,
+      publicKey.publicSeed,
+      this.getLeafAddress(index)
+    )
+    return leaf !== null && QuantumCrypto.verifyMerkleProof(leaf, authPath, publicKey.root, index)
+  }
+
+  /**
+   * Get number of signatures a private key can still produce
+   * @param privateKey - XMSS private key
+   * @returns Remaining signatures
+   */
+  public static getRemainingSignatures(privateKey: XMSSPrivateKey): number {
+    return Math.max(0, this.getParameterSet(privateKey.height).maxSignatures - privateKey.index)
+  }
+
+  /**
+   * Get parameter set for a tree height
+   * @param height - Tree height
+   * @returns Parameter set
+   */
+  public static getParameterSet(height: XMSSHeight): HashSignatureParameters {
+    const parameters = this.PARAMETER_SETS[height]
+    if (!parameters) {
+      throw new Error(`Unsupported XMSS tree height: ${height}`)
+    }
+    return { ...parameters }
+  }
+
+  /**
+   * Get supported tree heights
+   * @returns Tree heights with a parameter set
+   */
+  public static getSupportedHeights(): XMSSHeight[] {
+    return Object.values(this.PARAMETER_SETS).map(parameters => parameters.height as XMSSHeight)
+  }
+
+  /**
+   * Expand optional seed into key seeds
+   * @param seed - Optional seed
+   * @returns Secret seed, public seed and PRF key
+   */
+  private static expandKeySeed(seed?: Buffer): { secretSeed: Buffer; publicSeed: Buffer; prfKey: Buffer } {
+    const source = seed ?? QuantumCrypto.generateRandomBytes(this.SEED_LENGTH)
+    const expanded = QuantumCrypto.expandSeed(source, this.SEED_LENGTH * 3)
+    return {
+      secretSeed: expanded.subarray(0, this.SEED_LENGTH),
+      publicSeed: expanded.subarray(this.SEED_LENGTH, this.SEED_LENGTH * 2),
+      prfKey: expanded.subarray(this.SEED_LENGTH * 2)
+    }
+  }
+
+  /**
+   * Hash message for a one-time key
+   * @param message - Message
+   * @param publicSeed - Public seed of the key
+   * @returns 32-byte digest
+   */
+  private static hashOneTimeMessage(message: Buffer | string, publicSeed: Buffer): Buffer {
+    const messageBuffer = typeof message === 'string' ? Buffer.from(message, 'utf8') : message
+    return QuantumCrypto.domainHash('quantum-zkp/wots/message', [publicSeed, messageBuffer])
+  }
+
+  /**
+   * Hash randomized message for an XMSS leaf
+   * @param message - Message
+   * @param randomness - Per-message randomness
+   * @param root - Merkle root
+   * @param index - Leaf index
+   * @returns 32-byte digest
+   */
+  private static hashMessage(message: Buffer, randomness: Buffer, root: Buffer, index: number): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/xmss/message', [randomness, root, this.encodeIndex(index), message])
+  }
+
+  /**
+   * Get address of the one-time key at a leaf
+   * @param index - Leaf index
+   * @returns Leaf address
+   */
+  private static getLeafAddress(index: number): Buffer {
+    return Buffer.concat([Buffer.from('xmss'), this.encodeIndex(index)])
+  }
+
+  /**
+   * Encode leaf index as 4-byte big-endian
+   * @param index - Leaf index
+   * @returns Encoded index
+   */
+  private static encodeIndex(index: number): Buffer {
+    const buffer = Buffer.alloc(4)
+    buffer.writeUInt32BE(index)
+    return buffer
+  }
+}
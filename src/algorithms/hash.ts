@@ -4,7 +4,16 @@
  */
 
 import { QuantumCrypto } from '@utils/crypto'
-import type { HashProof, ProofParameters } from '../types'
+import { ZKBoo } from '@utils/zkboo'
+import type {
+  HashChainOpening,
+  HashProof,
+  HashStatement,
+  MerkleProof,
+  MerkleScheme,
+  ProofParameters,
+  RandomSource
+} from '../types'
 
 /**
  * Hash-based quantum-resistant ZKP implementation using hash chains
@@ -12,60 +21,334 @@ import type { HashProof, ProofParameters } from '../types'
  */
 export class HashZKP {
   private static readonly DEFAULT_CHAIN_LENGTH = 1000
+  private static readonly DEFAULT_REPETITIONS = 219
+  private static readonly DEFAULT_SPOT_CHECKS = 16
+  private static readonly MIN_SPOT_CHECKS = 16
   private static readonly VERSION = '1.0.0'
 
   /**
    * Create hash-based quantum-resistant proof using proper ZKP protocol
    * @param secret - Secret to prove knowledge of
    * @param parameters - Hash parameters
+   * @param random - Random source
    * @returns Hash proof
    */
-  public static createProof(secret: Buffer | string, parameters?: Partial<ProofParameters>): HashProof {
+  public static createProof(
+    secret: Buffer | string,
+    parameters?: Partial<ProofParameters>,
+    random?: RandomSource
+  ): HashProof {
+    if (parameters?.hashMode === 'preimage') {
+      return this.createPreimageProof(secret, parameters, random)
+    }
     const chainLength = parameters?.chainLength || this.DEFAULT_CHAIN_LENGTH
-    if (!QuantumCrypto.validateParameters('hash', { chainLength })) {
+    const spotChecks = parameters?.spotChecks ?? this.DEFAULT_SPOT_CHECKS
+    if (
+      !QuantumCrypto.validateParameters('hash', { chainLength }) ||
+      !Number.isInteger(spotChecks) ||
+      spotChecks < this.MIN_SPOT_CHECKS
+    ) {
       throw new Error('Invalid hash parameters')
     }
     const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
-    const witness = QuantumCrypto.generateRandomBytes(32)
-    const randomSeed = QuantumCrypto.generateRandomBytes(16)
+    const witness = QuantumCrypto.generateRandomBytes(32, random)
+    const randomSeed = QuantumCrypto.generateRandomBytes(16, random)
     const combinedSeed = Buffer.concat([secretBuffer, randomSeed])
     const commitmentChain = this.createHashChain(combinedSeed, chainLength)
     const commitment = commitmentChain[0]
     const challenge = this.generateChallenge(commitment, witness)
     const response = this.createResponse(secretBuffer, witness, challenge)
-    const { tree, root } = QuantumCrypto.generateMerkleTree(commitmentChain)
-    const merkleProof = QuantumCrypto.generateMerkleProof(tree, 0)
-    return {
-      type: 'hash',
+    const merkleScheme = parameters?.merkleScheme ?? 'legacy'
+    const schemeParameters: Partial<ProofParameters> = parameters?.merkleScheme ? { merkleScheme } : {}
+    const { tree, root } = this.buildMerkleTree(commitmentChain, merkleScheme)
+    const merkleProof = this.openMerklePath(tree, 0, merkleScheme)
+    const common = {
       commitment,
       challenge,
       response,
-      parameters: { chainLength },
       quantumSafe: true,
       timestamp: Date.now(),
       version: this.VERSION,
       chainLength,
-      hashChain: commitmentChain,
       commitmentChain: root,
-      merkleTree: tree,
       merkleProof
     }
+    if (parameters?.hashMode === 'compact') {
+      return {
+        type: 'hash',
+        ...common,
+        parameters: { chainLength, hashMode: 'compact', spotChecks, ...schemeParameters },
+        hashChain: [commitmentChain[0], commitmentChain[chainLength - 1]],
+        mode: 'compact',
+        openings: this.openSpotChecks(commitmentChain, tree, merkleScheme, spotChecks)
+      }
+    }
+    return {
+      type: 'hash',
+      ...common,
+      parameters: { chainLength, ...schemeParameters },
+      hashChain: commitmentChain,
+      merkleTree: tree
+    }
+  }
+
+  /**
+   * Open the last chain link and a Fiat-Shamir selected pair of consecutive links per spot check
+   * @param chain - Full hash chain
+   * @param tree - Merkle tree over the chain
+   * @param scheme - Merkle tree construction
+   * @param spotChecks - Number of spot checks
+   * @returns Merkle-authenticated openings
+   */
+  private static openSpotChecks(
+    chain: Buffer[],
+    tree: Buffer[][],
+    scheme: MerkleScheme,
+    spotChecks: number
+  ): HashChainOpening[] {
+    const last = chain.length - 1
+    const root = tree[tree.length - 1][0]
+    const positions = this.deriveSpotChecks(root, chain[0], chain[last], chain.length, spotChecks)
+    return [last, ...positions.flatMap(position => [position, position + 1])].map(index => ({
+      index,
+      value: chain[index],
+      path: this.openMerklePath(tree, index, scheme)
+    }))
+  }
+
+  /**
+   * Build Merkle tree over the hash chain
+   * @param chain - Hash chain
+   * @param scheme - Merkle tree construction
+   * @returns Tree levels and root
+   */
+  private static buildMerkleTree(chain: Buffer[], scheme: MerkleScheme): { tree: Buffer[][]; root: Buffer } {
+    if (scheme === 'rfc6962') {
+      const { levels, root } = QuantumCrypto.createMerkleTree(chain)
+      return { tree: levels, root }
+    }
+    return QuantumCrypto.generateMerkleTree(chain)
+  }
+
+  /**
+   * Open Merkle path of a chain link
+   * @param tree - Tree levels
+   * @param index - Link index
+   * @param scheme - Merkle tree construction
+   * @returns Sibling hashes
+   */
+  private static openMerklePath(tree: Buffer[][], index: number, scheme: MerkleScheme): Buffer[] {
+    if (scheme === 'rfc6962') {
+      const root = tree[tree.length - 1][0]
+      return QuantumCrypto.createMerkleProof({ algorithm: 'sha256', levels: tree, root }, index).path
+    }
+    return QuantumCrypto.generateMerkleProof(tree, index)
+  }
+
+  /**
+   * Verify Merkle path of a chain link against the chain commitment
+   * @param proof - Hash proof
+   * @param leaf - Link value
+   * @param path - Sibling hashes
+   * @param index - Link index
+   * @returns True if the path authenticates the link
+   */
+  private static verifyMerklePath(proof: HashProof, leaf: Buffer, path: Buffer[], index: number): boolean {
+    if (proof.parameters.merkleScheme === 'rfc6962') {
+      const inclusion: MerkleProof = { leafIndex: index, treeSize: proof.chainLength, path, algorithm: 'sha256' }
+      return QuantumCrypto.verifyMerkleProof(leaf, inclusion, proof.commitmentChain)
+    }
+    return QuantumCrypto.verifyMerkleProof(leaf, path, proof.commitmentChain, index)
+  }
+
+  /**
+   * Derive spot check positions from the chain commitment using Fiat-Shamir
+   * @param root - Merkle root over the chain
+   * @param first - First chain link
+   * @param last - Last chain link
+   * @param chainLength - Chain length
+   * @param spotChecks - Number of spot checks
+   * @returns Positions p whose links p and p + 1 are opened
+   */
+  private static deriveSpotChecks(
+    root: Buffer,
+    first: Buffer,
+    last: Buffer,
+    chainLength: number,
+    spotChecks: number
+  ): number[] {
+    const length = Buffer.alloc(4)
+    length.writeUInt32BE(chainLength)
+    const seed = QuantumCrypto.domainHash('quantum-zkp/hash/spot-checks', [root, first, last, length])
+    const stream = QuantumCrypto.expandSeed(seed, spotChecks * 4)
+    return Array.from({ length: spotChecks }, (_, i) => stream.readUInt32BE(i * 4) % (chainLength - 1))
+  }
+
+  /**
+   * Verify compact hash proof from its endpoints and spot check openings
+   * @param proof - Hash proof in compact mode
+   * @returns True if every opening is authenticated and every opened pair is linked
+   */
+  private static verifyCompactProof(proof: HashProof): boolean {
+    if (!this.validateCompactStructure(proof)) {
+      return false
+    }
+    const { chainLength, hashChain, commitmentChain: root } = proof
+    const openings = proof.openings!
+    const positions = this.deriveSpotChecks(root, hashChain[0], hashChain[1], chainLength, proof.parameters.spotChecks!)
+    const indices = [chainLength - 1, ...positions.flatMap(position => [position, position + 1])]
+    if (openings.length !== indices.length || !openings[0].value.equals(hashChain[1])) {
+      return false
+    }
+    const authenticated = openings.every(
+      (opening, i) =>
+        opening.index === indices[i] && this.verifyMerklePath(proof, opening.value, opening.path, opening.index)
+    )
+    const linked = positions.every((_, k) =>
+      QuantumCrypto.hash(openings[2 * k + 1].value, 'sha256').equals(openings[2 * k + 2].value)
+    )
+    return authenticated && linked && this.verifyMerklePath(proof, hashChain[0], proof.merkleProof!, 0)
+  }
+
+  /**
+   * Validate compact proof structure
+   * The spot check count comes from the proof, so fewer than the verifier minimum are rejected,
+   * and it must match the openings before any spot check positions are derived
+   * @param proof - Hash proof in compact mode
+   * @returns True if structure is valid
+   */
+  private static validateCompactStructure(proof: HashProof): boolean {
+    const { spotChecks } = proof.parameters
+    return (
+      proof.type === 'hash' &&
+      proof.commitment instanceof Buffer &&
+      proof.challenge instanceof Buffer &&
+      proof.challenge.length === 32 &&
+      proof.response instanceof Buffer &&
+      proof.response.length === 64 &&
+      Number.isInteger(proof.chainLength) &&
+      proof.chainLength >= 2 &&
+      proof.hashChain.length === 2 &&
+      proof.hashChain[0].equals(proof.commitment) &&
+      proof.merkleProof !== undefined &&
+      proof.openings !== undefined &&
+      spotChecks !== undefined &&
+      Number.isInteger(spotChecks) &&
+      spotChecks >= this.MIN_SPOT_CHECKS &&
+      proof.openings.length === 2 * spotChecks + 1
+    )
+  }
+
+  /**
+   * Create ZKBoo proof of knowledge of a SHA-256 preimage
+   * @param secret - Preimage to prove knowledge of
+   * @param parameters - Hash parameters
+   * @param random - Random source
+   * @returns Hash proof in preimage mode
+   */
+  private static createPreimageProof(
+    secret: Buffer | string,
+    parameters: Partial<ProofParameters>,
+    random?: RandomSource
+  ): HashProof {
+    const repetitions = parameters.repetitions ?? this.DEFAULT_REPETITIONS
+    if (!Number.isInteger(repetitions) || repetitions < ZKBoo.MIN_REPETITIONS) {
+      throw new Error('Invalid hash parameters')
+    }
+    const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
+    const { image, commitment, challenge, response } = ZKBoo.prove(secretBuffer, repetitions, random)
+    return {
+      type: 'hash',
+      commitment,
+      challenge,
+      response,
+      parameters: { hashMode: 'preimage', repetitions },
+      quantumSafe: true,
+      timestamp: Date.now(),
+      version: this.VERSION,
+      chainLength: 0,
+      hashChain: [],
+      commitmentChain: commitment,
+      mode: 'preimage',
+      image,
+      statementDigest: this.getStatementDigest({ type: 'hash', image })
+    }
+  }
+
+  /**
+   * Verify ZKBoo proof of knowledge of a SHA-256 preimage
+   * @param proof - Hash proof in preimage mode
+   * @param statement - Optional public statement the proof must be about
+   * @returns True if the opened views are consistent with the image
+   */
+  private static verifyPreimageProof(proof: HashProof, statement?: HashStatement): boolean {
+    const { repetitions } = proof.parameters
+    if (
+      proof.type !== 'hash' ||
+      !(proof.image instanceof Buffer) ||
+      repetitions === undefined ||
+      !proof.commitmentChain.equals(proof.commitment) ||
+      !ZKBoo.verify(proof.image, proof.commitment, proof.challenge, proof.response, repetitions)
+    ) {
+      return false
+    }
+    if (
+      proof.statementDigest &&
+      !proof.statementDigest.equals(this.getStatementDigest({ type: 'hash', image: proof.image }))
+    ) {
+      return false
+    }
+    return !statement || (statement.type === 'hash' && statement.image.equals(proof.image))
+  }
+
+  /**
+   * Generate public statement for a secret
+   * @param secret - Secret the statement is about
+   * @returns Hash statement holding the SHA-256 image of the secret
+   */
+  public static generateStatement(secret: Buffer | string): HashStatement {
+    const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
+    return {
+      type: 'hash',
+      image: QuantumCrypto.hash(secretBuffer, 'sha256')
+    }
+  }
+
+  /**
+   * Compute digest binding a proof to a statement
+   * @param statement - Hash statement
+   * @returns Statement digest
+   */
+  public static getStatementDigest(statement: HashStatement): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/statement/hash', [statement.image])
   }
 
   /**
    * Verify hash-based proof
+   * Only preimage proofs are proofs of knowledge; chain and compact proofs are never accepted for a statement,
+   * since their response can be recomputed from the public image
    * @param proof - Hash proof to verify
+   * @param statement - Optional public statement the proof must be about
    * @returns True if proof is valid
    */
-  public static verifyProof(proof: HashProof): boolean {
+  public static verifyProof(proof: HashProof, statement?: HashStatement): boolean {
     try {
+      if (proof.mode === 'preimage') {
+        return this.verifyPreimageProof(proof, statement)
+      }
+      if (statement) {
+        return false
+      }
+      if (proof.mode === 'compact') {
+        return this.verifyCompactProof(proof)
+      }
       if (!this.validateProofStructure(proof)) {
         return false
       }
       if (!proof.hashChain || proof.hashChain.length === 0) {
         return false
       }
-      if (!QuantumCrypto.verifyMerkleProof(proof.hashChain[0], proof.merkleProof!, proof.commitmentChain, 0)) {
+      if (!this.verifyMerklePath(proof, proof.hashChain[0], proof.merkleProof!, 0)) {
         return false
       }
       if (!this.verifyHashChain(proof.hashChain)) {
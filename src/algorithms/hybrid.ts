@@ -14,7 +14,12 @@ import type {
   Proof,
   LatticeProof,
   HashProof,
-  MultivariateProof
+  MultivariateProof,
+  HybridStatement,
+  LatticeStatement,
+  HashStatement,
+  MultivariateStatement,
+  RandomSource
 } from '../types'
 
 /**
@@ -33,24 +38,36 @@ export class HybridZKP {
 
   /**
    * Create hybrid quantum-resistant proof combining multiple algorithms
+   * Statement verification needs proof-of-knowledge component modes: latticeMode 'sigma',
+   * hashMode 'preimage' and multivariateMode 'mq3' or 'mq5'; only then is a statement digest attached
    * @param secret - Secret to prove knowledge of
-   * @param parameters - Hybrid parameters
+   * @param parameters - Hybrid parameters, including the component proof modes
+   * @param random - Random source shared by the component proofs
    * @returns Hybrid proof
    */
-  public static createProof(secret: Buffer | string, parameters?: Partial<ProofParameters>): HybridProof {
+  public static createProof(
+    secret: Buffer | string,
+    parameters?: Partial<ProofParameters>,
+    random?: RandomSource
+  ): HybridProof {
     const algorithms = parameters?.algorithms || this.DEFAULT_ALGORITHMS
     const weights = parameters?.weights || this.DEFAULT_WEIGHTS
     if (!QuantumCrypto.validateParameters('hybrid', { algorithms, weights })) {
       throw new Error('Invalid hybrid parameters')
     }
     const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
-    const proofs = this.generateComponentProofs(secretBuffer, algorithms)
-    const witness = QuantumCrypto.generateRandomBytes(32)
+    const proofs = this.generateComponentProofs(
+      secretBuffer,
+      algorithms,
+      this.getComponentParameters(parameters),
+      random
+    )
+    const witness = QuantumCrypto.generateRandomBytes(32, random)
     const commitment = this.createHybridCommitment(secretBuffer, proofs)
     const challenge = this.generateHybridChallenge(commitment, witness, proofs)
     const response = this.createHybridResponse(secretBuffer, witness, challenge, proofs)
     const combined = this.combineProofs(proofs, weights)
-    return {
+    const hybrid: HybridProof = {
       type: 'hybrid',
       commitment,
       response,
@@ -63,14 +80,58 @@ export class HybridZKP {
       combined,
       algorithmWeights: weights
     }
+    const digests = proofs
+      .map(proof => proof.statementDigest)
+      .filter((digest): digest is Buffer => digest !== undefined)
+    if (digests.length === proofs.length) {
+      hybrid.statementDigest = this.digestComponentStatements(digests)
+    }
+    return hybrid
+  }
+
+  /**
+   * Generate public statement combining the component statements
+   * @param secret - Secret the statement is about
+   * @param parameters - Hybrid parameters
+   * @returns Hybrid statement
+   */
+  public static generateStatement(secret: Buffer | string, parameters?: Partial<ProofParameters>): HybridStatement {
+    const algorithms = parameters?.algorithms || this.DEFAULT_ALGORITHMS
+    if (!QuantumCrypto.validateParameters('hybrid', { algorithms })) {
+      throw new Error('Invalid hybrid parameters')
+    }
+    const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
+    const statements = algorithms.map(algorithm => {
+      switch (algorithm) {
+        case 'lattice':
+          return LatticeZKP.generateStatement(secretBuffer)
+        case 'hash':
+          return HashZKP.generateStatement(secretBuffer)
+        case 'multivariate':
+          return MultivariateZKP.generateStatement(secretBuffer)
+        default:
+          throw new Error(`Unsupported algorithm: ${algorithm}`)
+      }
+    })
+    return { type: 'hybrid', statements }
+  }
+
+  /**
+   * Compute digest binding a proof to a statement
+   * @param statement - Hybrid statement
+   * @returns Statement digest
+   */
+  public static getStatementDigest(statement: HybridStatement): Buffer {
+    return this.digestComponentStatements(statement.statements.map(component => this.getComponentDigest(component)))
   }
 
   /**
    * Verify hybrid proof
    * @param proof - Hybrid proof to verify
+   * @param statement - Optional public statement the proof must be about
    * @returns True if proof is valid
    */
-  public static verifyProof(proof: HybridProof): boolean {
+  public static verifyProof(proof: HybridProof, statement?: HybridStatement): boolean {
     try {
       if (!this.validateProofStructure(proof)) {
         return false
@@ -103,30 +164,107 @@ export class HybridZKP {
       if (!isValidCombined) {
         return false
       }
+      if (statement && !this.verifyStatement(proof, statement)) {
+        return false
+      }
       return true
     } catch {
       return false
     }
   }
 
+  /**
+   * Verify that every component proof was created for its component statement
+   * @param proof - Hybrid proof
+   * @param statement - Public statement
+   * @returns True if the proof is bound to the statement
+   */
+  private static verifyStatement(proof: HybridProof, statement: HybridStatement): boolean {
+    if (statement.type !== 'hybrid' || !proof.statementDigest) {
+      return false
+    }
+    if (statement.statements.length !== proof.proofs.length) {
+      return false
+    }
+    for (let i = 0; i < proof.proofs.length; i++) {
+      if (!this.verifyComponentProof(proof.proofs[i], statement.statements[i])) {
+        return false
+      }
+    }
+    return proof.statementDigest.equals(this.getStatementDigest(statement))
+  }
+
+  /**
+   * Compute digest of a component statement
+   * @param statement - Component statement
+   * @returns Statement digest
+   */
+  private static getComponentDigest(statement: LatticeStatement | HashStatement | MultivariateStatement): Buffer {
+    switch (statement.type) {
+      case 'lattice':
+        return LatticeZKP.getStatementDigest(statement)
+      case 'hash':
+        return HashZKP.getStatementDigest(statement)
+      case 'multivariate':
+        return MultivariateZKP.getStatementDigest(statement)
+      default:
+        throw new Error(`Unsupported statement type: ${(statement as HybridStatement).type}`)
+    }
+  }
+
+  /**
+   * Combine component statement digests into the hybrid digest
+   * @param digests - Component statement digests
+   * @returns Hybrid statement digest
+   */
+  private static digestComponentStatements(digests: Buffer[]): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/statement/hybrid', digests)
+  }
+
+  /**
+   * Pick the component proof modes out of hybrid parameters
+   * @param parameters - Hybrid parameters
+   * @returns Parameters passed to every component proof
+   */
+  private static getComponentParameters(parameters?: Partial<ProofParameters>): Partial<ProofParameters> {
+    const components: Partial<ProofParameters> = {}
+    if (parameters?.latticeMode) {
+      components.latticeMode = parameters.latticeMode
+    }
+    if (parameters?.hashMode) {
+      components.hashMode = parameters.hashMode
+    }
+    if (parameters?.multivariateMode) {
+      components.multivariateMode = parameters.multivariateMode
+    }
+    return components
+  }
+
   /**
    * Generate component proofs from each algorithm
    * @param secret - Secret value
    * @param algorithms - Algorithms to use
+   * @param parameters - Component proof modes
+   * @param random - Random source
    * @returns Array of component proofs
    */
-  private static generateComponentProofs(secret: Buffer, algorithms: AlgorithmType[]): Proof[] {
+  private static generateComponentProofs(
+    secret: Buffer,
+    algorithms: AlgorithmType[],
+    parameters: Partial<ProofParameters>,
+    random?: RandomSource
+  ): Proof[] {
     const proofs: Proof[] = []
     for (const algorithm of algorithms) {
       switch (algorithm) {
         case 'lattice':
-          proofs.push(LatticeZKP.createProof(secret))
+          proofs.push(LatticeZKP.createProof(secret, parameters, random))
           break
         case 'hash':
-          proofs.push(HashZKP.createProof(secret))
+          proofs.push(HashZKP.createProof(secret, parameters, random))
           break
         case 'multivariate':
-          proofs.push(MultivariateZKP.createProof(secret))
+          proofs.push(MultivariateZKP.createProof(secret, parameters, random))
           break
         default:
           throw new Error(`Unsupported algorithm: ${algorithm}`)
@@ -201,16 +339,23 @@ export class HybridZKP {
   /**
    * Verify component proof
    * @param proof - Component proof
+   * @param statement - Optional component statement
    * @returns True if component proof is valid
    */
-  private static verifyComponentProof(proof: Proof): boolean {
+  private static verifyComponentProof(
+    proof: Proof,
+    statement?: LatticeStatement | HashStatement | MultivariateStatement
+  ): boolean {
+    if (statement && statement.type !== proof.type) {
+      return false
+    }
     switch (proof.type) {
       case 'lattice':
-        return LatticeZKP.verifyProof(proof)
+        return LatticeZKP.verifyProof(proof, statement as LatticeStatement | undefined)
       case 'hash':
-        return HashZKP.verifyProof(proof)
+        return HashZKP.verifyProof(proof, statement as HashStatement | undefined)
       case 'multivariate':
-        return MultivariateZKP.verifyProof(proof)
+        return MultivariateZKP.verifyProof(proof, statement as MultivariateStatement | undefined)
       default:
         return false
     }
@@ -291,11 +436,13 @@ export class HybridZKP {
    * Create optimized hybrid proof for enhanced performance
    * @param secret - Secret value
    * @param algorithms - Algorithms to use
+   * @param random - Random source
    * @returns Optimized hybrid proof
    */
   public static createOptimizedProof(
     secret: Buffer | string,
-    algorithms: AlgorithmType[] = ['lattice', 'hash']
+    algorithms: AlgorithmType[] = ['lattice', 'hash'],
+    random?: RandomSource
   ): HybridProof {
     const optimizedAlgorithms = algorithms.slice(0, 2)
     const optimizedWeights = {
@@ -304,28 +451,37 @@ export class HybridZKP {
       multivariate: 0,
       hybrid: 0
     }
-    return this.createProof(secret, {
-      algorithms: optimizedAlgorithms,
-      weights: optimizedWeights
-    })
+    return this.createProof(
+      secret,
+      {
+        algorithms: optimizedAlgorithms,
+        weights: optimizedWeights
+      },
+      random
+    )
   }
 
   /**
    * Create maximum security hybrid proof
    * @param secret - Secret value
+   * @param random - Random source
    * @returns Maximum security hybrid proof
    */
-  public static createMaximumSecurityProof(secret: Buffer | string): HybridProof {
+  public static createMaximumSecurityProof(secret: Buffer | string, random?: RandomSource): HybridProof {
     const maxSecurityWeights = {
       lattice: 0.25,
       hash: 0.25,
       multivariate: 0.25,
       hybrid: 0.25
     }
-    return this.createProof(secret, {
-      algorithms: ['lattice', 'hash', 'multivariate'],
-      weights: maxSecurityWeights
-    })
+    return this.createProof(
+      secret,
+      {
+        algorithms: ['lattice', 'hash', 'multivariate'],
+        weights: maxSecurityWeights
+      },
+      random
+    )
   }
 
   /**
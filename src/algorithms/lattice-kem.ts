@@ -0,0 +1,371 @@
+/**
+ * Module-lattice key encapsulation (ML-KEM-style)
+ * @author NeaByteLab
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { QuantumCrypto } from '@utils/crypto'
+import { DiscreteSampler } from '@utils/discrete-sampler'
+import { PolynomialRing } from '@utils/polynomial-ring'
+import { SeededRandom, SystemRandom } from '@utils/random'
+import type {
+  KEMEncapsulation,
+  KEMParameterSet,
+  KEMParameters,
+  KEMPrivateKey,
+  KEMPublicKey,
+  PerformanceMetrics,
+  RandomSource
+} from '../types'
+
+/**
+ * ML-KEM-style key encapsulation over the module Z_3329[x]/(x^256 + 1)^k
+ * A Module-LWE public-key encryption scheme is turned into an IND-CCA KEM with the Fujisaki-Okamoto
+ * transform: decapsulation re-encrypts the decrypted message and falls back to an implicit-rejection
+ * secret when the ciphertexts differ. Educational: SHA-2 and SHAKE256 replace the SHA-3 instances
+ * of FIPS 203 and the matrix is kept in coefficient form
+ */
+export class LatticeKEM {
+  private static readonly DEFAULT_PARAMETER_SET: KEMParameterSet = 'kem-768'
+  private static readonly DEGREE = 256
+  private static readonly MODULUS = 3329
+  private static readonly COEFFICIENT_BITS = 12
+  private static readonly SEED_LENGTH = 32
+  private static readonly ring = new PolynomialRing(LatticeKEM.DEGREE, BigInt(LatticeKEM.MODULUS))
+  private static readonly PARAMETER_SETS: Record<KEMParameterSet, KEMParameters> = {
+    'kem-512': { name: 'kem-512', rank: 2, eta1: 3, eta2: 2, du: 10, dv: 4 },
+    'kem-768': { name: 'kem-768', rank: 3, eta1: 2, eta2: 2, du: 10, dv: 4 },
+    'kem-1024': { name: 'kem-1024', rank: 4, eta1: 2, eta2: 2, du: 11, dv: 5 }
+  }
+
+  /**
+   * Generate key pair
+   * @param parameterSet - Parameter set
+   * @param seed - Optional seed for deterministic key generation
+   * @returns Decapsulation and encapsulation key
+   */
+  public static generateKeyPair(
+    parameterSet: KEMParameterSet = this.DEFAULT_PARAMETER_SET,
+    seed?: Buffer
+  ): { privateKey: KEMPrivateKey; publicKey: KEMPublicKey } {
+    const parameters = this.getParameterSet(parameterSet)
+    const source = seed ?? QuantumCrypto.generateRandomBytes(this.SEED_LENGTH)
+    const expanded = QuantumCrypto.expandSeed(source, this.SEED_LENGTH * 2)
+    const keySeed = expanded.subarray(0, this.SEED_LENGTH)
+    const rejectionSeed = expanded.subarray(this.SEED_LENGTH)
+    const seeds = QuantumCrypto.hash(keySeed, 'sha512')
+    const matrixSeed = seeds.subarray(0, this.SEED_LENGTH)
+    const noiseSeed = seeds.subarray(this.SEED_LENGTH)
+    const matrix = this.expandMatrix(matrixSeed, parameters.rank)
+    const s = this.sampleNoiseVector(noiseSeed, 0, parameters.rank, parameters.eta1)
+    const e = this.sampleNoiseVector(noiseSeed, parameters.rank, parameters.rank, parameters.eta1)
+    const t = matrix.map((row, i) => this.ring.add(this.innerProduct(row, s), e[i]))
+    const publicKey: KEMPublicKey = { parameterSet, seed: matrixSeed, t: this.packVector(t, this.COEFFICIENT_BITS) }
+    return {
+      privateKey: {
+        parameterSet,
+        s: this.packVector(s, this.COEFFICIENT_BITS),
+        publicKey,
+        publicKeyHash: this.hashPublicKey(publicKey),
+        rejectionSeed
+      },
+      publicKey
+    }
+  }
+
+  /**
+   * Encapsulate a fresh shared secret to a public key
+   * @param publicKey - Encapsulation key of the recipient
+   * @param random - Random source for the encapsulated message
+   * @returns Ciphertext and shared secret
+   */
+  public static encapsulate(publicKey: KEMPublicKey, random: RandomSource = new SystemRandom()): KEMEncapsulation {
+    const parameters = this.getParameterSet(publicKey.parameterSet)
+    this.validatePublicKey(parameters, publicKey)
+    const message = random.randomBytes(this.SEED_LENGTH)
+    const derived = QuantumCrypto.hash(Buffer.concat([message, this.hashPublicKey(publicKey)]), 'sha512')
+    return {
+      ciphertext: this.encrypt(parameters, publicKey, message, derived.subarray(this.SEED_LENGTH)),
+      sharedSecret: derived.subarray(0, this.SEED_LENGTH)
+    }
+  }
+
+  /**
+   * Decapsulate shared secret
+   * Invalid ciphertexts of the correct length yield a pseudorandom secret instead of an error
+   * @param ciphertext - Ciphertext from encapsulation
+   * @param privateKey - Decapsulation key
+   * @returns 32-byte shared secret
+   */
+  public static decapsulate(ciphertext: Buffer, privateKey: KEMPrivateKey): Buffer {
+    const parameters = this.getParameterSet(privateKey.parameterSet)
+    if (ciphertext.length !== this.getCiphertextSize(parameters.name)) {
+      throw new Error('Invalid KEM ciphertext length')
+    }
+    const message = this.decrypt(parameters, privateKey.s, ciphertext)
+    const derived = QuantumCrypto.hash(Buffer.concat([message, privateKey.publicKeyHash]), 'sha512')
+    const reencrypted = this.encrypt(parameters, privateKey.publicKey, message, derived.subarray(this.SEED_LENGTH))
+    const rejected = QuantumCrypto.expandSeed(Buffer.concat([privateKey.rejectionSeed, ciphertext]), this.SEED_LENGTH)
+    return timingSafeEqual(reencrypted, ciphertext) ? derived.subarray(0, this.SEED_LENGTH) : rejected
+  }
+
+  /**
+   * Compress coefficient to a number of bits (round(2^bits / q · x) mod 2^bits)
+   * @param value - Coefficient in [0, q)
+   * @param bits - Bits of the compressed value
+   * @returns Compressed value
+   */
+  public static compress(value: number, bits: number): number {
+    return Math.floor((value * 2 ** bits + (this.MODULUS - 1) / 2) / this.MODULUS) % 2 ** bits
+  }
+
+  /**
+   * Decompress value back to a coefficient (round(q / 2^bits · y))
+   * @param value - Compressed value
+   * @param bits - Bits of the compressed value
+   * @returns Coefficient in [0, q)
+   */
+  public static decompress(value: number, bits: number): number {
+    return Math.floor((value * this.MODULUS + 2 ** (bits - 1)) / 2 ** bits)
+  }
+
+  /**
+   * Get parameter set
+   * @param parameterSet - Parameter set name
+   * @returns Parameters
+   */
+  public static getParameterSet(parameterSet: KEMParameterSet): KEMParameters {
+    const parameters = this.PARAMETER_SETS[parameterSet]
+    if (!parameters) {
+      throw new Error(`Unsupported KEM parameter set: ${parameterSet}`)
+    }
+    return { ...parameters }
+  }
+
+  /**
+   * Get encoded public key size in bytes
+   * @param parameterSet - Parameter set name
+   * @returns Size of t and the matrix seed
+   */
+  public static getPublicKeySize(parameterSet: KEMParameterSet): number {
+    const { rank } = this.getParameterSet(parameterSet)
+    return (rank * this.DEGREE * this.COEFFICIENT_BITS) / 8 + this.SEED_LENGTH
+  }
+
+  /**
+   * Get ciphertext size in bytes
+   * @param parameterSet - Parameter set name
+   * @returns Size of the compressed u and v
+   */
+  public static getCiphertextSize(parameterSet: KEMParameterSet): number {
+    const { rank, du, dv } = this.getParameterSet(parameterSet)
+    return (this.DEGREE * (rank * du + dv)) / 8
+  }
+
+  /**
+   * Measure encapsulation and decapsulation for a parameter set
+   * @param parameterSet - Parameter set name
+   * @returns Measured times, ciphertext size and memory usage
+   */
+  public static getPerformanceMetrics(parameterSet: KEMParameterSet = this.DEFAULT_PARAMETER_SET): PerformanceMetrics {
+    const { privateKey, publicKey } = this.generateKeyPair(parameterSet)
+    const startMemory = process.memoryUsage().heapUsed
+    const encapsulateStart = performance.now()
+    const { ciphertext } = this.encapsulate(publicKey)
+    const generationTime = performance.now() - encapsulateStart
+    const decapsulateStart = performance.now()
+    this.decapsulate(ciphertext, privateKey)
+    const verificationTime = performance.now() - decapsulateStart
+    return {
+      generationTime,
+      verificationTime,
+      proofSize: this.getCiphertextSize(parameterSet),
+      memoryUsage: Math.max(0, process.memoryUsage().heapUsed - startMemory)
+    }
+  }
+
+  /**
+   * Encrypt a 32-byte message with explicit randomness (K-PKE.Encrypt)
+   * @param parameters - Parameters
+   * @param publicKey - Encapsulation key
+   * @param message - Message bits
+   * @param randomness - Seed of the encryption noise
+   * @returns Ciphertext holding compressed u followed by compressed v
+   */
+  private static encrypt(
+    parameters: KEMParameters,
+    publicKey: KEMPublicKey,
+    message: Buffer,
+    randomness: Buffer
+  ): Buffer {
+    const { rank, eta1, eta2, du, dv } = parameters
+    const matrix = this.expandMatrix(publicKey.seed, rank)
+    const t = this.unpackVector(publicKey.t, rank, this.COEFFICIENT_BITS)
+    const r = this.sampleNoiseVector(randomness, 0, rank, eta1)
+    const e1 = this.sampleNoiseVector(randomness, rank, rank, eta2)
+    const [e2] = this.sampleNoiseVector(randomness, 2 * rank, 1, eta2)
+    const u = e1.map((error, j) =>
+      this.ring.add(
+        this.innerProduct(
+          matrix.map(row => row[j]),
+          r
+        ),
+        error
+      )
+    )
+    const encoded = QuantumCrypto.unpackBits(message, 1, this.DEGREE).map(bit => BigInt(this.decompress(bit, 1)))
+    const v = this.ring.add(this.ring.add(this.innerProduct(t, r), e2), encoded)
+    return Buffer.concat([
+      QuantumCrypto.packBits(
+        u.flatMap(polynomial => this.compressPolynomial(polynomial, du)),
+        du
+      ),
+      QuantumCrypto.packBits(this.compressPolynomial(v, dv), dv)
+    ])
+  }
+
+  /**
+   * Decrypt ciphertext (K-PKE.Decrypt)
+   * @param parameters - Parameters
+   * @param packedSecret - Packed secret vector s
+   * @param ciphertext - Ciphertext
+   * @returns Message bits
+   */
+  private static decrypt(parameters: KEMParameters, packedSecret: Buffer, ciphertext: Buffer): Buffer {
+    const { rank, du, dv } = parameters
+    const uLength = (rank * this.DEGREE * du) / 8
+    const u = this.decompressVector(ciphertext.subarray(0, uLength), rank, du)
+    const [v] = this.decompressVector(ciphertext.subarray(uLength), 1, dv)
+    const s = this.unpackVector(packedSecret, rank, this.COEFFICIENT_BITS)
+    const w = this.ring.subtract(v, this.innerProduct(s, u))
+    return QuantumCrypto.packBits(this.compressPolynomial(w, 1), 1)
+  }
+
+  /**
+   * Expand public matrix A from a seed by rejection sampling the SHAKE256 stream
+   * @param seed - Matrix seed
+   * @param rank - Module rank
+   * @returns Matrix of uniform polynomials mod q
+   */
+  private static expandMatrix(seed: Buffer, rank: number): bigint[][][] {
+    return Array.from({ length: rank }, (_, i) =>
+      Array.from({ length: rank }, (_, j) => this.sampleUniformPolynomial(Buffer.concat([seed, Buffer.from([j, i])])))
+    )
+  }
+
+  /**
+   * Sample uniform polynomial from an XOF stream
+   * @param input - XOF input
+   * @returns Polynomial with coefficients uniform in [0, q)
+   */
+  private static sampleUniformPolynomial(input: Buffer): bigint[] {
+    const source = new SeededRandom(input)
+    return Array.from({ length: this.DEGREE }, () => DiscreteSampler.sampleUniform(0n, this.ring.modulus, source))
+  }
+
+  /**
+   * Sample vector of centered binomial polynomials
+   * @param seed - Noise seed
+   * @param nonce - Nonce of the first polynomial
+   * @param count - Number of polynomials
+   * @param eta - Binomial parameter
+   * @returns Polynomials with coefficients in [-eta, eta] mod q
+   */
+  private static sampleNoiseVector(seed: Buffer, nonce: number, count: number, eta: number): bigint[][] {
+    return Array.from({ length: count }, (_, i) => {
+      const source = new SeededRandom(Buffer.concat([seed, Buffer.from([nonce + i])]))
+      return Array.from({ length: this.DEGREE }, () =>
+        this.ring.reduce(DiscreteSampler.sampleCenteredBinomial(eta, source))
+      )
+    })
+  }
+
+  /**
+   * Compute inner product of two polynomial vectors
+   * @param a - First vector
+   * @param b - Second vector
+   * @returns Sum of a[i]·b[i]
+   */
+  private static innerProduct(a: bigint[][], b: bigint[][]): bigint[] {
+    return a.reduce((sum, polynomial, i) => this.ring.add(sum, this.ring.multiply(polynomial, b[i])), this.ring.zero())
+  }
+
+  /**
+   * Compress every coefficient of a polynomial
+   * @param polynomial - Polynomial mod q
+   * @param bits - Bits per coefficient
+   * @returns Compressed coefficients
+   */
+  private static compressPolynomial(polynomial: bigint[], bits: number): number[] {
+    return polynomial.map(value => this.compress(Number(value), bits))
+  }
+
+  /**
+   * Unpack and decompress polynomial vector
+   * @param buffer - Packed compressed coefficients
+   * @param count - Number of polynomials
+   * @param bits - Bits per coefficient
+   * @returns Decompressed polynomials
+   */
+  private static decompressVector(buffer: Buffer, count: number, bits: number): bigint[][] {
+    return this.unpackVector(buffer, count, bits).map(polynomial =>
+      polynomial.map(value => BigInt(this.decompress(Number(value), bits)))
+    )
+  }
+
+  /**
+   * Pack polynomial vector with a fixed number of bits per coefficient
+   * @param vector - Polynomials with coefficients below 2^bits
+   * @param bits - Bits per coefficient
+   * @returns Packed buffer
+   */
+  private static packVector(vector: bigint[][], bits: number): Buffer {
+    return QuantumCrypto.packBits(
+      vector.flatMap(polynomial => polynomial.map(Number)),
+      bits
+    )
+  }
+
+  /**
+   * Unpack polynomial vector with a fixed number of bits per coefficient
+   * @param buffer - Packed buffer
+   * @param count - Number of polynomials
+   * @param bits - Bits per coefficient
+   * @returns Polynomials reduced mod q
+   */
+  private static unpackVector(buffer: Buffer, count: number, bits: number): bigint[][] {
+    const values = QuantumCrypto.unpackBits(buffer, bits, count * this.DEGREE)
+    return Array.from({ length: count }, (_, i) =>
+      this.ring.fromCoefficients(values.slice(i * this.DEGREE, (i + 1) * this.DEGREE))
+    )
+  }
+
+  /**
+   * Hash encoded public key (H)
+   * @param publicKey - Encapsulation key
+   * @returns SHA-256 digest of t and the matrix seed
+   */
+  private static hashPublicKey(publicKey: KEMPublicKey): Buffer {
+    return QuantumCrypto.hash(Buffer.concat([publicKey.t, publicKey.seed]), 'sha256')
+  }
+
+  /**
+   * Validate encapsulation key encoding
+   * @param parameters - Parameters
+   * @param publicKey - Encapsulation key
+   */
+  private static validatePublicKey(parameters: KEMParameters, publicKey: KEMPublicKey): void {
+    const expectedLength = this.getPublicKeySize(parameters.name) - this.SEED_LENGTH
+    if (
+      !(publicKey.seed instanceof Buffer) ||
+      publicKey.seed.length !== this.SEED_LENGTH ||
+      !(publicKey.t instanceof Buffer) ||
+      publicKey.t.length !== expectedLength ||
+      QuantumCrypto.unpackBits(publicKey.t, this.COEFFICIENT_BITS, parameters.rank * this.DEGREE).some(
+        value => value >= this.MODULUS
+      )
+    ) {
+      throw new Error('Invalid KEM public key')
+    }
+  }
+}
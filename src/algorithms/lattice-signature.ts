@@ -0,0 +1,650 @@
+/**
+ * Module-lattice signatures (Dilithium-style)
+ * @author NeaByteLab
+ */
+
+import { QuantumCrypto } from '@utils/crypto'
+import { DiscreteSampler } from '@utils/discrete-sampler'
+import { PolynomialRing } from '@utils/polynomial-ring'
+import { SeededRandom, SystemRandom } from '@utils/random'
+import type {
+  DilithiumParameterSet,
+  DilithiumParameters,
+  DilithiumPrivateKey,
+  DilithiumPublicKey,
+  DilithiumSignature,
+  PerformanceMetrics,
+  RandomSource
+} from '../types'
+
+/**
+ * Secret vectors in NTT form used while signing
+ */
+interface SigningVectors {
+  s1: bigint[][]
+  s2: bigint[][]
+  t0: bigint[][]
+}
+
+/**
+ * Dilithium-style signatures over the module Z_8380417[x]/(x^256 + 1)^k
+ * Signing is Fiat-Shamir with aborts: a masked response z = y + c·s1 is only released when it and the
+ * low bits of w - c·s2 are small enough to hide the secret. The public key drops the low bits t0 of t,
+ * so signatures carry hints that let the verifier recover the high bits of w. Educational: SHAKE256
+ * replaces the FIPS 204 hash and XOF instances
+ */
+export class LatticeSignature {
+  private static readonly DEFAULT_PARAMETER_SET: DilithiumParameterSet = 'dilithium-2'
+  private static readonly DEGREE = 256
+  private static readonly MODULUS = 8380417
+  private static readonly DROPPED_BITS = 13
+  private static readonly T1_BITS = 10
+  private static readonly SEED_LENGTH = 32
+  private static readonly DIGEST_LENGTH = 64
+  private static readonly MAX_SIGNING_ATTEMPTS = 1000
+  private static readonly ring = new PolynomialRing(LatticeSignature.DEGREE, BigInt(LatticeSignature.MODULUS))
+  private static readonly PARAMETER_SETS: Record<DilithiumParameterSet, DilithiumParameters> = {
+    'dilithium-2': {
+      name: 'dilithium-2',
+      rows: 4,
+      columns: 4,
+      eta: 2,
+      tau: 39,
+      gamma1: 2 ** 17,
+      gamma2: (LatticeSignature.MODULUS - 1) / 88,
+      omega: 80,
+      challengeLength: 32
+    },
+    'dilithium-3': {
+      name: 'dilithium-3',
+      rows: 6,
+      columns: 5,
+      eta: 4,
+      tau: 49,
+      gamma1: 2 ** 19,
+      gamma2: (LatticeSignature.MODULUS - 1) / 32,
+      omega: 55,
+      challengeLength: 48
+    },
+    'dilithium-5': {
+      name: 'dilithium-5',
+      rows: 8,
+      columns: 7,
+      eta: 2,
+      tau: 60,
+      gamma1: 2 ** 19,
+      gamma2: (LatticeSignature.MODULUS - 1) / 32,
+      omega: 75,
+      challengeLength: 64
+    }
+  }
+
+  /**
+   * Generate key pair
+   * @param parameterSet - Parameter set
+   * @param seed - Optional seed for deterministic key generation
+   * @returns Private and public key
+   */
+  public static generateKeyPair(
+    parameterSet: DilithiumParameterSet = this.DEFAULT_PARAMETER_SET,
+    seed?: Buffer
+  ): { privateKey: DilithiumPrivateKey; publicKey: DilithiumPublicKey } {
+    const parameters = this.getParameterSet(parameterSet)
+    const { rows, columns, eta } = parameters
+    const source = seed ?? QuantumCrypto.generateRandomBytes(this.SEED_LENGTH)
+    const expanded = QuantumCrypto.expandSeed(Buffer.concat([source, Buffer.from([rows, columns])]), 128)
+    const matrixSeed = expanded.subarray(0, this.SEED_LENGTH)
+    const noiseSeed = expanded.subarray(this.SEED_LENGTH, 96)
+    const signingKey = expanded.subarray(96)
+    const matrix = this.expandMatrix(matrixSeed, parameters)
+    const s1 = this.sampleSecretVector(noiseSeed, 0, columns, eta)
+    const s2 = this.sampleSecretVector(noiseSeed, columns, rows, eta)
+    const t = this.multiplyMatrix(
+      matrix,
+      s1.map(polynomial => this.ring.ntt(polynomial))
+    ).map((polynomial, i) => this.ring.add(polynomial, s2[i]))
+    const rounded = t.map(polynomial => polynomial.map(value => this.power2Round(Number(value))))
+    const publicKey: DilithiumPublicKey = {
+      parameterSet,
+      seed: matrixSeed,
+      t1: QuantumCrypto.packBits(
+        rounded.flatMap(polynomial => polynomial.map(({ high }) => high)),
+        this.T1_BITS
+      )
+    }
+    const etaBits = this.getBitLength(2 * eta)
+    return {
+      privateKey: {
+        parameterSet,
+        seed: matrixSeed,
+        signingKey,
+        publicKeyHash: this.hashPublicKey(publicKey),
+        s1: this.packCentered(s1, eta, etaBits),
+        s2: this.packCentered(s2, eta, etaBits),
+        t0: this.packCentered(
+          rounded.map(polynomial => polynomial.map(({ low }) => BigInt(low))),
+          2 ** (this.DROPPED_BITS - 1),
+          this.DROPPED_BITS
+        )
+      },
+      publicKey
+    }
+  }
+
+  /**
+   * Sign message
+   * @param message - Message to sign
+   * @param privateKey - Private key
+   * @param random - Random source hedging the mask seed
+   * @returns Lattice signature
+   */
+  public static sign(
+    message: Buffer | string,
+    privateKey: DilithiumPrivateKey,
+    random: RandomSource = new SystemRandom()
+  ): DilithiumSignature {
+    const parameters = this.getParameterSet(privateKey.parameterSet)
+    const { rows, columns, eta } = parameters
+    const messageBuffer = typeof message === 'string' ? Buffer.from(message, 'utf8') : message
+    const etaBits = this.getBitLength(2 * eta)
+    const toNTT = (polynomial: bigint[]): bigint[] => this.ring.ntt(polynomial)
+    const vectors: SigningVectors = {
+      s1: this.unpackCentered(privateKey.s1, columns, eta, etaBits).map(toNTT),
+      s2: this.unpackCentered(privateKey.s2, rows, eta, etaBits).map(toNTT),
+      t0: this.unpackCentered(privateKey.t0, rows, 2 ** (this.DROPPED_BITS - 1), this.DROPPED_BITS).map(toNTT)
+    }
+    const matrix = this.expandMatrix(privateKey.seed, parameters)
+    const digest = this.hashMessage(privateKey.publicKeyHash, messageBuffer)
+    const maskSeed = QuantumCrypto.expandSeed(
+      Buffer.concat([privateKey.signingKey, random.randomBytes(this.SEED_LENGTH), digest]),
+      this.DIGEST_LENGTH
+    )
+    for (let attempt = 0; attempt < this.MAX_SIGNING_ATTEMPTS; attempt++) {
+      const signature = this.attemptSignature(parameters, matrix, vectors, digest, maskSeed, attempt)
+      if (signature) {
+        return signature
+      }
+    }
+    throw new Error('Rejection sampling did not converge')
+  }
+
+  /**
+   * Verify signature
+   * @param message - Signed message
+   * @param signature - Lattice signature
+   * @param publicKey - Public key
+   * @returns True if signature is valid
+   */
+  public static verify(
+    message: Buffer | string,
+    signature: DilithiumSignature,
+    publicKey: DilithiumPublicKey
+  ): boolean {
+    const parameters = this.PARAMETER_SETS[publicKey.parameterSet]
+    if (!parameters || !this.hasValidStructure(parameters, signature, publicKey)) {
+      return false
+    }
+    const { rows, columns, tau, gamma1, gamma2 } = parameters
+    const hints = this.unpackHints(signature.hint, parameters)
+    const z = this.unpackCentered(signature.z, columns, gamma1, this.getBitLength(gamma1))
+    if (!hints || z.some(polynomial => this.ring.infinityNorm(polynomial) >= this.getResponseBound(parameters))) {
+      return false
+    }
+    const matrix = this.expandMatrix(publicKey.seed, parameters)
+    const t1 = this.unpackVector(publicKey.t1, rows, this.T1_BITS)
+    const c = this.ring.ntt(this.sampleChallenge(signature.challenge, tau))
+    const scale = BigInt(2 ** this.DROPPED_BITS)
+    const w = this.multiplyMatrix(
+      matrix,
+      z.map(polynomial => this.ring.ntt(polynomial))
+    ).map((polynomial, i) => {
+      const ct1 = this.ring.pointwiseMultiply(c, this.ring.ntt(this.ring.scalarMultiply(t1[i], scale)))
+      return this.ring.subtract(polynomial, this.ring.inverseNTT(ct1))
+    })
+    const w1 = w.map((polynomial, i) =>
+      polynomial.map((value, k) => this.useHint(hints[i][k] === 1, Number(value), gamma2))
+    )
+    const messageBuffer = typeof message === 'string' ? Buffer.from(message, 'utf8') : message
+    const digest = this.hashMessage(this.hashPublicKey(publicKey), messageBuffer)
+    return this.hashCommitment(digest, w1, parameters).equals(signature.challenge)
+  }
+
+  /**
+   * Get parameter set
+   * @param parameterSet - Parameter set name
+   * @returns Parameters
+   */
+  public static getParameterSet(parameterSet: DilithiumParameterSet): DilithiumParameters {
+    const parameters = this.PARAMETER_SETS[parameterSet]
+    if (!parameters) {
+      throw new Error(`Unsupported Dilithium parameter set: ${parameterSet}`)
+    }
+    return { ...parameters }
+  }
+
+  /**
+   * Get signature size in bytes
+   * @param parameterSet - Parameter set name
+   * @returns Size of the challenge, packed z and hint
+   */
+  public static getSignatureSize(parameterSet: DilithiumParameterSet): number {
+    const { rows, columns, gamma1, omega, challengeLength } = this.getParameterSet(parameterSet)
+    return challengeLength + (columns * this.DEGREE * this.getBitLength(gamma1)) / 8 + omega + rows
+  }
+
+  /**
+   * Get public key size in bytes
+   * @param parameterSet - Parameter set name
+   * @returns Size of the matrix seed and packed t1
+   */
+  public static getPublicKeySize(parameterSet: DilithiumParameterSet): number {
+    const { rows } = this.getParameterSet(parameterSet)
+    return this.SEED_LENGTH + (rows * this.DEGREE * this.T1_BITS) / 8
+  }
+
+  /**
+   * Measure signing and verification for a parameter set
+   * @param parameterSet - Parameter set name
+   * @returns Measured times, signature size and memory usage
+   */
+  public static getPerformanceMetrics(
+    parameterSet: DilithiumParameterSet = this.DEFAULT_PARAMETER_SET
+  ): PerformanceMetrics {
+    const { privateKey, publicKey } = this.generateKeyPair(parameterSet)
+    const message = Buffer.from('performance-test-message')
+    const startMemory = process.memoryUsage().heapUsed
+    const signStart = performance.now()
+    const signature = this.sign(message, privateKey)
+    const generationTime = performance.now() - signStart
+    const verifyStart = performance.now()
+    this.verify(message, signature, publicKey)
+    const verificationTime = performance.now() - verifyStart
+    return {
+      generationTime,
+      verificationTime,
+      proofSize: this.getSignatureSize(parameterSet),
+      memoryUsage: Math.max(0, process.memoryUsage().heapUsed - startMemory)
+    }
+  }
+
+  /**
+   * Run one signing attempt
+   * @param parameters - Parameters
+   * @param matrix - Public matrix A in NTT form
+   * @param vectors - Secret vectors in NTT form
+   * @param digest - Message digest
+   * @param maskSeed - Seed of the masking vectors
+   * @param attempt - Attempt counter
+   * @returns Signature, or null if the attempt is rejected
+   */
+  private static attemptSignature(
+    parameters: DilithiumParameters,
+    matrix: bigint[][][],
+    vectors: SigningVectors,
+    digest: Buffer,
+    maskSeed: Buffer,
+    attempt: number
+  ): DilithiumSignature | null {
+    const { columns, tau, eta, gamma1, gamma2, omega } = parameters
+    const y = Array.from({ length: columns }, (_, j) =>
+      this.sampleMaskPolynomial(maskSeed, attempt * columns + j, gamma1)
+    )
+    const w = this.multiplyMatrix(
+      matrix,
+      y.map(polynomial => this.ring.ntt(polynomial))
+    )
+    const w1 = w.map(polynomial => polynomial.map(value => this.decompose(Number(value), gamma2).high))
+    const challenge = this.hashCommitment(digest, w1, parameters)
+    const c = this.ring.ntt(this.sampleChallenge(challenge, tau))
+    const times = (polynomial: bigint[]): bigint[] => this.ring.inverseNTT(this.ring.pointwiseMultiply(c, polynomial))
+    const z = y.map((polynomial, j) => this.ring.add(polynomial, times(vectors.s1[j])))
+    if (z.some(polynomial => this.ring.infinityNorm(polynomial) >= this.getResponseBound(parameters))) {
+      return null
+    }
+    const lowBound = gamma2 - tau * eta
+    const r = w.map((polynomial, i) => this.ring.subtract(polynomial, times(vectors.s2[i])))
+    if (
+      r.some(polynomial => polynomial.some(value => Math.abs(this.decompose(Number(value), gamma2).low) >= lowBound))
+    ) {
+      return null
+    }
+    const ct0 = vectors.t0.map(times)
+    if (ct0.some(polynomial => this.ring.infinityNorm(polynomial) >= BigInt(gamma2))) {
+      return null
+    }
+    const hints = r.map((polynomial, i) =>
+      this.ring
+        .add(polynomial, ct0[i])
+        .map((value, k) =>
+          this.decompose(Number(value), gamma2).high !== this.decompose(Number(polynomial[k]), gamma2).high ? 1 : 0
+        )
+    )
+    if (hints.flat().filter(Boolean).length > omega) {
+      return null
+    }
+    return {
+      challenge,
+      z: this.packCentered(z, gamma1, this.getBitLength(gamma1)),
+      hint: this.packHints(hints, parameters)
+    }
+  }
+
+  /**
+   * Expand public matrix A in NTT form from a seed by rejection sampling the SHAKE256 stream
+   * @param seed - Matrix seed
+   * @param parameters - Parameters
+   * @returns Matrix of uniform polynomials mod q
+   */
+  private static expandMatrix(seed: Buffer, parameters: DilithiumParameters): bigint[][][] {
+    return Array.from({ length: parameters.rows }, (_, i) =>
+      Array.from({ length: parameters.columns }, (_, j) =>
+        this.sampleUniformPolynomial(Buffer.concat([seed, Buffer.from([j, i])]))
+      )
+    )
+  }
+
+  /**
+   * Sample uniform polynomial from an XOF stream
+   * @param input - XOF input
+   * @returns Polynomial with coefficients uniform in [0, q)
+   */
+  private static sampleUniformPolynomial(input: Buffer): bigint[] {
+    const source = new SeededRandom(input)
+    return Array.from({ length: this.DEGREE }, () => DiscreteSampler.sampleUniform(0n, this.ring.modulus, source))
+  }
+
+  /**
+   * Sample vector of polynomials with coefficients uniform in [-eta, eta]
+   * @param seed - Noise seed
+   * @param nonce - Nonce of the first polynomial
+   * @param count - Number of polynomials
+   * @param eta - Coefficient bound
+   * @returns Short polynomials mod q
+   */
+  private static sampleSecretVector(seed: Buffer, nonce: number, count: number, eta: number): bigint[][] {
+    return Array.from({ length: count }, (_, i) => {
+      const source = new SeededRandom(Buffer.concat([seed, this.encodeNonce(nonce + i)]))
+      return Array.from({ length: this.DEGREE }, () =>
+        this.ring.reduce(DiscreteSampler.sampleUniform(BigInt(-eta), BigInt(eta + 1), source))
+      )
+    })
+  }
+
+  /**
+   * Sample masking polynomial with coefficients in (-gamma1, gamma1]
+   * @param seed - Masking seed
+   * @param nonce - Polynomial nonce
+   * @param gamma1 - Coefficient bound
+   * @returns Masking polynomial mod q
+   */
+  private static sampleMaskPolynomial(seed: Buffer, nonce: number, gamma1: number): bigint[] {
+    const source = new SeededRandom(Buffer.concat([seed, this.encodeNonce(nonce)]))
+    return Array.from({ length: this.DEGREE }, () =>
+      this.ring.reduce(DiscreteSampler.sampleUniform(BigInt(1 - gamma1), BigInt(gamma1 + 1), source))
+    )
+  }
+
+  /**
+   * Sample challenge polynomial with tau coefficients in {-1, 1} (SampleInBall)
+   * @param challenge - Challenge hash
+   * @param tau - Number of nonzero coefficients
+   * @returns Sparse ternary polynomial mod q
+   */
+  private static sampleChallenge(challenge: Buffer, tau: number): bigint[] {
+    const c = this.ring.zero()
+    const stream = QuantumCrypto.expandSeed(challenge, 8 + 4 * this.DEGREE)
+    let signs = stream.readBigUInt64LE(0)
+    let offset = 8
+    for (let i = this.DEGREE - tau; i < this.DEGREE; i++) {
+      let j = stream[offset++]
+      while (j > i) {
+        j = stream[offset++]
+      }
+      c[i] = c[j]
+      c[j] = signs & 1n ? this.ring.modulus - 1n : 1n
+      signs >>= 1n
+    }
+    return c
+  }
+
+  /**
+   * Multiply matrix by vector in NTT form
+   * @param matrix - Matrix in NTT form
+   * @param vector - Vector in NTT form
+   * @returns Product in coefficient form
+   */
+  private static multiplyMatrix(matrix: bigint[][][], vector: bigint[][]): bigint[][] {
+    return matrix.map(row =>
+      this.ring.inverseNTT(
+        row.reduce(
+          (sum, entry, j) => this.ring.add(sum, this.ring.pointwiseMultiply(entry, vector[j])),
+          this.ring.zero()
+        )
+      )
+    )
+  }
+
+  /**
+   * Split coefficient into high and low bits t = t1·2^d + t0 (Power2Round)
+   * @param value - Coefficient in [0, q)
+   * @returns High bits and centered low bits
+   */
+  private static power2Round(value: number): { high: number; low: number } {
+    const scale = 2 ** this.DROPPED_BITS
+    let low = value % scale
+    if (low > scale / 2) {
+      low -= scale
+    }
+    return { high: (value - low) / scale, low }
+  }
+
+  /**
+   * Split coefficient into high and low bits modulo 2·gamma2 (Decompose)
+   * @param value - Coefficient in [0, q)
+   * @param gamma2 - Low-order rounding range
+   * @returns High bits and centered low bits
+   */
+  private static decompose(value: number, gamma2: number): { high: number; low: number } {
+    const alpha = 2 * gamma2
+    let low = value % alpha
+    if (low > gamma2) {
+      low -= alpha
+    }
+    if (value - low === this.MODULUS - 1) {
+      return { high: 0, low: low - 1 }
+    }
+    return { high: (value - low) / alpha, low }
+  }
+
+  /**
+   * Recover high bits of a coefficient using a hint bit (UseHint)
+   * @param hint - Hint bit
+   * @param value - Coefficient in [0, q)
+   * @param gamma2 - Low-order rounding range
+   * @returns Corrected high bits
+   */
+  private static useHint(hint: boolean, value: number, gamma2: number): number {
+    const levels = (this.MODULUS - 1) / (2 * gamma2)
+    const { high, low } = this.decompose(value, gamma2)
+    if (!hint) {
+      return high
+    }
+    return low > 0 ? (high + 1) % levels : (high - 1 + levels) % levels
+  }
+
+  /**
+   * Hash message digest and commitment high bits into the challenge
+   * @param digest - Message digest
+   * @param w1 - High bits of the commitment
+   * @param parameters - Parameters
+   * @returns Challenge hash
+   */
+  private static hashCommitment(digest: Buffer, w1: number[][], parameters: DilithiumParameters): Buffer {
+    const bits = this.getBitLength((this.MODULUS - 1) / (2 * parameters.gamma2) - 1)
+    const encoded = QuantumCrypto.packBits(w1.flat(), bits)
+    return QuantumCrypto.expandSeed(Buffer.concat([digest, encoded]), parameters.challengeLength)
+  }
+
+  /**
+   * Hash message under a public key
+   * @param publicKeyHash - Hash of the public key
+   * @param message - Message
+   * @returns Message digest
+   */
+  private static hashMessage(publicKeyHash: Buffer, message: Buffer): Buffer {
+    return QuantumCrypto.expandSeed(Buffer.concat([publicKeyHash, message]), this.DIGEST_LENGTH)
+  }
+
+  /**
+   * Hash encoded public key
+   * @param publicKey - Public key
+   * @returns Public key hash
+   */
+  private static hashPublicKey(publicKey: DilithiumPublicKey): Buffer {
+    return QuantumCrypto.expandSeed(Buffer.concat([publicKey.seed, publicKey.t1]), this.DIGEST_LENGTH)
+  }
+
+  /**
+   * Pack hint bits as positions plus a running count per polynomial
+   * @param hints - Hint bits per polynomial
+   * @param parameters - Parameters
+   * @returns Packed hint of omega + k bytes
+   */
+  private static packHints(hints: number[][], parameters: DilithiumParameters): Buffer {
+    const buffer = Buffer.alloc(parameters.omega + parameters.rows)
+    let index = 0
+    hints.forEach((polynomial, i) => {
+      polynomial.forEach((bit, k) => {
+        if (bit) {
+          buffer[index++] = k
+        }
+      })
+      buffer[parameters.omega + i] = index
+    })
+    return buffer
+  }
+
+  /**
+   * Unpack hint bits, rejecting non-canonical encodings
+   * @param buffer - Packed hint
+   * @param parameters - Parameters
+   * @returns Hint bits per polynomial, or null if the encoding is malformed
+   */
+  private static unpackHints(buffer: Buffer, parameters: DilithiumParameters): number[][] | null {
+    const { rows, omega } = parameters
+    const hints = Array.from({ length: rows }, () => new Array<number>(this.DEGREE).fill(0))
+    let index = 0
+    for (let i = 0; i < rows; i++) {
+      const end = buffer[omega + i]
+      if (end < index || end > omega) {
+        return null
+      }
+      for (let j = index; j < end; j++) {
+        if (j > index && buffer[j] <= buffer[j - 1]) {
+          return null
+        }
+        hints[i][buffer[j]] = 1
+      }
+      index = end
+    }
+    return buffer.subarray(index, omega).every(byte => byte === 0) ? hints : null
+  }
+
+  /**
+   * Pack polynomial vector of centered coefficients as bound - x
+   * @param vector - Polynomials mod q with centered coefficients in (bound - 2^bits, bound]
+   * @param bound - Coefficient bound
+   * @param bits - Bits per coefficient
+   * @returns Packed buffer
+   */
+  private static packCentered(vector: bigint[][], bound: number, bits: number): Buffer {
+    return QuantumCrypto.packBits(
+      vector.flatMap(polynomial => polynomial.map(value => bound - Number(this.ring.center(value)))),
+      bits
+    )
+  }
+
+  /**
+   * Unpack polynomial vector packed as bound - x
+   * @param buffer - Packed buffer
+   * @param count - Number of polynomials
+   * @param bound - Coefficient bound
+   * @param bits - Bits per coefficient
+   * @returns Polynomials mod q
+   */
+  private static unpackCentered(buffer: Buffer, count: number, bound: number, bits: number): bigint[][] {
+    return this.unpackVector(buffer, count, bits).map(polynomial =>
+      polynomial.map(value => this.ring.reduce(bound - Number(value)))
+    )
+  }
+
+  /**
+   * Unpack polynomial vector with a fixed number of bits per coefficient
+   * @param buffer - Packed buffer
+   * @param count - Number of polynomials
+   * @param bits - Bits per coefficient
+   * @returns Polynomials mod q
+   */
+  private static unpackVector(buffer: Buffer, count: number, bits: number): bigint[][] {
+    const values = QuantumCrypto.unpackBits(buffer, bits, count * this.DEGREE)
+    return Array.from({ length: count }, (_, i) =>
+      this.ring.fromCoefficients(values.slice(i * this.DEGREE, (i + 1) * this.DEGREE))
+    )
+  }
+
+  /**
+   * Validate signature and public key encodings
+   * @param parameters - Parameters
+   * @param signature - Signature
+   * @param publicKey - Public key
+   * @returns True if every field has the expected length
+   */
+  private static hasValidStructure(
+    parameters: DilithiumParameters,
+    signature: DilithiumSignature,
+    publicKey: DilithiumPublicKey
+  ): boolean {
+    const { rows, columns, gamma1, omega, challengeLength } = parameters
+    return (
+      publicKey.seed instanceof Buffer &&
+      publicKey.seed.length === this.SEED_LENGTH &&
+      publicKey.t1 instanceof Buffer &&
+      publicKey.t1.length === (rows * this.DEGREE * this.T1_BITS) / 8 &&
+      signature.challenge instanceof Buffer &&
+      signature.challenge.length === challengeLength &&
+      signature.z instanceof Buffer &&
+      signature.z.length === (columns * this.DEGREE * this.getBitLength(gamma1)) / 8 &&
+      signature.hint instanceof Buffer &&
+      signature.hint.length === omega + rows
+    )
+  }
+
+  /**
+   * Get rejection bound gamma1 - beta of the response
+   * @param parameters - Parameters
+   * @returns Exclusive bound on the infinity norm of z
+   */
+  private static getResponseBound(parameters: DilithiumParameters): bigint {
+    return BigInt(parameters.gamma1 - parameters.tau * parameters.eta)
+  }
+
+  /**
+   * Encode polynomial nonce as two little-endian bytes
+   * @param nonce - Nonce
+   * @returns Encoded nonce
+   */
+  private static encodeNonce(nonce: number): Buffer {
+    const buffer = Buffer.alloc(2)
+    buffer.writeUInt16LE(nonce)
+    return buffer
+  }
+
+  /**
+   * Get number of bits needed to represent a value
+   * @param value - Non-negative value
+   * @returns Bit length
+   */
+  private static getBitLength(value: number): number {
+    return value.toString(2).length
+  }
+}
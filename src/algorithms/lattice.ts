@@ -4,7 +4,10 @@
  */
 
 import { QuantumCrypto } from '@utils/crypto'
-import type { LatticeProof, ProofParameters } from '../types'
+import { DiscreteSampler } from '@utils/discrete-sampler'
+import { PolynomialRing } from '@utils/polynomial-ring'
+import { SeededRandom } from '@utils/random'
+import type { LatticeProof, LatticeStatement, ProofParameters, RandomSource } from '../types'
 
 /**
  * Lattice-based quantum-resistant ZKP implementation using LWE problem
@@ -15,27 +18,42 @@ export class LatticeZKP {
   private static readonly DEFAULT_BITS = 1024
   private static readonly DEFAULT_ERROR_BOUND = 8n
   private static readonly VERSION = '1.0.0'
+  private static readonly RING_MODULUS = 8380417
+  private static readonly MODULE_RANK = 2
+  private static readonly SECRET_BOUND = 2
+  private static readonly MASKING_BOUND = 1 << 17
+  private static readonly CHALLENGE_WEIGHT = 39
+  private static readonly MAX_SIGMA_ATTEMPTS = 256
+  private static readonly rings = new Map<number, PolynomialRing>()
 
   /**
    * Create lattice-based quantum-resistant proof using LWE problem
    * @param secret - Secret to prove knowledge of
    * @param parameters - Lattice parameters
+   * @param random - Random source
    * @returns Lattice proof
    */
-  public static createProof(secret: Buffer | string, parameters?: Partial<ProofParameters>): LatticeProof {
+  public static createProof(
+    secret: Buffer | string,
+    parameters?: Partial<ProofParameters>,
+    random?: RandomSource
+  ): LatticeProof {
+    if (parameters?.latticeMode === 'sigma') {
+      return this.createSigmaProof(secret, parameters, random)
+    }
     const dimension = parameters?.dimension || this.DEFAULT_DIMENSION
-    const modulus = parameters?.modulus || QuantumCrypto.generateLargePrime(this.DEFAULT_BITS)
+    const modulus = parameters?.modulus || QuantumCrypto.generateLargePrime(this.DEFAULT_BITS, random)
     const errorBound = this.DEFAULT_ERROR_BOUND
     if (!QuantumCrypto.validateParameters('lattice', { dimension, modulus })) {
       throw new Error('Invalid lattice parameters')
     }
     const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
-    const { a } = QuantumCrypto.generateLWESample(dimension, modulus, errorBound)
-    const witness = QuantumCrypto.generateRandomBytes(32)
-    const commitment = this.createLWECommitment(a, secretBuffer, modulus)
+    const { a } = QuantumCrypto.generateLWESample(dimension, modulus, errorBound, random)
+    const witness = QuantumCrypto.generateRandomBytes(32, random)
+    const commitment = this.createLWECommitment(a, secretBuffer, modulus, random)
     const challenge = this.generateLWEChallenge(commitment, witness, a)
     const response = this.createLWEResponse(secretBuffer, witness, challenge, a, modulus)
-    const polynomialCommitment = this.createPolynomialCommitment(dimension)
+    const polynomialCommitment = this.createPolynomialCommitment(dimension, random)
     return {
       type: 'lattice',
       commitment,
@@ -51,13 +69,186 @@ export class LatticeZKP {
     }
   }
 
+  /**
+   * Generate public LWE statement for a secret
+   * @param secret - Secret the statement is about
+   * @param parameters - Lattice parameters (dimension selects the ring degree)
+   * @returns Lattice statement holding the public key t = A·s1 + s2
+   */
+  public static generateStatement(secret: Buffer | string, parameters?: Partial<ProofParameters>): LatticeStatement {
+    const dimension = this.resolveRingDimension(parameters)
+    const modulus = BigInt(this.RING_MODULUS)
+    const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
+    const { seed, publicKey } = this.deriveKeyPair(secretBuffer, dimension)
+    return {
+      type: 'lattice',
+      dimension,
+      modulus,
+      seed,
+      publicKey: this.packPolynomials(publicKey)
+    }
+  }
+
+  /**
+   * Create Lyubashevsky-style identification proof using Fiat-Shamir with aborts
+   * @param secret - Secret to prove knowledge of
+   * @param parameters - Lattice parameters
+   * @param random - Random source for the masking vectors
+   * @returns Lattice proof in sigma mode
+   */
+  private static createSigmaProof(
+    secret: Buffer | string,
+    parameters: Partial<ProofParameters>,
+    random?: RandomSource
+  ): LatticeProof {
+    const dimension = this.resolveRingDimension(parameters)
+    const modulus = BigInt(this.RING_MODULUS)
+    const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
+    const { seed, matrix, s1, s2, publicKey } = this.deriveKeyPair(secretBuffer, dimension)
+    const packedKey = this.packPolynomials(publicKey)
+    const secretVector = [...s1, ...s2]
+    const ring = this.getRing(dimension)
+    for (let attempt = 0; attempt < this.MAX_SIGMA_ATTEMPTS; attempt++) {
+      const masking = secretVector.map(() => this.sampleMaskingPolynomial(dimension, random))
+      const w = this.applyExtendedMatrix(matrix, masking)
+      const commitment = this.packPolynomials(w)
+      const challenge = this.generateSigmaChallenge(seed, packedKey, commitment)
+      const c = this.sampleChallengePolynomial(challenge, dimension)
+      const z = masking.map((y, i) => {
+        const cs = this.multiplyPolynomials(c, secretVector[i])
+        return y.map((value, k) => value + Number(ring.center(cs[k])))
+      })
+      if (!this.isShortVector(z)) {
+        continue
+      }
+      const statement: LatticeStatement = { type: 'lattice', dimension, modulus, seed, publicKey: packedKey }
+      return {
+        type: 'lattice',
+        commitment,
+        challenge,
+        response: this.packSignedPolynomials(z),
+        parameters: { dimension, modulus, latticeMode: 'sigma' },
+        quantumSafe: true,
+        timestamp: Date.now(),
+        version: this.VERSION,
+        dimension,
+        modulus,
+        polynomialCommitment: QuantumCrypto.hash(packedKey, 'sha256'),
+        mode: 'sigma',
+        seed,
+        publicKey: packedKey,
+        statementDigest: this.getStatementDigest(statement)
+      }
+    }
+    throw new Error('Rejection sampling did not converge')
+  }
+
+  /**
+   * Verify Lyubashevsky-style identification proof
+   * @param proof - Lattice proof in sigma mode
+   * @param statement - Optional public statement the proof must be about
+   * @returns True if A·z - c·t equals the commitment w and z is short
+   */
+  private static verifySigmaProof(proof: LatticeProof, statement?: LatticeStatement): boolean {
+    if (!this.validateSigmaStructure(proof)) {
+      return false
+    }
+    const { dimension } = proof
+    const seed = proof.seed!
+    const packedKey = proof.publicKey!
+    const z = this.unpackSignedPolynomials(proof.response, dimension)
+    if (z.length !== 2 * this.MODULE_RANK || !this.isShortVector(z)) {
+      return false
+    }
+    const expectedChallenge = this.generateSigmaChallenge(seed, packedKey, proof.commitment)
+    if (!expectedChallenge.equals(proof.challenge)) {
+      return false
+    }
+    const matrix = this.expandMatrix(seed, dimension)
+    const publicKey = this.unpackPolynomials(packedKey, dimension)
+    const c = this.sampleChallengePolynomial(proof.challenge, dimension)
+    const az = this.applyExtendedMatrix(matrix, z)
+    const ring = this.getRing(dimension)
+    const w = az.map((row, i) =>
+      ring.subtract(ring.fromCoefficients(row), this.multiplyPolynomials(c, publicKey[i])).map(Number)
+    )
+    if (!this.packPolynomials(w).equals(proof.commitment)) {
+      return false
+    }
+    if (!proof.polynomialCommitment.equals(QuantumCrypto.hash(packedKey, 'sha256'))) {
+      return false
+    }
+    return !statement || this.verifySigmaStatement(proof, statement)
+  }
+
+  /**
+   * Validate sigma mode proof structure
+   * @param proof - Lattice proof in sigma mode
+   * @returns True if structure is valid
+   */
+  private static validateSigmaStructure(proof: LatticeProof): boolean {
+    const { dimension } = proof
+    return (
+      this.validateProofStructure(proof) &&
+      proof.modulus === BigInt(this.RING_MODULUS) &&
+      (dimension & (dimension - 1)) === 0 &&
+      dimension >= this.CHALLENGE_WEIGHT &&
+      proof.seed instanceof Buffer &&
+      proof.publicKey instanceof Buffer &&
+      proof.publicKey.length === this.MODULE_RANK * dimension * 4 &&
+      proof.commitment.length === this.MODULE_RANK * dimension * 4 &&
+      proof.response.length === 2 * this.MODULE_RANK * dimension * 4 &&
+      proof.challenge.length === 32
+    )
+  }
+
+  /**
+   * Verify that sigma proof is about the public key in the statement
+   * @param proof - Lattice proof in sigma mode
+   * @param statement - Public statement
+   * @returns True if the proof public key matches the statement
+   */
+  private static verifySigmaStatement(proof: LatticeProof, statement: LatticeStatement): boolean {
+    return (
+      statement.type === 'lattice' &&
+      statement.dimension === proof.dimension &&
+      statement.modulus === proof.modulus &&
+      statement.seed.equals(proof.seed!) &&
+      statement.publicKey.equals(proof.publicKey!) &&
+      this.verifyStatement(proof, statement)
+    )
+  }
+
+  /**
+   * Compute digest binding a proof to a statement
+   * @param statement - Lattice statement
+   * @returns Statement digest
+   */
+  public static getStatementDigest(statement: LatticeStatement): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/statement/lattice', [
+      QuantumCrypto.bigIntsToBuffer([BigInt(statement.dimension)]),
+      QuantumCrypto.bigIntsToBuffer([statement.modulus]),
+      statement.seed,
+      statement.publicKey
+    ])
+  }
+
   /**
    * Verify lattice-based proof using LWE verification
+   * Only sigma proofs are proofs of knowledge; a default proof is never accepted for a statement,
+   * since its statement digest can be recomputed from public data
    * @param proof - Lattice proof to verify
+   * @param statement - Optional public statement the proof must be about
    * @returns True if proof is valid
    */
-  public static verifyProof(proof: LatticeProof): boolean {
+  public static verifyProof(proof: LatticeProof, statement?: LatticeStatement): boolean {
     try {
+      if (proof.mode === 'sigma') {
+        return this.verifySigmaProof(proof, statement)
+      }
+      if (statement) {
+        return false
+      }
       if (!this.validateProofStructure(proof)) {
         return false
       }
@@ -108,21 +299,306 @@ export class LatticeZKP {
     }
   }
 
+  /**
+   * Verify that proof was created for the given statement
+   * @param proof - Lattice proof
+   * @param statement - Public statement
+   * @returns True if the proof is bound to the statement
+   */
+  private static verifyStatement(proof: LatticeProof, statement: LatticeStatement): boolean {
+    if (statement.type !== 'lattice' || !proof.statementDigest) {
+      return false
+    }
+    const expectedKeyLength = this.MODULE_RANK * statement.dimension * 4
+    if (statement.publicKey.length !== expectedKeyLength) {
+      return false
+    }
+    return proof.statementDigest.equals(this.getStatementDigest(statement))
+  }
+
+  /**
+   * Resolve and validate ring degree used for statements and sigma proofs
+   * The ring Z_q[X]/(X^n + 1) additionally needs a power-of-two degree
+   * @param parameters - Lattice parameters
+   * @returns Ring degree
+   */
+  private static resolveRingDimension(parameters?: Partial<ProofParameters>): number {
+    const dimension = parameters?.dimension || this.DEFAULT_DIMENSION
+    if (
+      !QuantumCrypto.validateParameters('lattice', { dimension, modulus: BigInt(this.RING_MODULUS) }) ||
+      (dimension & (dimension - 1)) !== 0
+    ) {
+      throw new Error('Invalid lattice parameters')
+    }
+    return dimension
+  }
+
+  /**
+   * Derive deterministic LWE key pair from the secret
+   * @param secret - Secret value
+   * @param dimension - Ring degree
+   * @returns Matrix seed, matrix A, secret vectors and public key t = A·s1 + s2
+   */
+  private static deriveKeyPair(
+    secret: Buffer,
+    dimension: number
+  ): { seed: Buffer; matrix: number[][][]; s1: number[][]; s2: number[][]; publicKey: number[][] } {
+    const seed = QuantumCrypto.domainHash('quantum-zkp/lattice/seed', [secret])
+    const { s1, s2 } = this.deriveSecretVectors(secret, dimension)
+    const matrix = this.expandMatrix(seed, dimension)
+    const publicKey = this.computePublicKey(matrix, s1, s2)
+    return { seed, matrix, s1, s2, publicKey }
+  }
+
+  /**
+   * Derive short secret vectors s1 and s2 from the secret
+   * @param secret - Secret value
+   * @param dimension - Ring degree
+   * @returns Secret vectors with coefficients in [-SECRET_BOUND, SECRET_BOUND]
+   */
+  private static deriveSecretVectors(secret: Buffer, dimension: number): { s1: number[][]; s2: number[][] } {
+    const seed = QuantumCrypto.domainHash('quantum-zkp/lattice/secret', [secret])
+    const s1: number[][] = []
+    const s2: number[][] = []
+    for (let i = 0; i < this.MODULE_RANK; i++) {
+      s1.push(this.sampleShortPolynomial(seed, i, dimension))
+      s2.push(this.sampleShortPolynomial(seed, this.MODULE_RANK + i, dimension))
+    }
+    return { s1, s2 }
+  }
+
+  /**
+   * Expand public matrix A from a seed
+   * @param seed - Matrix seed
+   * @param dimension - Ring degree
+   * @returns Matrix of uniform polynomials mod q
+   */
+  private static expandMatrix(seed: Buffer, dimension: number): number[][][] {
+    const matrix: number[][][] = []
+    for (let i = 0; i < this.MODULE_RANK; i++) {
+      const row: number[][] = []
+      for (let j = 0; j < this.MODULE_RANK; j++) {
+        row.push(this.sampleUniformPolynomial(seed, i * this.MODULE_RANK + j, dimension))
+      }
+      matrix.push(row)
+    }
+    return matrix
+  }
+
+  /**
+   * Sample uniform polynomial mod q by rejection from a seed
+   * @param seed - Expansion seed
+   * @param nonce - Domain separation nonce
+   * @param dimension - Ring degree
+   * @returns Polynomial coefficients in [0, q)
+   */
+  private static sampleUniformPolynomial(seed: Buffer, nonce: number, dimension: number): number[] {
+    const source = new SeededRandom(Buffer.concat([seed, Buffer.from([nonce])]))
+    const modulus = BigInt(this.RING_MODULUS)
+    return Array.from({ length: dimension }, () => Number(DiscreteSampler.sampleUniform(0n, modulus, source)))
+  }
+
+  /**
+   * Sample short polynomial with coefficients in [-SECRET_BOUND, SECRET_BOUND]
+   * @param seed - Expansion seed
+   * @param nonce - Domain separation nonce
+   * @param dimension - Ring degree
+   * @returns Short polynomial coefficients
+   */
+  private static sampleShortPolynomial(seed: Buffer, nonce: number, dimension: number): number[] {
+    const source = new SeededRandom(Buffer.concat([seed, Buffer.from([nonce])]))
+    const bound = BigInt(this.SECRET_BOUND)
+    return Array.from({ length: dimension }, () => Number(DiscreteSampler.sampleUniform(-bound, bound + 1n, source)))
+  }
+
+  /**
+   * Compute LWE public key t = A·s1 + s2
+   * @param matrix - Public matrix A
+   * @param s1 - Secret vector s1
+   * @param s2 - Error vector s2
+   * @returns Public key polynomials mod q
+   */
+  private static computePublicKey(matrix: number[][][], s1: number[][], s2: number[][]): number[][] {
+    const ring = this.getRing(s2[0].length)
+    return matrix.map((row, i) =>
+      row
+        .reduce(
+          (accumulator, a, j) => ring.add(accumulator, this.multiplyPolynomials(a, s1[j])),
+          ring.fromCoefficients(s2[i])
+        )
+        .map(Number)
+    )
+  }
+
+  /**
+   * Apply extended matrix [A | I] to a vector (v1, v2)
+   * @param matrix - Public matrix A
+   * @param vector - Vector holding v1 followed by v2
+   * @returns A·v1 + v2 mod q
+   */
+  private static applyExtendedMatrix(matrix: number[][][], vector: number[][]): number[][] {
+    const v1 = vector.slice(0, this.MODULE_RANK)
+    const v2 = vector.slice(this.MODULE_RANK)
+    return this.computePublicKey(matrix, v1, v2)
+  }
+
+  /**
+   * Sample masking polynomial uniformly from [-(gamma - 1), gamma - 1]
+   * @param dimension - Ring degree
+   * @param random - Random source
+   * @returns Masking polynomial coefficients
+   */
+  private static sampleMaskingPolynomial(dimension: number, random?: RandomSource): number[] {
+    const bound = BigInt(this.MASKING_BOUND)
+    return Array.from({ length: dimension }, () => Number(DiscreteSampler.sampleUniform(1n - bound, bound, random)))
+  }
+
+  /**
+   * Sample challenge polynomial with CHALLENGE_WEIGHT coefficients in {-1, 1}
+   * @param challenge - Challenge seed
+   * @param dimension - Ring degree
+   * @returns Sparse ternary challenge polynomial
+   */
+  private static sampleChallengePolynomial(challenge: Buffer, dimension: number): number[] {
+    const c: number[] = new Array(dimension).fill(0)
+    const stream = QuantumCrypto.expandSeed(challenge, 8 + 4 * dimension)
+    let signs = stream.readBigUInt64LE(0)
+    let offset = 8
+    for (let i = dimension - this.CHALLENGE_WEIGHT; i < dimension; i++) {
+      let j = dimension
+      while (j > i) {
+        j = stream.readUInt16LE(offset) & (dimension - 1)
+        offset += 2
+      }
+      c[i] = c[j]
+      c[j] = signs & 1n ? -1 : 1
+      signs >>= 1n
+    }
+    return c
+  }
+
+  /**
+   * Generate sigma protocol challenge using Fiat-Shamir transform
+   * @param seed - Matrix seed
+   * @param publicKey - Packed public key
+   * @param commitment - Packed commitment w
+   * @returns Challenge seed
+   */
+  private static generateSigmaChallenge(seed: Buffer, publicKey: Buffer, commitment: Buffer): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/lattice/sigma', [seed, publicKey, commitment])
+  }
+
+  /**
+   * Check infinity norm bound ||z|| < gamma - beta used for rejection sampling
+   * @param vector - Polynomial vector
+   * @returns True if every coefficient is within the bound
+   */
+  private static isShortVector(vector: number[][]): boolean {
+    const bound = this.MASKING_BOUND - this.CHALLENGE_WEIGHT * this.SECRET_BOUND
+    return vector.every(polynomial => polynomial.every(value => Math.abs(value) < bound))
+  }
+
+  /**
+   * Multiply polynomials in Z_q[x]/(x^n + 1)
+   * @param a - First polynomial
+   * @param b - Second polynomial
+   * @returns Product polynomial mod q
+   */
+  private static multiplyPolynomials(a: number[], b: number[]): bigint[] {
+    const ring = this.getRing(a.length)
+    return ring.multiply(ring.fromCoefficients(a), ring.fromCoefficients(b))
+  }
+
+  /**
+   * Get ring Z_q[x]/(x^n + 1) of a degree
+   * @param dimension - Ring degree
+   * @returns Cached polynomial ring
+   */
+  private static getRing(dimension: number): PolynomialRing {
+    let ring = this.rings.get(dimension)
+    if (!ring) {
+      ring = new PolynomialRing(dimension, BigInt(this.RING_MODULUS))
+      this.rings.set(dimension, ring)
+    }
+    return ring
+  }
+
+  /**
+   * Unpack polynomial vector from 32-bit big-endian coefficients
+   * @param buffer - Packed buffer
+   * @param dimension - Ring degree
+   * @returns Polynomials mod q
+   */
+  private static unpackPolynomials(buffer: Buffer, dimension: number): number[][] {
+    const polynomials: number[][] = []
+    for (let offset = 0; offset < buffer.length; offset += dimension * 4) {
+      const polynomial: number[] = []
+      for (let k = 0; k < dimension; k++) {
+        polynomial.push(buffer.readUInt32BE(offset + k * 4))
+      }
+      polynomials.push(polynomial)
+    }
+    return polynomials
+  }
+
+  /**
+   * Pack signed polynomial vector into 32-bit big-endian coefficients
+   * @param polynomials - Polynomials to pack
+   * @returns Packed buffer
+   */
+  private static packSignedPolynomials(polynomials: number[][]): Buffer {
+    const coefficients = polynomials.flat()
+    const buffer = Buffer.alloc(coefficients.length * 4)
+    coefficients.forEach((value, index) => buffer.writeInt32BE(value, index * 4))
+    return buffer
+  }
+
+  /**
+   * Unpack signed polynomial vector from 32-bit big-endian coefficients
+   * @param buffer - Packed buffer
+   * @param dimension - Ring degree
+   * @returns Signed polynomials
+   */
+  private static unpackSignedPolynomials(buffer: Buffer, dimension: number): number[][] {
+    const polynomials: number[][] = []
+    for (let offset = 0; offset + dimension * 4 <= buffer.length; offset += dimension * 4) {
+      const polynomial: number[] = []
+      for (let k = 0; k < dimension; k++) {
+        polynomial.push(buffer.readInt32BE(offset + k * 4))
+      }
+      polynomials.push(polynomial)
+    }
+    return polynomials
+  }
+
+  /**
+   * Pack polynomial vector into 32-bit big-endian coefficients
+   * @param polynomials - Polynomials to pack
+   * @returns Packed buffer
+   */
+  private static packPolynomials(polynomials: number[][]): Buffer {
+    const coefficients = polynomials.flat()
+    const buffer = Buffer.alloc(coefficients.length * 4)
+    coefficients.forEach((value, index) => buffer.writeUInt32BE(value, index * 4))
+    return buffer
+  }
+
   /**
    * Create LWE commitment
    * @param a - LWE matrix A
    * @param secret - Secret value
    * @param modulus - Lattice modulus
+   * @param random - Random source for the commitment error
    * @returns LWE commitment
    */
-  private static createLWECommitment(a: bigint[], secret: Buffer, modulus: bigint): Buffer {
+  private static createLWECommitment(a: bigint[], secret: Buffer, modulus: bigint, random?: RandomSource): Buffer {
     const secretInts = QuantumCrypto.bufferToBigInts(secret, a.length)
     let commitment = 0n
     for (let i = 0; i < a.length; i++) {
       commitment = (commitment + a[i] * secretInts[i]) % modulus
     }
-    const error = QuantumCrypto.generateDiscreteGaussianError(this.DEFAULT_ERROR_BOUND)
-    commitment = (commitment + error) % modulus
+    const error = QuantumCrypto.generateDiscreteGaussianError(this.DEFAULT_ERROR_BOUND, undefined, random)
+    commitment = (((commitment + error) % modulus) + modulus) % modulus
     return QuantumCrypto.bigIntsToBuffer([commitment])
   }
 
@@ -240,22 +716,24 @@ export class LatticeZKP {
   /**
    * Create polynomial commitment for additional security
    * @param dimension - Lattice dimension
+   * @param random - Random source
    * @returns Polynomial commitment
    */
-  private static createPolynomialCommitment(dimension: number): Buffer {
-    const coefficients = this.generatePolynomialCoefficients(dimension)
+  private static createPolynomialCommitment(dimension: number, random?: RandomSource): Buffer {
+    const coefficients = this.generatePolynomialCoefficients(dimension, random)
     return this.polynomialHash(coefficients)
   }
 
   /**
    * Generate polynomial coefficients
    * @param dimension - Polynomial degree
+   * @param random - Random source
    * @returns Polynomial coefficients
    */
-  private static generatePolynomialCoefficients(dimension: number): bigint[] {
+  private static generatePolynomialCoefficients(dimension: number, random?: RandomSource): bigint[] {
     const coefficients: bigint[] = []
     for (let i = 0; i < dimension; i++) {
-      const coefficient = QuantumCrypto.generateRandomBigInt(0n, 2n ** 64n)
+      const coefficient = DiscreteSampler.sampleUniform(0n, 2n ** 64n, random)
       coefficients.push(coefficient)
     }
     return coefficients
@@ -0,0 +1,152 @@
+/**
+ * Zero-knowledge Merkle set-membership proofs
+ * @author NeaByteLab
+ */
+
+import { QuantumCrypto } from '@utils/crypto'
+import { ZKBoo } from '@utils/zkboo'
+import type { MembershipProof, MembershipStatement, MerkleTree, ProofParameters, RandomSource } from '../types'
+
+/**
+ * Proofs that the SHA-256 commitment of a secret is one of the leaves of a published Merkle tree
+ * The authentication path is evaluated inside a ZKBoo circuit, so neither the secret nor the leaf index is revealed
+ */
+export class MembershipZKP {
+  private static readonly DEFAULT_REPETITIONS = 219
+  private static readonly VERSION = '1.0.0'
+
+  /**
+   * Compute the leaf a member publishes for a secret
+   * @param secret - Member secret
+   * @returns SHA-256 commitment to the secret
+   */
+  public static createCommitment(secret: Buffer | string): Buffer {
+    const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
+    return QuantumCrypto.hash(secretBuffer, 'sha256')
+  }
+
+  /**
+   * Create membership proof
+   * @param secret - Member secret whose commitment is a leaf of the tree
+   * @param tree - RFC 6962 SHA-256 Merkle tree of member commitments
+   * @param parameters - Optional number of MPC-in-the-head repetitions
+   * @param random - Random source
+   * @returns Membership proof
+   */
+  public static createProof(
+    secret: Buffer | string,
+    tree: MerkleTree,
+    parameters?: Partial<ProofParameters>,
+    random?: RandomSource
+  ): MembershipProof {
+    const repetitions = parameters?.repetitions ?? this.DEFAULT_REPETITIONS
+    if (!Number.isInteger(repetitions) || repetitions < ZKBoo.MIN_REPETITIONS) {
+      throw new Error('Invalid membership parameters')
+    }
+    if (tree.algorithm !== 'sha256') {
+      throw new Error('Membership proofs require a SHA-256 Merkle tree')
+    }
+    const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
+    const leaf = QuantumCrypto.hashMerkleLeaf(this.createCommitment(secretBuffer))
+    const leafIndex = tree.levels[0].findIndex(node => node.equals(leaf))
+    if (leafIndex < 0) {
+      throw new Error('Secret commitment is not a leaf of the tree')
+    }
+    const merkleProof = QuantumCrypto.createMerkleProof(tree, leafIndex)
+    const { root, commitment, challenge, response } = ZKBoo.proveMembership(
+      secretBuffer,
+      merkleProof,
+      repetitions,
+      random
+    )
+    if (!root.equals(tree.root)) {
+      throw new Error('Merkle tree levels do not match its root')
+    }
+    const statement = this.generateStatement(tree)
+    return {
+      type: 'membership',
+      commitment,
+      challenge,
+      response,
+      parameters: { repetitions },
+      quantumSafe: true,
+      timestamp: Date.now(),
+      version: this.VERSION,
+      root,
+      treeSize: statement.treeSize,
+      statementDigest: this.getStatementDigest(statement)
+    }
+  }
+
+  /**
+   * Generate public statement for a published tree
+   * @param tree - Merkle tree of member commitments
+   * @returns Membership statement holding root and size
+   */
+  public static generateStatement(tree: MerkleTree): MembershipStatement {
+    return {
+      type: 'membership',
+      root: tree.root,
+      treeSize: tree.levels[0].length
+    }
+  }
+
+  /**
+   * Compute digest binding a proof to a statement
+   * @param statement - Membership statement
+   * @returns Statement digest
+   */
+  public static getStatementDigest(statement: MembershipStatement): Buffer {
+    const treeSize = Buffer.alloc(8)
+    treeSize.writeBigUInt64BE(BigInt(statement.treeSize))
+    return QuantumCrypto.domainHash('quantum-zkp/statement/membership', [statement.root, treeSize])
+  }
+
+  /**
+   * Verify membership proof
+   * Statement checks run before the circuit is replayed, and fewer than `ZKBoo.MIN_REPETITIONS` repetitions are rejected
+   * @param proof - Membership proof to verify
+   * @param statement - Optional public statement the proof must be about
+   * @returns True if proof is valid
+   */
+  public static verifyProof(proof: MembershipProof, statement?: MembershipStatement): boolean {
+    try {
+      const { repetitions } = proof.parameters
+      if (proof.type !== 'membership' || repetitions === undefined) {
+        return false
+      }
+      const expected: MembershipStatement = { type: 'membership', root: proof.root, treeSize: proof.treeSize }
+      if (proof.statementDigest && !proof.statementDigest.equals(this.getStatementDigest(expected))) {
+        return false
+      }
+      if (
+        statement &&
+        (statement.type !== 'membership' || !statement.root.equals(proof.root) || statement.treeSize !== proof.treeSize)
+      ) {
+        return false
+      }
+      return ZKBoo.verifyMembership(
+        proof.root,
+        proof.treeSize,
+        proof.commitment,
+        proof.challenge,
+        proof.response,
+        repetitions
+      )
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Get performance metrics for membership proofs
+   * @returns Performance metrics
+   */
+  public static getPerformanceMetrics(): { generationTime: number; verificationTime: number; proofSize: number } {
+    return {
+      generationTime: 10000,
+      verificationTime: 6000,
+      proofSize: 6 * 1024 * 1024
+    }
+  }
+}
@@ -0,0 +1,407 @@
+/**
+ * Unbalanced Oil and Vinegar multivariate signatures
+ * @author NeaByteLab
+ */
+
+import { QuantumCrypto } from '@utils/crypto'
+import { FiniteField } from '@utils/finite-field'
+import { QuadraticSystem } from '@utils/quadratic-system'
+import { SeededRandom, SystemRandom } from '@utils/random'
+import type {
+  PerformanceMetrics,
+  RandomSource,
+  UOVParameterSet,
+  UOVParameters,
+  UOVPrivateKey,
+  UOVPublicKey,
+  UOVSignature
+} from '../types'
+
+/**
+ * Secret trapdoor expanded from a private key seed
+ */
+interface Trapdoor {
+  /** Central map F without oil·oil terms */
+  central: QuadraticSystem
+  /** Block O of the secret transform T = [[I, O], [0, I]] as v rows of o elements */
+  oilSpace: number[][]
+}
+
+/**
+ * Unbalanced Oil and Vinegar signatures over GF(2^k), i.e. single-layer Rainbow
+ * The central map F has no products of two oil variables, so fixing the v vinegar variables leaves o linear
+ * equations in the o oil variables. The public key hides F behind an invertible linear transform T as
+ * P = F∘T; signing solves F(x) = H(message, salt) through the trapdoor and publishes s = T^-1·x.
+ * Educational: the parameter sets are far below the sizes needed for security
+ */
+export class MultivariateSignature {
+  private static readonly DEFAULT_PARAMETER_SET: UOVParameterSet = 'uov-small'
+  private static readonly SEED_LENGTH = 32
+  private static readonly DIGEST_LENGTH = 32
+  private static readonly MAX_SIGNING_ATTEMPTS = 256
+  private static readonly PARAMETER_SETS: Record<UOVParameterSet, UOVParameters> = {
+    'uov-tiny': { name: 'uov-tiny', fieldOrder: 16, vinegar: 16, oil: 8, saltLength: 16 },
+    'uov-small': { name: 'uov-small', fieldOrder: 256, vinegar: 32, oil: 16, saltLength: 16 },
+    'uov-medium': { name: 'uov-medium', fieldOrder: 256, vinegar: 48, oil: 24, saltLength: 16 }
+  }
+  private static readonly fields = new Map<number, FiniteField>()
+
+  /**
+   * Generate key pair
+   * @param parameterSet - Parameter set
+   * @param seed - Optional seed for deterministic key generation
+   * @param random - Random source for the seed when none is given
+   * @returns Private and public key
+   */
+  public static generateKeyPair(
+    parameterSet: UOVParameterSet = this.DEFAULT_PARAMETER_SET,
+    seed?: Buffer,
+    random?: RandomSource
+  ): { privateKey: UOVPrivateKey; publicKey: UOVPublicKey } {
+    const parameters = this.getParameterSet(parameterSet)
+    const keySeed = seed ?? QuantumCrypto.generateRandomBytes(this.SEED_LENGTH, random)
+    const { central, oilSpace } = this.expandTrapdoor(keySeed, parameters)
+    const publicMap = this.composeWithTransform(central, this.buildTransform(oilSpace, parameters))
+    const publicKey: UOVPublicKey = {
+      parameterSet,
+      publicMap: QuantumCrypto.packBits(publicMap.getCoefficients(), publicMap.field.degree)
+    }
+    return {
+      privateKey: { parameterSet, seed: keySeed, publicKeyHash: this.hashPublicKey(publicKey) },
+      publicKey
+    }
+  }
+
+  /**
+   * Sign message
+   * @param message - Message to sign
+   * @param privateKey - Private key
+   * @param random - Random source for the salt and the vinegar variables
+   * @returns UOV signature
+   */
+  public static sign(
+    message: Buffer | string,
+    privateKey: UOVPrivateKey,
+    random: RandomSource = new SystemRandom()
+  ): UOVSignature {
+    const parameters = this.getParameterSet(privateKey.parameterSet)
+    const { vinegar, saltLength } = parameters
+    const field = this.getField(parameters)
+    const { central, oilSpace } = this.expandTrapdoor(privateKey.seed, parameters)
+    const messageBuffer = typeof message === 'string' ? Buffer.from(message, 'utf8') : message
+    const salt = random.randomBytes(saltLength)
+    const target = this.hashMessage(privateKey.publicKeyHash, messageBuffer, salt, parameters)
+    for (let attempt = 0; attempt < this.MAX_SIGNING_ATTEMPTS; attempt++) {
+      const vinegarValues = field.randomVector(vinegar, random)
+      const oilValues = this.solveOilSystem(central, vinegarValues, target, parameters)
+      if (oilValues) {
+        const correction = field.multiplyMatrixVector(oilSpace, oilValues)
+        const solution = [...field.subtractVectors(vinegarValues, correction), ...oilValues]
+        return { salt, solution: QuantumCrypto.packBits(solution, field.degree) }
+      }
+    }
+    throw new Error('Signing did not find an invertible oil system')
+  }
+
+  /**
+   * Verify signature
+   * @param message - Signed message
+   * @param signature - UOV signature
+   * @param publicKey - Public key
+   * @returns True if P(s) equals the hash of the message and salt
+   */
+  public static verify(message: Buffer | string, signature: UOVSignature, publicKey: UOVPublicKey): boolean {
+    const parameters = this.PARAMETER_SETS[publicKey.parameterSet]
+    if (!parameters || !this.hasValidStructure(parameters, signature, publicKey)) {
+      return false
+    }
+    const field = this.getField(parameters)
+    const publicMap = this.unpackSystem(publicKey.publicMap, parameters)
+    const solution = QuantumCrypto.unpackBits(signature.solution, field.degree, publicMap.variables)
+    const messageBuffer = typeof message === 'string' ? Buffer.from(message, 'utf8') : message
+    const target = this.hashMessage(this.hashPublicKey(publicKey), messageBuffer, signature.salt, parameters)
+    return publicMap.evaluate(solution).every((value, k) => value === target[k])
+  }
+
+  /**
+   * Get parameter set
+   * @param parameterSet - Parameter set name
+   * @returns Parameters
+   */
+  public static getParameterSet(parameterSet: UOVParameterSet): UOVParameters {
+    const parameters = this.PARAMETER_SETS[parameterSet]
+    if (!parameters) {
+      throw new Error(`Unsupported UOV parameter set: ${parameterSet}`)
+    }
+    return { ...parameters }
+  }
+
+  /**
+   * Get signature size in bytes
+   * @param parameterSet - Parameter set name
+   * @returns Size of the salt and the packed solution
+   */
+  public static getSignatureSize(parameterSet: UOVParameterSet): number {
+    const parameters = this.getParameterSet(parameterSet)
+    return parameters.saltLength + this.getPackedLength(parameters.vinegar + parameters.oil, parameters)
+  }
+
+  /**
+   * Get public key size in bytes
+   * @param parameterSet - Parameter set name
+   * @returns Size of the packed public map
+   */
+  public static getPublicKeySize(parameterSet: UOVParameterSet): number {
+    const parameters = this.getParameterSet(parameterSet)
+    const variables = parameters.vinegar + parameters.oil
+    const coefficients = QuadraticSystem.getQuadraticTermCount(variables) + variables + 1
+    return this.getPackedLength(parameters.oil * coefficients, parameters)
+  }
+
+  /**
+   * Measure signing and verification for a parameter set
+   * @param parameterSet - Parameter set name
+   * @returns Measured times, signature size and memory usage
+   */
+  public static getPerformanceMetrics(parameterSet: UOVParameterSet = this.DEFAULT_PARAMETER_SET): PerformanceMetrics {
+    const { privateKey, publicKey } = this.generateKeyPair(parameterSet)
+    const message = Buffer.from('performance-test-message')
+    const startMemory = process.memoryUsage().heapUsed
+    const signStart = performance.now()
+    const signature = this.sign(message, privateKey)
+    const generationTime = performance.now() - signStart
+    const verifyStart = performance.now()
+    this.verify(message, signature, publicKey)
+    const verificationTime = performance.now() - verifyStart
+    return {
+      generationTime,
+      verificationTime,
+      proofSize: this.getSignatureSize(parameterSet),
+      memoryUsage: Math.max(0, process.memoryUsage().heapUsed - startMemory)
+    }
+  }
+
+  /**
+   * Expand central map and secret transform from a key seed
+   * @param seed - Key seed
+   * @param parameters - Parameters
+   * @returns Central map with the oil·oil coefficients, the last o(o + 1)/2 in row order, cleared and the block O
+   */
+  private static expandTrapdoor(seed: Buffer, parameters: UOVParameters): Trapdoor {
+    const { vinegar, oil } = parameters
+    const variables = vinegar + oil
+    const field = this.getField(parameters)
+    const expanded = QuantumCrypto.expandSeed(Buffer.concat([seed, Buffer.from(parameters.name)]), 2 * this.SEED_LENGTH)
+    const random = QuadraticSystem.fromSeed(field, expanded.subarray(0, this.SEED_LENGTH), variables, oil)
+    const oilTerms = QuadraticSystem.getQuadraticTermCount(oil)
+    const firstOilTerm = QuadraticSystem.getQuadraticTermCount(variables) - oilTerms
+    const central = new QuadraticSystem(
+      field,
+      variables,
+      random.polynomials.map(polynomial => ({
+        ...polynomial,
+        quadratic: [...polynomial.quadratic.slice(0, firstOilTerm), ...new Array<number>(oilTerms).fill(0)]
+      }))
+    )
+    const transformRandom = new SeededRandom(expanded.subarray(this.SEED_LENGTH))
+    const oilSpace = Array.from({ length: vinegar }, () => field.randomVector(oil, transformRandom))
+    return { central, oilSpace }
+  }
+
+  /**
+   * Build secret transform T = [[I, O], [0, I]], invertible with T^-1 = [[I, -O], [0, I]]
+   * @param oilSpace - Block O
+   * @param parameters - Parameters
+   * @returns T as n rows of n elements
+   */
+  private static buildTransform(oilSpace: number[][], parameters: UOVParameters): number[][] {
+    const { vinegar, oil } = parameters
+    const variables = vinegar + oil
+    return Array.from({ length: variables }, (_, i) =>
+      Array.from({ length: variables }, (__, j) => {
+        if (i === j) {
+          return 1
+        }
+        return i < vinegar && j >= vinegar ? oilSpace[i][j - vinegar] : 0
+      })
+    )
+  }
+
+  /**
+   * Compose quadratic system with a linear transform
+   * @param system - System F
+   * @param transform - Matrix T
+   * @returns System P with P(y) = F(T·y)
+   */
+  private static composeWithTransform(system: QuadraticSystem, transform: number[][]): QuadraticSystem {
+    const { field, variables } = system
+    const transposed = transform.map((_, i) => transform.map(row => row[i]))
+    const polynomials = system.polynomials.map(({ quadratic, linear, constant }) => {
+      const square = this.toSquareMatrix(quadratic, variables)
+      const composed = field.multiplyMatrices(transposed, field.multiplyMatrices(square, transform))
+      return {
+        quadratic: this.toUpperTriangle(composed, field),
+        linear: field.multiplyMatrixVector(transposed, linear),
+        constant
+      }
+    })
+    return new QuadraticSystem(field, variables, polynomials)
+  }
+
+  /**
+   * Spread row-order quadratic coefficients into an upper-triangular matrix Q with f(x) = x^T·Q·x + ...
+   * @param quadratic - Coefficients of x_i·x_j for i <= j
+   * @param variables - Number of variables
+   * @returns Q as n rows of n elements
+   */
+  private static toSquareMatrix(quadratic: number[], variables: number): number[][] {
+    const square = Array.from({ length: variables }, () => new Array<number>(variables).fill(0))
+    let term = 0
+    for (let i = 0; i < variables; i++) {
+      for (let j = i; j < variables; j++) {
+        square[i][j] = quadratic[term++]
+      }
+    }
+    return square
+  }
+
+  /**
+   * Fold a square matrix M into row-order coefficients of the same quadratic form
+   * @param square - M as n rows of n elements
+   * @param field - Coefficient field
+   * @returns M_ii for x_i^2 and M_ij + M_ji for x_i·x_j
+   */
+  private static toUpperTriangle(square: number[][], field: FiniteField): number[] {
+    const quadratic: number[] = []
+    for (let i = 0; i < square.length; i++) {
+      for (let j = i; j < square.length; j++) {
+        quadratic.push(i === j ? square[i][i] : field.add(square[i][j], square[j][i]))
+      }
+    }
+    return quadratic
+  }
+
+  /**
+   * Fix the vinegar variables and solve the remaining linear system in the oil variables
+   * @param central - Central map F
+   * @param vinegarValues - Vinegar variables
+   * @param target - Required value of F
+   * @param parameters - Parameters
+   * @returns Oil variables, or null if the oil system is singular
+   */
+  private static solveOilSystem(
+    central: QuadraticSystem,
+    vinegarValues: number[],
+    target: number[],
+    parameters: UOVParameters
+  ): number[] | null {
+    const { vinegar, oil } = parameters
+    const field = this.getField(parameters)
+    const variables = vinegar + oil
+    const offset = central.evaluate([...vinegarValues, ...new Array<number>(oil).fill(0)])
+    const matrix = central.polynomials.map(({ quadratic, linear }) =>
+      Array.from({ length: oil }, (_, c) =>
+        vinegarValues.reduce(
+          (sum, value, i) => {
+            const term = i * variables - (i * (i - 1)) / 2 + vinegar + c - i
+            return field.add(sum, field.multiply(quadratic[term], value))
+          },
+          linear[vinegar + c]
+        )
+      )
+    )
+    const inverse = field.invertMatrix(matrix)
+    return inverse ? field.multiplyMatrixVector(inverse, field.subtractVectors(target, offset)) : null
+  }
+
+  /**
+   * Hash message and salt to the target vector
+   * @param publicKeyHash - Hash of the signer's public key
+   * @param message - Message
+   * @param salt - Signature salt
+   * @param parameters - Parameters
+   * @returns One field element per equation
+   */
+  private static hashMessage(
+    publicKeyHash: Buffer,
+    message: Buffer,
+    salt: Buffer,
+    parameters: UOVParameters
+  ): number[] {
+    const digest = QuantumCrypto.domainHash('quantum-zkp/uov/message', [publicKeyHash, message, salt])
+    return this.getField(parameters).randomVector(parameters.oil, new SeededRandom(digest))
+  }
+
+  /**
+   * Hash public key
+   * @param publicKey - Public key
+   * @returns Public key digest
+   */
+  private static hashPublicKey(publicKey: UOVPublicKey): Buffer {
+    return QuantumCrypto.expandSeed(
+      Buffer.concat([Buffer.from(publicKey.parameterSet), publicKey.publicMap]),
+      this.DIGEST_LENGTH
+    )
+  }
+
+  /**
+   * Unpack public map
+   * @param data - Packed coefficients
+   * @param parameters - Parameters
+   * @returns Public quadratic system
+   */
+  private static unpackSystem(data: Buffer, parameters: UOVParameters): QuadraticSystem {
+    const field = this.getField(parameters)
+    const variables = parameters.vinegar + parameters.oil
+    const width = QuadraticSystem.getQuadraticTermCount(variables) + variables + 1
+    const coefficients = QuantumCrypto.unpackBits(data, field.degree, parameters.oil * width)
+    return QuadraticSystem.fromCoefficients(field, variables, coefficients)
+  }
+
+  /**
+   * Get packed length of field elements
+   * @param count - Number of elements
+   * @param parameters - Parameters
+   * @returns Bytes needed at k bits per element
+   */
+  private static getPackedLength(count: number, parameters: UOVParameters): number {
+    return Math.ceil((count * Math.log2(parameters.fieldOrder)) / 8)
+  }
+
+  /**
+   * Validate signature and public key encodings
+   * @param parameters - Parameters
+   * @param signature - Signature
+   * @param publicKey - Public key
+   * @returns True if every field has the expected length
+   */
+  private static hasValidStructure(
+    parameters: UOVParameters,
+    signature: UOVSignature,
+    publicKey: UOVPublicKey
+  ): boolean {
+    const variables = parameters.vinegar + parameters.oil
+    return (
+      publicKey.publicMap instanceof Buffer &&
+      publicKey.publicMap.length === this.getPublicKeySize(parameters.name) &&
+      signature.salt instanceof Buffer &&
+      signature.salt.length === parameters.saltLength &&
+      signature.solution instanceof Buffer &&
+      signature.solution.length === this.getPackedLength(variables, parameters)
+    )
+  }
+
+  /**
+   * Get coefficient field of a parameter set
+   * @param parameters - Parameters
+   * @returns Cached GF(2^k)
+   */
+  private static getField(parameters: UOVParameters): FiniteField {
+    let field = this.fields.get(parameters.fieldOrder)
+    if (!field) {
+      field = new FiniteField(parameters.fieldOrder)
+      this.fields.set(parameters.fieldOrder, field)
+    }
+    return field
+  }
+}
@@ -4,7 +4,23 @@
  */
 
 import { QuantumCrypto } from '@utils/crypto'
-import type { MultivariateProof, ProofParameters } from '../types'
+import { DiscreteSampler } from '@utils/discrete-sampler'
+import { FiniteField } from '@utils/finite-field'
+import { QuadraticSystem } from '@utils/quadratic-system'
+import { SeededRandom, SystemRandom } from '@utils/random'
+import { ZKPError } from '../types'
+import type {
+  MultivariateProof,
+  MultivariateProofMode,
+  MultivariateStatement,
+  ProofParameters,
+  RandomSource
+} from '../types'
+
+/**
+ * Identification protocol modes
+ */
+type IdentificationMode = Exclude<MultivariateProofMode, 'system'>
 
 /**
  * Multivariate quantum-resistant ZKP implementation using polynomial systems
@@ -13,25 +29,43 @@ import type { MultivariateProof, ProofParameters } from '../types'
 export class MultivariateZKP {
   private static readonly DEFAULT_VARIABLES = 8
   private static readonly DEFAULT_EQUATIONS = 12
-  private static readonly DEFAULT_DEGREE = 2
   private static readonly VERSION = '1.0.0'
+  /** Field of the MQ identification schemes */
+  private static readonly FIELD = new FiniteField(31)
+  /** Field of the legacy polynomial system, the largest prime below 2^32 */
+  private static readonly SYSTEM_FIELD = new FiniteField(4294967291)
+  private static readonly SYSTEM_SEED_LENGTH = 32
+  private static readonly SYSTEM_HEADER_LENGTH = 3
+  private static readonly SYSTEM_SEED_FORM = 1
+  private static readonly SYSTEM_COEFFICIENT_FORM = 2
+  private static readonly MAX_SYSTEM_DIMENSION = QuantumCrypto.MAX_MULTIVARIATE_DIMENSION
+  private static readonly NONCE_LENGTH = 16
+  private static readonly DIGEST_LENGTH = 32
+  /** Rounds for 128-bit soundness; mq5 accounts for the Kales-Zaverucha attack on 5-pass Fiat-Shamir */
+  private static readonly DEFAULT_ROUNDS: Record<IdentificationMode, number> = { mq3: 219, mq5: 184 }
+  /** Dimensions of the MQ identification schemes, as in MQDSS-31-48 */
+  private static readonly IDENTIFICATION_DIMENSIONS = { variables: 48, equations: 48 }
 
   /**
    * Create multivariate quantum-resistant proof using polynomial systems
    * @param secret - Secret to prove knowledge of
    * @param parameters - Multivariate parameters
+   * @param random - Random source
    * @returns Multivariate proof
    */
-  public static createProof(secret: Buffer | string, parameters?: Partial<ProofParameters>): MultivariateProof {
-    const variables = parameters?.variables || this.DEFAULT_VARIABLES
-    const equations = parameters?.equations || this.DEFAULT_EQUATIONS
-    const degree = this.DEFAULT_DEGREE
-    if (!QuantumCrypto.validateParameters('multivariate', { variables, equations })) {
-      throw new Error('Invalid multivariate parameters')
+  public static createProof(
+    secret: Buffer | string,
+    parameters?: Partial<ProofParameters>,
+    random?: RandomSource
+  ): MultivariateProof {
+    const mode = parameters?.multivariateMode
+    if (mode === 'mq3' || mode === 'mq5') {
+      return this.createIdentificationProof(secret, parameters!, mode, random)
     }
+    const { variables, equations } = this.resolveDimensions(parameters)
     const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
-    const polynomialSystem = this.generateMultivariateSystem(variables, equations, degree)
-    const witness = QuantumCrypto.generateRandomBytes(32)
+    const polynomialSystem = this.generateMultivariateSystem(variables, equations, random)
+    const witness = QuantumCrypto.generateRandomBytes(32, random)
     const commitment = this.createMultivariateCommitment(secretBuffer, polynomialSystem)
     const challenge = this.generateMultivariateChallenge(commitment, witness, polynomialSystem)
     const response = this.createMultivariateResponse(secretBuffer, witness, challenge)
@@ -52,13 +86,58 @@ export class MultivariateZKP {
     }
   }
 
+  /**
+   * Generate public statement for a secret
+   * @param secret - Secret the statement is about
+   * @param parameters - Multivariate parameters (defaults to the MQ identification dimensions)
+   * @returns Multivariate statement holding the seed of F and the public key v = F(s)
+   */
+  public static generateStatement(
+    secret: Buffer | string,
+    parameters?: Partial<ProofParameters>
+  ): MultivariateStatement {
+    const { variables, equations } = this.resolveDimensions(parameters, this.IDENTIFICATION_DIMENSIONS)
+    const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
+    const { seed, publicKey } = this.deriveKeyPair(secretBuffer, variables, equations)
+    return {
+      type: 'multivariate',
+      variables,
+      equations,
+      seed,
+      publicOutput: publicKey
+    }
+  }
+
+  /**
+   * Compute digest binding a proof to a statement
+   * @param statement - Multivariate statement
+   * @returns Statement digest
+   */
+  public static getStatementDigest(statement: MultivariateStatement): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/statement/multivariate', [
+      QuantumCrypto.bigIntsToBuffer([BigInt(statement.variables)]),
+      QuantumCrypto.bigIntsToBuffer([BigInt(statement.equations)]),
+      statement.seed,
+      statement.publicOutput
+    ])
+  }
+
   /**
    * Verify multivariate polynomial proof
+   * Only MQ identification proofs are proofs of knowledge; a system proof is never accepted for a statement,
+   * since its statement digest can be recomputed from public data
    * @param proof - Multivariate proof to verify
+   * @param statement - Optional public statement the proof must be about
    * @returns True if proof is valid
    */
-  public static verifyProof(proof: MultivariateProof): boolean {
+  public static verifyProof(proof: MultivariateProof, statement?: MultivariateStatement): boolean {
     try {
+      if (proof.mode === 'mq3' || proof.mode === 'mq5') {
+        return this.verifyIdentificationProof(proof, statement)
+      }
+      if (statement) {
+        return false
+      }
       if (!this.validateProofStructure(proof)) {
         return false
       }
@@ -91,56 +170,498 @@ export class MultivariateZKP {
   }
 
   /**
-   * Generate multivariate polynomial system
+   * Verify that proof was created for the given statement
+   * @param proof - Multivariate proof
+   * @param statement - Public statement
+   * @returns True if the proof is bound to the statement
+   */
+  private static verifyStatement(proof: MultivariateProof, statement: MultivariateStatement): boolean {
+    if (statement.type !== 'multivariate' || !proof.statementDigest) {
+      return false
+    }
+    if (statement.publicOutput.length !== statement.equations) {
+      return false
+    }
+    return proof.statementDigest.equals(this.getStatementDigest(statement))
+  }
+
+  /**
+   * Resolve and validate system dimensions
+   * @param parameters - Multivariate parameters
+   * @param defaults - Dimensions used when parameters leave them out
+   * @returns Number of variables and equations
+   */
+  private static resolveDimensions(
+    parameters?: Partial<ProofParameters>,
+    defaults: { variables: number; equations: number } = {
+      variables: this.DEFAULT_VARIABLES,
+      equations: this.DEFAULT_EQUATIONS
+    }
+  ): { variables: number; equations: number } {
+    const variables = parameters?.variables || defaults.variables
+    const equations = parameters?.equations || defaults.equations
+    if (!QuantumCrypto.validateParameters('multivariate', { variables, equations })) {
+      throw new Error('Invalid multivariate parameters')
+    }
+    return { variables, equations }
+  }
+
+  /**
+   * Create Sakumoto-Shirai-Hiwatari identification proof made non-interactive with Fiat-Shamir
+   * @param secret - Secret to prove knowledge of
+   * @param parameters - Multivariate parameters
+   * @param mode - 'mq3' for the 3-pass or 'mq5' for the 5-pass protocol
+   * @param random - Random source
+   * @returns Multivariate proof in MQ mode
+   */
+  private static createIdentificationProof(
+    secret: Buffer | string,
+    parameters: Partial<ProofParameters>,
+    mode: IdentificationMode,
+    random: RandomSource = new SystemRandom()
+  ): MultivariateProof {
+    const { variables, equations } = this.resolveDimensions(parameters, this.IDENTIFICATION_DIMENSIONS)
+    const rounds = parameters.repetitions ?? this.DEFAULT_ROUNDS[mode]
+    if (!Number.isInteger(rounds) || rounds < this.DEFAULT_ROUNDS[mode]) {
+      throw new Error('Invalid multivariate parameters')
+    }
+    const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
+    const { seed, map, secretVector, publicKey } = this.deriveKeyPair(secretBuffer, variables, equations)
+    const statementDigest = this.getStatementDigest({
+      type: 'multivariate',
+      variables,
+      equations,
+      seed,
+      publicOutput: publicKey
+    })
+    const transcript =
+      mode === 'mq3'
+        ? this.proveThreePass(map, secretVector, statementDigest, rounds, random)
+        : this.proveFivePass(map, secretVector, statementDigest, rounds, random)
+    return {
+      type: 'multivariate',
+      ...transcript,
+      parameters: { variables, equations, multivariateMode: mode, repetitions: rounds },
+      quantumSafe: true,
+      timestamp: Date.now(),
+      version: this.VERSION,
+      variables,
+      equations,
+      polynomialSystem: Buffer.alloc(0),
+      solution: Buffer.alloc(0),
+      mode,
+      seed,
+      publicKey,
+      statementDigest
+    }
+  }
+
+  /**
+   * Run the 3-pass protocol: per round commit to c0 = (r1, G(t0, r1) + e0), c1 = (t0, e0) and c2 = (t1, e1)
+   * for s = r0 + r1, r0 = t0 + t1 and F(r0) = e0 + e1, then open two of the three commitments
+   * @param map - Public quadratic map F
+   * @param secretVector - Secret solution s
+   * @param context - Statement digest bound into the challenge
+   * @param rounds - Number of rounds (soundness error (2/3)^rounds)
+   * @param random - Random source
+   * @returns Commitment to all rounds, Fiat-Shamir challenge and packed openings
+   */
+  private static proveThreePass(
+    map: QuadraticSystem,
+    secretVector: number[],
+    context: Buffer,
+    rounds: number,
+    random: RandomSource
+  ): { commitment: Buffer; challenge: Buffer; response: Buffer } {
+    const runs = Array.from({ length: rounds }, () => {
+      const r0 = this.FIELD.randomVector(secretVector.length, random)
+      const t0 = this.FIELD.randomVector(secretVector.length, random)
+      const e0 = this.FIELD.randomVector(map.equations, random)
+      const r1 = this.FIELD.subtractVectors(secretVector, r0)
+      const t1 = this.FIELD.subtractVectors(r0, t0)
+      const e1 = this.FIELD.subtractVectors(map.evaluate(r0), e0)
+      const nonces = [0, 1, 2].map(() => random.randomBytes(this.NONCE_LENGTH))
+      const commitments = [
+        this.commitVectors(nonces[0], [r1, this.FIELD.addVectors(map.polarForm(t0, r1), e0)]),
+        this.commitVectors(nonces[1], [t0, e0]),
+        this.commitVectors(nonces[2], [t1, e1])
+      ]
+      return {
+        nonces,
+        commitments,
+        openings: [
+          [r0, t1, e1],
+          [r1, t1, e1],
+          [r1, t0, e0]
+        ]
+      }
+    })
+    const commitment = this.hashRounds(
+      'mq3',
+      runs.map(run => run.commitments)
+    )
+    const challenge = QuantumCrypto.domainHash('quantum-zkp/multivariate/mq3/challenge', [context, commitment])
+    const choices = this.deriveChallenges(challenge, rounds, 3)
+    const response = Buffer.concat(
+      runs.map((run, index) => {
+        const choice = choices[index]
+        const nonces = run.nonces.filter((_, party) => party !== choice)
+        return Buffer.concat([run.commitments[choice], ...nonces, Buffer.from(run.openings[choice].flat())])
+      })
+    )
+    return { commitment, challenge, response }
+  }
+
+  /**
+   * Run the 5-pass protocol: per round commit to c0 = (r0, t0, e0) and c1 = (r1, G(t0, r1) + e0), answer the
+   * first challenge alpha with t1 = alpha·r0 - t0 and e1 = alpha·F(r0) - e0, then open r0 or r1
+   * @param map - Public quadratic map F
+   * @param secretVector - Secret solution s
+   * @param context - Statement digest bound into the challenges
+   * @param rounds - Number of rounds (interactive soundness error ((q + 1) / 2q)^rounds; Fiat-Shamir needs more)
+   * @param random - Random source
+   * @returns Commitment to all rounds, second Fiat-Shamir challenge and packed openings
+   */
+  private static proveFivePass(
+    map: QuadraticSystem,
+    secretVector: number[],
+    context: Buffer,
+    rounds: number,
+    random: RandomSource
+  ): { commitment: Buffer; challenge: Buffer; response: Buffer } {
+    const runs = Array.from({ length: rounds }, () => {
+      const r0 = this.FIELD.randomVector(secretVector.length, random)
+      const t0 = this.FIELD.randomVector(secretVector.length, random)
+      const e0 = this.FIELD.randomVector(map.equations, random)
+      const r1 = this.FIELD.subtractVectors(secretVector, r0)
+      const nonces = [0, 1].map(() => random.randomBytes(this.NONCE_LENGTH))
+      const commitments = [
+        this.commitVectors(nonces[0], [r0, t0, e0]),
+        this.commitVectors(nonces[1], [r1, this.FIELD.addVectors(map.polarForm(t0, r1), e0)])
+      ]
+      return { r0, r1, t0, e0, nonces, commitments }
+    })
+    const commitment = this.hashRounds(
+      'mq5',
+      runs.map(run => run.commitments)
+    )
+    const firstChallenge = QuantumCrypto.domainHash('quantum-zkp/multivariate/mq5/alpha', [context, commitment])
+    const alphas = this.deriveChallenges(firstChallenge, rounds, this.FIELD.order)
+    const answers = runs.map((run, index) =>
+      Buffer.from([
+        ...this.FIELD.subtractVectors(this.FIELD.scaleVector(alphas[index], run.r0), run.t0),
+        ...this.FIELD.subtractVectors(this.FIELD.scaleVector(alphas[index], map.evaluate(run.r0)), run.e0)
+      ])
+    )
+    const challenge = this.deriveSecondChallenge(firstChallenge, answers)
+    const choices = this.deriveChallenges(challenge, rounds, 2)
+    const response = Buffer.concat(
+      runs.map((run, index) => {
+        const choice = choices[index]
+        const opened = Buffer.from(choice === 0 ? run.r0 : run.r1)
+        return Buffer.concat([answers[index], run.commitments[1 - choice], run.nonces[choice], opened])
+      })
+    )
+    return { commitment, challenge, response }
+  }
+
+  /**
+   * Verify MQ identification proof by recomputing the opened commitments of every round
+   * @param proof - Multivariate proof in MQ mode
+   * @param statement - Optional public statement the proof must be about
+   * @returns True if the recomputed commitments and challenges match the proof
+   */
+  private static verifyIdentificationProof(proof: MultivariateProof, statement?: MultivariateStatement): boolean {
+    if (!this.validateIdentificationStructure(proof)) {
+      return false
+    }
+    const publicStatement: MultivariateStatement = {
+      type: 'multivariate',
+      variables: proof.variables,
+      equations: proof.equations,
+      seed: proof.seed!,
+      publicOutput: proof.publicKey!
+    }
+    const context = this.getStatementDigest(publicStatement)
+    if (!proof.statementDigest?.equals(context)) {
+      return false
+    }
+    const map = QuadraticSystem.fromSeed(this.FIELD, proof.seed!, proof.variables, proof.equations, false)
+    const publicKey = [...proof.publicKey!]
+    const valid =
+      proof.mode === 'mq3'
+        ? this.verifyThreePass(proof, map, publicKey, context)
+        : this.verifyFivePass(proof, map, publicKey, context)
+    return valid && (!statement || this.verifyIdentificationStatement(proof, statement))
+  }
+
+  /**
+   * Verify 3-pass transcript
+   * @param proof - Multivariate proof in mq3 mode
+   * @param map - Public quadratic map F
+   * @param publicKey - Public key v
+   * @param context - Statement digest
+   * @returns True if the transcript is consistent
+   */
+  private static verifyThreePass(
+    proof: MultivariateProof,
+    map: QuadraticSystem,
+    publicKey: number[],
+    context: Buffer
+  ): boolean {
+    const { variables, equations } = proof
+    const rounds = proof.parameters.repetitions!
+    const roundLength = this.DIGEST_LENGTH + 2 * this.NONCE_LENGTH + 2 * variables + equations
+    const choices = this.deriveChallenges(proof.challenge, rounds, 3)
+    const commitments = choices.map((choice, index) => {
+      const reader = this.createRoundReader(proof.response.subarray(index * roundLength, (index + 1) * roundLength))
+      const unopened = reader.bytes(this.DIGEST_LENGTH)
+      const nonces = [reader.bytes(this.NONCE_LENGTH), reader.bytes(this.NONCE_LENGTH)]
+      const [r, t, e] = [reader.vector(variables), reader.vector(variables), reader.vector(equations)]
+      let opened: Buffer[]
+      if (choice === 0) {
+        opened = [
+          this.commitVectors(nonces[0], [
+            this.FIELD.subtractVectors(r, t),
+            this.FIELD.subtractVectors(map.evaluate(r), e)
+          ]),
+          this.commitVectors(nonces[1], [t, e])
+        ]
+      } else if (choice === 1) {
+        const masked = this.FIELD.subtractVectors(
+          this.FIELD.subtractVectors(publicKey, map.evaluate(r)),
+          this.FIELD.addVectors(map.polarForm(t, r), e)
+        )
+        opened = [this.commitVectors(nonces[0], [r, masked]), this.commitVectors(nonces[1], [t, e])]
+      } else {
+        opened = [
+          this.commitVectors(nonces[0], [r, this.FIELD.addVectors(map.polarForm(t, r), e)]),
+          this.commitVectors(nonces[1], [t, e])
+        ]
+      }
+      opened.splice(choice, 0, unopened)
+      return opened
+    })
+    const commitment = this.hashRounds('mq3', commitments)
+    return (
+      commitment.equals(proof.commitment) &&
+      QuantumCrypto.domainHash('quantum-zkp/multivariate/mq3/challenge', [context, commitment]).equals(proof.challenge)
+    )
+  }
+
+  /**
+   * Verify 5-pass transcript
+   * @param proof - Multivariate proof in mq5 mode
+   * @param map - Public quadratic map F
+   * @param publicKey - Public key v
+   * @param context - Statement digest
+   * @returns True if the transcript is consistent
+   */
+  private static verifyFivePass(
+    proof: MultivariateProof,
+    map: QuadraticSystem,
+    publicKey: number[],
+    context: Buffer
+  ): boolean {
+    const { variables, equations } = proof
+    const rounds = proof.parameters.repetitions!
+    const roundLength = variables + equations + this.DIGEST_LENGTH + this.NONCE_LENGTH + variables
+    const firstChallenge = QuantumCrypto.domainHash('quantum-zkp/multivariate/mq5/alpha', [context, proof.commitment])
+    const alphas = this.deriveChallenges(firstChallenge, rounds, this.FIELD.order)
+    const choices = this.deriveChallenges(proof.challenge, rounds, 2)
+    const answers: Buffer[] = []
+    const commitments = choices.map((choice, index) => {
+      const reader = this.createRoundReader(proof.response.subarray(index * roundLength, (index + 1) * roundLength))
+      const answer = reader.bytes(variables + equations)
+      const unopened = reader.bytes(this.DIGEST_LENGTH)
+      const nonce = reader.bytes(this.NONCE_LENGTH)
+      const r = reader.vector(variables)
+      const t1 = [...answer.subarray(0, variables)]
+      const e1 = [...answer.subarray(variables)]
+      const alpha = alphas[index]
+      answers.push(answer)
+      if (choice === 0) {
+        const t0 = this.FIELD.subtractVectors(this.FIELD.scaleVector(alpha, r), t1)
+        const e0 = this.FIELD.subtractVectors(this.FIELD.scaleVector(alpha, map.evaluate(r)), e1)
+        return [this.commitVectors(nonce, [r, t0, e0]), unopened]
+      }
+      const masked = this.FIELD.subtractVectors(
+        this.FIELD.scaleVector(alpha, this.FIELD.subtractVectors(publicKey, map.evaluate(r))),
+        this.FIELD.addVectors(map.polarForm(t1, r), e1)
+      )
+      return [unopened, this.commitVectors(nonce, [r, masked])]
+    })
+    return (
+      this.hashRounds('mq5', commitments).equals(proof.commitment) &&
+      this.deriveSecondChallenge(firstChallenge, answers).equals(proof.challenge)
+    )
+  }
+
+  /**
+   * Validate MQ mode proof structure and field element encodings
+   * The round count comes from the proof, so fewer than the default rounds of the mode are rejected,
+   * and dimensions above the maximum are rejected before the public map is expanded
+   * @param proof - Multivariate proof in MQ mode
+   * @returns True if structure is valid
+   */
+  private static validateIdentificationStructure(proof: MultivariateProof): boolean {
+    const { variables, equations } = proof
+    const rounds = proof.parameters?.repetitions
+    const minimumRounds = this.DEFAULT_ROUNDS[proof.mode === 'mq3' ? 'mq3' : 'mq5']
+    if (
+      !this.validateProofStructure(proof) ||
+      !QuantumCrypto.validateParameters('multivariate', { variables, equations }) ||
+      rounds === undefined ||
+      !Number.isInteger(rounds) ||
+      rounds < minimumRounds ||
+      !(proof.seed instanceof Buffer) ||
+      !(proof.publicKey instanceof Buffer) ||
+      proof.publicKey.length !== equations ||
+      !proof.publicKey.every(value => this.FIELD.isElement(value)) ||
+      proof.commitment.length !== this.DIGEST_LENGTH ||
+      proof.challenge.length !== this.DIGEST_LENGTH
+    ) {
+      return false
+    }
+    const roundLength =
+      proof.mode === 'mq3'
+        ? this.DIGEST_LENGTH + 2 * this.NONCE_LENGTH + 2 * variables + equations
+        : 2 * variables + equations + this.DIGEST_LENGTH + this.NONCE_LENGTH
+    return proof.response.length === rounds * roundLength
+  }
+
+  /**
+   * Verify that MQ proof is about the public key in the statement
+   * @param proof - Multivariate proof in MQ mode
+   * @param statement - Public statement
+   * @returns True if the proof public key matches the statement
+   */
+  private static verifyIdentificationStatement(proof: MultivariateProof, statement: MultivariateStatement): boolean {
+    return (
+      statement.type === 'multivariate' &&
+      statement.variables === proof.variables &&
+      statement.equations === proof.equations &&
+      statement.seed.equals(proof.seed!) &&
+      statement.publicOutput.equals(proof.publicKey!) &&
+      this.verifyStatement(proof, statement)
+    )
+  }
+
+  /**
+   * Derive public map, secret solution and public key from a secret
+   * @param secret - Secret value
    * @param variables - Number of variables
    * @param equations - Number of equations
-   * @param degree - Polynomial degree
-   * @returns Serialized polynomial system
+   * @returns Seed of F, expanded F, secret vector s and packed v = F(s)
    */
-  private static generateMultivariateSystem(variables: number, equations: number, degree: number): Buffer {
-    const system: bigint[][][] = []
-    for (let eq = 0; eq < equations; eq++) {
-      const equation: bigint[][] = []
-      for (let v = 0; v < variables; v++) {
-        const polynomial: bigint[] = []
-        for (let d = 0; d < Math.max(degree, 1); d++) {
-          const coefficient = QuantumCrypto.generateRandomBigInt(1n, 2n ** 32n)
-          polynomial.push(coefficient)
+  private static deriveKeyPair(
+    secret: Buffer,
+    variables: number,
+    equations: number
+  ): { seed: Buffer; map: QuadraticSystem; secretVector: number[]; publicKey: Buffer } {
+    const seed = QuantumCrypto.domainHash('quantum-zkp/multivariate/seed', [secret])
+    const map = QuadraticSystem.fromSeed(this.FIELD, seed, variables, equations, false)
+    const secretRandom = new SeededRandom(QuantumCrypto.domainHash('quantum-zkp/multivariate/secret', [secret]))
+    const secretVector = this.FIELD.randomVector(variables, secretRandom)
+    return { seed, map, secretVector, publicKey: Buffer.from(map.evaluate(secretVector)) }
+  }
+
+  /**
+   * Commit to field element vectors
+   * @param nonce - Commitment randomness
+   * @param vectors - Vectors to commit to
+   * @returns Commitment digest
+   */
+  private static commitVectors(nonce: Buffer, vectors: number[][]): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/multivariate/commitment', [
+      nonce,
+      ...vectors.map(vector => Buffer.from(vector))
+    ])
+  }
+
+  /**
+   * Hash the commitments of all rounds
+   * @param mode - Identification protocol
+   * @param commitments - Commitments per round
+   * @returns Proof commitment
+   */
+  private static hashRounds(mode: IdentificationMode, commitments: Buffer[][]): Buffer {
+    return QuantumCrypto.domainHash(`quantum-zkp/multivariate/${mode}/commitments`, commitments.flat())
+  }
+
+  /**
+   * Derive the 5-pass challenge bits input from the first challenge and the responses to it
+   * @param firstChallenge - Challenge the alphas were derived from
+   * @param answers - Packed (t1, e1) per round
+   * @returns Second challenge
+   */
+  private static deriveSecondChallenge(firstChallenge: Buffer, answers: Buffer[]): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/multivariate/mq5/challenge', [firstChallenge, ...answers])
+  }
+
+  /**
+   * Expand Fiat-Shamir challenge into uniform per-round choices
+   * @param challenge - Challenge digest
+   * @param rounds - Number of rounds
+   * @param choices - Number of possible choices per round
+   * @returns Choice in [0, choices) per round
+   */
+  private static deriveChallenges(challenge: Buffer, rounds: number, choices: number): number[] {
+    const random = new SeededRandom(challenge)
+    return Array.from({ length: rounds }, () => Number(DiscreteSampler.sampleUniform(0n, BigInt(choices), random)))
+  }
+
+  /**
+   * Create sequential reader over the packed opening of one round
+   * @param buffer - Round bytes
+   * @returns Reader returning raw bytes or field element vectors
+   */
+  private static createRoundReader(buffer: Buffer): {
+    bytes: (length: number) => Buffer
+    vector: (length: number) => number[]
+  } {
+    let offset = 0
+    const bytes = (length: number): Buffer => {
+      offset += length
+      return buffer.subarray(offset - length, offset)
+    }
+    return {
+      bytes,
+      vector: (length: number): number[] => {
+        const values = [...bytes(length)]
+        if (!values.every(value => this.FIELD.isElement(value))) {
+          throw new Error('Invalid field element')
         }
-        equation.push(polynomial)
+        return values
       }
-      system.push(equation)
     }
-    if (system.length === 0 || system[0].length === 0) {
-      return this.serializePolynomialSystem(this.createDefaultPolynomialSystem())
+  }
+
+  /**
+   * Generate public quadratic system from a fresh seed
+   * @param variables - Number of variables
+   * @param equations - Number of equations
+   * @param random - Random source
+   * @returns Polynomial system in seed form
+   */
+  private static generateMultivariateSystem(variables: number, equations: number, random?: RandomSource): Buffer {
+    if (variables > this.MAX_SYSTEM_DIMENSION || equations > this.MAX_SYSTEM_DIMENSION) {
+      throw new Error(`Multivariate systems support at most ${this.MAX_SYSTEM_DIMENSION} variables and equations`)
     }
-    return this.serializePolynomialSystem(system)
+    const seed = QuantumCrypto.generateRandomBytes(this.SYSTEM_SEED_LENGTH, random)
+    return Buffer.concat([Buffer.from([this.SYSTEM_SEED_FORM, variables, equations]), seed])
   }
 
   /**
    * Solve multivariate polynomial system
    * @param secret - Secret value
    * @param polynomialSystem - Polynomial system
-   * @returns Solution to polynomial system
+   * @returns Value of the system at the secret, one encoded field element per equation
    */
   private static solveMultivariateSystem(secret: Buffer, polynomialSystem: Buffer): Buffer {
     const system = this.deserializePolynomialSystem(polynomialSystem)
-    const secretInts = QuantumCrypto.bufferToBigInts(secret, Math.min(system[0].length, 16))
-    const solution: bigint[] = []
-    for (const equation of system) {
-      let result = 0n
-      for (let i = 0; i < equation.length && i < secretInts.length; i++) {
-        const polynomial = equation[i]
-        const value = secretInts[i]
-        let polyResult = 0n
-        for (let j = 0; j < polynomial.length; j++) {
-          polyResult = (polyResult + polynomial[j] * value ** BigInt(j)) % 2n ** 64n
-        }
-        result = (result + polyResult) % 2n ** 64n
-      }
-      solution.push(result)
-    }
-    return QuantumCrypto.bigIntsToBuffer(solution)
+    const point = QuantumCrypto.bufferToBigInts(secret, system.variables).map(value => this.SYSTEM_FIELD.reduce(value))
+    return this.SYSTEM_FIELD.encodeVector(system.evaluate(point))
   }
 
   /**
@@ -176,18 +697,19 @@ export class MultivariateZKP {
    * @returns Multivariate response
    */
   private static createMultivariateResponse(secret: Buffer, witness: Buffer, challenge: Buffer): Buffer {
-    const secretInts = QuantumCrypto.bufferToBigInts(secret, 16)
-    const challengeInt = BigInt(`0x${challenge.toString('hex')}`)
-    const weightedSecret = secretInts.map(s => (s * challengeInt) % 2n ** 64n)
-    const witnessInts = QuantumCrypto.bufferToBigInts(witness, 16)
-    const response = weightedSecret.map((ws, i) => (ws + witnessInts[i]) % 2n ** 64n)
-    return QuantumCrypto.bigIntsToBuffer(response)
+    const field = this.SYSTEM_FIELD
+    const challengeValue = field.reduce(BigInt(`0x${challenge.toString('hex')}`))
+    const witnessValues = QuantumCrypto.bufferToBigInts(witness, 16).map(value => field.reduce(value))
+    const response = QuantumCrypto.bufferToBigInts(secret, 16).map((value, i) =>
+      field.add(field.multiply(field.reduce(value), challengeValue), witnessValues[i])
+    )
+    return field.encodeVector(response)
   }
 
   /**
    * Verify polynomial solution
    * @param proof - Multivariate proof
-   * @returns True if solution is valid
+   * @returns True if the system decodes with the proof dimensions and the solution has one element per equation
    */
   private static verifyPolynomialSolution(proof: MultivariateProof): boolean {
     try {
@@ -198,13 +720,12 @@ export class MultivariateZKP {
       if (!proof.solution || proof.solution.length === 0) {
         return false
       }
-      const solutionInts = QuantumCrypto.bufferToBigInts(proof.solution, proof.equations)
-      for (const value of solutionInts) {
-        if (value < 0n || value > 2n ** 64n) {
-          return false
-        }
-      }
-      return true
+      const system = this.deserializePolynomialSystem(proof.polynomialSystem)
+      return (
+        system.variables === proof.variables &&
+        system.equations === proof.equations &&
+        this.SYSTEM_FIELD.decodeVector(proof.solution).length === proof.equations
+      )
     } catch {
       return false
     }
@@ -244,154 +765,80 @@ export class MultivariateZKP {
   }
 
   /**
-   * Serialize polynomial system to buffer
-   * @param system - Polynomial system
-   * @returns Serialized system
+   * Serialize polynomial system with its coefficients at field-element width
+   * @param system - Quadratic system over the system field
+   * @returns Polynomial system in coefficient form
    */
-  private static serializePolynomialSystem(system: bigint[][][]): Buffer {
-    const data = {
-      equations: system.length,
-      variables: system.length > 0 ? system[0].length : 0,
-      polynomials: system.map(equation => equation.map(polynomial => polynomial.map(coeff => coeff.toString())))
-    }
-    return Buffer.from(JSON.stringify(data), 'utf8')
+  public static serializePolynomialSystem(system: QuadraticSystem): Buffer {
+    return Buffer.concat([
+      Buffer.from([this.SYSTEM_COEFFICIENT_FORM, system.variables, system.equations]),
+      this.SYSTEM_FIELD.encodeVector(system.getCoefficients())
+    ])
   }
 
   /**
-   * Deserialize polynomial system from buffer
-   * @param buffer - Serialized polynomial system
-   * @returns Deserialized polynomial system
+   * Deserialize polynomial system
+   * Layout: form, variables, equations, then a 32-byte seed or every coefficient as a 4-byte field element
+   * @param buffer - Polynomial system in seed or coefficient form
+   * @returns Quadratic system over the system field
    */
-  private static deserializePolynomialSystem(buffer: Buffer): bigint[][][] {
-    try {
-      const data = this.parsePolynomialData(buffer)
-      const { equations, variables } = this.validatePolynomialDimensions(data)
-      const system = this.buildPolynomialSystem(data, equations, variables)
-      return this.ensureValidSystem(system)
-    } catch {
-      return this.createDefaultPolynomialSystem()
-    }
-  }
-
-  /**
-   * Parse polynomial data from buffer
-   * @param buffer - Serialized polynomial system
-   * @returns Parsed polynomial data
-   */
-  private static parsePolynomialData(buffer: Buffer): {
-    equations: number
-    variables: number
-    polynomials: string[][][]
-  } {
-    const data = JSON.parse(buffer.toString('utf8'))
-    if (!data.equations || !data.variables || !data.polynomials) {
-      throw new Error('Invalid polynomial system format')
+  public static deserializePolynomialSystem(buffer: Buffer): QuadraticSystem {
+    if (buffer.length < this.SYSTEM_HEADER_LENGTH) {
+      throw this.decodingError('Polynomial system header is truncated')
     }
-    return data
-  }
-
-  /**
-   * Validate polynomial system dimensions
-   * @param data - Parsed polynomial data
-   * @returns Validated dimensions
-   */
-  private static validatePolynomialDimensions(data: {
-    equations: number
-    variables: number
-    polynomials: string[][][]
-  }): { equations: number; variables: number } {
-    const equations = Number(data.equations)
-    const variables = Number(data.variables)
-    if (equations <= 0 || variables <= 0 || equations > 50 || variables > 50) {
-      throw new Error(`Invalid polynomial system dimensions: equations=${equations}, variables=${variables}`)
+    const [form, variables, equations] = buffer
+    if (!this.isSystemDimension(variables) || !this.isSystemDimension(equations)) {
+      throw this.decodingError(`Invalid polynomial system dimensions: equations=${equations}, variables=${variables}`)
     }
-    return { equations, variables }
-  }
-
-  /**
-   * Build polynomial system from parsed data
-   * @param data - Parsed polynomial data
-   * @param equations - Number of equations
-   * @param variables - Number of variables
-   * @returns Built polynomial system
-   */
-  private static buildPolynomialSystem(
-    data: { equations: number; variables: number; polynomials: string[][][] },
-    equations: number,
-    variables: number
-  ): bigint[][][] {
-    const system: bigint[][][] = []
-    for (let eq = 0; eq < equations; eq++) {
-      const equation: bigint[][] = []
-      for (let v = 0; v < variables; v++) {
-        const polynomial = this.buildPolynomial(data, eq, v)
-        equation.push(polynomial)
-      }
-      if (equation.length === 0) {
-        equation.push([1n])
+    const body = buffer.subarray(this.SYSTEM_HEADER_LENGTH)
+    if (form === this.SYSTEM_SEED_FORM) {
+      if (body.length !== this.SYSTEM_SEED_LENGTH) {
+        throw this.decodingError(`Polynomial system seed must be ${this.SYSTEM_SEED_LENGTH} bytes`)
       }
-      system.push(equation)
+      return QuadraticSystem.fromSeed(this.SYSTEM_FIELD, body, variables, equations)
+    }
+    if (form === this.SYSTEM_COEFFICIENT_FORM) {
+      return this.decodeCoefficients(body, variables, equations)
     }
-    return system
+    throw this.decodingError(`Unknown polynomial system form: ${form}`)
   }
 
   /**
-   * Build individual polynomial from data
-   * @param data - Parsed polynomial data
-   * @param eq - Equation index
-   * @param v - Variable index
-   * @returns Built polynomial
+   * Decode explicit coefficients
+   * @param body - Coefficients at field-element width
+   * @param variables - Number of variables
+   * @param equations - Number of equations
+   * @returns Quadratic system over the system field
    */
-  private static buildPolynomial(
-    data: { equations: number; variables: number; polynomials: string[][][] },
-    eq: number,
-    v: number
-  ): bigint[] {
-    const polynomial: bigint[] = []
-    if (data.polynomials[eq] && data.polynomials[eq][v]) {
-      for (const coeffStr of data.polynomials[eq][v]) {
-        polynomial.push(BigInt(coeffStr))
-      }
+  private static decodeCoefficients(body: Buffer, variables: number, equations: number): QuadraticSystem {
+    const { elementBytes } = this.SYSTEM_FIELD
+    const count = equations * (QuadraticSystem.getQuadraticTermCount(variables) + variables + 1)
+    if (body.length !== count * elementBytes) {
+      throw this.decodingError('Polynomial system length does not match its dimensions')
     }
-    if (polynomial.length === 0) {
-      polynomial.push(1n)
+    const coefficients = Array.from({ length: count }, (_, i) => body.readUIntBE(i * elementBytes, elementBytes))
+    if (!coefficients.every(value => this.SYSTEM_FIELD.isElement(value))) {
+      throw this.decodingError('Polynomial system coefficient is not a field element')
     }
-    return polynomial
+    return QuadraticSystem.fromCoefficients(this.SYSTEM_FIELD, variables, coefficients)
   }
 
   /**
-   * Ensure polynomial system is valid
-   * @param system - Polynomial system
-   * @returns Valid polynomial system
+   * Check a decoded system dimension
+   * @param value - Number of variables or equations
+   * @returns True if value is between 1 and the maximum dimension
    */
-  private static ensureValidSystem(system: bigint[][][]): bigint[][][] {
-    if (system.length === 0) {
-      system.push([[1n]])
-    }
-    return system
+  private static isSystemDimension(value: number): boolean {
+    return value >= 1 && value <= this.MAX_SYSTEM_DIMENSION
   }
 
   /**
-   * Create default polynomial system for fallback
-   * @returns Default polynomial system
+   * Create decoding error
+   * @param message - Error message
+   * @returns ZKPError
    */
-  private static createDefaultPolynomialSystem(): bigint[][][] {
-    const system: bigint[][][] = []
-    for (let eq = 0; eq < 2; eq++) {
-      const equation: bigint[][] = []
-      for (let v = 0; v < 2; v++) {
-        const coefficients = [1n, 2n]
-        equation.push(coefficients)
-      }
-      system.push(equation)
-    }
-    if (system.length === 0) {
-      system.push([
-        [1n, 1n],
-        [1n, 1n]
-      ])
-    }
-    return system
+  private static decodingError(message: string): ZKPError {
+    return new ZKPError({ code: 'MULTIVARIATE_INVALID_SYSTEM', message, algorithm: 'multivariate' })
   }
 
   /**
@@ -437,10 +884,10 @@ export class MultivariateZKP {
       for (let v = 0; v < variables; v++) {
         if (this.shouldIncludeCoefficient(secret, eq, v)) {
           const key = `${eq}:${v}:0`
-          coefficients.set(key, QuantumCrypto.generateRandomBigInt(0n, 2n ** 64n))
+          coefficients.set(key, BigInt(this.SYSTEM_FIELD.randomElement()))
           if (this.shouldIncludeCoefficient(secret, eq, v + 1000)) {
             const quadKey = `${eq}:${v}:1`
-            coefficients.set(quadKey, QuantumCrypto.generateRandomBigInt(0n, 2n ** 32n))
+            coefficients.set(quadKey, BigInt(this.SYSTEM_FIELD.randomElement()))
           }
         }
       }
@@ -0,0 +1,390 @@
+/**
+ * Stateless hash-based signatures (SPHINCS+-style)
+ * @author NeaByteLab
+ */
+
+import { QuantumCrypto } from '@utils/crypto'
+import { WinternitzOTS } from '@utils/wots'
+import type {
+  ForsTreeSignature,
+  HypertreeLayerSignature,
+  PerformanceMetrics,
+  SphincsParameterSet,
+  SphincsParameters,
+  SphincsPrivateKey,
+  SphincsPublicKey,
+  SphincsSignature
+} from '../types'
+
+/**
+ * SPHINCS+-style stateless signatures
+ * The message digest selects one FORS few-time key and one leaf in each FORS tree; the FORS public key
+ * is then signed by a hypertree of WOTS+ Merkle trees whose top root is the public key
+ */
+export class StatelessHashSignature {
+  private static readonly DEFAULT_PARAMETER_SET: SphincsParameterSet = 'small'
+  private static readonly SEED_LENGTH = 32
+  private static readonly ADDRESS_WOTS = 0
+  private static readonly ADDRESS_FORS_LEAF = 1
+  private static readonly ADDRESS_FORS_ROOTS = 2
+  private static readonly PARAMETER_SETS: Record<SphincsParameterSet, SphincsParameters> = {
+    tiny: { name: 'tiny', height: 4, layers: 2, forsTrees: 6, forsHeight: 4, winternitz: 16, hashLength: 32 },
+    small: { name: 'small', height: 10, layers: 2, forsTrees: 10, forsHeight: 8, winternitz: 16, hashLength: 32 },
+    fast: { name: 'fast', height: 12, layers: 6, forsTrees: 16, forsHeight: 4, winternitz: 16, hashLength: 32 }
+  }
+
+  /**
+   * Generate key pair
+   * @param parameterSet - Parameter set
+   * @param seed - Optional seed for deterministic key generation
+   * @returns Private and public key
+   */
+  public static generateKeyPair(
+    parameterSet: SphincsParameterSet = this.DEFAULT_PARAMETER_SET,
+    seed?: Buffer
+  ): { privateKey: SphincsPrivateKey; publicKey: SphincsPublicKey } {
+    const parameters = this.getParameterSet(parameterSet)
+    const source = seed ?? QuantumCrypto.generateRandomBytes(this.SEED_LENGTH)
+    const expanded = QuantumCrypto.expandSeed(source, this.SEED_LENGTH * 3)
+    const secretSeed = expanded.subarray(0, this.SEED_LENGTH)
+    const prfKey = expanded.subarray(this.SEED_LENGTH, this.SEED_LENGTH * 2)
+    const publicSeed = expanded.subarray(this.SEED_LENGTH * 2)
+    const { root } = this.buildSubtree(parameters, secretSeed, publicSeed, parameters.layers - 1, 0)
+    return {
+      privateKey: { parameterSet, secretSeed, prfKey, publicSeed, root },
+      publicKey: { parameterSet, publicSeed, root }
+    }
+  }
+
+  /**
+   * Sign message
+   * @param message - Message to sign
+   * @param privateKey - Private key
+   * @returns Stateless signature
+   */
+  public static sign(message: Buffer | string, privateKey: SphincsPrivateKey): SphincsSignature {
+    const parameters = this.getParameterSet(privateKey.parameterSet)
+    const { secretSeed, prfKey, publicSeed, root } = privateKey
+    const messageBuffer = typeof message === 'string' ? Buffer.from(message, 'utf8') : message
+    const randomness = QuantumCrypto.domainHash('quantum-zkp/sphincs/randomness', [prfKey, messageBuffer])
+    const { forsIndices, tree, leaf } = this.digestMessage(parameters, messageBuffer, randomness, publicSeed, root)
+    const forsSignature = forsIndices.map((leafIndex, treeIndex) => {
+      const leaves = this.buildForsLeaves(parameters, secretSeed, publicSeed, tree, leaf, treeIndex)
+      const { tree: forsTree } = QuantumCrypto.generateMerkleTree(leaves.map(entry => entry.leaf))
+      return {
+        secret: leaves[leafIndex].secret,
+        authPath: QuantumCrypto.generateMerkleProof(forsTree, leafIndex)
+      }
+    })
+    let signedRoot = this.forsPublicKeyFromSignature(parameters, forsSignature, forsIndices, publicSeed, tree, leaf)
+    const hypertree: HypertreeLayerSignature[] = []
+    let treeIndex = tree
+    let leafIndex = leaf
+    for (let layer = 0; layer < parameters.layers; layer++) {
+      const address = this.getAddress(this.ADDRESS_WOTS, layer, treeIndex, leafIndex)
+      const subtree = this.buildSubtree(parameters, secretSeed, publicSeed, layer, treeIndex)
+      hypertree.push({
+        wotsSignature: WinternitzOTS.sign(signedRoot, secretSeed, publicSeed, address),
+        authPath: QuantumCrypto.generateMerkleProof(subtree.tree, leafIndex)
+      })
+      signedRoot = subtree.root
+      ;({ treeIndex, leafIndex } = this.nextLayer(parameters, treeIndex))
+    }
+    return { randomness, forsSignature, hypertree }
+  }
+
+  /**
+   * Verify signature
+   * @param message - Signed message
+   * @param signature - Stateless signature
+   * @param publicKey - Public key
+   * @returns True if signature is valid
+   */
+  public static verify(message: Buffer | string, signature: SphincsSignature, publicKey: SphincsPublicKey): boolean {
+    const parameters = this.PARAMETER_SETS[publicKey.parameterSet]
+    if (!parameters || !this.hasValidStructure(parameters, signature)) {
+      return false
+    }
+    const { publicSeed, root } = publicKey
+    const messageBuffer = typeof message === 'string' ? Buffer.from(message, 'utf8') : message
+    const { forsIndices, tree, leaf } = this.digestMessage(
+      parameters,
+      messageBuffer,
+      signature.randomness,
+      publicSeed,
+      root
+    )
+    let signedRoot = this.forsPublicKeyFromSignature(
+      parameters,
+      signature.forsSignature,
+      forsIndices,
+      publicSeed,
+      tree,
+      leaf
+    )
+    let treeIndex = tree
+    let leafIndex = leaf
+    for (let layer = 0; layer < parameters.layers; layer++) {
+      const { wotsSignature, authPath } = signature.hypertree[layer]
+      const address = this.getAddress(this.ADDRESS_WOTS, layer, treeIndex, leafIndex)
+      const wotsKey = WinternitzOTS.publicKeyFromSignature(signedRoot, wotsSignature, publicSeed, address)
+      if (!wotsKey) {
+        return false
+      }
+      signedRoot = QuantumCrypto.computeMerkleRoot(wotsKey, authPath, leafIndex)
+      ;({ treeIndex, leafIndex } = this.nextLayer(parameters, treeIndex))
+    }
+    return signedRoot.equals(root)
+  }
+
+  /**
+   * Get parameter set
+   * @param parameterSet - Parameter set name
+   * @returns Parameters
+   */
+  public static getParameterSet(parameterSet: SphincsParameterSet): SphincsParameters {
+    const parameters = this.PARAMETER_SETS[parameterSet]
+    if (!parameters) {
+      throw new Error(`Unsupported SPHINCS+ parameter set: ${parameterSet}`)
+    }
+    return { ...parameters }
+  }
+
+  /**
+   * Get signature size in bytes
+   * @param parameterSet - Parameter set name
+   * @returns Signature size
+   */
+  public static getSignatureSize(parameterSet: SphincsParameterSet): number {
+    const { height, layers, forsTrees, forsHeight, hashLength } = this.getParameterSet(parameterSet)
+    const forsSize = forsTrees * (forsHeight + 1) * hashLength
+    const hypertreeSize = layers * (WinternitzOTS.getSignatureSize() + (height / layers) * hashLength)
+    return hashLength + forsSize + hypertreeSize
+  }
+
+  /**
+   * Measure signing and verification for a parameter set
+   * @param parameterSet - Parameter set name
+   * @returns Measured times, signature size and memory usage
+   */
+  public static getPerformanceMetrics(
+    parameterSet: SphincsParameterSet = this.DEFAULT_PARAMETER_SET
+  ): PerformanceMetrics {
+    const { privateKey, publicKey } = this.generateKeyPair(parameterSet)
+    const message = Buffer.from('performance-test-message')
+    const startMemory = process.memoryUsage().heapUsed
+    const signStart = performance.now()
+    const signature = this.sign(message, privateKey)
+    const generationTime = performance.now() - signStart
+    const verifyStart = performance.now()
+    this.verify(message, signature, publicKey)
+    const verificationTime = performance.now() - verifyStart
+    return {
+      generationTime,
+      verificationTime,
+      proofSize: this.getSignatureSize(parameterSet),
+      memoryUsage: Math.max(0, process.memoryUsage().heapUsed - startMemory)
+    }
+  }
+
+  /**
+   * Derive FORS leaf indices and hypertree position from the message
+   * @param parameters - Parameters
+   * @param message - Message
+   * @param randomness - Per-message randomness
+   * @param publicSeed - Public seed
+   * @param root - Public root
+   * @returns FORS leaf index per tree, bottom tree index and leaf index
+   */
+  private static digestMessage(
+    parameters: SphincsParameters,
+    message: Buffer,
+    randomness: Buffer,
+    publicSeed: Buffer,
+    root: Buffer
+  ): { forsIndices: number[]; tree: number; leaf: number } {
+    const { height, layers, forsTrees, forsHeight } = parameters
+    const subtreeHeight = height / layers
+    const totalBits = forsTrees * forsHeight + height
+    const seed = QuantumCrypto.domainHash('quantum-zkp/sphincs/message', [randomness, publicSeed, root, message])
+    const digest = QuantumCrypto.expandSeed(seed, Math.ceil(totalBits / 8))
+    const forsIndices: number[] = []
+    for (let i = 0; i < forsTrees; i++) {
+      forsIndices.push(this.readBits(digest, i * forsHeight, forsHeight))
+    }
+    const offset = forsTrees * forsHeight
+    return {
+      forsIndices,
+      tree: this.readBits(digest, offset, height - subtreeHeight),
+      leaf: this.readBits(digest, offset + height - subtreeHeight, subtreeHeight)
+    }
+  }
+
+  /**
+   * Build FORS leaves of one tree
+   * @param parameters - Parameters
+   * @param secretSeed - Secret seed
+   * @param publicSeed - Public seed
+   * @param tree - Bottom hypertree tree index
+   * @param keyPair - Bottom hypertree leaf index owning the FORS key
+   * @param treeIndex - FORS tree index
+   * @returns Secret and hashed leaf values
+   */
+  private static buildForsLeaves(
+    parameters: SphincsParameters,
+    secretSeed: Buffer,
+    publicSeed: Buffer,
+    tree: number,
+    keyPair: number,
+    treeIndex: number
+  ): { secret: Buffer; leaf: Buffer }[] {
+    const leaves: { secret: Buffer; leaf: Buffer }[] = []
+    for (let j = 0; j < 1 << parameters.forsHeight; j++) {
+      const address = this.getAddress(
+        this.ADDRESS_FORS_LEAF,
+        0,
+        tree,
+        keyPair,
+        (treeIndex << parameters.forsHeight) + j
+      )
+      const secret = QuantumCrypto.domainHash('quantum-zkp/fors/secret', [secretSeed, publicSeed, address])
+      leaves.push({ secret, leaf: this.hashForsLeaf(secret, publicSeed, address) })
+    }
+    return leaves
+  }
+
+  /**
+   * Recompute FORS public key from a FORS signature
+   * @param parameters - Parameters
+   * @param forsSignature - Revealed leaves and authentication paths
+   * @param forsIndices - Leaf index per FORS tree
+   * @param publicSeed - Public seed
+   * @param tree - Bottom hypertree tree index
+   * @param keyPair - Bottom hypertree leaf index owning the FORS key
+   * @returns FORS public key
+   */
+  private static forsPublicKeyFromSignature(
+    parameters: SphincsParameters,
+    forsSignature: ForsTreeSignature[],
+    forsIndices: number[],
+    publicSeed: Buffer,
+    tree: number,
+    keyPair: number
+  ): Buffer {
+    const roots = forsSignature.map(({ secret, authPath }, treeIndex) => {
+      const leafIndex = forsIndices[treeIndex]
+      const address = this.getAddress(
+        this.ADDRESS_FORS_LEAF,
+        0,
+        tree,
+        keyPair,
+        (treeIndex << parameters.forsHeight) + leafIndex
+      )
+      return QuantumCrypto.computeMerkleRoot(this.hashForsLeaf(secret, publicSeed, address), authPath, leafIndex)
+    })
+    const address = this.getAddress(this.ADDRESS_FORS_ROOTS, 0, tree, keyPair)
+    return QuantumCrypto.domainHash('quantum-zkp/fors/public-key', [publicSeed, address, ...roots])
+  }
+
+  /**
+   * Hash FORS secret into its leaf
+   * @param secret - FORS secret value
+   * @param publicSeed - Public seed
+   * @param address - Leaf address
+   * @returns Leaf hash
+   */
+  private static hashForsLeaf(secret: Buffer, publicSeed: Buffer, address: Buffer): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/fors/leaf', [publicSeed, address, secret])
+  }
+
+  /**
+   * Build Merkle tree over the WOTS+ public keys of one hypertree tree
+   * @param parameters - Parameters
+   * @param secretSeed - Secret seed
+   * @param publicSeed - Public seed
+   * @param layer - Hypertree layer
+   * @param treeIndex - Tree index within the layer
+   * @returns Merkle tree and root
+   */
+  private static buildSubtree(
+    parameters: SphincsParameters,
+    secretSeed: Buffer,
+    publicSeed: Buffer,
+    layer: number,
+    treeIndex: number
+  ): { tree: Buffer[][]; root: Buffer } {
+    const leaves: Buffer[] = []
+    for (let keyPair = 0; keyPair < 1 << (parameters.height / parameters.layers); keyPair++) {
+      const address = this.getAddress(this.ADDRESS_WOTS, layer, treeIndex, keyPair)
+      leaves.push(WinternitzOTS.generatePublicKey(secretSeed, publicSeed, address))
+    }
+    return QuantumCrypto.generateMerkleTree(leaves)
+  }
+
+  /**
+   * Move to the parent position in the next hypertree layer
+   * @param parameters - Parameters
+   * @param treeIndex - Tree index in the current layer
+   * @returns Tree index and leaf index in the next layer
+   */
+  private static nextLayer(parameters: SphincsParameters, treeIndex: number): { treeIndex: number; leafIndex: number } {
+    const subtreeHeight = parameters.height / parameters.layers
+    return {
+      treeIndex: Math.floor(treeIndex / (1 << subtreeHeight)),
+      leafIndex: treeIndex % (1 << subtreeHeight)
+    }
+  }
+
+  /**
+   * Check signature dimensions against parameters
+   * @param parameters - Parameters
+   * @param signature - Signature to check
+   * @returns True if all components have the expected sizes
+   */
+  private static hasValidStructure(parameters: SphincsParameters, signature: SphincsSignature): boolean {
+    const { height, layers, forsTrees, forsHeight, hashLength } = parameters
+    return (
+      signature.randomness.length === hashLength &&
+      signature.forsSignature.length === forsTrees &&
+      signature.forsSignature.every(
+        ({ secret, authPath }) => secret.length === hashLength && authPath.length === forsHeight
+      ) &&
+      signature.hypertree.length === layers &&
+      signature.hypertree.every(({ authPath }) => authPath.length === height / layers)
+    )
+  }
+
+  /**
+   * Encode hash address
+   * @param type - Address type
+   * @param layer - Hypertree layer
+   * @param tree - Tree index within the layer
+   * @param keyPair - Key pair index within the tree
+   * @param index - Type-specific index
+   * @returns 14-byte address
+   */
+  private static getAddress(type: number, layer: number, tree: number, keyPair: number, index: number = 0): Buffer {
+    const address = Buffer.alloc(14)
+    address.writeUInt8(type, 0)
+    address.writeUInt8(layer, 1)
+    address.writeUInt32BE(tree, 2)
+    address.writeUInt32BE(keyPair, 6)
+    address.writeUInt32BE(index, 10)
+    return address
+  }
+
+  /**
+   * Read big-endian bit field from a buffer
+   * @param buffer - Source bytes
+   * @param offset - Bit offset
+   * @param count - Number of bits
+   * @returns Bit field value
+   */
+  private static readBits(buffer: Buffer, offset: number, count: number): number {
+    let value = 0
+    for (let i = offset; i < offset + count; i++) {
+      value = value * 2 + ((buffer[i >> 3] >> (7 - (i & 7))) & 1)
+    }
+    return value
+  }
+}
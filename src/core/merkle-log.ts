@@ -0,0 +1,319 @@
+/**
+ * Append-only Merkle log for Quantum-Resistant ZKP library
+ * @author NeaByteLab
+ */
+
+import { StatelessHashSignature } from '@algorithms/stateless-signature'
+import { QuantumCrypto } from '@utils/crypto'
+import { ProofSerializer } from '@utils/serialization'
+import type {
+  MerkleConsistencyProof,
+  MerkleHashAlgorithm,
+  MerkleProof,
+  Proof,
+  SignedTreeHead,
+  SphincsPrivateKey,
+  SphincsPublicKey
+} from '../types'
+
+/**
+ * Transparency-log style Merkle accumulator following RFC 6962
+ * Leaves are appended one at a time; every complete subtree is stored once, so roots, inclusion proofs
+ * and consistency proofs for any historical size are assembled from O(log n) stored nodes
+ */
+export class MerkleLog {
+  private readonly levels: Buffer[][] = [[]]
+
+  /**
+   * Create empty log
+   * @param algorithm - Hash function of leaves and nodes
+   */
+  constructor(private readonly algorithm: MerkleHashAlgorithm = 'sha256') {}
+
+  /**
+   * Get number of leaves in the log
+   * @returns Log size
+   */
+  public getSize(): number {
+    return this.levels[0].length
+  }
+
+  /**
+   * Append a leaf
+   * @param leaf - Leaf value
+   * @returns Index of the appended leaf
+   */
+  public append(leaf: Buffer): number {
+    const leafIndex = this.getSize()
+    let node = QuantumCrypto.hashMerkleLeaf(leaf, this.algorithm)
+    let index = leafIndex
+    this.levels[0].push(node)
+    for (let level = 0; index % 2 === 1; level++) {
+      node = QuantumCrypto.hashMerkleNode(this.levels[level][index - 1], node, this.algorithm)
+      index = Math.floor(index / 2)
+      if (this.levels.length === level + 1) {
+        this.levels.push([])
+      }
+      this.levels[level + 1].push(node)
+    }
+    return leafIndex
+  }
+
+  /**
+   * Append the binary serialization of an issued proof
+   * @param proof - Proof to log
+   * @returns Index of the appended leaf
+   */
+  public appendProof(proof: Proof): number {
+    return this.append(Buffer.from(ProofSerializer.serializeProof(proof)))
+  }
+
+  /**
+   * Get root of the log at a size
+   * @param size - Tree size (defaults to the current size)
+   * @returns Merkle tree hash
+   */
+  public getRoot(size: number = this.getSize()): Buffer {
+    this.validateSize(size)
+    return size === 0 ? QuantumCrypto.hash(Buffer.alloc(0), this.algorithm) : this.getSubtreeHash(0, size)
+  }
+
+  /**
+   * Create inclusion proof of a leaf against the root at a size
+   * @param leafIndex - Index of the leaf
+   * @param size - Tree size (defaults to the current size)
+   * @returns Inclusion proof, verifiable with QuantumCrypto.verifyMerkleProof
+   */
+  public proveInclusion(leafIndex: number, size: number = this.getSize()): MerkleProof {
+    this.validateSize(size)
+    if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= size) {
+      throw new Error(`Leaf index ${leafIndex} is outside a tree of ${size} leaves`)
+    }
+    return {
+      leafIndex,
+      treeSize: size,
+      path: this.getInclusionPath(leafIndex, 0, size),
+      algorithm: this.algorithm
+    }
+  }
+
+  /**
+   * Create proof that the log at firstSize is a prefix of the log at secondSize
+   * @param firstSize - Earlier tree size
+   * @param secondSize - Later tree size (defaults to the current size)
+   * @returns Consistency proof
+   */
+  public proveConsistency(firstSize: number, secondSize: number = this.getSize()): MerkleConsistencyProof {
+    this.validateSize(secondSize)
+    if (!Number.isInteger(firstSize) || firstSize < 1 || firstSize > secondSize) {
+      throw new Error(`First tree size must be between 1 and ${secondSize}`)
+    }
+    return {
+      firstSize,
+      secondSize,
+      path: this.getConsistencyPath(firstSize, 0, secondSize, true),
+      algorithm: this.algorithm
+    }
+  }
+
+  /**
+   * Sign the tree head at a size
+   * @param privateKey - Stateless hash-based private key of the log operator
+   * @param size - Tree size (defaults to the current size)
+   * @returns Signed tree head
+   */
+  public signTreeHead(privateKey: SphincsPrivateKey, size: number = this.getSize()): SignedTreeHead {
+    const head = { treeSize: size, rootHash: this.getRoot(size), timestamp: Date.now(), algorithm: this.algorithm }
+    return { ...head, signature: StatelessHashSignature.sign(MerkleLog.encodeTreeHead(head), privateKey) }
+  }
+
+  /**
+   * Verify signed tree head
+   * @param head - Signed tree head
+   * @param publicKey - Public key of the log operator
+   * @returns True if signature is valid
+   */
+  public static verifyTreeHead(head: SignedTreeHead, publicKey: SphincsPublicKey): boolean {
+    if (!Number.isSafeInteger(head.treeSize) || head.treeSize < 0 || !Number.isSafeInteger(head.timestamp)) {
+      return false
+    }
+    return StatelessHashSignature.verify(this.encodeTreeHead(head), head.signature, publicKey)
+  }
+
+  /**
+   * Verify inclusion proof of a leaf against a root
+   * @param leaf - Leaf value
+   * @param proof - Inclusion proof
+   * @param root - Root at the proof tree size
+   * @returns True if proof is valid
+   */
+  public static verifyInclusion(leaf: Buffer, proof: MerkleProof, root: Buffer): boolean {
+    return QuantumCrypto.verifyMerkleProof(leaf, proof, root)
+  }
+
+  /**
+   * Verify consistency proof between two roots (RFC 9162, section 2.1.4.2)
+   * @param proof - Consistency proof
+   * @param firstRoot - Root at the earlier size
+   * @param secondRoot - Root at the later size
+   * @returns True if the earlier tree is a prefix of the later tree
+   */
+  public static verifyConsistency(proof: MerkleConsistencyProof, firstRoot: Buffer, secondRoot: Buffer): boolean {
+    const { firstSize, secondSize, path } = proof
+    if (!Number.isInteger(firstSize) || !Number.isInteger(secondSize) || firstSize < 1 || firstSize > secondSize) {
+      return false
+    }
+    if (firstSize === secondSize) {
+      return path.length === 0 && firstRoot.equals(secondRoot)
+    }
+    const nodes = (firstSize & (firstSize - 1)) === 0 ? [firstRoot, ...path] : path
+    if (nodes.length === 0) {
+      return false
+    }
+    const roots = this.foldConsistencyPath(nodes, firstSize - 1, secondSize - 1, proof.algorithm)
+    return roots !== null && roots.first.equals(firstRoot) && roots.second.equals(secondRoot)
+  }
+
+  /**
+   * Recompute both roots from a consistency path
+   * @param nodes - Consistency path, starting with the seed node
+   * @param firstLast - Index of the last leaf of the earlier tree
+   * @param secondLast - Index of the last leaf of the later tree
+   * @param algorithm - Hash function
+   * @returns Both roots, or null if the path length does not match the tree sizes
+   */
+  private static foldConsistencyPath(
+    nodes: Buffer[],
+    firstLast: number,
+    secondLast: number,
+    algorithm: MerkleHashAlgorithm
+  ): { first: Buffer; second: Buffer } | null {
+    let fn = firstLast
+    let sn = secondLast
+    while (fn % 2 === 1) {
+      fn = Math.floor(fn / 2)
+      sn = Math.floor(sn / 2)
+    }
+    let first = nodes[0]
+    let second = nodes[0]
+    for (const node of nodes.slice(1)) {
+      if (sn === 0) {
+        return null
+      }
+      if (fn % 2 === 1 || fn === sn) {
+        first = QuantumCrypto.hashMerkleNode(node, first, algorithm)
+        second = QuantumCrypto.hashMerkleNode(node, second, algorithm)
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2)
+          sn = Math.floor(sn / 2)
+        }
+      } else {
+        second = QuantumCrypto.hashMerkleNode(second, node, algorithm)
+      }
+      fn = Math.floor(fn / 2)
+      sn = Math.floor(sn / 2)
+    }
+    return sn === 0 ? { first, second } : null
+  }
+
+  /**
+   * Get hash of the leaves in [start, end)
+   * @param start - First leaf index
+   * @param end - Index after the last leaf
+   * @returns Merkle tree hash of the range
+   */
+  private getSubtreeHash(start: number, end: number): Buffer {
+    const count = end - start
+    if ((count & (count - 1)) === 0 && start % count === 0) {
+      return this.levels[Math.log2(count)][start / count]
+    }
+    const split = MerkleLog.getSplit(count)
+    return QuantumCrypto.hashMerkleNode(
+      this.getSubtreeHash(start, start + split),
+      this.getSubtreeHash(start + split, end),
+      this.algorithm
+    )
+  }
+
+  /**
+   * Build inclusion path (RFC 9162 PATH)
+   * @param leafIndex - Index of the leaf
+   * @param start - First leaf index of the subtree
+   * @param end - Index after the last leaf of the subtree
+   * @returns Sibling hashes from the leaf level upwards
+   */
+  private getInclusionPath(leafIndex: number, start: number, end: number): Buffer[] {
+    if (end - start === 1) {
+      return []
+    }
+    const middle = start + MerkleLog.getSplit(end - start)
+    if (leafIndex < middle) {
+      return [...this.getInclusionPath(leafIndex, start, middle), this.getSubtreeHash(middle, end)]
+    }
+    return [...this.getInclusionPath(leafIndex, middle, end), this.getSubtreeHash(start, middle)]
+  }
+
+  /**
+   * Build consistency path (RFC 9162 SUBPROOF)
+   * @param firstSize - Number of earlier leaves inside the subtree
+   * @param start - First leaf index of the subtree
+   * @param end - Index after the last leaf of the subtree
+   * @param complete - Whether the subtree root is known to the verifier
+   * @returns Subtree hashes
+   */
+  private getConsistencyPath(firstSize: number, start: number, end: number, complete: boolean): Buffer[] {
+    if (firstSize === end - start) {
+      return complete ? [] : [this.getSubtreeHash(start, end)]
+    }
+    const split = MerkleLog.getSplit(end - start)
+    if (firstSize <= split) {
+      return [
+        ...this.getConsistencyPath(firstSize, start, start + split, complete),
+        this.getSubtreeHash(start + split, end)
+      ]
+    }
+    return [
+      ...this.getConsistencyPath(firstSize - split, start + split, end, false),
+      this.getSubtreeHash(start, start + split)
+    ]
+  }
+
+  /**
+   * Validate tree size against the log
+   * @param size - Tree size
+   */
+  private validateSize(size: number): void {
+    if (!Number.isInteger(size) || size < 0 || size > this.getSize()) {
+      throw new Error(`Tree size ${size} is outside the log of ${this.getSize()} leaves`)
+    }
+  }
+
+  /**
+   * Get largest power of two smaller than a count
+   * @param count - Leaf count greater than 1
+   * @returns Size of the left subtree
+   */
+  private static getSplit(count: number): number {
+    let split = 1
+    while (split * 2 < count) {
+      split *= 2
+    }
+    return split
+  }
+
+  /**
+   * Encode tree head fields for signing
+   * @param head - Tree head without signature
+   * @returns Signed message
+   */
+  private static encodeTreeHead(head: Omit<SignedTreeHead, 'signature'>): Buffer {
+    const fields = Buffer.alloc(16)
+    fields.writeBigUInt64BE(BigInt(head.treeSize))
+    fields.writeBigUInt64BE(BigInt(head.timestamp), 8)
+    return QuantumCrypto.domainHash('quantum-zkp/merkle-log/tree-head', [
+      Buffer.from(head.algorithm, 'utf8'),
+      fields,
+      head.rootHash
+    ])
+  }
+}
@@ -8,17 +8,31 @@ import { LatticeZKP } from '@algorithms/lattice'
 import { HashZKP } from '@algorithms/hash'
 import { MultivariateZKP } from '@algorithms/multivariate'
 import { HybridZKP } from '@algorithms/hybrid'
-import { QuantumCrypto } from '@utils/crypto'
+import { MembershipZKP } from '@algorithms/membership'
+import { ProofSerializer } from '@utils/serialization'
+import { ProofJSON } from '@utils/json'
+import { SecretSharing } from '@utils/secret-sharing'
+import { SystemRandom } from '@utils/random'
 import type {
   AlgorithmType,
   Proof,
   ProofParameters,
+  Statement,
+  LatticeStatement,
+  HashStatement,
+  MultivariateStatement,
+  HybridStatement,
+  MembershipProof,
+  MembershipStatement,
+  MerkleTree,
   VerificationResult,
   PerformanceMetrics,
   SecurityLevel,
   ZKPConfig,
   BatchProcessingOptions,
   ThresholdProof,
+  ThresholdShare,
+  ThresholdSharing,
   BenchmarkResult,
   AlgorithmConfig
 } from '../types'
@@ -31,6 +45,12 @@ export class QuantumZKP {
   private static readonly VERSION = '1.0.0'
   private static readonly LEARNING_USE = ['learning', 'prototyping']
   private static readonly EDUCATIONAL_LIMITATIONS = ['educational implementation', 'not production-ready']
+  /** Proof modes that can be verified against a statement, used for the party proofs of threshold dealings */
+  private static readonly KNOWLEDGE_MODES: Partial<ProofParameters> = {
+    latticeMode: 'sigma',
+    hashMode: 'preimage',
+    multivariateMode: 'mq5'
+  }
   private static readonly DEFAULT_CONFIG: ZKPConfig = {
     defaultAlgorithm: 'hash',
     algorithms: {
@@ -106,7 +126,8 @@ export class QuantumZKP {
     batchSize: 10,
     enableCaching: true,
     enableParallelProcessing: true,
-    securityLevel: 'standard'
+    securityLevel: 'standard',
+    random: new SystemRandom()
   }
 
   private config: ZKPConfig
@@ -129,13 +150,54 @@ export class QuantumZKP {
   ): Proof {
     switch (algorithm) {
       case 'lattice':
-        return LatticeZKP.createProof(secret, parameters)
+        return LatticeZKP.createProof(secret, parameters, this.config.random)
       case 'hash':
-        return HashZKP.createProof(secret, parameters)
+        return HashZKP.createProof(secret, parameters, this.config.random)
       case 'multivariate':
-        return MultivariateZKP.createProof(secret, parameters)
+        return MultivariateZKP.createProof(secret, parameters, this.config.random)
       case 'hybrid':
-        return HybridZKP.createProof(secret, parameters)
+        return HybridZKP.createProof(secret, parameters, this.config.random)
+      default:
+        throw new Error(`Unsupported algorithm: ${algorithm}`)
+    }
+  }
+
+  /**
+   * Create zero-knowledge proof that the commitment of a secret is a leaf of a Merkle tree
+   * @param secret - Member secret whose commitment is a leaf of the tree
+   * @param tree - RFC 6962 SHA-256 Merkle tree of member commitments
+   * @param parameters - Optional number of MPC-in-the-head repetitions
+   * @returns Membership proof, verifiable with verifyProof
+   */
+  public createMembershipProof(
+    secret: Buffer | string,
+    tree: MerkleTree,
+    parameters?: Partial<ProofParameters>
+  ): MembershipProof {
+    return MembershipZKP.createProof(secret, tree, parameters, this.config.random)
+  }
+
+  /**
+   * Generate public statement a proof can be verified against
+   * @param secret - Secret the statement is about
+   * @param algorithm - Algorithm to use (default: config default)
+   * @param parameters - Algorithm-specific parameters
+   * @returns Public statement for the secret
+   */
+  public generateStatement(
+    secret: Buffer | string,
+    algorithm: AlgorithmType = this.config.defaultAlgorithm,
+    parameters?: Partial<ProofParameters>
+  ): Statement {
+    switch (algorithm) {
+      case 'lattice':
+        return LatticeZKP.generateStatement(secret, parameters)
+      case 'hash':
+        return HashZKP.generateStatement(secret)
+      case 'multivariate':
+        return MultivariateZKP.generateStatement(secret, parameters)
+      case 'hybrid':
+        return HybridZKP.generateStatement(secret, parameters)
       default:
         throw new Error(`Unsupported algorithm: ${algorithm}`)
     }
@@ -144,25 +206,32 @@ export class QuantumZKP {
   /**
    * Verify educational quantum-resistant proof
    * @param proof - Proof to verify
+   * @param statement - Optional public statement the proof must be about
    * @returns Verification result
    */
-  public verifyProof(proof: Proof): VerificationResult {
+  public verifyProof(proof: Proof, statement?: Statement): VerificationResult {
     const startTime = performance.now()
     let isValid = false
     let error: string | undefined
     try {
+      if (statement && statement.type !== proof.type) {
+        throw new Error(`Statement type ${statement.type} does not match proof type ${proof.type}`)
+      }
       switch (proof.type) {
         case 'lattice':
-          isValid = LatticeZKP.verifyProof(proof)
+          isValid = LatticeZKP.verifyProof(proof, statement as LatticeStatement | undefined)
           break
         case 'hash':
-          isValid = HashZKP.verifyProof(proof)
+          isValid = HashZKP.verifyProof(proof, statement as HashStatement | undefined)
           break
         case 'multivariate':
-          isValid = MultivariateZKP.verifyProof(proof)
+          isValid = MultivariateZKP.verifyProof(proof, statement as MultivariateStatement | undefined)
           break
         case 'hybrid':
-          isValid = HybridZKP.verifyProof(proof)
+          isValid = HybridZKP.verifyProof(proof, statement as HybridStatement | undefined)
+          break
+        case 'membership':
+          isValid = MembershipZKP.verifyProof(proof, statement as MembershipStatement | undefined)
           break
         default:
           error = `Unknown proof type: ${(proof as Proof).type}`
@@ -185,36 +254,112 @@ export class QuantumZKP {
   }
 
   /**
-   * Create threshold proof (distributed across multiple parties)
-   * @param secret - Secret to prove knowledge of
+   * Serialize proof to versioned binary layout for transport
+   * @param proof - Proof to serialize
+   * @returns Serialized proof bytes
+   */
+  public serializeProof(proof: Proof): Uint8Array {
+    return ProofSerializer.serializeProof(proof)
+  }
+
+  /**
+   * Deserialize proof produced by serializeProof
+   * @param bytes - Serialized proof bytes
+   * @returns Deserialized proof
+   */
+  public deserializeProof(bytes: Uint8Array): Proof {
+    return ProofSerializer.deserializeProof(bytes)
+  }
+
+  /**
+   * Encode proof as canonical JSON
+   * @param proof - Proof to encode
+   * @returns Canonical JSON string
+   */
+  public proofToJSON(proof: Proof): string {
+    return ProofJSON.proofToJSON(proof)
+  }
+
+  /**
+   * Decode proof from JSON validated against its published schema
+   * @param json - JSON string
+   * @returns Decoded proof
+   */
+  public proofFromJSON(json: string): Proof {
+    return ProofJSON.proofFromJSON(json)
+  }
+
+  /**
+   * Create threshold proof with verifiable Shamir (t, n) sharing of the secret
+   * @param secret - Secret to share
    * @param parties - Number of parties
-   * @param algorithm - Algorithm to use
-   * @returns Threshold proof
+   * @param algorithm - Algorithm each party proves knowledge of its share with
+   * @param threshold - Minimum number of shares required for reconstruction
+   * @returns Public threshold proof holding the dealing and one proof per party, and each party's private share
    */
   public createThresholdProof(
     secret: Buffer | string,
     parties: number = 3,
-    algorithm: AlgorithmType = this.config.defaultAlgorithm
-  ): ThresholdProof {
-    if (parties < 2) {
-      throw new Error('Number of parties must be at least 2')
-    }
-    const shares = this.shareSecret(secret, parties)
+    algorithm: AlgorithmType = this.config.defaultAlgorithm,
+    threshold: number = Math.ceil(parties / 2)
+  ): ThresholdSharing {
+    const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
+    const { dealing, shares } = SecretSharing.deal(secretBuffer, threshold, parties, this.config.random)
     const proofs: Proof[] = []
-    for (const share of shares) {
-      const proof = this.createProof(share, algorithm)
+    for (const { share } of shares) {
+      const proof = this.createProof(share, algorithm, QuantumZKP.KNOWLEDGE_MODES)
       proofs.push(proof)
     }
-    const reconstructionKey = this.createReconstructionKey(shares)
     return {
-      shares,
-      proofs,
-      parties,
-      algorithm,
-      quantumSafe: true,
-      threshold: Math.ceil(parties / 2),
-      reconstructionKey
+      thresholdProof: { ...dealing, proofs, parties, algorithm, quantumSafe: true },
+      shares
+    }
+  }
+
+  /**
+   * Reconstruct secret from threshold shares
+   * @param shares - At least threshold distinct party shares
+   * @param thresholdProof - Optional dealing every share must be consistent with
+   * @returns Reconstructed secret
+   */
+  public reconstructSecret(shares: ThresholdShare[], thresholdProof?: ThresholdProof): Buffer {
+    if (thresholdProof) {
+      for (const partyShare of shares) {
+        const index = SecretSharing.getIndex(partyShare.share)
+        if (!this.verifyShare(partyShare, index, thresholdProof)) {
+          throw new Error(`Share ${index} is inconsistent with the dealing commitments`)
+        }
+      }
+    }
+    return SecretSharing.combine(shares.map(({ share }) => share))
+  }
+
+  /**
+   * Verify that a share is consistent with the public commitments of a threshold proof
+   * @param partyShare - Share and opening held by the party
+   * @param index - Party index (1-based)
+   * @param thresholdProof - Threshold proof carrying the commitments
+   * @returns True if the share lies on the committed sharing polynomials
+   */
+  public verifyShare(partyShare: ThresholdShare, index: number, thresholdProof: ThresholdProof): boolean {
+    return SecretSharing.verifyShare(partyShare, index, thresholdProof)
+  }
+
+  /**
+   * Verify the proof issued for a party's own share
+   * @param partyShare - Share and opening held by the party
+   * @param thresholdProof - Threshold proof containing the party's proof
+   * @returns True if the share is consistent with the dealing and the proof at its index is valid for it
+   */
+  public verifyPartyProof(partyShare: ThresholdShare, thresholdProof: ThresholdProof): boolean {
+    const { share } = partyShare
+    const index = SecretSharing.getIndex(share)
+    const proof = thresholdProof.proofs[index - 1]
+    if (!proof || !this.verifyShare(partyShare, index, thresholdProof)) {
+      return false
     }
+    const statement = this.generateStatement(share, thresholdProof.algorithm, proof.parameters)
+    return this.verifyProof(proof, statement).isValid
   }
 
   /**
@@ -367,33 +512,6 @@ export class QuantumZKP {
     return QuantumZKP.VERSION
   }
 
-  /**
-   * Share secret across multiple parties
-   * @param secret - Secret to share
-   * @param parties - Number of parties
-   * @returns Array of secret shares
-   */
-  private shareSecret(secret: Buffer | string, parties: number): Buffer[] {
-    const secretBuffer = typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret
-    const shares: Buffer[] = []
-    for (let i = 0; i < parties; i++) {
-      const share = QuantumCrypto.hash(secretBuffer, 'sha256')
-      shares.push(share)
-    }
-    return shares
-  }
-
-  /**
-   * Create reconstruction key for threshold cryptography
-   * @param shares - Secret shares
-   * @param parties - Number of parties
-   * @returns Reconstruction key
-   */
-  private createReconstructionKey(shares: Buffer[]): Buffer {
-    const combined = Buffer.concat(shares)
-    return QuantumCrypto.hash(combined, 'sha256')
-  }
-
   /**
    * Get supported algorithms
    * @returns Array of supported algorithms
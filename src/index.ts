@@ -5,11 +5,28 @@
  */
 
 export { QuantumZKP } from '@core/quantum-zkp'
+export { MerkleLog } from '@core/merkle-log'
 export { LatticeZKP } from '@algorithms/lattice'
+export { LatticeSignature } from '@algorithms/lattice-signature'
 export { HashZKP } from '@algorithms/hash'
 export { MultivariateZKP } from '@algorithms/multivariate'
+export { MultivariateSignature } from '@algorithms/multivariate-signature'
 export { HybridZKP } from '@algorithms/hybrid'
+export { MembershipZKP } from '@algorithms/membership'
+export { HashSignature } from '@algorithms/hash-signature'
+export { StatelessHashSignature } from '@algorithms/stateless-signature'
+export { LatticeKEM } from '@algorithms/lattice-kem'
 export { QuantumCrypto } from '@utils/crypto'
+export { ProofSerializer } from '@utils/serialization'
+export { ProofJSON } from '@utils/json'
+export { SecretSharing } from '@utils/secret-sharing'
+export { SparseMerkleTree } from '@utils/sparse-merkle'
+export { PolynomialRing } from '@utils/polynomial-ring'
+export { FiniteField } from '@utils/finite-field'
+export { QuadraticSystem } from '@utils/quadratic-system'
+export { DiscreteSampler } from '@utils/discrete-sampler'
+export { SystemRandom, SeededRandom } from '@utils/random'
+export { ZKPError } from './types'
 
 // Version and constants
 export const VERSION = '1.0.0'
@@ -20,14 +37,67 @@ export const SUPPORTED_ALGORITHMS = ['lattice', 'hash', 'multivariate', 'hybrid'
 export type {
   AlgorithmType,
   ProofType,
+  LatticeProofMode,
+  HashProofMode,
+  MultivariateProofMode,
   ProofParameters,
   BaseProof,
   LatticeProof,
   HashProof,
+  HashChainOpening,
+  MerkleHashAlgorithm,
+  MerkleScheme,
+  MerkleTree,
+  MerkleProof,
+  MerkleMultiproof,
+  SparseMerkleProof,
+  MerkleConsistencyProof,
+  SignedTreeHead,
   MultivariateProof,
   HybridProof,
+  MembershipProof,
   Proof,
+  HashStatement,
+  LatticeStatement,
+  MultivariateStatement,
+  HybridStatement,
+  MembershipStatement,
+  Statement,
+  ThresholdDealing,
+  ThresholdShare,
   ThresholdProof,
+  ThresholdSharing,
+  XMSSHeight,
+  HashSignatureParameters,
+  WOTSPublicKey,
+  WOTSPrivateKey,
+  XMSSPublicKey,
+  XMSSPrivateKey,
+  XMSSSignature,
+  SphincsParameterSet,
+  SphincsParameters,
+  SphincsPublicKey,
+  SphincsPrivateKey,
+  ForsTreeSignature,
+  HypertreeLayerSignature,
+  SphincsSignature,
+  KEMParameterSet,
+  KEMParameters,
+  KEMPublicKey,
+  KEMPrivateKey,
+  KEMEncapsulation,
+  RandomSource,
+  QuadraticPolynomial,
+  UOVParameterSet,
+  UOVParameters,
+  UOVPublicKey,
+  UOVPrivateKey,
+  UOVSignature,
+  DilithiumParameterSet,
+  DilithiumParameters,
+  DilithiumPublicKey,
+  DilithiumPrivateKey,
+  DilithiumSignature,
   VerificationResult,
   PerformanceMetrics,
   SecurityLevel,
@@ -36,7 +106,7 @@ export type {
   ValidationOptions,
   BatchProcessingOptions,
   ErrorDetails,
-  ZKPError,
+  JSONSchema,
   BenchmarkResult,
   SecurityAuditResult
-} from './types' 
\ No newline at end of file
+} from './types'
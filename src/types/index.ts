@@ -11,7 +11,22 @@ export type AlgorithmType = 'lattice' | 'hash' | 'multivariate' | 'hybrid'
 /**
  * Supported proof types corresponding to algorithms
  */
-export type ProofType = 'lattice' | 'hash' | 'multivariate' | 'hybrid'
+export type ProofType = 'lattice' | 'hash' | 'multivariate' | 'hybrid' | 'membership'
+
+/**
+ * Proof modes supported by lattice-based proofs
+ */
+export type LatticeProofMode = 'lwe' | 'sigma'
+
+/**
+ * Proof modes supported by hash-based proofs
+ */
+export type HashProofMode = 'chain' | 'preimage' | 'compact'
+
+/**
+ * Proof modes supported by multivariate proofs
+ */
+export type MultivariateProofMode = 'system' | 'mq3' | 'mq5'
 
 /**
  * Configuration parameters for proof generation
@@ -33,6 +48,18 @@ export interface ProofParameters {
   algorithms?: AlgorithmType[]
   /** Weights for hybrid algorithm combination */
   weights?: Record<AlgorithmType, number>
+  /** Proof mode for lattice-based algorithms */
+  latticeMode?: LatticeProofMode
+  /** Proof mode for hash-based algorithms */
+  hashMode?: HashProofMode
+  /** Proof mode for multivariate algorithms */
+  multivariateMode?: MultivariateProofMode
+  /** Number of parallel repetitions for preimage, membership and MQ identification proofs */
+  repetitions?: number
+  /** Number of Fiat-Shamir spot checks for compact hash chain proofs */
+  spotChecks?: number
+  /** Merkle tree construction for hash-based chain commitments (defaults to 'legacy') */
+  merkleScheme?: MerkleScheme
 }
 
 /**
@@ -55,6 +82,8 @@ export interface BaseProof {
   timestamp: number
   /** Version of the proof format */
   version: string
+  /** Digest of the public statement the proof was created for */
+  statementDigest?: Buffer
 }
 
 /**
@@ -68,6 +97,24 @@ export interface LatticeProof extends BaseProof {
   modulus: bigint
   /** Polynomial commitment for lattice proof */
   polynomialCommitment: Buffer
+  /** Proof mode (defaults to 'lwe') */
+  mode?: LatticeProofMode
+  /** Seed expanding to the public matrix A (sigma mode) */
+  seed?: Buffer
+  /** Packed public key t the proof is about (sigma mode) */
+  publicKey?: Buffer
+}
+
+/**
+ * Merkle-authenticated hash chain link opened by a compact hash proof
+ */
+export interface HashChainOpening {
+  /** Position of the link in the chain */
+  index: number
+  /** Chain link value */
+  value: Buffer
+  /** Merkle proof of the link against the chain commitment */
+  path: Buffer[]
 }
 
 /**
@@ -85,6 +132,12 @@ export interface HashProof extends BaseProof {
   merkleTree?: Buffer[][]
   /** Optional Merkle proof for verification */
   merkleProof?: Buffer[]
+  /** Proof mode (defaults to 'chain') */
+  mode?: HashProofMode
+  /** SHA-256 image the preimage proof is about (preimage mode) */
+  image?: Buffer
+  /** Last chain link followed by a linked pair per spot check (compact mode) */
+  openings?: HashChainOpening[]
 }
 
 /**
@@ -100,6 +153,12 @@ export interface MultivariateProof extends BaseProof {
   polynomialSystem: Buffer
   /** Solution to the polynomial system */
   solution: Buffer
+  /** Proof mode (defaults to 'system') */
+  mode?: MultivariateProofMode
+  /** Seed expanding to the public quadratic map F (MQ modes) */
+  seed?: Buffer
+  /** Public key v = F(s) over GF(31) the proof is about (MQ modes) */
+  publicKey?: Buffer
 }
 
 /**
@@ -115,17 +174,115 @@ export interface HybridProof extends BaseProof {
   algorithmWeights: Record<AlgorithmType, number>
 }
 
+/**
+ * Zero-knowledge proof that the SHA-256 image of a secret is a leaf of a Merkle tree
+ */
+export interface MembershipProof extends BaseProof {
+  type: 'membership'
+  /** Root of the RFC 6962 SHA-256 Merkle tree of member commitments */
+  root: Buffer
+  /** Number of leaves in the tree */
+  treeSize: number
+}
+
 /**
  * Union type of all supported proof types
  */
-export type Proof = LatticeProof | HashProof | MultivariateProof | HybridProof
+export type Proof = LatticeProof | HashProof | MultivariateProof | HybridProof | MembershipProof
+
+/**
+ * Public statement for hash-based proofs
+ */
+export interface HashStatement {
+  type: 'hash'
+  /** SHA-256 image of the secret */
+  image: Buffer
+}
+
+/**
+ * Public statement for lattice-based proofs
+ */
+export interface LatticeStatement {
+  type: 'lattice'
+  /** Degree of the ring Z_q[x]/(x^n + 1) */
+  dimension: number
+  /** Modulus of the ring */
+  modulus: bigint
+  /** Seed expanding to the public matrix A */
+  seed: Buffer
+  /** Packed LWE public key t = A·s1 + s2 */
+  publicKey: Buffer
+}
+
+/**
+ * Public statement for multivariate proofs
+ */
+export interface MultivariateStatement {
+  type: 'multivariate'
+  /** Number of variables in the public system */
+  variables: number
+  /** Number of equations in the public system */
+  equations: number
+  /** Seed expanding to the public quadratic map F over GF(31) */
+  seed: Buffer
+  /** Public key v = F(s), one field element per equation */
+  publicOutput: Buffer
+}
+
+/**
+ * Public statement for hybrid proofs
+ */
+export interface HybridStatement {
+  type: 'hybrid'
+  /** Statements of the component proofs in order */
+  statements: (LatticeStatement | HashStatement | MultivariateStatement)[]
+}
+
+/**
+ * Public statement for membership proofs
+ */
+export interface MembershipStatement {
+  type: 'membership'
+  /** Published root of the tree of member commitments */
+  root: Buffer
+  /** Number of leaves in the tree */
+  treeSize: number
+}
+
+/**
+ * Union type of all public statements
+ */
+export type Statement = LatticeStatement | HashStatement | MultivariateStatement | HybridStatement | MembershipStatement
+
+/**
+ * Public part of a verifiable Shamir dealing
+ */
+export interface ThresholdDealing {
+  /** Minimum number of parties required for reconstruction */
+  threshold: number
+  /** Commitment to the whole dealing, binding the share commitments and threshold */
+  reconstructionKey: Buffer
+  /** Public hash commitment to each party's share */
+  commitments: Buffer[]
+  /** Public masked blinding polynomials used to check shares against the commitments */
+  maskedPolynomials: Buffer
+}
+
+/**
+ * Private data of one party of a verifiable Shamir dealing
+ */
+export interface ThresholdShare {
+  /** Secret share, any threshold of which reconstruct the secret */
+  share: Buffer
+  /** Salt opening the party's share commitment */
+  opening: Buffer
+}
 
 /**
  * Threshold-based zero-knowledge proof for multi-party scenarios
+ * Holds only public data; shares and openings are delivered to each party separately
  */
-export interface ThresholdProof {
-  /** Secret shares distributed among parties */
-  shares: Buffer[]
+export interface ThresholdProof extends ThresholdDealing {
   /** Individual proofs from each party */
   proofs: Proof[]
   /** Total number of parties */
@@ -134,10 +291,487 @@ export interface ThresholdProof {
   algorithm: AlgorithmType
   /** Whether the threshold scheme is quantum-resistant */
   quantumSafe: boolean
-  /** Minimum number of parties required for reconstruction */
-  threshold: number
-  /** Key used for secret reconstruction */
-  reconstructionKey: Buffer
+}
+
+/**
+ * Threshold proof together with the private data of every party
+ */
+export interface ThresholdSharing {
+  /** Public threshold proof */
+  thresholdProof: ThresholdProof
+  /** Share and opening of each party in party order, to be delivered privately */
+  shares: ThresholdShare[]
+}
+
+/**
+ * Tree heights of the XMSS parameter sets
+ */
+export type XMSSHeight = 4 | 8 | 10
+
+/**
+ * Parameter set of a hash-based signature scheme
+ */
+export interface HashSignatureParameters {
+  /** Parameter set name */
+  name: string
+  /** Height of the Merkle tree */
+  height: number
+  /** Winternitz parameter of the one-time signatures */
+  winternitz: number
+  /** Hash output length in bytes */
+  hashLength: number
+  /** Number of signatures a key pair can produce */
+  maxSignatures: number
+}
+
+/**
+ * WOTS+ one-time public key
+ */
+export interface WOTSPublicKey {
+  /** Public seed keying the chain hash */
+  publicSeed: Buffer
+  /** Compressed chain ends */
+  key: Buffer
+}
+
+/**
+ * WOTS+ one-time private key
+ */
+export interface WOTSPrivateKey {
+  /** Secret seed the chain starts are derived from */
+  secretSeed: Buffer
+  /** Public seed keying the chain hash */
+  publicSeed: Buffer
+  /** Whether the key has already signed a message */
+  used: boolean
+}
+
+/**
+ * XMSS public key
+ */
+export interface XMSSPublicKey {
+  /** Height of the Merkle tree */
+  height: XMSSHeight
+  /** Merkle root over the WOTS+ public keys */
+  root: Buffer
+  /** Public seed keying the chain hash */
+  publicSeed: Buffer
+}
+
+/**
+ * Stateful XMSS private key
+ */
+export interface XMSSPrivateKey {
+  /** Height of the Merkle tree */
+  height: XMSSHeight
+  /** Index of the next unused one-time key */
+  index: number
+  /** Secret seed the one-time keys are derived from */
+  secretSeed: Buffer
+  /** Key for deriving per-message randomness */
+  prfKey: Buffer
+  /** Public seed keying the chain hash */
+  publicSeed: Buffer
+  /** Merkle root over the WOTS+ public keys */
+  root: Buffer
+  /** Cached Merkle tree used to build authentication paths */
+  tree: Buffer[][]
+}
+
+/**
+ * XMSS signature
+ */
+export interface XMSSSignature {
+  /** Index of the one-time key used */
+  index: number
+  /** Per-message randomness */
+  randomness: Buffer
+  /** WOTS+ signature of the randomized message digest */
+  wotsSignature: Buffer[]
+  /** Authentication path from the one-time key to the root */
+  authPath: Buffer[]
+}
+
+/**
+ * Names of the SPHINCS+-style parameter sets
+ */
+export type SphincsParameterSet = 'tiny' | 'small' | 'fast'
+
+/**
+ * Parameters of a SPHINCS+-style stateless signature scheme
+ */
+export interface SphincsParameters {
+  /** Parameter set name */
+  name: SphincsParameterSet
+  /** Total height of the hypertree */
+  height: number
+  /** Number of hypertree layers */
+  layers: number
+  /** Number of FORS trees */
+  forsTrees: number
+  /** Height of each FORS tree */
+  forsHeight: number
+  /** Winternitz parameter of the one-time signatures */
+  winternitz: number
+  /** Hash output length in bytes */
+  hashLength: number
+}
+
+/**
+ * SPHINCS+-style public key
+ */
+export interface SphincsPublicKey {
+  /** Parameter set of the key */
+  parameterSet: SphincsParameterSet
+  /** Public seed keying the tweakable hash */
+  publicSeed: Buffer
+  /** Root of the top hypertree layer */
+  root: Buffer
+}
+
+/**
+ * SPHINCS+-style private key
+ */
+export interface SphincsPrivateKey {
+  /** Parameter set of the key */
+  parameterSet: SphincsParameterSet
+  /** Secret seed all one-time and few-time keys are derived from */
+  secretSeed: Buffer
+  /** Key for deriving per-message randomness */
+  prfKey: Buffer
+  /** Public seed keying the tweakable hash */
+  publicSeed: Buffer
+  /** Root of the top hypertree layer */
+  root: Buffer
+}
+
+/**
+ * Revealed FORS leaf with its authentication path
+ */
+export interface ForsTreeSignature {
+  /** Secret leaf value selected by the message digest */
+  secret: Buffer
+  /** Authentication path to the FORS tree root */
+  authPath: Buffer[]
+}
+
+/**
+ * WOTS+ signature of one hypertree layer with its authentication path
+ */
+export interface HypertreeLayerSignature {
+  /** WOTS+ signature of the root of the layer below */
+  wotsSignature: Buffer[]
+  /** Authentication path to the root of this layer's tree */
+  authPath: Buffer[]
+}
+
+/**
+ * SPHINCS+-style stateless signature
+ */
+export interface SphincsSignature {
+  /** Per-message randomness */
+  randomness: Buffer
+  /** FORS signature of the message digest */
+  forsSignature: ForsTreeSignature[]
+  /** Hypertree signature from the FORS public key up to the root */
+  hypertree: HypertreeLayerSignature[]
+}
+
+/**
+ * Names of the ML-KEM-style parameter sets
+ */
+export type KEMParameterSet = 'kem-512' | 'kem-768' | 'kem-1024'
+
+/**
+ * Parameters of an ML-KEM-style key encapsulation mechanism over Z_3329[x]/(x^256 + 1)
+ */
+export interface KEMParameters {
+  /** Parameter set name */
+  name: KEMParameterSet
+  /** Module rank k */
+  rank: number
+  /** Binomial noise parameter of the secret and the encryption randomness */
+  eta1: number
+  /** Binomial noise parameter of the encryption errors */
+  eta2: number
+  /** Bits per compressed coefficient of the ciphertext vector u */
+  du: number
+  /** Bits per compressed coefficient of the ciphertext polynomial v */
+  dv: number
+}
+
+/**
+ * ML-KEM-style encapsulation key
+ */
+export interface KEMPublicKey {
+  /** Parameter set of the key */
+  parameterSet: KEMParameterSet
+  /** Seed of the public matrix A */
+  seed: Buffer
+  /** Packed 12-bit coefficients of t = A·s + e */
+  t: Buffer
+}
+
+/**
+ * ML-KEM-style decapsulation key
+ */
+export interface KEMPrivateKey {
+  /** Parameter set of the key */
+  parameterSet: KEMParameterSet
+  /** Packed 12-bit coefficients of the secret vector s */
+  s: Buffer
+  /** Encapsulation key, needed to re-encrypt during decapsulation */
+  publicKey: KEMPublicKey
+  /** Hash of the encoded encapsulation key */
+  publicKeyHash: Buffer
+  /** Secret returned through implicit rejection of invalid ciphertexts */
+  rejectionSeed: Buffer
+}
+
+/**
+ * Ciphertext and shared secret produced by encapsulation
+ */
+export interface KEMEncapsulation {
+  /** Ciphertext to send to the key owner */
+  ciphertext: Buffer
+  /** 32-byte shared secret */
+  sharedSecret: Buffer
+}
+
+/**
+ * Names of the Dilithium-style parameter sets
+ */
+export type DilithiumParameterSet = 'dilithium-2' | 'dilithium-3' | 'dilithium-5'
+
+/**
+ * Parameters of a Dilithium-style signature scheme over Z_8380417[x]/(x^256 + 1)
+ */
+export interface DilithiumParameters {
+  /** Parameter set name */
+  name: DilithiumParameterSet
+  /** Rows k of the public matrix A */
+  rows: number
+  /** Columns l of the public matrix A */
+  columns: number
+  /** Coefficient bound of the secret vectors */
+  eta: number
+  /** Number of nonzero challenge coefficients */
+  tau: number
+  /** Coefficient bound of the masking vector */
+  gamma1: number
+  /** Low-order rounding range */
+  gamma2: number
+  /** Maximum number of hint bits in a signature */
+  omega: number
+  /** Length of the challenge hash in bytes */
+  challengeLength: number
+}
+
+/**
+ * Dilithium-style public key
+ */
+export interface DilithiumPublicKey {
+  /** Parameter set of the key */
+  parameterSet: DilithiumParameterSet
+  /** Seed of the public matrix A */
+  seed: Buffer
+  /** Packed 10-bit high-order bits t1 of t = A·s1 + s2 */
+  t1: Buffer
+}
+
+/**
+ * Dilithium-style private key
+ */
+export interface DilithiumPrivateKey {
+  /** Parameter set of the key */
+  parameterSet: DilithiumParameterSet
+  /** Seed of the public matrix A */
+  seed: Buffer
+  /** Key for deriving the masking vectors */
+  signingKey: Buffer
+  /** Hash of the public key, bound into every message digest */
+  publicKeyHash: Buffer
+  /** Packed secret vector s1 */
+  s1: Buffer
+  /** Packed secret vector s2 */
+  s2: Buffer
+  /** Packed low-order bits t0 of t */
+  t0: Buffer
+}
+
+/**
+ * Dilithium-style signature
+ */
+export interface DilithiumSignature {
+  /** Challenge hash of the message digest and the commitment high bits */
+  challenge: Buffer
+  /** Packed response vector z = y + c·s1 */
+  z: Buffer
+  /** Positions of the hint bits followed by the running count per polynomial */
+  hint: Buffer
+}
+
+/**
+ * Names of the UOV parameter sets
+ */
+export type UOVParameterSet = 'uov-tiny' | 'uov-small' | 'uov-medium'
+
+/**
+ * Parameters of an Unbalanced Oil and Vinegar signature scheme
+ */
+export interface UOVParameters {
+  /** Parameter set name */
+  name: UOVParameterSet
+  /** Order of the binary field GF(2^k) */
+  fieldOrder: number
+  /** Number of vinegar variables v */
+  vinegar: number
+  /** Number of oil variables o, equal to the number of equations */
+  oil: number
+  /** Length of the per-signature salt in bytes */
+  saltLength: number
+}
+
+/**
+ * UOV public key
+ */
+export interface UOVPublicKey {
+  /** Parameter set of the key */
+  parameterSet: UOVParameterSet
+  /** Packed quadratic, linear and constant coefficients of P = F∘T per equation */
+  publicMap: Buffer
+}
+
+/**
+ * UOV private key
+ */
+export interface UOVPrivateKey {
+  /** Parameter set of the key */
+  parameterSet: UOVParameterSet
+  /** Seed of the central map F and the secret transform T */
+  seed: Buffer
+  /** Hash of the public key, bound into every message target */
+  publicKeyHash: Buffer
+}
+
+/**
+ * UOV signature
+ */
+export interface UOVSignature {
+  /** Salt hashed with the message into the target */
+  salt: Buffer
+  /** Packed point s with P(s) equal to the target */
+  solution: Buffer
+}
+
+/**
+ * Source of uniformly random bytes
+ */
+export interface RandomSource {
+  /** Return the next length random bytes */
+  randomBytes(length: number): Buffer
+}
+
+/**
+ * Quadratic polynomial in n variables over a finite field
+ */
+export interface QuadraticPolynomial {
+  /** Coefficients of x_i·x_j for i <= j in row order, n(n + 1)/2 entries */
+  quadratic: number[]
+  /** Coefficients of x_i */
+  linear: number[]
+  /** Constant term */
+  constant: number
+}
+
+/**
+ * Hash functions supported by Merkle trees
+ */
+export type MerkleHashAlgorithm = 'sha256' | 'sha384' | 'sha512'
+
+/**
+ * Merkle tree construction used by hash-based proofs
+ */
+export type MerkleScheme = 'legacy' | 'rfc6962'
+
+/**
+ * Domain-separated Merkle tree following RFC 6962
+ */
+export interface MerkleTree {
+  /** Hash function of leaves and nodes */
+  algorithm: MerkleHashAlgorithm
+  /** Node hashes per level, from leaf hashes up to the root */
+  levels: Buffer[][]
+  /** Merkle tree hash */
+  root: Buffer
+}
+
+/**
+ * Inclusion proof of a leaf in a domain-separated Merkle tree
+ */
+export interface MerkleProof {
+  /** Index of the proven leaf */
+  leafIndex: number
+  /** Number of leaves in the tree */
+  treeSize: number
+  /** Sibling hashes from the leaf level upwards */
+  path: Buffer[]
+  /** Hash function of leaves and nodes */
+  algorithm: MerkleHashAlgorithm
+}
+
+/**
+ * Multiproof of several leaves of a Merkle tree built by generateMerkleTree
+ */
+export interface MerkleMultiproof {
+  /** Indices of the proven leaves in ascending order */
+  leafIndices: number[]
+  /** Number of leaves in the tree */
+  leafCount: number
+  /** Siblings not derivable from the proven leaves, level by level in ascending index order */
+  siblings: Buffer[]
+}
+
+/**
+ * Proof that a Merkle log of one size is a prefix of the log at a larger size
+ */
+export interface MerkleConsistencyProof {
+  /** Size of the earlier tree */
+  firstSize: number
+  /** Size of the later tree */
+  secondSize: number
+  /** Subtree hashes needed to recompute both roots */
+  path: Buffer[]
+  /** Hash function of leaves and nodes */
+  algorithm: MerkleHashAlgorithm
+}
+
+/**
+ * Signed commitment to the root of a Merkle log at a given size
+ */
+export interface SignedTreeHead {
+  /** Number of leaves covered by the root */
+  treeSize: number
+  /** Merkle tree hash of the first treeSize leaves */
+  rootHash: Buffer
+  /** Signing time in milliseconds since the epoch */
+  timestamp: number
+  /** Hash function of leaves and nodes */
+  algorithm: MerkleHashAlgorithm
+  /** Stateless hash-based signature over the tree head */
+  signature: SphincsSignature
+}
+
+/**
+ * Inclusion or non-inclusion proof of a sparse Merkle tree key
+ */
+export interface SparseMerkleProof {
+  /** 32-byte key */
+  key: Buffer
+  /** Value stored under the key (absent for non-inclusion proofs) */
+  value?: Buffer
+  /** Sibling hashes from the leaf level up to the root */
+  siblings: Buffer[]
 }
 
 /**
@@ -146,8 +780,8 @@ export interface ThresholdProof {
 export interface VerificationResult {
   /** Whether the proof is valid */
   isValid: boolean
-  /** Algorithm type that was verified */
-  algorithm: AlgorithmType
+  /** Proof type that was verified */
+  algorithm: ProofType
   /** Time taken for verification in milliseconds */
   verificationTime: number
   /** Error message if verification failed */
@@ -214,6 +848,8 @@ export interface ZKPConfig {
   enableParallelProcessing: boolean
   /** Minimum security level required */
   securityLevel: 'standard' | 'high' | 'maximum'
+  /** Randomness used when creating proofs */
+  random: RandomSource
 }
 
 /**
@@ -254,6 +890,8 @@ export interface ErrorDetails {
   algorithm?: AlgorithmType
   /** Suggested resolution for the error */
   suggestion?: string
+  /** Path of the offending field, e.g. $.proofs[0].commitment */
+  path?: string
 }
 
 /**
@@ -263,6 +901,7 @@ export class ZKPError extends Error {
   public readonly code: string
   public readonly algorithm?: AlgorithmType
   public readonly suggestion?: string
+  public readonly path?: string
 
   constructor(details: ErrorDetails) {
     super(details.message)
@@ -270,9 +909,52 @@ export class ZKPError extends Error {
     this.code = details.code
     this.algorithm = details.algorithm ?? 'hybrid'
     this.suggestion = details.suggestion ?? 'Check parameters and try again'
+    if (details.path !== undefined) {
+      this.path = details.path
+    }
   }
 }
 
+/**
+ * Subset of JSON Schema (draft 2020-12) used to publish proof formats
+ */
+export interface JSONSchema {
+  /** Schema dialect */
+  $schema?: string
+  /** Schema identifier */
+  $id?: string
+  /** Reference to a definition in $defs */
+  $ref?: string
+  /** Reusable definitions */
+  $defs?: Record<string, JSONSchema>
+  /** Human-readable title */
+  title?: string
+  /** Expected JSON type */
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  /** Schemas of object properties */
+  properties?: Record<string, JSONSchema>
+  /** Required object properties */
+  required?: string[]
+  /** Whether properties not listed are allowed */
+  additionalProperties?: boolean
+  /** Schema of array items */
+  items?: JSONSchema
+  /** Alternative schemas, exactly one of which must match */
+  oneOf?: JSONSchema[]
+  /** Allowed values */
+  enum?: (string | number)[]
+  /** Required constant value */
+  const?: string | number | boolean
+  /** Regular expression strings must match */
+  pattern?: string
+  /** Minimum numeric value */
+  minimum?: number
+  /** Encoding of binary content carried in a string */
+  contentEncoding?: string
+  /** Semantic format of a string */
+  format?: string
+}
+
 /**
  * Benchmark results for algorithm performance testing
  */
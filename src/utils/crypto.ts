@@ -3,35 +3,51 @@
  * @author NeaByteLab
  */
 
-import { createHash, randomBytes, createHmac } from 'crypto'
-import type { AlgorithmType } from '../types'
+import { createHash, createHmac } from 'crypto'
+import { DiscreteSampler } from '@utils/discrete-sampler'
+import { PolynomialRing } from '@utils/polynomial-ring'
+import { SystemRandom } from '@utils/random'
+import type {
+  AlgorithmType,
+  MerkleHashAlgorithm,
+  MerkleMultiproof,
+  MerkleProof,
+  MerkleTree,
+  RandomSource
+} from '../types'
 
 /**
  * Quantum-resistant cryptographic utilities
  */
 export class QuantumCrypto {
+  /** Largest number of variables or equations of a multivariate system */
+  public static readonly MAX_MULTIVARIATE_DIMENSION = 64
   private static readonly VERSION = '1.0.0'
+  private static readonly MERKLE_LEAF_PREFIX = Buffer.from([0x00])
+  private static readonly MERKLE_NODE_PREFIX = Buffer.from([0x01])
 
   /**
    * Generate quantum-resistant random bytes
    * @param length - Number of bytes to generate
+   * @param random - Random source
    * @returns Random bytes
    */
-  public static generateRandomBytes(length: number): Buffer {
+  public static generateRandomBytes(length: number, random: RandomSource = new SystemRandom()): Buffer {
     if (length <= 0) {
       throw new Error('Length must be positive')
     }
-    return randomBytes(length)
+    return random.randomBytes(length)
   }
 
   /**
    * Generate quantum-resistant challenge
    * @param algorithm - Algorithm type for challenge generation
+   * @param random - Random source
    * @returns Quantum-resistant challenge
    */
-  public static generateQuantumSafeChallenge(algorithm: AlgorithmType): Buffer {
+  public static generateQuantumSafeChallenge(algorithm: AlgorithmType, random?: RandomSource): Buffer {
     const length = this.getChallengeLength(algorithm)
-    return this.generateRandomBytes(length)
+    return this.generateRandomBytes(length, random)
   }
 
   /**
@@ -62,22 +78,57 @@ export class QuantumCrypto {
     return createHmac(algorithm, secretKey).update(input).digest()
   }
 
+  /**
+   * Expand seed into a deterministic byte stream using SHAKE256
+   * @param seed - Seed to expand
+   * @param length - Number of bytes to produce
+   * @returns Expanded bytes
+   */
+  public static expandSeed(seed: Buffer | string, length: number): Buffer {
+    if (length <= 0) {
+      throw new Error('Length must be positive')
+    }
+    const input = typeof seed === 'string' ? Buffer.from(seed, 'utf8') : seed
+    return createHash('shake256', { outputLength: length }).update(input).digest()
+  }
+
+  /**
+   * Hash length-prefixed parts under a domain separation label
+   * @param domain - Domain separation label
+   * @param parts - Parts to hash
+   * @returns SHA-256 digest
+   */
+  public static domainHash(domain: string, parts: Buffer[]): Buffer {
+    const hasher = createHash('sha256')
+    const label = Buffer.from(domain, 'utf8')
+    const lengthPrefix = Buffer.alloc(4)
+    lengthPrefix.writeUInt32BE(label.length)
+    hasher.update(lengthPrefix).update(label)
+    for (const part of parts) {
+      const partPrefix = Buffer.alloc(4)
+      partPrefix.writeUInt32BE(part.length)
+      hasher.update(partPrefix).update(part)
+    }
+    return hasher.digest()
+  }
+
   /**
    * Generate large prime for lattice operations using Miller-Rabin primality test
    * @param bits - Number of bits for prime
+   * @param random - Random source for the starting candidate and the Miller-Rabin bases
    * @returns Large prime number
    */
-  public static generateLargePrime(bits: number): bigint {
+  public static generateLargePrime(bits: number, random?: RandomSource): bigint {
     if (bits < 64) {
       throw new Error('Prime must be at least 64 bits for security')
     }
     const maxValue = (1n << BigInt(bits)) - 1n
     const minValue = 1n << BigInt(bits - 1)
-    let candidate = this.generateRandomBigInt(minValue, maxValue)
+    let candidate = this.generateRandomBigInt(minValue, maxValue, random)
     if (candidate % 2n === 0n) {
       candidate += 1n
     }
-    while (!this.millerRabinPrimalityTest(candidate, 40)) {
+    while (!this.millerRabinPrimalityTest(candidate, 40, random)) {
       candidate += 2n
       if (candidate > maxValue) {
         candidate = minValue
@@ -87,18 +138,14 @@ export class QuantumCrypto {
   }
 
   /**
-   * Generate random big integer
-   * @param min - Minimum value
-   * @param max - Maximum value
-   * @returns Random big integer
+   * Generate uniformly random big integer by rejection sampling
+   * @param min - Minimum value (inclusive)
+   * @param max - Maximum value (exclusive)
+   * @param random - Random source
+   * @returns Random big integer in [min, max)
    */
-  public static generateRandomBigInt(min: bigint, max: bigint): bigint {
-    const range = max - min
-    const bytes = Math.ceil(range.toString(16).length / 2)
-    const buffer = this.generateRandomBytes(bytes)
-    let value = BigInt(`0x${buffer.toString('hex')}`)
-    value = (value % range) + min
-    return value
+  public static generateRandomBigInt(min: bigint, max: bigint, random?: RandomSource): bigint {
+    return DiscreteSampler.sampleUniform(min, max, random)
   }
 
   /**
@@ -130,9 +177,10 @@ export class QuantumCrypto {
    * Miller-Rabin primality test for production use
    * @param n - Number to test
    * @param k - Number of rounds (higher = more accurate)
+   * @param random - Random source for the bases
    * @returns True if probable prime
    */
-  public static millerRabinPrimalityTest(n: bigint, k: number = 40): boolean {
+  public static millerRabinPrimalityTest(n: bigint, k: number = 40, random?: RandomSource): boolean {
     if (n <= 1n) {
       return false
     }
@@ -149,7 +197,7 @@ export class QuantumCrypto {
       r += 1n
     }
     for (let i = 0; i < k; i++) {
-      const a = this.generateRandomBigInt(2n, n - 2n)
+      const a = this.generateRandomBigInt(2n, n - 2n, random)
       if (!this.isStrongProbablePrime(n, a, d, r)) {
         return false
       }
@@ -305,7 +353,7 @@ export class QuantumCrypto {
     if (typeof variables !== 'number' || variables < 8) {
       return false
     }
-    if (typeof equations !== 'number' || equations < variables) {
+    if (typeof equations !== 'number' || equations < variables || equations > this.MAX_MULTIVARIATE_DIMENSION) {
       return false
     }
     return true
@@ -362,33 +410,75 @@ export class QuantumCrypto {
     return Buffer.concat(buffers)
   }
 
+  /**
+   * Pack values little-endian with a fixed number of bits each
+   * @param values - Values below 2^bits
+   * @param bits - Bits per value
+   * @returns Packed buffer
+   */
+  public static packBits(values: number[], bits: number): Buffer {
+    const buffer = Buffer.alloc(Math.ceil((values.length * bits) / 8))
+    values.forEach((value, index) => {
+      for (let bit = 0; bit < bits; bit++) {
+        if ((value >> bit) & 1) {
+          const position = index * bits + bit
+          buffer[position >> 3] |= 1 << (position & 7)
+        }
+      }
+    })
+    return buffer
+  }
+
+  /**
+   * Unpack little-endian values with a fixed number of bits each
+   * @param buffer - Packed buffer
+   * @param bits - Bits per value
+   * @param count - Number of values
+   * @returns Unpacked values
+   */
+  public static unpackBits(buffer: Buffer, bits: number, count: number): number[] {
+    return Array.from({ length: count }, (_, index) => {
+      let value = 0
+      for (let bit = 0; bit < bits; bit++) {
+        const position = index * bits + bit
+        value |= ((buffer[position >> 3] >> (position & 7)) & 1) << bit
+      }
+      return value
+    })
+  }
+
   /**
    * Generate LWE (Learning With Errors) sample
    * @param dimension - Lattice dimension
    * @param modulus - Lattice modulus
    * @param errorBound - Error distribution bound
+   * @param random - Random source
    * @returns LWE sample (a, b)
    */
-  public static generateLWESample(dimension: number, modulus: bigint, errorBound: bigint): { a: bigint[]; b: bigint } {
+  public static generateLWESample(
+    dimension: number,
+    modulus: bigint,
+    errorBound: bigint,
+    random?: RandomSource
+  ): { a: bigint[]; b: bigint } {
     const a: bigint[] = []
     for (let i = 0; i < dimension; i++) {
-      a.push(this.generateRandomBigInt(0n, modulus))
+      a.push(DiscreteSampler.sampleUniform(0n, modulus, random))
     }
-    const error = this.generateDiscreteGaussianError(errorBound)
-    const b = (this.generateRandomBigInt(0n, modulus) + error) % modulus
+    const error = this.generateDiscreteGaussianError(errorBound, undefined, random)
+    const b = (((DiscreteSampler.sampleUniform(0n, modulus, random) + error) % modulus) + modulus) % modulus
     return { a, b }
   }
 
   /**
    * Generate discrete Gaussian error for LWE
    * @param sigma - Standard deviation
+   * @param tailCut - Optional bound on |error| in standard deviations
+   * @param random - Random source
    * @returns Error value
    */
-  public static generateDiscreteGaussianError(sigma: bigint): bigint {
-    const u1 = Math.max(0.0001, Number(this.generateRandomBigInt(0n, 1000n)) / 1000)
-    const u2 = Number(this.generateRandomBigInt(0n, 1000n)) / 1000
-    const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
-    return BigInt(Math.round(Number(sigma) * z0))
+  public static generateDiscreteGaussianError(sigma: bigint, tailCut?: number, random?: RandomSource): bigint {
+    return BigInt(DiscreteSampler.sampleGaussian(Number(sigma), tailCut, random))
   }
 
   /**
@@ -396,40 +486,52 @@ export class QuantumCrypto {
    * @param degree - Polynomial degree (must be power of 2)
    * @param modulus - Ring modulus
    * @param errorBound - Error distribution bound
-   * @returns RLWE polynomial coefficients
+   * @param random - Random source
+   * @returns RLWE polynomial coefficients in [0, modulus)
    */
-  public static generateRLWEPolynomial(degree: number, modulus: bigint, errorBound: bigint): bigint[] {
+  public static generateRLWEPolynomial(
+    degree: number,
+    modulus: bigint,
+    errorBound: bigint,
+    random?: RandomSource
+  ): bigint[] {
     if ((degree & (degree - 1)) !== 0) {
       throw new Error('Degree must be a power of 2 for RLWE')
     }
-    const coefficients: bigint[] = []
-    for (let i = 0; i < degree; i++) {
-      coefficients.push(this.generateRandomBigInt(0n, modulus))
-    }
+    const ring = new PolynomialRing(degree, modulus)
+    const uniform: bigint[] = []
+    const error: bigint[] = []
     for (let i = 0; i < degree; i++) {
-      const error = this.generateDiscreteGaussianError(errorBound)
-      coefficients[i] = (coefficients[i] + error) % modulus
+      uniform.push(DiscreteSampler.sampleUniform(0n, modulus, random))
+      error.push(ring.reduce(this.generateDiscreteGaussianError(errorBound, undefined, random)))
     }
-    return coefficients
+    return ring.add(uniform, error)
   }
 
   /**
-   * Polynomial multiplication in ring R_q
+   * Polynomial multiplication in ring R_q = Z_q[x]/(x^n + 1) with n = a.length
+   * Power-of-two lengths run through PolynomialRing; other lengths use schoolbook multiplication,
+   * where coefficients of b beyond n are ignored and missing ones count as zero
    * @param a - First polynomial coefficients
    * @param b - Second polynomial coefficients
    * @param modulus - Ring modulus
-   * @returns Product polynomial coefficients
+   * @returns Product polynomial coefficients in [0, modulus)
    */
   public static polynomialMultiply(a: bigint[], b: bigint[], modulus: bigint): bigint[] {
     const degree = a.length
+    if (degree > 0 && (degree & (degree - 1)) === 0 && b.length === degree && modulus >= 2n) {
+      const ring = new PolynomialRing(degree, modulus)
+      return ring.multiply(ring.fromCoefficients(a), ring.fromCoefficients(b))
+    }
     const result: bigint[] = new Array(degree).fill(0n)
     for (let i = 0; i < degree; i++) {
-      for (let j = 0; j < degree; j++) {
+      for (let j = 0; j < Math.min(degree, b.length); j++) {
         const k = (i + j) % degree
-        result[k] = (result[k] + a[i] * b[j]) % modulus
+        const sign = i + j < degree ? 1n : -1n
+        result[k] = (result[k] + sign * a[i] * b[j]) % modulus
       }
     }
-    return result
+    return result.map(coefficient => (coefficient + modulus) % modulus)
   }
 
   /**
@@ -437,16 +539,22 @@ export class QuantumCrypto {
    * @param variables - Number of variables
    * @param equations - Number of equations
    * @param degree - Maximum degree of polynomials
+   * @param random - Random source
    * @returns System of multivariate polynomials
    */
-  public static generateMultivariateSystem(variables: number, equations: number, degree: number): bigint[][][] {
+  public static generateMultivariateSystem(
+    variables: number,
+    equations: number,
+    degree: number,
+    random?: RandomSource
+  ): bigint[][][] {
     const system: bigint[][][] = []
     for (let eq = 0; eq < equations; eq++) {
       const equation: bigint[][] = []
       for (let v = 0; v < variables; v++) {
         const coefficients: bigint[] = []
         for (let d = 0; d <= degree; d++) {
-          coefficients.push(this.generateRandomBigInt(0n, 2n ** 64n))
+          coefficients.push(this.generateRandomBigInt(0n, 2n ** 64n, random))
         }
         equation.push(coefficients)
       }
@@ -512,23 +620,37 @@ export class QuantumCrypto {
     for (let level = 0; level < tree.length - 1; level++) {
       const isRight = currentIndex % 2 === 1
       const siblingIndex = isRight ? currentIndex - 1 : currentIndex + 1
-      if (siblingIndex < tree[level].length) {
-        proof.push(tree[level][siblingIndex])
-      }
+      proof.push(tree[level][siblingIndex < tree[level].length ? siblingIndex : currentIndex])
       currentIndex = Math.floor(currentIndex / 2)
     }
     return proof
   }
 
   /**
-   * Verify Merkle proof
+   * Verify Merkle proof against a legacy tree, or an inclusion proof against a domain-separated tree
    * @param leaf - Leaf value
-   * @param proof - Proof path
+   * @param proof - Proof path, or inclusion proof carrying leaf index and tree size
    * @param root - Expected root
-   * @param leafIndex - Index of leaf
+   * @param leafIndex - Index of leaf (proof paths only)
    * @returns True if proof is valid
    */
-  public static verifyMerkleProof(leaf: Buffer, proof: Buffer[], root: Buffer, leafIndex: number): boolean {
+  public static verifyMerkleProof(leaf: Buffer, proof: Buffer[], root: Buffer, leafIndex: number): boolean
+  public static verifyMerkleProof(leaf: Buffer, proof: MerkleProof, root: Buffer): boolean
+  public static verifyMerkleProof(leaf: Buffer, proof: Buffer[] | MerkleProof, root: Buffer, leafIndex = 0): boolean {
+    if (!Array.isArray(proof)) {
+      return this.verifyMerkleInclusion(leaf, proof, root)
+    }
+    return this.computeMerkleRoot(leaf, proof, leafIndex).equals(root)
+  }
+
+  /**
+   * Compute Merkle root implied by a leaf and its proof path
+   * @param leaf - Leaf value
+   * @param proof - Proof path
+   * @param leafIndex - Index of leaf
+   * @returns Root hash
+   */
+  public static computeMerkleRoot(leaf: Buffer, proof: Buffer[], leafIndex: number): Buffer {
     let currentHash = leaf
     let currentIndex = leafIndex
     for (const sibling of proof) {
@@ -537,7 +659,200 @@ export class QuantumCrypto {
       currentHash = this.hash(combined, 'sha256')
       currentIndex = Math.floor(currentIndex / 2)
     }
-    return currentHash.equals(root)
+    return currentHash
+  }
+
+  /**
+   * Generate multiproof for several leaves, sharing siblings common to their paths
+   * @param tree - Merkle tree
+   * @param leafIndices - Indices of leaves to prove
+   * @returns Multiproof
+   */
+  public static generateMerkleMultiproof(tree: Buffer[][], leafIndices: number[]): MerkleMultiproof {
+    const leafCount = tree[0].length
+    const sorted = [...new Set(leafIndices)].sort((a, b) => a - b)
+    if (sorted.length === 0 || sorted.some(index => !Number.isInteger(index) || index < 0 || index >= leafCount)) {
+      throw new Error('Leaf indices must be non-empty and inside the tree')
+    }
+    const siblings: Buffer[] = []
+    let known = sorted
+    for (let level = 0; level < tree.length - 1; level++) {
+      const knownSet = new Set(known)
+      for (const index of known) {
+        const sibling = index ^ 1
+        if (sibling < tree[level].length && !knownSet.has(sibling)) {
+          siblings.push(tree[level][sibling])
+        }
+      }
+      known = [...new Set(known.map(index => Math.floor(index / 2)))]
+    }
+    return { leafIndices: sorted, leafCount, siblings }
+  }
+
+  /**
+   * Verify multiproof of several leaves
+   * @param leaves - Leaf values, in the order of the multiproof leaf indices
+   * @param proof - Multiproof
+   * @param root - Expected root
+   * @returns True if every leaf is in the tree
+   */
+  public static verifyMerkleMultiproof(leaves: Buffer[], proof: MerkleMultiproof, root: Buffer): boolean {
+    const { leafIndices, leafCount, siblings } = proof
+    const ascending = leafIndices.every((index, i) => i === 0 || index > leafIndices[i - 1])
+    if (
+      leaves.length === 0 ||
+      leaves.length !== leafIndices.length ||
+      !ascending ||
+      !Number.isInteger(leafCount) ||
+      leafIndices.some(index => !Number.isInteger(index) || index < 0 || index >= leafCount)
+    ) {
+      return false
+    }
+    let nodes: Map<number, Buffer> | null = new Map(leafIndices.map((index, i) => [index, leaves[i]]))
+    const cursor = { consumed: 0 }
+    for (let width = leafCount; width > 1 && nodes; width = Math.ceil(width / 2)) {
+      nodes = this.combineMultiproofLevel(nodes, width, siblings, cursor)
+    }
+    return cursor.consumed === siblings.length && nodes?.get(0)?.equals(root) === true
+  }
+
+  /**
+   * Combine known nodes of one level into their parents
+   * @param nodes - Known nodes by index
+   * @param width - Number of nodes on the level
+   * @param siblings - Multiproof siblings
+   * @param cursor - Number of siblings consumed so far, advanced in place
+   * @returns Known parents by index, or null if the multiproof runs out of siblings
+   */
+  private static combineMultiproofLevel(
+    nodes: Map<number, Buffer>,
+    width: number,
+    siblings: Buffer[],
+    cursor: { consumed: number }
+  ): Map<number, Buffer> | null {
+    const parents = new Map<number, Buffer>()
+    for (const [index, node] of nodes) {
+      const parent = Math.floor(index / 2)
+      if (parents.has(parent)) {
+        continue
+      }
+      const siblingIndex = index ^ 1
+      let sibling = nodes.get(siblingIndex)
+      if (!sibling) {
+        sibling = siblingIndex < width ? siblings[cursor.consumed++] : node
+      }
+      if (!sibling) {
+        return null
+      }
+      const pair = index % 2 === 0 ? [node, sibling] : [sibling, node]
+      parents.set(parent, this.hash(Buffer.concat(pair), 'sha256'))
+    }
+    return parents
+  }
+
+  /**
+   * Hash Merkle leaf with the RFC 6962 leaf prefix 0x00
+   * @param leaf - Leaf value
+   * @param algorithm - Hash algorithm
+   * @returns Leaf hash
+   */
+  public static hashMerkleLeaf(leaf: Buffer, algorithm: MerkleHashAlgorithm = 'sha256'): Buffer {
+    return this.hash(Buffer.concat([this.MERKLE_LEAF_PREFIX, leaf]), algorithm)
+  }
+
+  /**
+   * Hash two Merkle children with the RFC 6962 node prefix 0x01
+   * @param left - Left child hash
+   * @param right - Right child hash
+   * @param algorithm - Hash algorithm
+   * @returns Node hash
+   */
+  public static hashMerkleNode(left: Buffer, right: Buffer, algorithm: MerkleHashAlgorithm = 'sha256'): Buffer {
+    return this.hash(Buffer.concat([this.MERKLE_NODE_PREFIX, left, right]), algorithm)
+  }
+
+  /**
+   * Create domain-separated Merkle tree; the last node of an odd level is promoted unhashed,
+   * which yields the RFC 6962 tree hash for any number of leaves
+   * @param leaves - Leaf values
+   * @param algorithm - Hash algorithm
+   * @returns Merkle tree
+   */
+  public static createMerkleTree(leaves: Buffer[], algorithm: MerkleHashAlgorithm = 'sha256'): MerkleTree {
+    if (leaves.length === 0) {
+      throw new Error('Cannot generate Merkle tree with no leaves')
+    }
+    const levels: Buffer[][] = [leaves.map(leaf => this.hashMerkleLeaf(leaf, algorithm))]
+    let currentLevel = levels[0]
+    while (currentLevel.length > 1) {
+      const nextLevel: Buffer[] = []
+      for (let i = 0; i + 1 < currentLevel.length; i += 2) {
+        nextLevel.push(this.hashMerkleNode(currentLevel[i], currentLevel[i + 1], algorithm))
+      }
+      if (currentLevel.length % 2 === 1) {
+        nextLevel.push(currentLevel[currentLevel.length - 1])
+      }
+      levels.push(nextLevel)
+      currentLevel = nextLevel
+    }
+    return { algorithm, levels, root: currentLevel[0] }
+  }
+
+  /**
+   * Create inclusion proof for a leaf of a domain-separated Merkle tree
+   * @param tree - Merkle tree
+   * @param leafIndex - Index of leaf to prove
+   * @returns Inclusion proof carrying leaf index and tree size
+   */
+  public static createMerkleProof(tree: MerkleTree, leafIndex: number): MerkleProof {
+    const treeSize = tree.levels[0].length
+    if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= treeSize) {
+      throw new Error(`Leaf index ${leafIndex} is outside a tree of ${treeSize} leaves`)
+    }
+    const path: Buffer[] = []
+    let currentIndex = leafIndex
+    for (let level = 0; level < tree.levels.length - 1; level++) {
+      const siblingIndex = currentIndex % 2 === 1 ? currentIndex - 1 : currentIndex + 1
+      if (siblingIndex < tree.levels[level].length) {
+        path.push(tree.levels[level][siblingIndex])
+      }
+      currentIndex = Math.floor(currentIndex / 2)
+    }
+    return { leafIndex, treeSize, path, algorithm: tree.algorithm }
+  }
+
+  /**
+   * Verify RFC 6962 inclusion proof; the path must have exactly the length implied by leaf index and tree size
+   * @param leaf - Leaf value
+   * @param proof - Inclusion proof
+   * @param root - Expected Merkle tree hash
+   * @returns True if proof is valid
+   */
+  private static verifyMerkleInclusion(leaf: Buffer, proof: MerkleProof, root: Buffer): boolean {
+    const { leafIndex, treeSize, path, algorithm } = proof
+    if (!Number.isInteger(leafIndex) || !Number.isInteger(treeSize) || leafIndex < 0 || leafIndex >= treeSize) {
+      return false
+    }
+    let index = leafIndex
+    let lastIndex = treeSize - 1
+    let current = this.hashMerkleLeaf(leaf, algorithm)
+    for (const sibling of path) {
+      if (lastIndex === 0) {
+        return false
+      }
+      if (index % 2 === 1 || index === lastIndex) {
+        current = this.hashMerkleNode(sibling, current, algorithm)
+        while (index % 2 === 0 && index !== 0) {
+          index = Math.floor(index / 2)
+          lastIndex = Math.floor(lastIndex / 2)
+        }
+      } else {
+        current = this.hashMerkleNode(current, sibling, algorithm)
+      }
+      index = Math.floor(index / 2)
+      lastIndex = Math.floor(lastIndex / 2)
+    }
+    return lastIndex === 0 && current.equals(root)
   }
 
   /**
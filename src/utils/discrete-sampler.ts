@@ -0,0 +1,114 @@
+/**
+ * Discrete samplers for Quantum-Resistant ZKP library
+ * @author NeaByteLab
+ */
+
+import { SystemRandom } from '@utils/random'
+import type { RandomSource } from '../types'
+
+/**
+ * Samplers for lattice noise and uniform coefficients
+ * Gaussian and binomial samples consume a fixed number of random bytes and scan their whole table, so the
+ * work done does not depend on the sampled value; uniform samples use rejection instead of a biased modulo
+ */
+export class DiscreteSampler {
+  private static readonly PRECISION_BITS = 52
+  private static readonly DEFAULT_TAIL_CUT = 12
+  private static readonly gaussianTables = new Map<string, number[]>()
+
+  /**
+   * Sample from the discrete Gaussian distribution centered at zero using a cumulative distribution table
+   * @param sigma - Standard deviation
+   * @param tailCut - Samples are bounded by tailCut * sigma in absolute value
+   * @param random - Random source
+   * @returns Integer sample
+   */
+  public static sampleGaussian(
+    sigma: number,
+    tailCut: number = this.DEFAULT_TAIL_CUT,
+    random: RandomSource = new SystemRandom()
+  ): number {
+    const table = this.getGaussianTable(sigma, tailCut)
+    const bytes = random.randomBytes(7)
+    const threshold = bytes.readUIntLE(0, 6) + (bytes[6] & 0x0f) * 2 ** 48
+    let magnitude = 0
+    for (const entry of table) {
+      magnitude += Number(threshold >= entry)
+    }
+    const negative = bytes[6] >> 7
+    return (magnitude ^ -negative) + negative
+  }
+
+  /**
+   * Sample from the centered binomial distribution (sum of eta coin differences)
+   * @param eta - Distribution parameter, samples lie in [-eta, eta]
+   * @param random - Random source
+   * @returns Integer sample
+   */
+  public static sampleCenteredBinomial(eta: number, random: RandomSource = new SystemRandom()): number {
+    if (!Number.isInteger(eta) || eta < 1 || eta > 16) {
+      throw new Error('Binomial parameter must be an integer between 1 and 16')
+    }
+    const bytes = random.randomBytes(Math.ceil(eta / 4))
+    let sample = 0
+    for (let bit = 0; bit < 2 * eta; bit++) {
+      const value = (bytes[bit >> 3] >> (bit & 7)) & 1
+      sample += bit < eta ? value : -value
+    }
+    return sample
+  }
+
+  /**
+   * Sample integer uniformly from [min, max) by rejection
+   * @param min - Minimum value (inclusive)
+   * @param max - Maximum value (exclusive)
+   * @param random - Random source
+   * @returns Uniform sample
+   */
+  public static sampleUniform(min: bigint, max: bigint, random: RandomSource = new SystemRandom()): bigint {
+    const range = max - min
+    if (range <= 0n) {
+      throw new Error('Sampling range must not be empty')
+    }
+    const bits = (range - 1n).toString(2).length
+    const mask = (1n << BigInt(bits)) - 1n
+    for (;;) {
+      const candidate = BigInt(`0x${random.randomBytes(Math.ceil(bits / 8)).toString('hex')}`) & mask
+      if (candidate < range) {
+        return min + candidate
+      }
+    }
+  }
+
+  /**
+   * Get cumulative distribution table of |X| for the discrete Gaussian
+   * @param sigma - Standard deviation
+   * @param tailCut - Tail cut in standard deviations
+   * @returns Table entries scaled to 2^52, the last one equal to 2^52
+   */
+  private static getGaussianTable(sigma: number, tailCut: number): number[] {
+    if (!Number.isFinite(sigma) || sigma <= 0 || !Number.isFinite(tailCut) || tailCut <= 0) {
+      throw new Error('Invalid Gaussian parameters')
+    }
+    const key = `${sigma}:${tailCut}`
+    const cached = this.gaussianTables.get(key)
+    if (cached) {
+      return cached
+    }
+    const bound = Math.ceil(tailCut * sigma)
+    const weights = Array.from(
+      { length: bound + 1 },
+      (_, k) => (k === 0 ? 1 : 2) * Math.exp(-(k * k) / (2 * sigma * sigma))
+    )
+    const total = weights.reduce((sum, weight) => sum + weight, 0)
+    const scale = 2 ** this.PRECISION_BITS
+    let cumulative = 0
+    const table = weights.map(weight => {
+      cumulative += weight
+      return Math.min(scale, Math.round((cumulative / total) * scale))
+    })
+    table[bound] = scale
+    this.gaussianTables.set(key, table)
+    return table
+  }
+}
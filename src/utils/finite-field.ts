@@ -0,0 +1,466 @@
+/**
+ * Finite field arithmetic for Quantum-Resistant ZKP library
+ * @author NeaByteLab
+ */
+
+import { SystemRandom } from '@utils/random'
+import type { RandomSource } from '../types'
+
+/**
+ * Finite field GF(p) for a prime p below 2^32, or GF(2^k) for k in {4, 8, 16}
+ * Elements are numbers in [0, order); binary field elements are polynomials over GF(2) in bit order and
+ * multiply through exponent and logarithm tables of a generator of the multiplicative group
+ */
+export class FiniteField {
+  /** Reduction polynomials of the supported binary fields, keyed by field order */
+  private static readonly BINARY_POLYNOMIALS: ReadonlyMap<number, number> = new Map([
+    [16, 0x13],
+    [256, 0x11b],
+    [65536, 0x1100b]
+  ])
+  private static readonly MAX_PRIME = 2 ** 32
+  /** Largest modulus for which a product of two elements is exact in a double */
+  private static readonly EXACT_PRODUCT_LIMIT = 2 ** 26
+  public readonly characteristic: number
+  public readonly degree: number
+  /** Reduction polynomial for binary fields, 0 for prime fields */
+  public readonly polynomial: number
+  /** Bytes per element in the fixed-width big-endian encoding */
+  public readonly elementBytes: number
+  private readonly exp: Uint32Array
+  private readonly log: Uint32Array
+
+  /**
+   * Create field
+   * @param order - Field order: a prime below 2^32, or 16, 256 or 65536
+   */
+  constructor(public readonly order: number) {
+    this.elementBytes = Math.ceil(Math.ceil(Math.log2(order)) / 8)
+    const polynomial = FiniteField.BINARY_POLYNOMIALS.get(order)
+    if (polynomial !== undefined) {
+      this.characteristic = 2
+      this.degree = Math.log2(order)
+      this.polynomial = polynomial
+      ;[this.exp, this.log] = this.buildTables()
+      return
+    }
+    if (!Number.isInteger(order) || order < 2 || order >= FiniteField.MAX_PRIME || !FiniteField.isPrime(order)) {
+      throw new Error('Field order must be a prime below 2^32, or 16, 256 or 65536')
+    }
+    this.characteristic = order
+    this.degree = 1
+    this.polynomial = 0
+    this.exp = new Uint32Array(0)
+    this.log = new Uint32Array(0)
+  }
+
+  /**
+   * Check whether the field has characteristic 2
+   * @returns True for GF(2^k)
+   */
+  public isBinary(): boolean {
+    return this.characteristic === 2 && this.degree > 1
+  }
+
+  /**
+   * Check whether a value is a field element
+   * @param value - Value to check
+   * @returns True if value is an integer in [0, order)
+   */
+  public isElement(value: number): boolean {
+    return Number.isInteger(value) && value >= 0 && value < this.order
+  }
+
+  /**
+   * Map an integer to a field element
+   * @param value - Integer
+   * @returns Residue modulo the field order, i.e. the low k bits for GF(2^k)
+   */
+  public reduce(value: bigint | number): number {
+    const reduced = BigInt(value) % BigInt(this.order)
+    return Number(reduced < 0n ? reduced + BigInt(this.order) : reduced)
+  }
+
+  /**
+   * Add two elements
+   * @param a - First element
+   * @param b - Second element
+   * @returns a + b
+   */
+  public add(a: number, b: number): number {
+    if (this.isBinary()) {
+      return a ^ b
+    }
+    const sum = a + b
+    return sum >= this.order ? sum - this.order : sum
+  }
+
+  /**
+   * Subtract two elements
+   * @param a - First element
+   * @param b - Second element
+   * @returns a - b
+   */
+  public subtract(a: number, b: number): number {
+    if (this.isBinary()) {
+      return a ^ b
+    }
+    const difference = a - b
+    return difference < 0 ? difference + this.order : difference
+  }
+
+  /**
+   * Negate element
+   * @param a - Element
+   * @returns -a
+   */
+  public negate(a: number): number {
+    return this.subtract(0, a)
+  }
+
+  /**
+   * Multiply two elements
+   * @param a - First element
+   * @param b - Second element
+   * @returns a·b
+   */
+  public multiply(a: number, b: number): number {
+    if (a === 0 || b === 0) {
+      return 0
+    }
+    if (this.isBinary()) {
+      return this.exp[this.log[a] + this.log[b]]
+    }
+    if (this.order <= FiniteField.EXACT_PRODUCT_LIMIT) {
+      return (a * b) % this.order
+    }
+    const high = ((a * Math.floor(b / 0x10000)) % this.order) * 0x10000
+    return (high + a * (b % 0x10000)) % this.order
+  }
+
+  /**
+   * Invert a non-zero element
+   * @param a - Element to invert
+   * @returns a^-1
+   */
+  public inverse(a: number): number {
+    if (a === 0) {
+      throw new Error('Zero has no multiplicative inverse')
+    }
+    if (this.isBinary()) {
+      return this.exp[this.order - 1 - this.log[a]]
+    }
+    return this.power(a, this.order - 2)
+  }
+
+  /**
+   * Divide two elements
+   * @param a - Dividend
+   * @param b - Non-zero divisor
+   * @returns a / b
+   */
+  public divide(a: number, b: number): number {
+    return this.multiply(a, this.inverse(b))
+  }
+
+  /**
+   * Raise element to a power by square and multiply
+   * @param a - Base
+   * @param exponent - Non-negative integer exponent
+   * @returns a^exponent
+   */
+  public power(a: number, exponent: number): number {
+    let result = 1
+    let base = a
+    for (let e = exponent; e > 0; e = Math.floor(e / 2)) {
+      if (e % 2 === 1) {
+        result = this.multiply(result, base)
+      }
+      base = this.multiply(base, base)
+    }
+    return result
+  }
+
+  /**
+   * Sample uniform element
+   * @param random - Random source
+   * @returns Element in [0, order)
+   */
+  public randomElement(random: RandomSource = new SystemRandom()): number {
+    return this.randomVector(1, random)[0]
+  }
+
+  /**
+   * Sample uniform vector by rejecting big-endian chunks of ceil(log2(order)) bits
+   * @param length - Number of elements
+   * @param random - Random source
+   * @returns Vector of uniform elements
+   */
+  public randomVector(length: number, random: RandomSource = new SystemRandom()): number[] {
+    const width = this.elementBytes
+    const span = 2 ** Math.ceil(Math.log2(this.order))
+    const elements: number[] = []
+    while (elements.length < length) {
+      const bytes = random.randomBytes((length - elements.length) * width)
+      for (let offset = 0; offset < bytes.length; offset += width) {
+        const value = bytes.readUIntBE(offset, width) % span
+        if (value < this.order) {
+          elements.push(value)
+        }
+      }
+    }
+    return elements
+  }
+
+  /**
+   * Encode vector with elementBytes big-endian bytes per element
+   * @param vector - Field elements
+   * @returns Encoded vector
+   */
+  public encodeVector(vector: number[]): Buffer {
+    const buffer = Buffer.alloc(vector.length * this.elementBytes)
+    vector.forEach((value, i) => buffer.writeUIntBE(value, i * this.elementBytes, this.elementBytes))
+    return buffer
+  }
+
+  /**
+   * Decode vector written by encodeVector
+   * @param buffer - Encoded vector
+   * @returns Field elements
+   */
+  public decodeVector(buffer: Buffer): number[] {
+    if (buffer.length % this.elementBytes !== 0) {
+      throw new Error('Invalid field element encoding')
+    }
+    const vector = Array.from({ length: buffer.length / this.elementBytes }, (_, i) =>
+      buffer.readUIntBE(i * this.elementBytes, this.elementBytes)
+    )
+    if (!vector.every(value => value < this.order)) {
+      throw new Error('Invalid field element encoding')
+    }
+    return vector
+  }
+
+  /**
+   * Add two vectors
+   * @param a - First vector
+   * @param b - Second vector
+   * @returns a + b
+   */
+  public addVectors(a: number[], b: number[]): number[] {
+    this.validateLength(a, b)
+    return a.map((value, i) => this.add(value, b[i]))
+  }
+
+  /**
+   * Subtract two vectors
+   * @param a - First vector
+   * @param b - Second vector
+   * @returns a - b
+   */
+  public subtractVectors(a: number[], b: number[]): number[] {
+    this.validateLength(a, b)
+    return a.map((value, i) => this.subtract(value, b[i]))
+  }
+
+  /**
+   * Multiply vector by a scalar
+   * @param scalar - Element
+   * @param a - Vector
+   * @returns scalar·a
+   */
+  public scaleVector(scalar: number, a: number[]): number[] {
+    return a.map(value => this.multiply(scalar, value))
+  }
+
+  /**
+   * Compute inner product of two vectors
+   * @param a - First vector
+   * @param b - Second vector
+   * @returns Sum of a_i·b_i
+   */
+  public dotProduct(a: number[], b: number[]): number {
+    this.validateLength(a, b)
+    return a.reduce((sum, value, i) => this.add(sum, this.multiply(value, b[i])), 0)
+  }
+
+  /**
+   * Multiply matrix by column vector
+   * @param matrix - Matrix as rows
+   * @param vector - Vector with one element per column
+   * @returns matrix·vector
+   */
+  public multiplyMatrixVector(matrix: number[][], vector: number[]): number[] {
+    return matrix.map(row => this.dotProduct(row, vector))
+  }
+
+  /**
+   * Multiply two matrices
+   * @param a - Left matrix as rows
+   * @param b - Right matrix as rows, one row per column of a
+   * @returns a·b
+   */
+  public multiplyMatrices(a: number[][], b: number[][]): number[][] {
+    const columns = b[0]?.length ?? 0
+    return a.map(row => {
+      this.validateLength(row, b)
+      return Array.from({ length: columns }, (_, j) =>
+        row.reduce((sum, value, k) => this.add(sum, this.multiply(value, b[k][j])), 0)
+      )
+    })
+  }
+
+  /**
+   * Compute matrix rank by Gaussian elimination
+   * @param matrix - Matrix as rows
+   * @returns Rank
+   */
+  public rank(matrix: number[][]): number {
+    return this.rowReduce(
+      matrix.map(row => [...row]),
+      matrix[0]?.length ?? 0
+    ).length
+  }
+
+  /**
+   * Solve linear system by Gaussian elimination
+   * @param matrix - Coefficient matrix as rows
+   * @param vector - Right-hand side with one element per row
+   * @returns One solution x of matrix·x = vector with free variables set to zero, or null if inconsistent
+   */
+  public solve(matrix: number[][], vector: number[]): number[] | null {
+    this.validateLength(matrix, vector)
+    const columns = matrix[0]?.length ?? 0
+    const rows = matrix.map((row, i) => [...row, vector[i]])
+    const pivots = this.rowReduce(rows, columns)
+    if (rows.slice(pivots.length).some(row => row[columns] !== 0)) {
+      return null
+    }
+    const solution = new Array<number>(columns).fill(0)
+    pivots.forEach((column, i) => {
+      solution[column] = rows[i][columns]
+    })
+    return solution
+  }
+
+  /**
+   * Invert square matrix by Gauss-Jordan elimination
+   * @param matrix - Square matrix as rows
+   * @returns Inverse matrix, or null if singular
+   */
+  public invertMatrix(matrix: number[][]): number[][] | null {
+    const size = matrix.length
+    const rows = matrix.map((row, i) => {
+      this.validateLength(row, matrix)
+      return [...row, ...Array.from({ length: size }, (_, j) => Number(i === j))]
+    })
+    if (this.rowReduce(rows, size).length < size) {
+      return null
+    }
+    return rows.map(row => row.slice(size))
+  }
+
+  /**
+   * Bring rows to reduced row echelon form in place, pivoting on the leading columns only
+   * @param rows - Matrix rows, possibly augmented with extra columns
+   * @param columns - Number of leading columns to pivot on
+   * @returns Pivot column of each of the first rank rows
+   */
+  private rowReduce(rows: number[][], columns: number): number[] {
+    const pivots: number[] = []
+    for (let column = 0; column < columns && pivots.length < rows.length; column++) {
+      const pivotRow = pivots.length
+      const found = rows.findIndex((row, i) => i >= pivotRow && row[column] !== 0)
+      if (found === -1) {
+        continue
+      }
+      ;[rows[pivotRow], rows[found]] = [rows[found], rows[pivotRow]]
+      const pivot = this.scaleVector(this.inverse(rows[pivotRow][column]), rows[pivotRow])
+      rows[pivotRow] = pivot
+      rows.forEach((row, i) => {
+        if (i !== pivotRow && row[column] !== 0) {
+          rows[i] = this.subtractVectors(row, this.scaleVector(row[column], pivot))
+        }
+      })
+      pivots.push(column)
+    }
+    return pivots
+  }
+
+  /**
+   * Build doubled exponent table and logarithm table for the first generator of GF(2^k)*
+   * @returns Exponent and logarithm tables
+   */
+  private buildTables(): [Uint32Array, Uint32Array] {
+    const size = this.order - 1
+    const exp = new Uint32Array(2 * size)
+    const log = new Uint32Array(this.order)
+    for (let generator = 2; generator < this.order; generator++) {
+      let value = 1
+      let period = 0
+      do {
+        exp[period] = value
+        log[value] = period
+        value = this.carrylessMultiply(value, generator)
+        period++
+      } while (value !== 1 && period < size)
+      if (period === size && value === 1) {
+        exp.copyWithin(size, 0, size)
+        return [exp, log]
+      }
+    }
+    throw new Error(`Reduction polynomial ${this.polynomial.toString(16)} is not irreducible`)
+  }
+
+  /**
+   * Multiply two binary field elements by shift and add, without tables
+   * @param a - First element
+   * @param b - Second element
+   * @returns a·b reduced by the field polynomial
+   */
+  private carrylessMultiply(a: number, b: number): number {
+    let result = 0
+    let shifted = a
+    for (let bits = b; bits > 0; bits >>>= 1) {
+      if (bits & 1) {
+        result ^= shifted
+      }
+      shifted <<= 1
+      if (shifted & this.order) {
+        shifted ^= this.polynomial
+      }
+    }
+    return result
+  }
+
+  /**
+   * Validate that two sequences have equal length
+   * @param a - First sequence
+   * @param b - Second sequence
+   */
+  private validateLength(a: unknown[], b: unknown[]): void {
+    if (a.length !== b.length) {
+      throw new Error(`Dimension mismatch: ${a.length} vs ${b.length}`)
+    }
+  }
+
+  /**
+   * Check primality of a number below 2^32 by trial division
+   * @param value - Candidate
+   * @returns True if value is prime
+   */
+  private static isPrime(value: number): boolean {
+    if (value < 4) {
+      return value >= 2
+    }
+    if (value % 2 === 0) {
+      return false
+    }
+    for (let divisor = 3; divisor * divisor <= value; divisor += 2) {
+      if (value % divisor === 0) {
+        return false
+      }
+    }
+    return true
+  }
+}
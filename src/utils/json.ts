@@ -0,0 +1,480 @@
+/**
+ * Canonical JSON encoding and JSON Schemas for Quantum-Resistant ZKP proofs
+ * @author NeaByteLab
+ */
+
+import { ZKPError } from '../types'
+import type { JSONSchema, Proof, ProofType } from '../types'
+
+/**
+ * Canonical JSON codec for proofs
+ * Buffers are base64url strings without padding, bigints are decimal strings and object keys are sorted
+ */
+export class ProofJSON {
+  private static readonly SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema'
+  private static readonly SCHEMA_VERSION = 1
+  private static readonly PROOF_TYPES: ProofType[] = ['lattice', 'hash', 'multivariate', 'hybrid', 'membership']
+  private static readonly BYTES: JSONSchema = {
+    type: 'string',
+    contentEncoding: 'base64url',
+    pattern: '^[A-Za-z0-9_-]*$'
+  }
+  private static readonly BIGINT: JSONSchema = {
+    type: 'string',
+    format: 'bigint',
+    pattern: '^(0|[1-9][0-9]*)$'
+  }
+  private static readonly COUNT: JSONSchema = { type: 'integer', minimum: 0 }
+  private static readonly ALGORITHM: JSONSchema = {
+    type: 'string',
+    enum: ['lattice', 'hash', 'multivariate', 'hybrid']
+  }
+  private static readonly WEIGHTS: JSONSchema = {
+    type: 'object',
+    properties: {
+      lattice: { type: 'number' },
+      hash: { type: 'number' },
+      multivariate: { type: 'number' },
+      hybrid: { type: 'number' }
+    },
+    additionalProperties: false
+  }
+
+  /**
+   * Encode proof as canonical JSON
+   * @param proof - Proof to encode
+   * @returns Canonical JSON string
+   */
+  public static proofToJSON(proof: Proof): string {
+    return JSON.stringify(this.encodeValue(proof))
+  }
+
+  /**
+   * Decode proof from JSON, validating it against the schema of its type
+   * @param json - JSON string
+   * @returns Decoded proof
+   */
+  public static proofFromJSON(json: string): Proof {
+    let value: unknown
+    try {
+      value = JSON.parse(json)
+    } catch (error) {
+      throw new ZKPError({
+        code: 'JSON_PARSE_ERROR',
+        message: `Invalid JSON: ${error instanceof Error ? error.message : 'parse failed'}`,
+        path: '$'
+      })
+    }
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      throw new ZKPError({ code: 'JSON_INVALID_TYPE', message: 'Expected object at $', path: '$' })
+    }
+    const { type } = value as { type?: unknown }
+    if (!this.PROOF_TYPES.includes(type as ProofType)) {
+      throw new ZKPError({
+        code: 'JSON_UNKNOWN_PROOF_TYPE',
+        message: `Unknown proof type at $.type: ${String(type)}`,
+        path: '$.type'
+      })
+    }
+    const schema = this.getSchema(type as ProofType)
+    return this.decodeValue(value, schema, schema, '$') as Proof
+  }
+
+  /**
+   * Get published JSON Schema for a proof type
+   * @param type - Proof type
+   * @returns JSON Schema describing the canonical JSON encoding
+   */
+  public static getSchema(type: ProofType): JSONSchema {
+    const schema: JSONSchema = {
+      $schema: this.SCHEMA_DIALECT,
+      $id: `urn:quantum-zkp:proof:${type}:${this.SCHEMA_VERSION}`,
+      title: `${type.charAt(0).toUpperCase()}${type.slice(1)}Proof`,
+      ...this.buildProofSchema(type)
+    }
+    if (type === 'hybrid') {
+      schema.$defs = {
+        lattice: this.buildProofSchema('lattice'),
+        hash: this.buildProofSchema('hash'),
+        multivariate: this.buildProofSchema('multivariate')
+      }
+    }
+    return schema
+  }
+
+  /**
+   * Build object schema for a proof type
+   * @param type - Proof type
+   * @returns Proof object schema
+   */
+  private static buildProofSchema(type: ProofType): JSONSchema {
+    const { properties, required } = this.buildTypeProperties(type)
+    return {
+      type: 'object',
+      properties: {
+        type: { type: 'string', const: type },
+        commitment: this.BYTES,
+        challenge: this.BYTES,
+        response: this.BYTES,
+        parameters: this.buildParametersSchema(),
+        quantumSafe: { type: 'boolean' },
+        timestamp: { type: 'number' },
+        version: { type: 'string' },
+        statementDigest: this.BYTES,
+        ...properties
+      },
+      required: [
+        'type',
+        'commitment',
+        'challenge',
+        'response',
+        'parameters',
+        'quantumSafe',
+        'timestamp',
+        'version'
+      ].concat(required),
+      additionalProperties: false
+    }
+  }
+
+  /**
+   * Build properties specific to a proof type
+   * @param type - Proof type
+   * @returns Property schemas and required property names
+   */
+  private static buildTypeProperties(type: ProofType): { properties: Record<string, JSONSchema>; required: string[] } {
+    switch (type) {
+      case 'lattice':
+        return {
+          properties: {
+            dimension: this.COUNT,
+            modulus: this.BIGINT,
+            polynomialCommitment: this.BYTES,
+            mode: { type: 'string', enum: ['lwe', 'sigma'] },
+            seed: this.BYTES,
+            publicKey: this.BYTES
+          },
+          required: ['dimension', 'modulus', 'polynomialCommitment']
+        }
+      case 'hash':
+        return {
+          properties: {
+            chainLength: this.COUNT,
+            hashChain: { type: 'array', items: this.BYTES },
+            commitmentChain: this.BYTES,
+            merkleTree: { type: 'array', items: { type: 'array', items: this.BYTES } },
+            merkleProof: { type: 'array', items: this.BYTES },
+            mode: { type: 'string', enum: ['chain', 'preimage', 'compact'] },
+            image: this.BYTES,
+            openings: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { index: this.COUNT, value: this.BYTES, path: { type: 'array', items: this.BYTES } },
+                required: ['index', 'value', 'path'],
+                additionalProperties: false
+              }
+            }
+          },
+          required: ['chainLength', 'hashChain', 'commitmentChain']
+        }
+      case 'multivariate':
+        return {
+          properties: {
+            variables: this.COUNT,
+            equations: this.COUNT,
+            polynomialSystem: this.BYTES,
+            solution: this.BYTES,
+            mode: { type: 'string', enum: ['system', 'mq3', 'mq5'] },
+            seed: this.BYTES,
+            publicKey: this.BYTES
+          },
+          required: ['variables', 'equations', 'polynomialSystem', 'solution']
+        }
+      case 'membership':
+        return {
+          properties: {
+            root: this.BYTES,
+            treeSize: this.COUNT
+          },
+          required: ['root', 'treeSize']
+        }
+      default:
+        return {
+          properties: {
+            proofs: {
+              type: 'array',
+              items: {
+                oneOf: [{ $ref: '#/$defs/lattice' }, { $ref: '#/$defs/hash' }, { $ref: '#/$defs/multivariate' }]
+              }
+            },
+            combined: this.BYTES,
+            algorithmWeights: this.WEIGHTS
+          },
+          required: ['proofs', 'combined', 'algorithmWeights']
+        }
+    }
+  }
+
+  /**
+   * Build schema for proof parameters
+   * @returns Parameters object schema
+   */
+  private static buildParametersSchema(): JSONSchema {
+    return {
+      type: 'object',
+      properties: {
+        dimension: this.COUNT,
+        modulus: this.BIGINT,
+        chainLength: this.COUNT,
+        variables: this.COUNT,
+        equations: this.COUNT,
+        parties: this.COUNT,
+        algorithms: { type: 'array', items: this.ALGORITHM },
+        weights: this.WEIGHTS,
+        latticeMode: { type: 'string', enum: ['lwe', 'sigma'] },
+        hashMode: { type: 'string', enum: ['chain', 'preimage', 'compact'] },
+        multivariateMode: { type: 'string', enum: ['system', 'mq3', 'mq5'] },
+        repetitions: this.COUNT,
+        spotChecks: this.COUNT,
+        merkleScheme: { type: 'string', enum: ['legacy', 'rfc6962'] }
+      },
+      additionalProperties: false
+    }
+  }
+
+  /**
+   * Convert value to its canonical JSON-compatible form
+   * @param value - Value to encode
+   * @returns JSON-compatible value with sorted object keys
+   */
+  private static encodeValue(value: unknown): unknown {
+    if (Buffer.isBuffer(value)) {
+      return value.toString('base64url')
+    }
+    if (typeof value === 'bigint') {
+      return value.toString()
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.encodeValue(item))
+    }
+    if (value !== null && typeof value === 'object') {
+      const encoded: Record<string, unknown> = {}
+      for (const key of Object.keys(value).sort()) {
+        const item = (value as Record<string, unknown>)[key]
+        if (item !== undefined) {
+          encoded[key] = this.encodeValue(item)
+        }
+      }
+      return encoded
+    }
+    return value
+  }
+
+  /**
+   * Validate value against schema and convert it to its runtime form
+   * @param value - JSON value
+   * @param schema - Schema to apply
+   * @param root - Root schema for $ref resolution
+   * @param path - Path of the value
+   * @returns Decoded value
+   */
+  private static decodeValue(value: unknown, schema: JSONSchema, root: JSONSchema, path: string): unknown {
+    if (schema.$ref) {
+      return this.decodeValue(value, this.resolveRef(schema.$ref, root), root, path)
+    }
+    if (schema.oneOf) {
+      return this.decodeValue(value, this.selectBranch(value, schema.oneOf, root, path), root, path)
+    }
+    this.checkType(value, schema, path)
+    this.checkConstraints(value, schema, path)
+    switch (schema.type) {
+      case 'object':
+        return this.decodeObject(value as Record<string, unknown>, schema, root, path)
+      case 'array':
+        return (value as unknown[]).map((item, index) =>
+          this.decodeValue(item, schema.items!, root, `${path}[${index}]`)
+        )
+      case 'string':
+        return this.decodeString(value as string, schema, path)
+      default:
+        return value
+    }
+  }
+
+  /**
+   * Validate object properties and decode each of them
+   * Only own schema properties are accepted, so inherited names like __proto__ count as unknown fields
+   * @param value - JSON object
+   * @param schema - Object schema
+   * @param root - Root schema for $ref resolution
+   * @param path - Path of the object
+   * @returns Decoded object
+   */
+  private static decodeObject(
+    value: Record<string, unknown>,
+    schema: JSONSchema,
+    root: JSONSchema,
+    path: string
+  ): Record<string, unknown> {
+    const properties = schema.properties ?? {}
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(value, key)) {
+        throw new ZKPError({
+          code: 'JSON_MISSING_FIELD',
+          message: `Missing required field ${path}.${key}`,
+          path: `${path}.${key}`
+        })
+      }
+    }
+    const decoded: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      const propertySchema = Object.hasOwn(properties, key) ? properties[key] : undefined
+      if (!propertySchema) {
+        if (schema.additionalProperties === false) {
+          throw new ZKPError({
+            code: 'JSON_UNKNOWN_FIELD',
+            message: `Unknown field ${path}.${key}`,
+            path: `${path}.${key}`
+          })
+        }
+        continue
+      }
+      Object.defineProperty(decoded, key, {
+        value: this.decodeValue(item, propertySchema, root, `${path}.${key}`),
+        enumerable: true,
+        writable: true,
+        configurable: true
+      })
+    }
+    return decoded
+  }
+
+  /**
+   * Decode string according to its content encoding or format
+   * @param value - JSON string
+   * @param schema - String schema
+   * @param path - Path of the string
+   * @returns Buffer, bigint or the string itself
+   */
+  private static decodeString(value: string, schema: JSONSchema, path: string): unknown {
+    if (schema.contentEncoding === 'base64url') {
+      const bytes = Buffer.from(value, 'base64url')
+      if (bytes.toString('base64url') !== value) {
+        throw new ZKPError({ code: 'JSON_INVALID_FORMAT', message: `Non-canonical base64url at ${path}`, path })
+      }
+      return bytes
+    }
+    if (schema.format === 'bigint') {
+      return BigInt(value)
+    }
+    return value
+  }
+
+  /**
+   * Check JSON type of a value
+   * @param value - JSON value
+   * @param schema - Schema declaring the type
+   * @param path - Path of the value
+   */
+  private static checkType(value: unknown, schema: JSONSchema, path: string): void {
+    let valid: boolean
+    switch (schema.type) {
+      case 'object':
+        valid = value !== null && typeof value === 'object' && !Array.isArray(value)
+        break
+      case 'array':
+        valid = Array.isArray(value)
+        break
+      case 'integer':
+        valid = Number.isSafeInteger(value)
+        break
+      case 'number':
+        valid = typeof value === 'number' && Number.isFinite(value)
+        break
+      default:
+        valid = schema.type === undefined || typeof value === schema.type
+    }
+    if (!valid) {
+      throw new ZKPError({ code: 'JSON_INVALID_TYPE', message: `Expected ${schema.type} at ${path}`, path })
+    }
+  }
+
+  /**
+   * Check const, enum, minimum and pattern constraints
+   * @param value - JSON value
+   * @param schema - Schema declaring the constraints
+   * @param path - Path of the value
+   */
+  private static checkConstraints(value: unknown, schema: JSONSchema, path: string): void {
+    if (schema.const !== undefined && value !== schema.const) {
+      throw new ZKPError({ code: 'JSON_INVALID_VALUE', message: `Expected ${schema.const} at ${path}`, path })
+    }
+    if (schema.enum && !schema.enum.includes(value as string | number)) {
+      throw new ZKPError({
+        code: 'JSON_INVALID_VALUE',
+        message: `Expected one of ${schema.enum.join(', ')} at ${path}`,
+        path
+      })
+    }
+    if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+      throw new ZKPError({
+        code: 'JSON_INVALID_VALUE',
+        message: `Expected at least ${schema.minimum} at ${path}`,
+        path
+      })
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value as string)) {
+      throw new ZKPError({ code: 'JSON_INVALID_FORMAT', message: `Malformed value at ${path}`, path })
+    }
+  }
+
+  /**
+   * Select oneOf branch using the proof type discriminator
+   * @param value - JSON value
+   * @param branches - Candidate schemas
+   * @param root - Root schema for $ref resolution
+   * @param path - Path of the value
+   * @returns Matching branch
+   */
+  private static selectBranch(value: unknown, branches: JSONSchema[], root: JSONSchema, path: string): JSONSchema {
+    this.checkType(value, { type: 'object' }, path)
+    const { type } = value as { type?: unknown }
+    const branch = branches
+      .map(candidate => this.resolveSchema(candidate, root))
+      .find(candidate => candidate.properties?.type?.const === type)
+    if (!branch) {
+      throw new ZKPError({
+        code: 'JSON_INVALID_VALUE',
+        message: `Unsupported component proof type at ${path}.type: ${String(type)}`,
+        path: `${path}.type`
+      })
+    }
+    return branch
+  }
+
+  /**
+   * Resolve schema that may be a local reference
+   * @param schema - Schema or reference
+   * @param root - Root schema
+   * @returns Resolved schema
+   */
+  private static resolveSchema(schema: JSONSchema, root: JSONSchema): JSONSchema {
+    return schema.$ref ? this.resolveRef(schema.$ref, root) : schema
+  }
+
+  /**
+   * Resolve local $ref of the form #/$defs/name
+   * @param ref - Reference
+   * @param root - Root schema
+   * @returns Referenced schema
+   */
+  private static resolveRef(ref: string, root: JSONSchema): JSONSchema {
+    const name = ref.replace('#/$defs/', '')
+    const schema = root.$defs?.[name]
+    if (!schema) {
+      throw new ZKPError({ code: 'JSON_SCHEMA_ERROR', message: `Unresolvable schema reference: ${ref}` })
+    }
+    return schema
+  }
+}
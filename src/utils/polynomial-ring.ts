@@ -0,0 +1,335 @@
+/**
+ * Negacyclic polynomial ring arithmetic for Quantum-Resistant ZKP library
+ * @author NeaByteLab
+ */
+
+/**
+ * Ring Z_q[x]/(x^n + 1) with n a power of two
+ * Multiplication uses the negacyclic number-theoretic transform when q is a prime with q ≡ 1 (mod 2n)
+ * and falls back to schoolbook multiplication for any other modulus
+ */
+export class PolynomialRing {
+  private static readonly PRIMALITY_WITNESSES = [2n, 3n, 5n, 7n, 11n, 13n, 17n, 19n, 23n, 29n, 31n, 37n]
+  /** Powers of a primitive 2n-th root of unity in bit-reversed order, or null without NTT support */
+  private readonly zetas: bigint[] | null
+  private readonly degreeInverse: bigint
+
+  /**
+   * Create ring
+   * @param degree - Ring degree n (power of two)
+   * @param modulus - Coefficient modulus q (at least 2)
+   */
+  constructor(
+    public readonly degree: number,
+    public readonly modulus: bigint
+  ) {
+    if (!Number.isInteger(degree) || degree < 1 || (degree & (degree - 1)) !== 0) {
+      throw new Error('Ring degree must be a power of 2')
+    }
+    if (modulus < 2n) {
+      throw new Error('Ring modulus must be at least 2')
+    }
+    this.zetas = PolynomialRing.isNTTFriendly(degree, modulus) ? this.computeZetas() : null
+    this.degreeInverse = this.zetas ? PolynomialRing.power(BigInt(degree), modulus - 2n, modulus) : 0n
+  }
+
+  /**
+   * Check whether a modulus supports the negacyclic NTT of a degree
+   * @param degree - Ring degree
+   * @param modulus - Coefficient modulus
+   * @returns True if the modulus is a prime congruent to 1 modulo 2 * degree
+   */
+  public static isNTTFriendly(degree: number, modulus: bigint): boolean {
+    return modulus > 2n && modulus % BigInt(2 * degree) === 1n && this.isPrime(modulus)
+  }
+
+  /**
+   * Check whether multiplication runs through the NTT
+   * @returns True if the ring has NTT support
+   */
+  public supportsNTT(): boolean {
+    return this.zetas !== null
+  }
+
+  /**
+   * Reduce coefficient into [0, q)
+   * @param value - Coefficient
+   * @returns Reduced coefficient
+   */
+  public reduce(value: bigint | number): bigint {
+    const reduced = BigInt(value) % this.modulus
+    return reduced < 0n ? reduced + this.modulus : reduced
+  }
+
+  /**
+   * Map coefficient to its centered representative in (-q/2, q/2]
+   * @param value - Coefficient
+   * @returns Centered coefficient
+   */
+  public center(value: bigint | number): bigint {
+    const reduced = this.reduce(value)
+    return reduced > this.modulus / 2n ? reduced - this.modulus : reduced
+  }
+
+  /**
+   * Create ring element from coefficients, reducing them into [0, q)
+   * @param coefficients - Coefficients of x^0 .. x^(n-1)
+   * @returns Ring element
+   */
+  public fromCoefficients(coefficients: (bigint | number)[]): bigint[] {
+    if (coefficients.length !== this.degree) {
+      throw new Error(`Expected ${this.degree} coefficients, got ${coefficients.length}`)
+    }
+    return coefficients.map(value => this.reduce(value))
+  }
+
+  /**
+   * Create zero element
+   * @returns Ring element with all coefficients zero
+   */
+  public zero(): bigint[] {
+    return new Array<bigint>(this.degree).fill(0n)
+  }
+
+  /**
+   * Add two elements
+   * @param a - First element
+   * @param b - Second element
+   * @returns a + b
+   */
+  public add(a: bigint[], b: bigint[]): bigint[] {
+    this.validateLength(a, b)
+    return a.map((value, index) => this.reduce(value + b[index]))
+  }
+
+  /**
+   * Subtract two elements
+   * @param a - First element
+   * @param b - Second element
+   * @returns a - b
+   */
+  public subtract(a: bigint[], b: bigint[]): bigint[] {
+    this.validateLength(a, b)
+    return a.map((value, index) => this.reduce(value - b[index]))
+  }
+
+  /**
+   * Multiply element by a scalar
+   * @param a - Element
+   * @param scalar - Scalar
+   * @returns scalar * a
+   */
+  public scalarMultiply(a: bigint[], scalar: bigint): bigint[] {
+    this.validateLength(a)
+    return a.map(value => this.reduce(value * scalar))
+  }
+
+  /**
+   * Multiply two elements
+   * @param a - First element
+   * @param b - Second element
+   * @returns a * b mod (x^n + 1)
+   */
+  public multiply(a: bigint[], b: bigint[]): bigint[] {
+    this.validateLength(a, b)
+    if (!this.zetas) {
+      return this.schoolbookMultiply(a, b)
+    }
+    return this.inverseNTT(this.pointwiseMultiply(this.ntt(a), this.ntt(b)))
+  }
+
+  /**
+   * Map coefficients to every coefficient's centered representative
+   * @param a - Element
+   * @returns Centered coefficients
+   */
+  public centerCoefficients(a: bigint[]): bigint[] {
+    return a.map(value => this.center(value))
+  }
+
+  /**
+   * Get infinity norm of the centered coefficients
+   * @param a - Element
+   * @returns Largest absolute centered coefficient
+   */
+  public infinityNorm(a: bigint[]): bigint {
+    return a.reduce((norm, value) => {
+      const centered = this.center(value)
+      const magnitude = centered < 0n ? -centered : centered
+      return magnitude > norm ? magnitude : norm
+    }, 0n)
+  }
+
+  /**
+   * Forward negacyclic NTT (Cooley-Tukey, output in bit-reversed order)
+   * @param a - Element in coefficient form
+   * @returns Element in NTT form
+   */
+  public ntt(a: bigint[]): bigint[] {
+    const zetas = this.requireZetas()
+    this.validateLength(a)
+    const result = a.map(value => this.reduce(value))
+    let k = 0
+    for (let length = this.degree / 2; length >= 1; length /= 2) {
+      for (let start = 0; start < this.degree; start += 2 * length) {
+        const zeta = zetas[++k]
+        for (let j = start; j < start + length; j++) {
+          const t = (zeta * result[j + length]) % this.modulus
+          result[j + length] = this.reduce(result[j] - t)
+          result[j] = this.reduce(result[j] + t)
+        }
+      }
+    }
+    return result
+  }
+
+  /**
+   * Inverse negacyclic NTT (Gentleman-Sande)
+   * @param a - Element in NTT form
+   * @returns Element in coefficient form
+   */
+  public inverseNTT(a: bigint[]): bigint[] {
+    const zetas = this.requireZetas()
+    this.validateLength(a)
+    const result = a.map(value => this.reduce(value))
+    let k = this.degree
+    for (let length = 1; length < this.degree; length *= 2) {
+      for (let start = 0; start < this.degree; start += 2 * length) {
+        const zeta = this.modulus - zetas[--k]
+        for (let j = start; j < start + length; j++) {
+          const t = result[j]
+          result[j] = this.reduce(t + result[j + length])
+          result[j + length] = (zeta * this.reduce(t - result[j + length])) % this.modulus
+        }
+      }
+    }
+    return result.map(value => (value * this.degreeInverse) % this.modulus)
+  }
+
+  /**
+   * Multiply two elements in NTT form
+   * @param a - First element in NTT form
+   * @param b - Second element in NTT form
+   * @returns Coefficient-wise product
+   */
+  public pointwiseMultiply(a: bigint[], b: bigint[]): bigint[] {
+    this.validateLength(a, b)
+    return a.map((value, index) => this.reduce(value * b[index]))
+  }
+
+  /**
+   * Multiply by schoolbook convolution, folding x^n to -1
+   * @param a - First element
+   * @param b - Second element
+   * @returns a * b mod (x^n + 1)
+   */
+  private schoolbookMultiply(a: bigint[], b: bigint[]): bigint[] {
+    const result = new Array<bigint>(this.degree).fill(0n)
+    for (let i = 0; i < this.degree; i++) {
+      if (a[i] === 0n) {
+        continue
+      }
+      for (let j = 0; j < this.degree; j++) {
+        const k = i + j
+        if (k < this.degree) {
+          result[k] += a[i] * b[j]
+        } else {
+          result[k - this.degree] -= a[i] * b[j]
+        }
+      }
+    }
+    return result.map(value => this.reduce(value))
+  }
+
+  /**
+   * Compute powers of a primitive 2n-th root of unity in bit-reversed order
+   * @returns NTT twiddle factors
+   */
+  private computeZetas(): bigint[] {
+    const exponent = (this.modulus - 1n) / BigInt(2 * this.degree)
+    let root = 0n
+    for (let candidate = 2n; root === 0n; candidate++) {
+      const power = PolynomialRing.power(candidate, exponent, this.modulus)
+      if (PolynomialRing.power(power, BigInt(this.degree), this.modulus) === this.modulus - 1n) {
+        root = power
+      }
+    }
+    const bits = Math.log2(this.degree)
+    return Array.from({ length: this.degree }, (_, index) => {
+      const reversed = bits === 0 ? 0 : parseInt(index.toString(2).padStart(bits, '0').split('').reverse().join(''), 2)
+      return PolynomialRing.power(root, BigInt(reversed), this.modulus)
+    })
+  }
+
+  /**
+   * Get twiddle factors, failing for moduli without NTT support
+   * @returns NTT twiddle factors
+   */
+  private requireZetas(): bigint[] {
+    if (!this.zetas) {
+      throw new Error(`Modulus ${this.modulus} does not support the NTT of degree ${this.degree}`)
+    }
+    return this.zetas
+  }
+
+  /**
+   * Validate element lengths against the ring degree
+   * @param elements - Elements to validate
+   */
+  private validateLength(...elements: bigint[][]): void {
+    for (const element of elements) {
+      if (element.length !== this.degree) {
+        throw new Error(`Expected ${this.degree} coefficients, got ${element.length}`)
+      }
+    }
+  }
+
+  /**
+   * Modular exponentiation
+   * @param base - Base
+   * @param exponent - Non-negative exponent
+   * @param modulus - Modulus
+   * @returns base^exponent mod modulus
+   */
+  private static power(base: bigint, exponent: bigint, modulus: bigint): bigint {
+    let result = 1n
+    let factor = base % modulus
+    for (let remaining = exponent; remaining > 0n; remaining >>= 1n) {
+      if (remaining & 1n) {
+        result = (result * factor) % modulus
+      }
+      factor = (factor * factor) % modulus
+    }
+    return result
+  }
+
+  /**
+   * Miller-Rabin test with the first twelve prime bases, deterministic below 3.3 * 10^24
+   * @param n - Odd candidate greater than 2
+   * @returns True if n is (probably) prime
+   */
+  private static isPrime(n: bigint): boolean {
+    let d = n - 1n
+    let r = 0
+    while (d % 2n === 0n) {
+      d /= 2n
+      r++
+    }
+    return this.PRIMALITY_WITNESSES.every(witness => {
+      if (witness % n === 0n) {
+        return true
+      }
+      let x = this.power(witness, d, n)
+      if (x === 1n || x === n - 1n) {
+        return true
+      }
+      for (let i = 1; i < r; i++) {
+        x = (x * x) % n
+        if (x === n - 1n) {
+          return true
+        }
+      }
+      return false
+    })
+  }
+}
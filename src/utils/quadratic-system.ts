@@ -0,0 +1,168 @@
+/**
+ * Quadratic multivariate systems for Quantum-Resistant ZKP library
+ * @author NeaByteLab
+ */
+
+import type { FiniteField } from '@utils/finite-field'
+import { SeededRandom } from '@utils/random'
+import type { QuadraticPolynomial } from '../types'
+
+/**
+ * System of m quadratic polynomials in n variables over a finite field
+ * f_k(x) = sum_{i <= j} q_ij·x_i·x_j + sum_i l_i·x_i + c, so every pair of variables has its own cross term
+ * Evaluation builds the monomial vector once and takes one inner product per equation
+ */
+export class QuadraticSystem {
+  public readonly equations: number
+  /** Quadratic, linear and constant coefficients per equation, aligned with the monomial vector */
+  private readonly rows: number[][]
+  /** Whether inner products fit in a double before a single reduction */
+  private readonly lazyReduction: boolean
+
+  /**
+   * Create system
+   * @param field - Coefficient field
+   * @param variables - Number of variables n
+   * @param polynomials - One quadratic polynomial per equation
+   */
+  constructor(
+    public readonly field: FiniteField,
+    public readonly variables: number,
+    public readonly polynomials: QuadraticPolynomial[]
+  ) {
+    if (!Number.isInteger(variables) || variables < 1 || polynomials.length === 0) {
+      throw new Error('Quadratic system needs at least one variable and one equation')
+    }
+    const terms = QuadraticSystem.getQuadraticTermCount(variables)
+    this.rows = polynomials.map(({ quadratic, linear, constant }) => {
+      if (quadratic.length !== terms || linear.length !== variables) {
+        throw new Error(`Expected ${terms} quadratic and ${variables} linear coefficients per equation`)
+      }
+      const row = [...quadratic, ...linear, constant]
+      if (!row.every(value => field.isElement(value))) {
+        throw new Error('Coefficients must be field elements')
+      }
+      return row
+    })
+    this.equations = polynomials.length
+    const rowLength = terms + variables + 1
+    this.lazyReduction = !field.isBinary() && (field.order - 1) ** 2 * rowLength <= Number.MAX_SAFE_INTEGER
+  }
+
+  /**
+   * Count the quadratic monomials x_i·x_j with i <= j
+   * @param variables - Number of variables
+   * @returns n(n + 1)/2
+   */
+  public static getQuadraticTermCount(variables: number): number {
+    return (variables * (variables + 1)) / 2
+  }
+
+  /**
+   * Expand system deterministically from a seed, so the public system is just the seed
+   * @param field - Coefficient field
+   * @param seed - Seed, normally 32 bytes
+   * @param variables - Number of variables
+   * @param equations - Number of equations
+   * @param constants - Whether to sample constant terms; without them F(0) = 0
+   * @returns System with uniform coefficients, sampled per equation as quadratic, linear, constant
+   */
+  public static fromSeed(
+    field: FiniteField,
+    seed: Buffer,
+    variables: number,
+    equations: number,
+    constants = true
+  ): QuadraticSystem {
+    const random = new SeededRandom(seed)
+    const terms = this.getQuadraticTermCount(variables)
+    const polynomials = Array.from({ length: equations }, () => ({
+      quadratic: field.randomVector(terms, random),
+      linear: field.randomVector(variables, random),
+      constant: constants ? field.randomElement(random) : 0
+    }))
+    return new QuadraticSystem(field, variables, polynomials)
+  }
+
+  /**
+   * Create system from flat coefficients as returned by getCoefficients
+   * @param field - Coefficient field
+   * @param variables - Number of variables
+   * @param coefficients - Quadratic, linear and constant coefficients of each equation in turn
+   * @returns Quadratic system
+   */
+  public static fromCoefficients(field: FiniteField, variables: number, coefficients: number[]): QuadraticSystem {
+    const terms = this.getQuadraticTermCount(variables)
+    const width = terms + variables + 1
+    if (coefficients.length % width !== 0) {
+      throw new Error(`Coefficient count must be a multiple of ${width}`)
+    }
+    const polynomials = Array.from({ length: coefficients.length / width }, (_, k) => {
+      const row = coefficients.slice(k * width, (k + 1) * width)
+      return { quadratic: row.slice(0, terms), linear: row.slice(terms, width - 1), constant: row[width - 1] }
+    })
+    return new QuadraticSystem(field, variables, polynomials)
+  }
+
+  /**
+   * Get all coefficients in a flat array
+   * @returns Quadratic, linear and constant coefficients of each equation in turn
+   */
+  public getCoefficients(): number[] {
+    return this.rows.flat()
+  }
+
+  /**
+   * Evaluate every equation at a point
+   * @param x - Point with one field element per variable
+   * @returns F(x), one field element per equation
+   */
+  public evaluate(x: number[]): number[] {
+    if (x.length !== this.variables) {
+      throw new Error(`Expected ${this.variables} variables, got ${x.length}`)
+    }
+    const monomials = this.monomials(x)
+    if (!this.lazyReduction) {
+      return this.rows.map(row => this.field.dotProduct(row, monomials))
+    }
+    return this.rows.map(row => {
+      let sum = 0
+      for (let k = 0; k < row.length; k++) {
+        sum += row[k] * monomials[k]
+      }
+      return sum % this.field.order
+    })
+  }
+
+  /**
+   * Evaluate the polar form G(x, y) = F(x + y) - F(x) - F(y) + F(0), which is bilinear
+   * @param x - First point
+   * @param y - Second point
+   * @returns G(x, y), one field element per equation
+   */
+  public polarForm(x: number[], y: number[]): number[] {
+    const { field } = this
+    const sum = this.evaluate(field.addVectors(x, y))
+    const difference = field.subtractVectors(field.subtractVectors(sum, this.evaluate(x)), this.evaluate(y))
+    return field.addVectors(
+      difference,
+      this.polynomials.map(polynomial => polynomial.constant)
+    )
+  }
+
+  /**
+   * Build the monomial vector of a point
+   * @param x - Point
+   * @returns x_i·x_j for i <= j in row order, then x_i, then 1
+   */
+  private monomials(x: number[]): number[] {
+    const monomials: number[] = []
+    for (let i = 0; i < x.length; i++) {
+      for (let j = i; j < x.length; j++) {
+        monomials.push(this.field.multiply(x[i], x[j]))
+      }
+    }
+    monomials.push(...x, 1)
+    return monomials
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Random sources for Quantum-Resistant ZKP library
+ * @author NeaByteLab
+ */
+
+import { createCipheriv, createHash, randomBytes } from 'crypto'
+import type { Cipheriv } from 'crypto'
+import type { RandomSource } from '../types'
+
+/**
+ * Random source backed by the operating system CSPRNG
+ */
+export class SystemRandom implements RandomSource {
+  /**
+   * Read random bytes from the system CSPRNG
+   * @param length - Number of bytes to read
+   * @returns Random bytes
+   */
+  public randomBytes(length: number): Buffer {
+    return randomBytes(length)
+  }
+}
+
+/**
+ * Deterministic random bit generator for reproducible proofs and known-answer tests
+ * Output is the ChaCha20 keystream under a key derived from the seed with SHAKE256, so equal seeds give
+ * equal byte streams however the reads are split
+ */
+export class SeededRandom implements RandomSource {
+  private static readonly KEY_LENGTH = 32
+  private static readonly IV_LENGTH = 16
+  private readonly cipher: Cipheriv
+
+  /**
+   * Create generator from seed
+   * @param seed - Seed bytes or UTF-8 string
+   */
+  constructor(seed: Buffer | string) {
+    const seedBuffer = typeof seed === 'string' ? Buffer.from(seed, 'utf8') : seed
+    const key = createHash('shake256', { outputLength: SeededRandom.KEY_LENGTH }).update(seedBuffer).digest()
+    this.cipher = createCipheriv('chacha20', key, Buffer.alloc(SeededRandom.IV_LENGTH))
+  }
+
+  /**
+   * Read the next bytes of the keystream
+   * @param length - Number of bytes to read
+   * @returns Keystream bytes
+   */
+  public randomBytes(length: number): Buffer {
+    return this.cipher.update(Buffer.alloc(length))
+  }
+}
@@ -0,0 +1,325 @@
+/**
+ * Shamir secret sharing for Quantum-Resistant ZKP library
+ * @author NeaByteLab
+ */
+
+import { QuantumCrypto } from '@utils/crypto'
+import { FiniteField } from '@utils/finite-field'
+import type { RandomSource, ThresholdDealing, ThresholdShare } from '../types'
+
+/**
+ * Shamir (t, n) secret sharing over GF(2^8), applied bytewise
+ * Each share is [x, threshold, y_0 .. y_{L-1}] where y_j = f_j(x) for a random polynomial f_j of degree t - 1
+ * Verifiable dealings use hash commitments: the dealer commits to (f(i), r_k(i)) for random blinding
+ * polynomials r_k, derives challenges d_k from the commitments and publishes z_k = r_k - d_k·f
+ */
+export class SecretSharing {
+  private static readonly MAX_PARTIES = 255
+  private static readonly HEADER_LENGTH = 2
+  private static readonly REPETITIONS = 16
+  private static readonly SALT_LENGTH = 32
+  private static readonly FIELD = new FiniteField(256)
+
+  /**
+   * Split secret into shares, any threshold of which reconstruct it
+   * @param secret - Secret to share
+   * @param threshold - Minimum number of shares required for reconstruction
+   * @param parties - Number of shares to create
+   * @param random - Random source for the polynomial coefficients
+   * @returns Array of shares, share i evaluated at x = i + 1
+   */
+  public static split(secret: Buffer, threshold: number, parties: number, random?: RandomSource): Buffer[] {
+    this.validateParameters(secret, threshold, parties)
+    const polynomials = this.samplePolynomials(secret, threshold, random)
+    const shares: Buffer[] = []
+    for (let x = 1; x <= parties; x++) {
+      shares.push(Buffer.concat([Buffer.from([x, threshold]), this.evaluatePolynomials(polynomials, x)]))
+    }
+    return shares
+  }
+
+  /**
+   * Split secret into shares together with hash commitments that let each party check its share
+   * @param secret - Secret to share
+   * @param threshold - Minimum number of shares required for reconstruction
+   * @param parties - Number of shares to create
+   * @param random - Random source for polynomials and salts
+   * @returns Public dealing, and each party's share and opening to be delivered privately in party order
+   */
+  public static deal(
+    secret: Buffer,
+    threshold: number,
+    parties: number,
+    random?: RandomSource
+  ): { dealing: ThresholdDealing; shares: ThresholdShare[] } {
+    this.validateParameters(secret, threshold, parties)
+    const polynomials = this.samplePolynomials(secret, threshold, random)
+    const blinding = Array.from({ length: this.REPETITIONS }, () =>
+      this.samplePolynomials(QuantumCrypto.generateRandomBytes(secret.length, random), threshold, random)
+    )
+    const shares: ThresholdShare[] = []
+    const commitments: Buffer[] = []
+    for (let x = 1; x <= parties; x++) {
+      const share = Buffer.concat([Buffer.from([x, threshold]), this.evaluatePolynomials(polynomials, x)])
+      const opening = QuantumCrypto.generateRandomBytes(this.SALT_LENGTH, random)
+      const evaluations = blinding.map(polynomial => this.evaluatePolynomials(polynomial, x))
+      shares.push({ share, opening })
+      commitments.push(this.commitShare(share, evaluations, opening))
+    }
+    const reconstructionKey = this.commitDealing(threshold, commitments)
+    const challenges = this.deriveChallenges(reconstructionKey)
+    const masked = blinding.map((polynomial, k) =>
+      polynomial.map((coefficients, j) =>
+        coefficients.map((coefficient, c) =>
+          this.FIELD.subtract(coefficient, this.FIELD.multiply(challenges[k], polynomials[j][c]))
+        )
+      )
+    )
+    return {
+      dealing: { threshold, reconstructionKey, commitments, maskedPolynomials: this.packPolynomials(masked) },
+      shares
+    }
+  }
+
+  /**
+   * Check that a share is consistent with the public commitments of a dealing
+   * @param partyShare - Share and opening held by the party
+   * @param index - Party index (1-based)
+   * @param dealing - Public dealing carrying the commitments
+   * @returns True if the share lies on the committed degree threshold - 1 polynomials
+   */
+  public static verifyShare(partyShare: ThresholdShare, index: number, dealing: ThresholdDealing): boolean {
+    const { share, opening } = partyShare
+    const { threshold, commitments, maskedPolynomials, reconstructionKey } = dealing
+    const commitment = commitments[index - 1]
+    const length = share.length - this.HEADER_LENGTH
+    if (
+      !commitment ||
+      opening.length !== this.SALT_LENGTH ||
+      length < 0 ||
+      share[0] !== index ||
+      share[1] !== threshold ||
+      maskedPolynomials.length !== this.REPETITIONS * threshold * length ||
+      !this.commitDealing(threshold, commitments).equals(reconstructionKey)
+    ) {
+      return false
+    }
+    const challenges = this.deriveChallenges(reconstructionKey)
+    const masked = this.unpackPolynomials(maskedPolynomials, threshold, length)
+    const values = share.subarray(this.HEADER_LENGTH)
+    const evaluations = masked.map((polynomial, k) => {
+      const evaluation = this.evaluatePolynomials(polynomial, index)
+      return Buffer.from(
+        evaluation.map((value, j) => this.FIELD.add(value, this.FIELD.multiply(challenges[k], values[j])))
+      )
+    })
+    return this.commitShare(share, evaluations, opening).equals(commitment)
+  }
+
+  /**
+   * Reconstruct secret from at least threshold shares
+   * @param shares - Shares produced by split
+   * @returns Reconstructed secret
+   */
+  public static combine(shares: Buffer[]): Buffer {
+    if (shares.length === 0) {
+      throw new Error('At least one share is required')
+    }
+    const threshold = this.getThreshold(shares[0])
+    const { length } = shares[0]
+    const indices = new Set<number>()
+    for (const share of shares) {
+      if (share.length !== length || this.getThreshold(share) !== threshold) {
+        throw new Error('Shares belong to different sharings')
+      }
+      const index = this.getIndex(share)
+      if (indices.has(index)) {
+        throw new Error(`Duplicate share index: ${index}`)
+      }
+      indices.add(index)
+    }
+    if (shares.length < threshold) {
+      throw new Error(`At least ${threshold} shares are required, got ${shares.length}`)
+    }
+    const selected = shares.slice(0, threshold)
+    const weights = this.lagrangeWeightsAtZero(selected.map(share => share[0]))
+    const secret = Buffer.alloc(length - this.HEADER_LENGTH)
+    for (let j = 0; j < secret.length; j++) {
+      let value = 0
+      for (let i = 0; i < selected.length; i++) {
+        value = this.FIELD.add(value, this.FIELD.multiply(weights[i], selected[i][this.HEADER_LENGTH + j]))
+      }
+      secret[j] = value
+    }
+    return secret
+  }
+
+  /**
+   * Get evaluation point of a share
+   * @param share - Share produced by split
+   * @returns Party index (1-based)
+   */
+  public static getIndex(share: Buffer): number {
+    this.validateShare(share)
+    return share[0]
+  }
+
+  /**
+   * Get reconstruction threshold recorded in a share
+   * @param share - Share produced by split
+   * @returns Threshold
+   */
+  public static getThreshold(share: Buffer): number {
+    this.validateShare(share)
+    return share[1]
+  }
+
+  /**
+   * Sample one random polynomial per byte with the byte as constant term
+   * @param constants - Constant terms
+   * @param threshold - Number of coefficients per polynomial
+   * @param random - Random source
+   * @returns Coefficients per byte, constant term first
+   */
+  private static samplePolynomials(constants: Buffer, threshold: number, random?: RandomSource): number[][] {
+    return [...constants].map(constant => {
+      const coefficients = [constant]
+      if (threshold > 1) {
+        coefficients.push(...QuantumCrypto.generateRandomBytes(threshold - 1, random))
+      }
+      return coefficients
+    })
+  }
+
+  /**
+   * Evaluate bytewise polynomials at x
+   * @param polynomials - Coefficients per byte
+   * @param x - Evaluation point
+   * @returns One evaluated byte per polynomial
+   */
+  private static evaluatePolynomials(polynomials: number[][], x: number): Buffer {
+    return Buffer.from(polynomials.map(coefficients => this.evaluatePolynomial(coefficients, x)))
+  }
+
+  /**
+   * Commit to a share and its blinding evaluations
+   * @param share - Share
+   * @param evaluations - Blinding polynomial evaluations at the share index
+   * @param salt - Per-party salt
+   * @returns Share commitment
+   */
+  private static commitShare(share: Buffer, evaluations: Buffer[], salt: Buffer): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/vss/share', [share, ...evaluations, salt])
+  }
+
+  /**
+   * Commit to all share commitments of a dealing
+   * @param threshold - Reconstruction threshold
+   * @param commitments - Share commitments in party order
+   * @returns Dealing commitment used as reconstruction key
+   */
+  private static commitDealing(threshold: number, commitments: Buffer[]): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/vss/dealing', [Buffer.from([threshold]), ...commitments])
+  }
+
+  /**
+   * Derive one challenge per repetition from the dealing commitment
+   * @param reconstructionKey - Dealing commitment
+   * @returns Challenges in GF(2^8)
+   */
+  private static deriveChallenges(reconstructionKey: Buffer): number[] {
+    return [...QuantumCrypto.expandSeed(reconstructionKey, this.REPETITIONS)]
+  }
+
+  /**
+   * Pack masked polynomials as repetition, coefficient, byte
+   * @param polynomials - Masked coefficients per repetition and byte
+   * @returns Packed coefficients
+   */
+  private static packPolynomials(polynomials: number[][][]): Buffer {
+    const bytes: number[] = []
+    for (const polynomial of polynomials) {
+      const threshold = polynomial[0]?.length ?? 0
+      for (let c = 0; c < threshold; c++) {
+        bytes.push(...polynomial.map(coefficients => coefficients[c]))
+      }
+    }
+    return Buffer.from(bytes)
+  }
+
+  /**
+   * Unpack masked polynomials
+   * @param data - Packed coefficients
+   * @param threshold - Number of coefficients per polynomial
+   * @param length - Secret length in bytes
+   * @returns Masked coefficients per repetition and byte
+   */
+  private static unpackPolynomials(data: Buffer, threshold: number, length: number): number[][][] {
+    return Array.from({ length: this.REPETITIONS }, (_, k) =>
+      Array.from({ length }, (__, j) =>
+        Array.from({ length: threshold }, (___, c) => data[(k * threshold + c) * length + j])
+      )
+    )
+  }
+
+  /**
+   * Validate secret, threshold and party count
+   * @param secret - Secret to share
+   * @param threshold - Minimum number of shares required
+   * @param parties - Number of shares
+   */
+  private static validateParameters(secret: Buffer, threshold: number, parties: number): void {
+    if (secret.length === 0) {
+      throw new Error('Secret must not be empty')
+    }
+    if (!Number.isInteger(parties) || parties < 2 || parties > this.MAX_PARTIES) {
+      throw new Error(`Number of parties must be between 2 and ${this.MAX_PARTIES}`)
+    }
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > parties) {
+      throw new Error('Threshold must be between 1 and the number of parties')
+    }
+  }
+
+  /**
+   * Validate share header
+   * @param share - Share to validate
+   */
+  private static validateShare(share: Buffer): void {
+    if (share.length < this.HEADER_LENGTH || share[0] === 0 || share[1] === 0) {
+      throw new Error('Malformed share')
+    }
+  }
+
+  /**
+   * Evaluate polynomial at x using Horner's rule
+   * @param coefficients - Coefficients, constant term first
+   * @param x - Evaluation point
+   * @returns Polynomial value
+   */
+  private static evaluatePolynomial(coefficients: number[], x: number): number {
+    let result = 0
+    for (let i = coefficients.length - 1; i >= 0; i--) {
+      result = this.FIELD.add(this.FIELD.multiply(result, x), coefficients[i])
+    }
+    return result
+  }
+
+  /**
+   * Compute Lagrange basis values at zero
+   * @param points - Distinct evaluation points
+   * @returns Weights w_i with f(0) = sum w_i * f(x_i)
+   */
+  private static lagrangeWeightsAtZero(points: number[]): number[] {
+    return points.map((xi, i) => {
+      let numerator = 1
+      let denominator = 1
+      points.forEach((xj, j) => {
+        if (i !== j) {
+          numerator = this.FIELD.multiply(numerator, xj)
+          denominator = this.FIELD.multiply(denominator, this.FIELD.subtract(xi, xj))
+        }
+      })
+      return this.FIELD.multiply(numerator, this.FIELD.inverse(denominator))
+    })
+  }
+}
@@ -0,0 +1,1022 @@
+/**
+ * Binary proof serialization for Quantum-Resistant ZKP library
+ * @author NeaByteLab
+ */
+
+import { ZKPError } from '../types'
+import type {
+  AlgorithmType,
+  BaseProof,
+  HashChainOpening,
+  HashProof,
+  HashProofMode,
+  HybridProof,
+  LatticeProof,
+  LatticeProofMode,
+  MembershipProof,
+  MerkleScheme,
+  MultivariateProof,
+  MultivariateProofMode,
+  Proof,
+  ProofParameters,
+  ProofType,
+  ThresholdProof
+} from '../types'
+
+/**
+ * Append-only writer for length-prefixed big-endian fields
+ */
+class BinaryWriter {
+  private readonly chunks: Buffer[] = []
+
+  /**
+   * Write unsigned 8-bit integer
+   * @param value - Value to write
+   */
+  public writeUInt8(value: number): void {
+    const chunk = Buffer.alloc(1)
+    chunk.writeUInt8(value)
+    this.chunks.push(chunk)
+  }
+
+  /**
+   * Write unsigned 32-bit integer
+   * @param value - Value to write
+   */
+  public writeUInt32(value: number): void {
+    const chunk = Buffer.alloc(4)
+    chunk.writeUInt32BE(value)
+    this.chunks.push(chunk)
+  }
+
+  /**
+   * Write 64-bit floating point number
+   * @param value - Value to write
+   */
+  public writeDouble(value: number): void {
+    const chunk = Buffer.alloc(8)
+    chunk.writeDoubleBE(value)
+    this.chunks.push(chunk)
+  }
+
+  /**
+   * Write boolean as a single byte
+   * @param value - Value to write
+   */
+  public writeBoolean(value: boolean): void {
+    this.writeUInt8(value ? 1 : 0)
+  }
+
+  /**
+   * Write length-prefixed bytes
+   * @param value - Bytes to write
+   */
+  public writeBytes(value: Buffer): void {
+    this.writeUInt32(value.length)
+    this.chunks.push(Buffer.from(value))
+  }
+
+  /**
+   * Write length-prefixed UTF-8 string
+   * @param value - String to write
+   */
+  public writeString(value: string): void {
+    this.writeBytes(Buffer.from(value, 'utf8'))
+  }
+
+  /**
+   * Write non-negative big integer as length-prefixed magnitude
+   * @param value - Big integer to write
+   */
+  public writeBigInt(value: bigint): void {
+    if (value < 0n) {
+      throw new ZKPError({ code: 'SERIALIZATION_NEGATIVE_BIGINT', message: 'Cannot serialize negative big integer' })
+    }
+    const hex = value.toString(16)
+    this.writeBytes(value === 0n ? Buffer.alloc(0) : Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex'))
+  }
+
+  /**
+   * Write count-prefixed list of byte strings
+   * @param values - Byte strings to write
+   */
+  public writeBytesList(values: Buffer[]): void {
+    this.writeUInt32(values.length)
+    values.forEach(value => this.writeBytes(value))
+  }
+
+  /**
+   * Concatenate written fields
+   * @returns Serialized bytes
+   */
+  public toBuffer(): Buffer {
+    return Buffer.concat(this.chunks)
+  }
+}
+
+/**
+ * Bounds-checked reader for fields written by BinaryWriter
+ */
+class BinaryReader {
+  private offset = 0
+
+  constructor(private readonly buffer: Buffer) {}
+
+  /**
+   * Read unsigned 8-bit integer
+   * @returns Value read
+   */
+  public readUInt8(): number {
+    this.ensure(1)
+    const value = this.buffer.readUInt8(this.offset)
+    this.offset += 1
+    return value
+  }
+
+  /**
+   * Read unsigned 32-bit integer
+   * @returns Value read
+   */
+  public readUInt32(): number {
+    this.ensure(4)
+    const value = this.buffer.readUInt32BE(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  /**
+   * Read 64-bit floating point number
+   * @returns Value read
+   */
+  public readDouble(): number {
+    this.ensure(8)
+    const value = this.buffer.readDoubleBE(this.offset)
+    this.offset += 8
+    return value
+  }
+
+  /**
+   * Read boolean byte, rejecting values other than 0 and 1
+   * @returns Value read
+   */
+  public readBoolean(): boolean {
+    const value = this.readUInt8()
+    if (value > 1) {
+      throw new ZKPError({ code: 'SERIALIZATION_INVALID_BOOLEAN', message: `Invalid boolean byte: ${value}` })
+    }
+    return value === 1
+  }
+
+  /**
+   * Read length-prefixed bytes
+   * @returns Bytes read
+   */
+  public readBytes(): Buffer {
+    const length = this.readUInt32()
+    this.ensure(length)
+    const value = Buffer.from(this.buffer.subarray(this.offset, this.offset + length))
+    this.offset += length
+    return value
+  }
+
+  /**
+   * Read length-prefixed UTF-8 string
+   * @returns String read
+   */
+  public readString(): string {
+    return this.readBytes().toString('utf8')
+  }
+
+  /**
+   * Read big integer magnitude
+   * @returns Big integer read
+   */
+  public readBigInt(): bigint {
+    const bytes = this.readBytes()
+    return bytes.length === 0 ? 0n : BigInt(`0x${bytes.toString('hex')}`)
+  }
+
+  /**
+   * Read count-prefixed list of byte strings
+   * @returns Byte strings read
+   */
+  public readBytesList(): Buffer[] {
+    const count = this.readCount(4)
+    const values: Buffer[] = []
+    for (let i = 0; i < count; i++) {
+      values.push(this.readBytes())
+    }
+    return values
+  }
+
+  /**
+   * Read list count, rejecting counts that cannot fit in the remaining bytes
+   * @param minimumItemSize - Minimum encoded size of each item
+   * @returns Count read
+   */
+  public readCount(minimumItemSize: number): number {
+    const count = this.readUInt32()
+    if (count * minimumItemSize > this.buffer.length - this.offset) {
+      throw new ZKPError({ code: 'SERIALIZATION_TRUNCATED', message: `List of ${count} items exceeds remaining bytes` })
+    }
+    return count
+  }
+
+  /**
+   * Ensure every byte was consumed
+   */
+  public finish(): void {
+    if (this.offset !== this.buffer.length) {
+      throw new ZKPError({
+        code: 'SERIALIZATION_TRAILING_BYTES',
+        message: `Unexpected ${this.buffer.length - this.offset} trailing bytes after proof`
+      })
+    }
+  }
+
+  /**
+   * Ensure enough bytes remain
+   * @param length - Number of bytes required
+   */
+  private ensure(length: number): void {
+    if (this.offset + length > this.buffer.length) {
+      throw new ZKPError({
+        code: 'SERIALIZATION_TRUNCATED',
+        message: `Unexpected end of data at offset ${this.offset}`
+      })
+    }
+  }
+}
+
+/**
+ * Versioned, length-prefixed binary encoding for every proof variant
+ */
+export class ProofSerializer {
+  private static readonly MAGIC = Buffer.from('QZKP', 'ascii')
+  private static readonly FORMAT_VERSION = 1
+  private static readonly THRESHOLD_KIND = 0x10
+  private static readonly TYPE_CODES: Record<ProofType, number> = {
+    lattice: 1,
+    hash: 2,
+    multivariate: 3,
+    hybrid: 4,
+    membership: 5
+  }
+  private static readonly LATTICE_MODE_CODES: Record<LatticeProofMode, number> = {
+    lwe: 1,
+    sigma: 2
+  }
+  private static readonly HASH_MODE_CODES: Record<HashProofMode, number> = {
+    chain: 1,
+    preimage: 2,
+    compact: 3
+  }
+  private static readonly MULTIVARIATE_MODE_CODES: Record<MultivariateProofMode, number> = {
+    system: 1,
+    mq3: 2,
+    mq5: 3
+  }
+  private static readonly MERKLE_SCHEME_CODES: Record<MerkleScheme, number> = {
+    legacy: 1,
+    rfc6962: 2
+  }
+  private static readonly PARAMETER_TAGS: Record<keyof ProofParameters, number> = {
+    dimension: 1,
+    modulus: 2,
+    chainLength: 3,
+    variables: 4,
+    equations: 5,
+    parties: 6,
+    algorithms: 7,
+    weights: 8,
+    latticeMode: 9,
+    hashMode: 10,
+    repetitions: 11,
+    spotChecks: 12,
+    merkleScheme: 13,
+    multivariateMode: 14
+  }
+
+  /**
+   * Serialize proof to versioned binary layout
+   * @param proof - Proof to serialize
+   * @returns Serialized proof bytes
+   */
+  public static serializeProof(proof: Proof): Uint8Array {
+    const writer = this.writeHeader(this.TYPE_CODES[proof.type])
+    this.writeProof(writer, proof)
+    return writer.toBuffer()
+  }
+
+  /**
+   * Deserialize proof from versioned binary layout
+   * @param bytes - Serialized proof bytes
+   * @returns Deserialized proof
+   */
+  public static deserializeProof(bytes: Uint8Array): Proof {
+    const reader = this.readHeader(bytes)
+    const proof = this.readProof(reader, reader.readUInt8())
+    reader.finish()
+    return proof
+  }
+
+  /**
+   * Serialize threshold proof to versioned binary layout
+   * @param thresholdProof - Threshold proof to serialize
+   * @returns Serialized threshold proof bytes
+   */
+  public static serializeThresholdProof(thresholdProof: ThresholdProof): Uint8Array {
+    const writer = this.writeHeader(this.THRESHOLD_KIND)
+    writer.writeUInt32(thresholdProof.proofs.length)
+    thresholdProof.proofs.forEach(proof => {
+      writer.writeUInt8(this.TYPE_CODES[proof.type])
+      this.writeProof(writer, proof)
+    })
+    writer.writeUInt32(thresholdProof.parties)
+    writer.writeUInt8(this.TYPE_CODES[thresholdProof.algorithm])
+    writer.writeBoolean(thresholdProof.quantumSafe)
+    writer.writeUInt32(thresholdProof.threshold)
+    writer.writeBytes(thresholdProof.reconstructionKey)
+    writer.writeBytesList(thresholdProof.commitments)
+    writer.writeBytes(thresholdProof.maskedPolynomials)
+    return writer.toBuffer()
+  }
+
+  /**
+   * Deserialize threshold proof from versioned binary layout
+   * @param bytes - Serialized threshold proof bytes
+   * @returns Deserialized threshold proof
+   */
+  public static deserializeThresholdProof(bytes: Uint8Array): ThresholdProof {
+    const reader = this.readHeader(bytes)
+    const kind = reader.readUInt8()
+    if (kind !== this.THRESHOLD_KIND) {
+      throw new ZKPError({ code: 'SERIALIZATION_UNKNOWN_KIND', message: `Expected threshold proof, got kind ${kind}` })
+    }
+    const proofCount = reader.readCount(1)
+    const proofs: Proof[] = []
+    for (let i = 0; i < proofCount; i++) {
+      proofs.push(this.readProof(reader, reader.readUInt8()))
+    }
+    const thresholdProof: ThresholdProof = {
+      proofs,
+      parties: reader.readUInt32(),
+      algorithm: this.decodeAlgorithm(reader.readUInt8()),
+      quantumSafe: reader.readBoolean(),
+      threshold: reader.readUInt32(),
+      reconstructionKey: reader.readBytes(),
+      commitments: reader.readBytesList(),
+      maskedPolynomials: reader.readBytes()
+    }
+    reader.finish()
+    return thresholdProof
+  }
+
+  /**
+   * Get binary format version
+   * @returns Format version
+   */
+  public static getFormatVersion(): number {
+    return this.FORMAT_VERSION
+  }
+
+  /**
+   * Start writer with magic, format version and kind
+   * @param kind - Kind byte of the encoded value
+   * @returns Binary writer
+   */
+  private static writeHeader(kind: number): BinaryWriter {
+    const writer = new BinaryWriter()
+    this.MAGIC.forEach(byte => writer.writeUInt8(byte))
+    writer.writeUInt8(this.FORMAT_VERSION)
+    writer.writeUInt8(kind)
+    return writer
+  }
+
+  /**
+   * Validate magic and format version
+   * @param bytes - Serialized bytes
+   * @returns Reader positioned at the kind byte
+   */
+  private static readHeader(bytes: Uint8Array): BinaryReader {
+    const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    if (buffer.length < this.MAGIC.length + 2 || !buffer.subarray(0, this.MAGIC.length).equals(this.MAGIC)) {
+      throw new ZKPError({ code: 'SERIALIZATION_INVALID_MAGIC', message: 'Data is not a serialized proof' })
+    }
+    const version = buffer[this.MAGIC.length]
+    if (version !== this.FORMAT_VERSION) {
+      throw new ZKPError({
+        code: 'SERIALIZATION_UNSUPPORTED_VERSION',
+        message: `Unsupported proof format version: ${version}`,
+        suggestion: `Re-encode the proof with format version ${this.FORMAT_VERSION}`
+      })
+    }
+    return new BinaryReader(buffer.subarray(this.MAGIC.length + 1))
+  }
+
+  /**
+   * Write proof body without header
+   * @param writer - Binary writer
+   * @param proof - Proof to write
+   */
+  private static writeProof(writer: BinaryWriter, proof: Proof): void {
+    this.writeBaseProof(writer, proof)
+    switch (proof.type) {
+      case 'lattice':
+        this.writeLatticeFields(writer, proof)
+        break
+      case 'hash':
+        this.writeHashFields(writer, proof)
+        break
+      case 'multivariate':
+        this.writeMultivariateFields(writer, proof)
+        break
+      case 'hybrid':
+        this.writeHybridFields(writer, proof)
+        break
+      case 'membership':
+        writer.writeBytes(proof.root)
+        writer.writeUInt32(proof.treeSize)
+        break
+      default:
+        throw new ZKPError({
+          code: 'SERIALIZATION_UNKNOWN_TYPE',
+          message: `Unknown proof type: ${(proof as Proof).type}`
+        })
+    }
+  }
+
+  /**
+   * Read proof body without header
+   * @param reader - Binary reader
+   * @param typeCode - Proof type code
+   * @returns Proof read
+   */
+  private static readProof(reader: BinaryReader, typeCode: number): Proof {
+    const type = this.decodeProofType(typeCode)
+    const base = this.readBaseProof(reader)
+    switch (type) {
+      case 'lattice':
+        return this.readLatticeFields(reader, base)
+      case 'hash':
+        return this.readHashFields(reader, base)
+      case 'multivariate':
+        return this.readMultivariateFields(reader, base)
+      case 'membership':
+        return this.readMembershipFields(reader, base)
+      default:
+        return this.readHybridFields(reader, base)
+    }
+  }
+
+  /**
+   * Write fields shared by every proof type
+   * @param writer - Binary writer
+   * @param proof - Proof to write
+   */
+  private static writeBaseProof(writer: BinaryWriter, proof: BaseProof): void {
+    writer.writeBytes(proof.commitment)
+    writer.writeBytes(proof.challenge)
+    writer.writeBytes(proof.response)
+    this.writeParameters(writer, proof.parameters)
+    writer.writeBoolean(proof.quantumSafe)
+    writer.writeDouble(proof.timestamp)
+    writer.writeString(proof.version)
+    this.writeOptionalBytes(writer, proof.statementDigest)
+  }
+
+  /**
+   * Read fields shared by every proof type
+   * @param reader - Binary reader
+   * @returns Base proof fields without type
+   */
+  private static readBaseProof(reader: BinaryReader): Omit<BaseProof, 'type'> {
+    const base: Omit<BaseProof, 'type'> = {
+      commitment: reader.readBytes(),
+      challenge: reader.readBytes(),
+      response: reader.readBytes(),
+      parameters: this.readParameters(reader),
+      quantumSafe: reader.readBoolean(),
+      timestamp: reader.readDouble(),
+      version: reader.readString()
+    }
+    const statementDigest = this.readOptionalBytes(reader)
+    if (statementDigest) {
+      base.statementDigest = statementDigest
+    }
+    return base
+  }
+
+  /**
+   * Write lattice-specific fields
+   * @param writer - Binary writer
+   * @param proof - Lattice proof
+   */
+  private static writeLatticeFields(writer: BinaryWriter, proof: LatticeProof): void {
+    writer.writeUInt32(proof.dimension)
+    writer.writeBigInt(proof.modulus)
+    writer.writeBytes(proof.polynomialCommitment)
+    writer.writeUInt8(proof.mode ? this.LATTICE_MODE_CODES[proof.mode] : 0)
+    this.writeOptionalBytes(writer, proof.seed)
+    this.writeOptionalBytes(writer, proof.publicKey)
+  }
+
+  /**
+   * Read lattice-specific fields
+   * @param reader - Binary reader
+   * @param base - Base proof fields
+   * @returns Lattice proof
+   */
+  private static readLatticeFields(reader: BinaryReader, base: Omit<BaseProof, 'type'>): LatticeProof {
+    const proof: LatticeProof = {
+      ...base,
+      type: 'lattice',
+      dimension: reader.readUInt32(),
+      modulus: reader.readBigInt(),
+      polynomialCommitment: reader.readBytes()
+    }
+    const modeCode = reader.readUInt8()
+    if (modeCode !== 0) {
+      proof.mode = this.decodeLatticeMode(modeCode)
+    }
+    const seed = this.readOptionalBytes(reader)
+    if (seed) {
+      proof.seed = seed
+    }
+    const publicKey = this.readOptionalBytes(reader)
+    if (publicKey) {
+      proof.publicKey = publicKey
+    }
+    return proof
+  }
+
+  /**
+   * Write hash-specific fields
+   * @param writer - Binary writer
+   * @param proof - Hash proof
+   */
+  private static writeHashFields(writer: BinaryWriter, proof: HashProof): void {
+    writer.writeUInt32(proof.chainLength)
+    writer.writeBytesList(proof.hashChain)
+    writer.writeBytes(proof.commitmentChain)
+    writer.writeBoolean(proof.merkleTree !== undefined)
+    if (proof.merkleTree) {
+      writer.writeUInt32(proof.merkleTree.length)
+      proof.merkleTree.forEach(level => writer.writeBytesList(level))
+    }
+    writer.writeBoolean(proof.merkleProof !== undefined)
+    if (proof.merkleProof) {
+      writer.writeBytesList(proof.merkleProof)
+    }
+    writer.writeUInt8(proof.mode ? this.HASH_MODE_CODES[proof.mode] : 0)
+    this.writeOptionalBytes(writer, proof.image)
+    writer.writeBoolean(proof.openings !== undefined)
+    if (proof.openings) {
+      writer.writeUInt32(proof.openings.length)
+      proof.openings.forEach(opening => {
+        writer.writeUInt32(opening.index)
+        writer.writeBytes(opening.value)
+        writer.writeBytesList(opening.path)
+      })
+    }
+  }
+
+  /**
+   * Read hash-specific fields
+   * @param reader - Binary reader
+   * @param base - Base proof fields
+   * @returns Hash proof
+   */
+  private static readHashFields(reader: BinaryReader, base: Omit<BaseProof, 'type'>): HashProof {
+    const proof: HashProof = {
+      ...base,
+      type: 'hash',
+      chainLength: reader.readUInt32(),
+      hashChain: reader.readBytesList(),
+      commitmentChain: reader.readBytes()
+    }
+    if (reader.readBoolean()) {
+      const levels = reader.readCount(4)
+      const merkleTree: Buffer[][] = []
+      for (let i = 0; i < levels; i++) {
+        merkleTree.push(reader.readBytesList())
+      }
+      proof.merkleTree = merkleTree
+    }
+    if (reader.readBoolean()) {
+      proof.merkleProof = reader.readBytesList()
+    }
+    const modeCode = reader.readUInt8()
+    if (modeCode !== 0) {
+      proof.mode = this.decodeHashMode(modeCode)
+    }
+    const image = this.readOptionalBytes(reader)
+    if (image) {
+      proof.image = image
+    }
+    if (reader.readBoolean()) {
+      proof.openings = this.readHashOpenings(reader)
+    }
+    return proof
+  }
+
+  /**
+   * Read Merkle-authenticated hash chain openings
+   * @param reader - Binary reader
+   * @returns Hash chain openings
+   */
+  private static readHashOpenings(reader: BinaryReader): HashChainOpening[] {
+    const count = reader.readCount(12)
+    const openings: HashChainOpening[] = []
+    for (let i = 0; i < count; i++) {
+      openings.push({ index: reader.readUInt32(), value: reader.readBytes(), path: reader.readBytesList() })
+    }
+    return openings
+  }
+
+  /**
+   * Write multivariate-specific fields
+   * @param writer - Binary writer
+   * @param proof - Multivariate proof
+   */
+  private static writeMultivariateFields(writer: BinaryWriter, proof: MultivariateProof): void {
+    writer.writeUInt32(proof.variables)
+    writer.writeUInt32(proof.equations)
+    writer.writeBytes(proof.polynomialSystem)
+    writer.writeBytes(proof.solution)
+    writer.writeUInt8(proof.mode ? this.MULTIVARIATE_MODE_CODES[proof.mode] : 0)
+    this.writeOptionalBytes(writer, proof.seed)
+    this.writeOptionalBytes(writer, proof.publicKey)
+  }
+
+  /**
+   * Read multivariate-specific fields
+   * @param reader - Binary reader
+   * @param base - Base proof fields
+   * @returns Multivariate proof
+   */
+  private static readMultivariateFields(reader: BinaryReader, base: Omit<BaseProof, 'type'>): MultivariateProof {
+    const proof: MultivariateProof = {
+      ...base,
+      type: 'multivariate',
+      variables: reader.readUInt32(),
+      equations: reader.readUInt32(),
+      polynomialSystem: reader.readBytes(),
+      solution: reader.readBytes()
+    }
+    const modeCode = reader.readUInt8()
+    if (modeCode !== 0) {
+      proof.mode = this.decodeMultivariateMode(modeCode)
+    }
+    const seed = this.readOptionalBytes(reader)
+    if (seed) {
+      proof.seed = seed
+    }
+    const publicKey = this.readOptionalBytes(reader)
+    if (publicKey) {
+      proof.publicKey = publicKey
+    }
+    return proof
+  }
+
+  /**
+   * Read membership-specific fields
+   * @param reader - Binary reader
+   * @param base - Base proof fields
+   * @returns Membership proof
+   */
+  private static readMembershipFields(reader: BinaryReader, base: Omit<BaseProof, 'type'>): MembershipProof {
+    return { ...base, type: 'membership', root: reader.readBytes(), treeSize: reader.readUInt32() }
+  }
+
+  /**
+   * Write hybrid-specific fields
+   * @param writer - Binary writer
+   * @param proof - Hybrid proof
+   */
+  private static writeHybridFields(writer: BinaryWriter, proof: HybridProof): void {
+    writer.writeUInt32(proof.proofs.length)
+    proof.proofs.forEach(component => {
+      writer.writeUInt8(this.TYPE_CODES[component.type])
+      this.writeProof(writer, component)
+    })
+    writer.writeBytes(proof.combined)
+    this.writeWeights(writer, proof.algorithmWeights)
+  }
+
+  /**
+   * Read hybrid-specific fields
+   * Component type codes are checked before a component is read, so nested hybrids never recurse
+   * @param reader - Binary reader
+   * @param base - Base proof fields
+   * @returns Hybrid proof
+   */
+  private static readHybridFields(reader: BinaryReader, base: Omit<BaseProof, 'type'>): HybridProof {
+    const count = reader.readCount(1)
+    const proofs: HybridProof['proofs'] = []
+    for (let i = 0; i < count; i++) {
+      const typeCode = reader.readUInt8()
+      const type = this.decodeProofType(typeCode)
+      if (type === 'hybrid') {
+        throw new ZKPError({
+          code: 'SERIALIZATION_NESTED_HYBRID',
+          message: 'Hybrid proofs cannot contain hybrid components',
+          algorithm: 'hybrid'
+        })
+      }
+      if (type === 'membership') {
+        throw new ZKPError({
+          code: 'SERIALIZATION_UNKNOWN_TYPE',
+          message: 'Hybrid proofs cannot contain membership components',
+          algorithm: 'hybrid'
+        })
+      }
+      proofs.push(this.readProof(reader, typeCode) as HybridProof['proofs'][number])
+    }
+    return {
+      ...base,
+      type: 'hybrid',
+      proofs,
+      combined: reader.readBytes(),
+      algorithmWeights: this.readWeights(reader)
+    }
+  }
+
+  /**
+   * Write proof parameters as tagged entries
+   * @param writer - Binary writer
+   * @param parameters - Proof parameters
+   */
+  private static writeParameters(writer: BinaryWriter, parameters: ProofParameters): void {
+    const keys = (Object.keys(this.PARAMETER_TAGS) as (keyof ProofParameters)[]).filter(
+      key => parameters[key] !== undefined
+    )
+    writer.writeUInt8(keys.length)
+    for (const key of keys) {
+      writer.writeUInt8(this.PARAMETER_TAGS[key])
+      this.writeParameter(writer, key, parameters)
+    }
+  }
+
+  /**
+   * Write value of a single proof parameter
+   * @param writer - Binary writer
+   * @param key - Parameter name
+   * @param parameters - Proof parameters
+   */
+  private static writeParameter(writer: BinaryWriter, key: keyof ProofParameters, parameters: ProofParameters): void {
+    switch (key) {
+      case 'modulus':
+        writer.writeBigInt(parameters.modulus!)
+        break
+      case 'algorithms':
+        this.writeAlgorithms(writer, parameters.algorithms!)
+        break
+      case 'weights':
+        this.writeWeights(writer, parameters.weights!)
+        break
+      case 'latticeMode':
+        writer.writeUInt8(this.LATTICE_MODE_CODES[parameters.latticeMode!])
+        break
+      case 'hashMode':
+        writer.writeUInt8(this.HASH_MODE_CODES[parameters.hashMode!])
+        break
+      case 'multivariateMode':
+        writer.writeUInt8(this.MULTIVARIATE_MODE_CODES[parameters.multivariateMode!])
+        break
+      case 'merkleScheme':
+        writer.writeUInt8(this.MERKLE_SCHEME_CODES[parameters.merkleScheme!])
+        break
+      default:
+        writer.writeUInt32(parameters[key]!)
+    }
+  }
+
+  /**
+   * Read tagged proof parameters
+   * @param reader - Binary reader
+   * @returns Proof parameters
+   */
+  private static readParameters(reader: BinaryReader): ProofParameters {
+    const tags = this.PARAMETER_TAGS
+    const parameters: ProofParameters = {}
+    const count = reader.readUInt8()
+    for (let i = 0; i < count; i++) {
+      const tag = reader.readUInt8()
+      switch (tag) {
+        case tags.dimension:
+          parameters.dimension = reader.readUInt32()
+          break
+        case tags.modulus:
+          parameters.modulus = reader.readBigInt()
+          break
+        case tags.chainLength:
+          parameters.chainLength = reader.readUInt32()
+          break
+        case tags.variables:
+          parameters.variables = reader.readUInt32()
+          break
+        case tags.equations:
+          parameters.equations = reader.readUInt32()
+          break
+        case tags.parties:
+          parameters.parties = reader.readUInt32()
+          break
+        case tags.algorithms:
+          parameters.algorithms = this.readAlgorithms(reader)
+          break
+        case tags.weights:
+          parameters.weights = this.readWeights(reader)
+          break
+        case tags.latticeMode:
+          parameters.latticeMode = this.decodeLatticeMode(reader.readUInt8())
+          break
+        case tags.hashMode:
+          parameters.hashMode = this.decodeHashMode(reader.readUInt8())
+          break
+        case tags.multivariateMode:
+          parameters.multivariateMode = this.decodeMultivariateMode(reader.readUInt8())
+          break
+        case tags.repetitions:
+          parameters.repetitions = reader.readUInt32()
+          break
+        case tags.spotChecks:
+          parameters.spotChecks = reader.readUInt32()
+          break
+        case tags.merkleScheme:
+          parameters.merkleScheme = this.decodeMerkleScheme(reader.readUInt8())
+          break
+        default:
+          throw new ZKPError({ code: 'SERIALIZATION_UNKNOWN_PARAMETER', message: `Unknown parameter tag: ${tag}` })
+      }
+    }
+    return parameters
+  }
+
+  /**
+   * Write list of algorithm codes
+   * @param writer - Binary writer
+   * @param algorithms - Algorithms to write
+   */
+  private static writeAlgorithms(writer: BinaryWriter, algorithms: AlgorithmType[]): void {
+    writer.writeUInt32(algorithms.length)
+    algorithms.forEach(algorithm => writer.writeUInt8(this.TYPE_CODES[algorithm]))
+  }
+
+  /**
+   * Read list of algorithm codes
+   * @param reader - Binary reader
+   * @returns Algorithms read
+   */
+  private static readAlgorithms(reader: BinaryReader): AlgorithmType[] {
+    const count = reader.readCount(1)
+    const algorithms: AlgorithmType[] = []
+    for (let i = 0; i < count; i++) {
+      algorithms.push(this.decodeAlgorithm(reader.readUInt8()))
+    }
+    return algorithms
+  }
+
+  /**
+   * Write algorithm weights in fixed algorithm order
+   * @param writer - Binary writer
+   * @param weights - Algorithm weights
+   */
+  private static writeWeights(writer: BinaryWriter, weights: Record<AlgorithmType, number>): void {
+    const entries = Object.entries(weights) as [AlgorithmType, number][]
+    writer.writeUInt32(entries.length)
+    for (const [algorithm, weight] of entries) {
+      writer.writeUInt8(this.TYPE_CODES[algorithm])
+      writer.writeDouble(weight)
+    }
+  }
+
+  /**
+   * Read algorithm weights
+   * @param reader - Binary reader
+   * @returns Algorithm weights
+   */
+  private static readWeights(reader: BinaryReader): Record<AlgorithmType, number> {
+    const count = reader.readCount(9)
+    const weights = {} as Record<AlgorithmType, number>
+    for (let i = 0; i < count; i++) {
+      weights[this.decodeAlgorithm(reader.readUInt8())] = reader.readDouble()
+    }
+    return weights
+  }
+
+  /**
+   * Decode proof type code
+   * @param code - Type code
+   * @returns Proof type
+   */
+  private static decodeProofType(code: number): ProofType {
+    const entry = Object.entries(this.TYPE_CODES).find(([, value]) => value === code)
+    if (!entry) {
+      throw new ZKPError({ code: 'SERIALIZATION_UNKNOWN_TYPE', message: `Unknown proof type code: ${code}` })
+    }
+    return entry[0] as ProofType
+  }
+
+  /**
+   * Decode type code of a proof algorithm
+   * @param code - Type code
+   * @returns Algorithm type
+   */
+  private static decodeAlgorithm(code: number): AlgorithmType {
+    const type = this.decodeProofType(code)
+    if (type === 'membership') {
+      throw new ZKPError({ code: 'SERIALIZATION_UNKNOWN_TYPE', message: `Type code ${code} is not an algorithm` })
+    }
+    return type
+  }
+
+  /**
+   * Decode lattice proof mode code
+   * @param code - Mode code
+   * @returns Lattice proof mode
+   */
+  private static decodeLatticeMode(code: number): LatticeProofMode {
+    const entry = Object.entries(this.LATTICE_MODE_CODES).find(([, value]) => value === code)
+    if (!entry) {
+      throw new ZKPError({
+        code: 'SERIALIZATION_UNKNOWN_MODE',
+        message: `Unknown lattice mode code: ${code}`,
+        algorithm: 'lattice'
+      })
+    }
+    return entry[0] as LatticeProofMode
+  }
+
+  /**
+   * Decode hash proof mode code
+   * @param code - Mode code
+   * @returns Hash proof mode
+   */
+  private static decodeHashMode(code: number): HashProofMode {
+    const entry = Object.entries(this.HASH_MODE_CODES).find(([, value]) => value === code)
+    if (!entry) {
+      throw new ZKPError({
+        code: 'SERIALIZATION_UNKNOWN_MODE',
+        message: `Unknown hash mode code: ${code}`,
+        algorithm: 'hash'
+      })
+    }
+    return entry[0] as HashProofMode
+  }
+
+  /**
+   * Decode multivariate proof mode code
+   * @param code - Mode code
+   * @returns Multivariate proof mode
+   */
+  private static decodeMultivariateMode(code: number): MultivariateProofMode {
+    const entry = Object.entries(this.MULTIVARIATE_MODE_CODES).find(([, value]) => value === code)
+    if (!entry) {
+      throw new ZKPError({
+        code: 'SERIALIZATION_UNKNOWN_MODE',
+        message: `Unknown multivariate mode code: ${code}`,
+        algorithm: 'multivariate'
+      })
+    }
+    return entry[0] as MultivariateProofMode
+  }
+
+  /**
+   * Decode Merkle scheme code
+   * @param code - Scheme code
+   * @returns Merkle scheme
+   */
+  private static decodeMerkleScheme(code: number): MerkleScheme {
+    const entry = Object.entries(this.MERKLE_SCHEME_CODES).find(([, value]) => value === code)
+    if (!entry) {
+      throw new ZKPError({
+        code: 'SERIALIZATION_UNKNOWN_MODE',
+        message: `Unknown Merkle scheme code: ${code}`,
+        algorithm: 'hash'
+      })
+    }
+    return entry[0] as MerkleScheme
+  }
+
+  /**
+   * Write optional bytes with a presence flag
+   * @param writer - Binary writer
+   * @param value - Optional bytes
+   */
+  private static writeOptionalBytes(writer: BinaryWriter, value: Buffer | undefined): void {
+    writer.writeBoolean(value !== undefined)
+    if (value !== undefined) {
+      writer.writeBytes(value)
+    }
+  }
+
+  /**
+   * Read optional bytes with a presence flag
+   * @param reader - Binary reader
+   * @returns Bytes read, if present
+   */
+  private static readOptionalBytes(reader: BinaryReader): Buffer | undefined {
+    return reader.readBoolean() ? reader.readBytes() : undefined
+  }
+}
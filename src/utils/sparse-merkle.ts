@@ -0,0 +1,339 @@
+/**
+ * Sparse Merkle tree for Quantum-Resistant ZKP library
+ * @author NeaByteLab
+ */
+
+import { QuantumCrypto } from '@utils/crypto'
+import { ZKPError } from '../types'
+import type { SparseMerkleProof } from '../types'
+
+/**
+ * Sparse Merkle tree of depth 256 keyed by 32-byte hashes
+ * Every key owns one leaf; absent keys hold the empty leaf, so a path to an empty leaf proves non-membership.
+ * Only nodes differing from the cached default of their height are stored
+ */
+export class SparseMerkleTree {
+  public static readonly DEPTH = 256
+  public static readonly KEY_LENGTH = 32
+  private static readonly LEAF_PREFIX = Buffer.from([0x00])
+  private static readonly NODE_PREFIX = Buffer.from([0x01])
+  private static readonly DEFAULT_NODES = SparseMerkleTree.computeDefaultNodes()
+  private readonly nodes = new Map<string, Buffer>()
+  private readonly values = new Map<string, Buffer>()
+
+  /**
+   * Derive tree key from arbitrary data
+   * @param data - Data to key
+   * @returns 32-byte key
+   */
+  public static hashKey(data: Buffer | string): Buffer {
+    return QuantumCrypto.hash(data, 'sha256')
+  }
+
+  /**
+   * Get root of the tree
+   * @returns Root hash
+   */
+  public getRoot(): Buffer {
+    return this.getNode(SparseMerkleTree.DEPTH, Buffer.alloc(SparseMerkleTree.KEY_LENGTH))
+  }
+
+  /**
+   * Get number of keys in the tree
+   * @returns Key count
+   */
+  public getSize(): number {
+    return this.values.size
+  }
+
+  /**
+   * Get value stored under a key
+   * @param key - 32-byte key
+   * @returns Value, or undefined if the key is absent
+   */
+  public get(key: Buffer): Buffer | undefined {
+    return this.values.get(SparseMerkleTree.validateKey(key).toString('hex'))
+  }
+
+  /**
+   * Check whether a key is present
+   * @param key - 32-byte key
+   * @returns True if the key is present
+   */
+  public has(key: Buffer): boolean {
+    return this.get(key) !== undefined
+  }
+
+  /**
+   * Insert a new key
+   * @param key - 32-byte key
+   * @param value - Value to store
+   */
+  public insert(key: Buffer, value: Buffer): void {
+    if (this.has(key)) {
+      throw new Error('Key is already present')
+    }
+    this.write(key, value)
+  }
+
+  /**
+   * Update value of an existing key
+   * @param key - 32-byte key
+   * @param value - New value
+   */
+  public update(key: Buffer, value: Buffer): void {
+    if (!this.has(key)) {
+      throw new Error('Key is not present')
+    }
+    this.write(key, value)
+  }
+
+  /**
+   * Delete a key, restoring the empty leaf
+   * @param key - 32-byte key
+   * @returns True if the key was present
+   */
+  public delete(key: Buffer): boolean {
+    if (!this.has(key)) {
+      return false
+    }
+    this.values.delete(key.toString('hex'))
+    this.writePath(key, SparseMerkleTree.DEFAULT_NODES[0])
+    return true
+  }
+
+  /**
+   * Create inclusion proof for a present key or non-inclusion proof for an absent key
+   * @param key - 32-byte key
+   * @returns Proof holding the value for present keys
+   */
+  public prove(key: Buffer): SparseMerkleProof {
+    const value = this.get(key)
+    const siblings: Buffer[] = []
+    for (let height = 0; height < SparseMerkleTree.DEPTH; height++) {
+      siblings.push(this.getNode(height, SparseMerkleTree.flipBit(key, height)))
+    }
+    return value === undefined ? { key: Buffer.from(key), siblings } : { key: Buffer.from(key), value, siblings }
+  }
+
+  /**
+   * Verify inclusion or non-inclusion proof against a root
+   * @param proof - Proof; a value proves inclusion, no value proves non-inclusion
+   * @param root - Expected root
+   * @returns True if proof is valid
+   */
+  public static verifyProof(proof: SparseMerkleProof, root: Buffer): boolean {
+    const { key, value, siblings } = proof
+    if (
+      key.length !== this.KEY_LENGTH ||
+      siblings.length !== this.DEPTH ||
+      siblings.some(sibling => sibling.length !== this.KEY_LENGTH)
+    ) {
+      return false
+    }
+    let current = value === undefined ? this.DEFAULT_NODES[0] : this.hashLeaf(key, value)
+    siblings.forEach((sibling, height) => {
+      current = this.getBit(key, height) ? this.hashNode(sibling, current) : this.hashNode(current, sibling)
+    })
+    return current.equals(root)
+  }
+
+  /**
+   * Encode proof, replacing default siblings by a 256-bit presence bitmap
+   * @param proof - Proof to encode
+   * @returns Compressed proof
+   */
+  public static compressProof(proof: SparseMerkleProof): Buffer {
+    const bitmap = Buffer.alloc(this.DEPTH / 8)
+    const present: Buffer[] = []
+    proof.siblings.forEach((sibling, height) => {
+      if (!sibling.equals(this.DEFAULT_NODES[height])) {
+        bitmap[height >> 3] |= 0x80 >> (height & 7)
+        present.push(sibling)
+      }
+    })
+    const header = Buffer.alloc(5)
+    header.writeUInt8(proof.value === undefined ? 0 : 1)
+    header.writeUInt32BE(proof.value?.length ?? 0, 1)
+    return Buffer.concat([proof.key, header, proof.value ?? Buffer.alloc(0), bitmap, ...present])
+  }
+
+  /**
+   * Decode compressed proof
+   * @param data - Compressed proof
+   * @returns Proof
+   */
+  public static decompressProof(data: Buffer): SparseMerkleProof {
+    const bitmapLength = this.DEPTH / 8
+    if (data.length < this.KEY_LENGTH + 5 + bitmapLength || data[this.KEY_LENGTH] > 1) {
+      throw this.decodingError('Malformed sparse Merkle proof header')
+    }
+    const key = Buffer.from(data.subarray(0, this.KEY_LENGTH))
+    const hasValue = data[this.KEY_LENGTH] === 1
+    const valueLength = data.readUInt32BE(this.KEY_LENGTH + 1)
+    let offset = this.KEY_LENGTH + 5
+    if ((!hasValue && valueLength !== 0) || offset + valueLength + bitmapLength > data.length) {
+      throw this.decodingError('Malformed sparse Merkle proof value')
+    }
+    const value = Buffer.from(data.subarray(offset, offset + valueLength))
+    offset += valueLength
+    const bitmap = data.subarray(offset, offset + bitmapLength)
+    offset += bitmapLength
+    const siblings: Buffer[] = []
+    for (let height = 0; height < this.DEPTH; height++) {
+      if (bitmap[height >> 3] & (0x80 >> (height & 7))) {
+        siblings.push(Buffer.from(data.subarray(offset, offset + this.KEY_LENGTH)))
+        offset += this.KEY_LENGTH
+      } else {
+        siblings.push(this.DEFAULT_NODES[height])
+      }
+    }
+    if (offset !== data.length) {
+      throw this.decodingError('Sparse Merkle proof length does not match its bitmap')
+    }
+    return hasValue ? { key, value, siblings } : { key, siblings }
+  }
+
+  /**
+   * Store value and update the path to the root
+   * @param key - 32-byte key
+   * @param value - Value to store
+   */
+  private write(key: Buffer, value: Buffer): void {
+    this.values.set(key.toString('hex'), Buffer.from(value))
+    this.writePath(key, SparseMerkleTree.hashLeaf(key, value))
+  }
+
+  /**
+   * Recompute nodes on the path from a leaf to the root
+   * @param key - 32-byte key
+   * @param leaf - New leaf hash
+   */
+  private writePath(key: Buffer, leaf: Buffer): void {
+    let current = leaf
+    this.setNode(0, key, current)
+    for (let height = 0; height < SparseMerkleTree.DEPTH; height++) {
+      const sibling = this.getNode(height, SparseMerkleTree.flipBit(key, height))
+      current = SparseMerkleTree.getBit(key, height)
+        ? SparseMerkleTree.hashNode(sibling, current)
+        : SparseMerkleTree.hashNode(current, sibling)
+      this.setNode(height + 1, key, current)
+    }
+  }
+
+  /**
+   * Get node covering a key at a height, falling back to the default node
+   * @param height - Node height (0 for leaves)
+   * @param key - Any key below the node
+   * @returns Node hash
+   */
+  private getNode(height: number, key: Buffer): Buffer {
+    return this.nodes.get(SparseMerkleTree.getNodeId(height, key)) ?? SparseMerkleTree.DEFAULT_NODES[height]
+  }
+
+  /**
+   * Store node, dropping it when it equals the default node
+   * @param height - Node height
+   * @param key - Any key below the node
+   * @param node - Node hash
+   */
+  private setNode(height: number, key: Buffer, node: Buffer): void {
+    const id = SparseMerkleTree.getNodeId(height, key)
+    if (node.equals(SparseMerkleTree.DEFAULT_NODES[height])) {
+      this.nodes.delete(id)
+    } else {
+      this.nodes.set(id, node)
+    }
+  }
+
+  /**
+   * Compute default node of every height, starting from the empty leaf
+   * @returns Default nodes indexed by height
+   */
+  private static computeDefaultNodes(): Buffer[] {
+    const defaults: Buffer[] = [Buffer.alloc(SparseMerkleTree.KEY_LENGTH)]
+    for (let height = 1; height <= SparseMerkleTree.DEPTH; height++) {
+      defaults.push(SparseMerkleTree.hashNode(defaults[height - 1], defaults[height - 1]))
+    }
+    return defaults
+  }
+
+  /**
+   * Hash leaf binding key and value
+   * @param key - 32-byte key
+   * @param value - Value
+   * @returns Leaf hash
+   */
+  private static hashLeaf(key: Buffer, value: Buffer): Buffer {
+    return QuantumCrypto.hash(Buffer.concat([SparseMerkleTree.LEAF_PREFIX, key, value]), 'sha256')
+  }
+
+  /**
+   * Hash two children
+   * @param left - Left child
+   * @param right - Right child
+   * @returns Node hash
+   */
+  private static hashNode(left: Buffer, right: Buffer): Buffer {
+    return QuantumCrypto.hash(Buffer.concat([SparseMerkleTree.NODE_PREFIX, left, right]), 'sha256')
+  }
+
+  /**
+   * Get identifier of the node covering a key at a height
+   * @param height - Node height
+   * @param key - Any key below the node
+   * @returns Node identifier
+   */
+  private static getNodeId(height: number, key: Buffer): string {
+    const prefix = Buffer.from(key)
+    const fullBytes = height >> 3
+    prefix.fill(0, this.KEY_LENGTH - fullBytes)
+    if (fullBytes < this.KEY_LENGTH) {
+      prefix[this.KEY_LENGTH - 1 - fullBytes] &= 0xff << (height & 7)
+    }
+    return `${height}:${prefix.toString('hex')}`
+  }
+
+  /**
+   * Get direction bit of a key at a height; the least significant bit selects between leaves
+   * @param key - 32-byte key
+   * @param height - Height of the child
+   * @returns 1 if the key descends to the right
+   */
+  private static getBit(key: Buffer, height: number): number {
+    return (key[this.KEY_LENGTH - 1 - (height >> 3)] >> (height & 7)) & 1
+  }
+
+  /**
+   * Flip direction bit of a key at a height to address the sibling
+   * @param key - 32-byte key
+   * @param height - Height of the child
+   * @returns Key below the sibling
+   */
+  private static flipBit(key: Buffer, height: number): Buffer {
+    const flipped = Buffer.from(key)
+    flipped[this.KEY_LENGTH - 1 - (height >> 3)] ^= 1 << (height & 7)
+    return flipped
+  }
+
+  /**
+   * Validate key length
+   * @param key - Key to validate
+   * @returns The key
+   */
+  private static validateKey(key: Buffer): Buffer {
+    if (key.length !== this.KEY_LENGTH) {
+      throw new Error(`Sparse Merkle keys must be ${this.KEY_LENGTH} bytes`)
+    }
+    return key
+  }
+
+  /**
+   * Create decoding error
+   * @param message - Error message
+   * @returns ZKPError
+   */
+  private static decodingError(message: string): ZKPError {
+    return new ZKPError({ code: 'SPARSE_MERKLE_INVALID_PROOF', message, algorithm: 'hash' })
+  }
+}
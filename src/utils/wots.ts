@@ -0,0 +1,158 @@
+/**
+ * Winternitz one-time signatures (WOTS+) for Quantum-Resistant ZKP library
+ * @author NeaByteLab
+ */
+
+import { QuantumCrypto } from '@utils/crypto'
+
+/**
+ * WOTS+ over SHA-256 with Winternitz parameter 16
+ * Chains are built with a tweakable hash keyed by a public seed and an address, so that
+ * every chain step of every key pair hashes under a distinct domain
+ */
+export class WinternitzOTS {
+  public static readonly HASH_LENGTH = 32
+  public static readonly WINTERNITZ = 16
+  public static readonly CHAINS = 67
+  private static readonly LOG_WINTERNITZ = 4
+  private static readonly MESSAGE_CHAINS = 64
+  private static readonly CHECKSUM_CHAINS = 3
+
+  /**
+   * Compute compressed public key of a key pair
+   * @param secretSeed - Secret seed the chain starts are derived from
+   * @param publicSeed - Public seed keying the tweakable hash
+   * @param address - Address identifying the key pair
+   * @returns Compressed public key
+   */
+  public static generatePublicKey(secretSeed: Buffer, publicSeed: Buffer, address: Buffer): Buffer {
+    const ends: Buffer[] = []
+    for (let i = 0; i < this.CHAINS; i++) {
+      const start = this.deriveChainStart(secretSeed, publicSeed, address, i)
+      ends.push(this.chain(start, 0, this.WINTERNITZ - 1, publicSeed, address, i))
+    }
+    return this.compressPublicKey(ends, publicSeed, address)
+  }
+
+  /**
+   * Sign a digest with a key pair
+   * @param digest - 32-byte digest to sign
+   * @param secretSeed - Secret seed the chain starts are derived from
+   * @param publicSeed - Public seed keying the tweakable hash
+   * @param address - Address identifying the key pair
+   * @returns One chain value per chain
+   */
+  public static sign(digest: Buffer, secretSeed: Buffer, publicSeed: Buffer, address: Buffer): Buffer[] {
+    return this.toBaseW(digest).map((steps, i) => {
+      const start = this.deriveChainStart(secretSeed, publicSeed, address, i)
+      return this.chain(start, 0, steps, publicSeed, address, i)
+    })
+  }
+
+  /**
+   * Recompute compressed public key from a signature
+   * @param digest - Signed 32-byte digest
+   * @param signature - Signature chain values
+   * @param publicSeed - Public seed keying the tweakable hash
+   * @param address - Address identifying the key pair
+   * @returns Compressed public key, or null if the signature is malformed
+   */
+  public static publicKeyFromSignature(
+    digest: Buffer,
+    signature: Buffer[],
+    publicSeed: Buffer,
+    address: Buffer
+  ): Buffer | null {
+    if (signature.length !== this.CHAINS || signature.some(value => value.length !== this.HASH_LENGTH)) {
+      return null
+    }
+    const ends = this.toBaseW(digest).map((steps, i) =>
+      this.chain(signature[i], steps, this.WINTERNITZ - 1 - steps, publicSeed, address, i)
+    )
+    return this.compressPublicKey(ends, publicSeed, address)
+  }
+
+  /**
+   * Get signature size in bytes
+   * @returns Signature size
+   */
+  public static getSignatureSize(): number {
+    return this.CHAINS * this.HASH_LENGTH
+  }
+
+  /**
+   * Split digest into base-w message digits followed by checksum digits
+   * @param digest - 32-byte digest
+   * @returns Number of chain steps per chain
+   */
+  private static toBaseW(digest: Buffer): number[] {
+    if (digest.length !== this.HASH_LENGTH) {
+      throw new Error(`Digest must be ${this.HASH_LENGTH} bytes`)
+    }
+    const digits: number[] = []
+    for (const byte of digest) {
+      digits.push(byte >> this.LOG_WINTERNITZ, byte & (this.WINTERNITZ - 1))
+    }
+    let checksum = digits.reduce((sum, digit) => sum + this.WINTERNITZ - 1 - digit, 0)
+    const checksumDigits: number[] = []
+    for (let i = 0; i < this.CHECKSUM_CHAINS; i++) {
+      checksumDigits.unshift(checksum & (this.WINTERNITZ - 1))
+      checksum >>= this.LOG_WINTERNITZ
+    }
+    return digits.slice(0, this.MESSAGE_CHAINS).concat(checksumDigits)
+  }
+
+  /**
+   * Derive secret start of a chain
+   * @param secretSeed - Secret seed
+   * @param publicSeed - Public seed
+   * @param address - Key pair address
+   * @param chainIndex - Chain index
+   * @returns Chain start
+   */
+  private static deriveChainStart(secretSeed: Buffer, publicSeed: Buffer, address: Buffer, chainIndex: number): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/wots/secret', [
+      secretSeed,
+      publicSeed,
+      address,
+      Buffer.from([chainIndex])
+    ])
+  }
+
+  /**
+   * Apply the chaining function a number of times
+   * @param value - Chain value at position start
+   * @param start - Starting position
+   * @param steps - Number of steps
+   * @param publicSeed - Public seed
+   * @param address - Key pair address
+   * @param chainIndex - Chain index
+   * @returns Chain value at position start + steps
+   */
+  private static chain(
+    value: Buffer,
+    start: number,
+    steps: number,
+    publicSeed: Buffer,
+    address: Buffer,
+    chainIndex: number
+  ): Buffer {
+    let current = value
+    for (let position = start; position < start + steps; position++) {
+      const tweak = Buffer.concat([publicSeed, address, Buffer.from([chainIndex, position])])
+      current = QuantumCrypto.hash(Buffer.concat([tweak, current]), 'sha256')
+    }
+    return current
+  }
+
+  /**
+   * Compress chain ends into a single public key
+   * @param ends - Chain ends
+   * @param publicSeed - Public seed
+   * @param address - Key pair address
+   * @returns Compressed public key
+   */
+  private static compressPublicKey(ends: Buffer[], publicSeed: Buffer, address: Buffer): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/wots/public-key', [publicSeed, address, ...ends])
+  }
+}
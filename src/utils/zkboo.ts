@@ -0,0 +1,825 @@
+/**
+ * MPC-in-the-head proofs of SHA-256 preimage knowledge (ZKBoo)
+ * @author NeaByteLab
+ */
+
+import { QuantumCrypto } from '@utils/crypto'
+import type { MerkleProof, RandomSource } from '../types'
+
+/**
+ * Word shared among the simulated parties, one 32-bit share per slot
+ */
+type SharedWord = number[]
+
+/**
+ * Circuit over a secret input whose output is public
+ */
+interface Circuit {
+  /** Public values bound into the Fiat-Shamir challenge */
+  statement: Buffer[]
+  /** Public circuit output */
+  output: Buffer
+  /** Secret input length in bytes */
+  inputLength: number
+  /** Number of AND and ADD gates */
+  gates: number
+  /** Evaluate the circuit on the input share of each slot */
+  evaluate: (context: MpcContext, shares: Buffer[]) => SharedWord[]
+}
+
+/**
+ * Simulated parties of a (2,3)-decomposition of SHA-256
+ * Proving runs all three parties; verification runs party e and replays party e + 1 from its opened view
+ */
+class MpcContext {
+  public readonly views: number[][]
+  private readonly slots: number
+  private readonly computed: number
+  private gate = 0
+
+  /**
+   * Create context for a set of simulated parties
+   * @param parties - Party index held by each slot
+   * @param tapes - Random tape of each slot
+   * @param tapeOffset - Offset of the first gate word in each tape
+   * @param openedView - View of the last slot when replaying it instead of computing it
+   */
+  constructor(
+    private readonly parties: number[],
+    private readonly tapes: Buffer[],
+    private readonly tapeOffset: number,
+    private readonly openedView?: number[]
+  ) {
+    this.slots = parties.length
+    this.computed = openedView ? this.slots - 1 : this.slots
+    this.views = parties.map(() => [])
+  }
+
+  /**
+   * Share a public constant, held by party 0
+   * @param value - Constant word
+   * @returns Shared word
+   */
+  public constant(value: number): SharedWord {
+    const shares = this.parties.map(() => 0)
+    const owner = this.parties.indexOf(0)
+    if (owner >= 0) {
+      shares[owner] = value | 0
+    }
+    return shares
+  }
+
+  /**
+   * XOR two shared words locally
+   * @param a - First word
+   * @param b - Second word
+   * @returns Shared XOR
+   */
+  public xor(a: SharedWord, b: SharedWord): SharedWord {
+    return a.map((value, slot) => value ^ b[slot])
+  }
+
+  /**
+   * Rotate shared word right locally
+   * @param a - Word
+   * @param bits - Rotation amount
+   * @returns Rotated word
+   */
+  public rotr(a: SharedWord, bits: number): SharedWord {
+    return a.map(value => (value >>> bits) | (value << (32 - bits)))
+  }
+
+  /**
+   * Shift shared word right locally
+   * @param a - Word
+   * @param bits - Shift amount
+   * @returns Shifted word
+   */
+  public shr(a: SharedWord, bits: number): SharedWord {
+    return a.map(value => value >>> bits)
+  }
+
+  /**
+   * Shift shared word left locally
+   * @param a - Word
+   * @param bits - Shift amount
+   * @returns Shifted word
+   */
+  public shl(a: SharedWord, bits: number): SharedWord {
+    return a.map(value => value << bits)
+  }
+
+  /**
+   * Spread one bit of a shared word over a whole word locally
+   * @param a - Word
+   * @param bit - Bit position
+   * @returns Shared all-ones or all-zeros mask
+   */
+  public mask(a: SharedWord, bit: number): SharedWord {
+    return a.map(value => -((value >>> bit) & 1) | 0)
+  }
+
+  /**
+   * AND two shared words, consuming one tape word per party
+   * @param a - First word
+   * @param b - Second word
+   * @returns Shared AND, recorded in the views
+   */
+  public and(a: SharedWord, b: SharedWord): SharedWord {
+    const random = this.readTapes()
+    const result = a.map((_, slot) => {
+      if (slot >= this.computed) {
+        return this.readOpenedView()
+      }
+      const next = (slot + 1) % this.slots
+      return (a[slot] & b[slot]) ^ (a[next] & b[slot]) ^ (a[slot] & b[next]) ^ random[slot] ^ random[next]
+    })
+    this.record(result)
+    return result
+  }
+
+  /**
+   * Add two shared words modulo 2^32 with a ripple-carry adder, consuming one tape word per party
+   * @param a - First word
+   * @param b - Second word
+   * @returns Shared sum; the carry words are recorded in the views
+   */
+  public add(a: SharedWord, b: SharedWord): SharedWord {
+    const random = this.readTapes()
+    const carry = a.map(() => 0)
+    if (this.computed < this.slots) {
+      carry[this.computed] = this.readOpenedView()
+    }
+    for (let bit = 0; bit < 31; bit++) {
+      const x = a.map((value, slot) => ((value ^ carry[slot]) >>> bit) & 1)
+      const y = b.map((value, slot) => ((value ^ carry[slot]) >>> bit) & 1)
+      for (let slot = 0; slot < this.computed; slot++) {
+        const next = (slot + 1) % this.slots
+        const cross = (x[slot] & y[next]) ^ (x[next] & y[slot]) ^ ((random[next] >>> bit) & 1)
+        const carryBit = cross ^ (x[slot] & y[slot]) ^ ((carry[slot] >>> bit) & 1) ^ ((random[slot] >>> bit) & 1)
+        carry[slot] |= carryBit << (bit + 1)
+      }
+    }
+    this.record(carry)
+    return a.map((value, slot) => value ^ b[slot] ^ carry[slot])
+  }
+
+  /**
+   * Read next gate word from every tape
+   * @returns One random word per slot
+   */
+  private readTapes(): number[] {
+    return this.tapes.map(tape => tape.readInt32BE(this.tapeOffset + this.gate * 4))
+  }
+
+  /**
+   * Read next word of the opened view
+   * @returns View word
+   */
+  private readOpenedView(): number {
+    return this.openedView ? this.openedView[this.gate] : 0
+  }
+
+  /**
+   * Record gate output words and advance to the next gate
+   * @param words - Output word per slot
+   */
+  private record(words: number[]): void {
+    words.forEach((word, slot) => this.views[slot].push(word))
+    this.gate++
+  }
+}
+
+/**
+ * ZKBoo proofs of knowledge of x with C(x) = y for SHA-256 based circuits C
+ * Each repetition splits x into three XOR shares, simulates the circuit as a 3-party protocol,
+ * commits to every party's view and opens two of them as selected by the Fiat-Shamir challenge
+ */
+export class ZKBoo {
+  /**
+   * Fewest repetitions a verifier accepts by default, for a soundness error (2/3)^219 < 2^-128
+   */
+  public static readonly MIN_REPETITIONS = 219
+  private static readonly SEED_LENGTH = 32
+  private static readonly GATES_PER_BLOCK = 728
+  private static readonly MEMBERSHIP_LABEL = Buffer.from('quantum-zkp/zkboo/merkle-membership', 'utf8')
+  private static readonly MAX_MEMBERSHIP_DEPTH = 32
+  private static readonly SELECT_GATES = 16
+  private static readonly INITIAL_STATE = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]
+  private static readonly ROUND_CONSTANTS = [
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5, 0xd807aa98,
+    0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+    0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da, 0x983e5152, 0xa831c66d, 0xb00327c8,
+    0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+    0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819,
+    0xd6990624, 0xf40e3585, 0x106aa070, 0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+    0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7,
+    0xc67178f2
+  ]
+
+  /**
+   * Prove knowledge of a SHA-256 preimage
+   * @param preimage - Secret preimage
+   * @param repetitions - Number of parallel repetitions (soundness error (2/3)^repetitions)
+   * @param random - Random source for the party seeds
+   * @returns Image, commitment to all views, Fiat-Shamir challenge and packed openings
+   */
+  public static prove(
+    preimage: Buffer,
+    repetitions: number,
+    random?: RandomSource
+  ): { image: Buffer; commitment: Buffer; challenge: Buffer; response: Buffer } {
+    const image = QuantumCrypto.hash(preimage, 'sha256')
+    const circuit = this.createPreimageCircuit(image, preimage.length)
+    return { image, ...this.proveCircuit(circuit, preimage, repetitions, random) }
+  }
+
+  /**
+   * Verify proof of knowledge of a SHA-256 preimage
+   * @param image - Public SHA-256 image
+   * @param commitment - Commitment to all views
+   * @param challenge - Fiat-Shamir challenge
+   * @param response - Packed openings
+   * @param repetitions - Number of repetitions
+   * @param minimumRepetitions - Fewest repetitions accepted
+   * @returns True if the opened views are consistent with the image and the challenge
+   */
+  public static verify(
+    image: Buffer,
+    commitment: Buffer,
+    challenge: Buffer,
+    response: Buffer,
+    repetitions: number,
+    minimumRepetitions = this.MIN_REPETITIONS
+  ): boolean {
+    if (image.length !== 32 || response.length < 4) {
+      return false
+    }
+    const circuit = this.createPreimageCircuit(image, response.readUInt32BE(0))
+    return this.verifyCircuit(circuit, commitment, challenge, response, repetitions, minimumRepetitions)
+  }
+
+  /**
+   * Prove that SHA-256(secret) is a leaf of an RFC 6962 SHA-256 Merkle tree without revealing the leaf
+   * The authentication path is walked to the full tree depth; sibling order and promoted levels are
+   * selected by secret-shared bits, so every leaf of a tree yields the same circuit
+   * @param secret - Secret whose SHA-256 image is the leaf
+   * @param proof - Inclusion proof of the leaf
+   * @param repetitions - Number of parallel repetitions (soundness error (2/3)^repetitions)
+   * @param random - Random source for the party seeds
+   * @returns Root, commitment to all views, Fiat-Shamir challenge and packed openings
+   */
+  public static proveMembership(
+    secret: Buffer,
+    proof: MerkleProof,
+    repetitions: number,
+    random?: RandomSource
+  ): { root: Buffer; commitment: Buffer; challenge: Buffer; response: Buffer } {
+    const depth = this.getTreeDepth(proof.treeSize)
+    if (proof.algorithm !== 'sha256' || depth < 0) {
+      throw new Error('Membership proofs require a SHA-256 Merkle tree of at most 2^32 leaves')
+    }
+    const { witness, root } = this.encodeMembershipWitness(secret, proof, depth)
+    const circuit = this.createMembershipCircuit(root, proof.treeSize, secret.length)
+    return { root, ...this.proveCircuit(circuit, witness, repetitions, random) }
+  }
+
+  /**
+   * Verify proof that the SHA-256 image of a secret is a leaf of a Merkle tree
+   * @param root - Public Merkle tree hash
+   * @param treeSize - Number of leaves in the tree
+   * @param commitment - Commitment to all views
+   * @param challenge - Fiat-Shamir challenge
+   * @param response - Packed openings
+   * @param repetitions - Number of repetitions
+   * @param minimumRepetitions - Fewest repetitions accepted
+   * @returns True if the opened views are consistent with the root and the challenge
+   */
+  public static verifyMembership(
+    root: Buffer,
+    treeSize: number,
+    commitment: Buffer,
+    challenge: Buffer,
+    response: Buffer,
+    repetitions: number,
+    minimumRepetitions = this.MIN_REPETITIONS
+  ): boolean {
+    const depth = this.getTreeDepth(treeSize)
+    if (root.length !== 32 || depth < 0 || response.length < 4) {
+      return false
+    }
+    const secretLength = response.readUInt32BE(0) - 8 - depth * 32
+    if (secretLength < 0) {
+      return false
+    }
+    const circuit = this.createMembershipCircuit(root, treeSize, secretLength)
+    return this.verifyCircuit(circuit, commitment, challenge, response, repetitions, minimumRepetitions)
+  }
+
+  /**
+   * Get number of AND and ADD gates of the SHA-256 circuit for an input length
+   * @param length - Preimage length in bytes
+   * @returns Gate count
+   */
+  public static getGateCount(length: number): number {
+    return this.getBlockCount(length) * this.GATES_PER_BLOCK
+  }
+
+  /**
+   * Get number of AND and ADD gates of the Merkle membership circuit
+   * @param secretLength - Secret length in bytes
+   * @param treeSize - Number of leaves in the tree
+   * @returns Gate count
+   */
+  public static getMembershipGateCount(secretLength: number, treeSize: number): number {
+    const depth = Math.max(this.getTreeDepth(treeSize), 0)
+    const blocks = this.getBlockCount(secretLength) + this.getBlockCount(33) + depth * this.getBlockCount(65)
+    return blocks * this.GATES_PER_BLOCK + depth * this.SELECT_GATES
+  }
+
+  /**
+   * Run all repetitions of a circuit proof
+   * @param circuit - Circuit to prove
+   * @param witness - Secret input
+   * @param repetitions - Number of parallel repetitions
+   * @param random - Random source for the party seeds
+   * @returns Commitment to all views, Fiat-Shamir challenge and packed openings
+   */
+  private static proveCircuit(
+    circuit: Circuit,
+    witness: Buffer,
+    repetitions: number,
+    random?: RandomSource
+  ): { commitment: Buffer; challenge: Buffer; response: Buffer } {
+    const { inputLength, gates } = circuit
+    const runs = Array.from({ length: repetitions }, () => {
+      const seeds = [0, 1, 2].map(() => QuantumCrypto.generateRandomBytes(this.SEED_LENGTH, random))
+      const tapes = seeds.map(seed => this.expandTape(seed, inputLength, gates))
+      const shares = [tapes[0].subarray(0, inputLength), tapes[1].subarray(0, inputLength)]
+      shares.push(this.xorBuffers(this.xorBuffers(witness, shares[0]), shares[1]))
+      const context = new MpcContext([0, 1, 2], tapes, inputLength)
+      const outputs = this.packOutputs(circuit.evaluate(context, shares), 3)
+      const views = context.views.map(view => this.packWords(view))
+      const commitments = seeds.map((seed, party) => this.commitView(seed, shares[party], views[party]))
+      return { seeds, shares, views, outputs, commitments }
+    })
+    const challenge = this.computeChallenge(
+      circuit.statement,
+      runs.map(run => run.outputs),
+      runs.map(run => run.commitments)
+    )
+    const opened = this.deriveOpenedParties(challenge, repetitions)
+    const header = Buffer.alloc(4)
+    header.writeUInt32BE(inputLength)
+    const parts: Buffer[] = [header]
+    runs.forEach((run, index) => {
+      const first = opened[index]
+      const second = (first + 1) % 3
+      parts.push(run.seeds[first], run.seeds[second], run.commitments[(first + 2) % 3])
+      if (first === 2 || second === 2) {
+        parts.push(run.shares[2])
+      }
+      parts.push(run.views[second])
+    })
+    return {
+      commitment: this.commitAll(runs.map(run => run.commitments)),
+      challenge,
+      response: Buffer.concat(parts)
+    }
+  }
+
+  /**
+   * Verify all repetitions of a circuit proof
+   * The response length bounds the repetition count before the challenge stream is expanded
+   * @param circuit - Circuit the proof is about
+   * @param commitment - Commitment to all views
+   * @param challenge - Fiat-Shamir challenge
+   * @param response - Packed openings
+   * @param repetitions - Number of repetitions
+   * @param minimumRepetitions - Fewest repetitions accepted
+   * @returns True if the opened views are consistent with the circuit output and the challenge
+   */
+  private static verifyCircuit(
+    circuit: Circuit,
+    commitment: Buffer,
+    challenge: Buffer,
+    response: Buffer,
+    repetitions: number,
+    minimumRepetitions: number
+  ): boolean {
+    const shortest = this.getOpeningLength(0, circuit.inputLength, circuit.gates)
+    if (
+      !Number.isInteger(repetitions) ||
+      repetitions < Math.max(1, minimumRepetitions) ||
+      response.readUInt32BE(0) !== circuit.inputLength ||
+      response.length < 4 + repetitions * shortest ||
+      response.length > 4 + repetitions * (shortest + circuit.inputLength)
+    ) {
+      return false
+    }
+    const opened = this.deriveOpenedParties(challenge, repetitions)
+    const expectedLength = opened.reduce(
+      (total, first) => total + this.getOpeningLength(first, circuit.inputLength, circuit.gates),
+      4
+    )
+    if (response.length !== expectedLength) {
+      return false
+    }
+    let offset = 4
+    const outputs: Buffer[][] = []
+    const commitments: Buffer[][] = []
+    for (const first of opened) {
+      const run = this.replayRepetition(circuit, response, offset, first)
+      outputs.push(run.outputs)
+      commitments.push(run.commitments)
+      offset += this.getOpeningLength(first, circuit.inputLength, circuit.gates)
+    }
+    return (
+      this.computeChallenge(circuit.statement, outputs, commitments).equals(challenge) &&
+      this.commitAll(commitments).equals(commitment)
+    )
+  }
+
+  /**
+   * Recompute opened parties of one repetition
+   * @param circuit - Circuit the proof is about
+   * @param response - Packed openings
+   * @param offset - Offset of the repetition
+   * @param first - First opened party
+   * @returns Output shares and view commitments of all three parties
+   */
+  private static replayRepetition(
+    circuit: Circuit,
+    response: Buffer,
+    offset: number,
+    first: number
+  ): { outputs: Buffer[]; commitments: Buffer[] } {
+    const { inputLength, gates } = circuit
+    const second = (first + 1) % 3
+    const third = (first + 2) % 3
+    let cursor = offset
+    const take = (size: number): Buffer => {
+      const part = response.subarray(cursor, cursor + size)
+      cursor += size
+      return part
+    }
+    const seeds = [take(this.SEED_LENGTH), take(this.SEED_LENGTH)]
+    const thirdCommitment = take(32)
+    const tapes = seeds.map(seed => this.expandTape(seed, inputLength, gates))
+    const shares = tapes.map(tape => tape.subarray(0, inputLength))
+    const explicitSlot = [first, second].indexOf(2)
+    if (explicitSlot >= 0) {
+      shares[explicitSlot] = take(inputLength)
+    }
+    const openedView = take(gates * 4)
+    const openedWords = Array.from({ length: gates }, (_, index) => openedView.readInt32BE(index * 4))
+    const context = new MpcContext([first, second], tapes, inputLength, openedWords)
+    const [firstOutput, secondOutput] = this.packOutputs(circuit.evaluate(context, shares), 2)
+    const outputs: Buffer[] = []
+    const commitments: Buffer[] = []
+    outputs[first] = firstOutput
+    outputs[second] = secondOutput
+    outputs[third] = this.xorBuffers(this.xorBuffers(circuit.output, firstOutput), secondOutput)
+    commitments[first] = this.commitView(seeds[0], shares[0], this.packWords(context.views[0]))
+    commitments[second] = this.commitView(seeds[1], shares[1], openedView)
+    commitments[third] = thirdCommitment
+    return { outputs, commitments }
+  }
+
+  /**
+   * Create SHA-256 preimage circuit
+   * @param image - Public SHA-256 image
+   * @param length - Preimage length in bytes
+   * @returns Circuit computing SHA-256 of its input
+   */
+  private static createPreimageCircuit(image: Buffer, length: number): Circuit {
+    return {
+      statement: [image],
+      output: image,
+      inputLength: length,
+      gates: this.getGateCount(length),
+      evaluate: (context, shares): SharedWord[] =>
+        this.hashShared(context, this.readSharedWords(shares, 0, length), length)
+    }
+  }
+
+  /**
+   * Create Merkle membership circuit
+   * Input layout: direction bits, promotion bits, one sibling per level, then the secret
+   * @param root - Public Merkle tree hash
+   * @param treeSize - Number of leaves in the tree
+   * @param secretLength - Secret length in bytes
+   * @returns Circuit computing the root reached from the secret's leaf
+   */
+  private static createMembershipCircuit(root: Buffer, treeSize: number, secretLength: number): Circuit {
+    const size = Buffer.alloc(4)
+    size.writeUInt32BE(treeSize - 1)
+    const depth = this.getTreeDepth(treeSize)
+    return {
+      statement: [this.MEMBERSHIP_LABEL, root, size],
+      output: root,
+      inputLength: 8 + depth * 32 + secretLength,
+      gates: this.getMembershipGateCount(secretLength, treeSize),
+      evaluate: (context, shares): SharedWord[] => {
+        const [directions, promotions] = this.readSharedWords(shares, 0, 8)
+        const secret = this.readSharedWords(shares, 8 + depth * 32, secretLength)
+        const leaf = this.hashShared(context, secret, secretLength)
+        let node = this.hashShared(context, this.prefixWords(context, 0x00, leaf), 33)
+        for (let level = 0; level < depth; level++) {
+          const sibling = this.readSharedWords(shares, 8 + level * 32, 32)
+          const swap = context.mask(directions, level)
+          const delta = node.map((word, index) => context.and(swap, context.xor(word, sibling[index])))
+          const left = node.map((word, index) => context.xor(word, delta[index]))
+          const right = sibling.map((word, index) => context.xor(word, delta[index]))
+          const parent = this.hashShared(context, this.prefixWords(context, 0x01, [...left, ...right]), 65)
+          const promote = context.mask(promotions, level)
+          node = parent.map((word, index) => context.xor(word, context.and(promote, context.xor(node[index], word))))
+        }
+        return node
+      }
+    }
+  }
+
+  /**
+   * Encode secret and inclusion path as membership circuit input
+   * @param secret - Secret whose SHA-256 image is the leaf
+   * @param proof - Inclusion proof of the leaf
+   * @param depth - Tree depth
+   * @returns Circuit input and the root the path leads to
+   */
+  private static encodeMembershipWitness(
+    secret: Buffer,
+    proof: MerkleProof,
+    depth: number
+  ): { witness: Buffer; root: Buffer } {
+    const siblings: Buffer[] = []
+    let directions = 0
+    let promotions = 0
+    let node = QuantumCrypto.hashMerkleLeaf(QuantumCrypto.hash(secret, 'sha256'))
+    let index = proof.leafIndex
+    let lastIndex = proof.treeSize - 1
+    let cursor = 0
+    for (let level = 0; level < depth; level++) {
+      const sibling = proof.path[cursor]
+      if (index === lastIndex && index % 2 === 0) {
+        promotions |= 1 << level
+        siblings.push(Buffer.alloc(32))
+      } else if (sibling === undefined) {
+        throw new Error('Inclusion path is shorter than the tree depth requires')
+      } else {
+        directions |= (index % 2) << level
+        node =
+          index % 2 === 1 ? QuantumCrypto.hashMerkleNode(sibling, node) : QuantumCrypto.hashMerkleNode(node, sibling)
+        siblings.push(sibling)
+        cursor++
+      }
+      index = Math.floor(index / 2)
+      lastIndex = Math.floor(lastIndex / 2)
+    }
+    if (cursor !== proof.path.length) {
+      throw new Error('Inclusion path is longer than the tree depth allows')
+    }
+    const bits = Buffer.alloc(8)
+    bits.writeInt32BE(directions)
+    bits.writeInt32BE(promotions, 4)
+    return { witness: Buffer.concat([bits, ...siblings, secret]), root: node }
+  }
+
+  /**
+   * Evaluate SHA-256 on a shared message
+   * @param context - MPC context
+   * @param words - Shared message words; bytes past the message length are zero in every share
+   * @param length - Message length in bytes
+   * @returns Shared output state words
+   */
+  private static hashShared(context: MpcContext, words: SharedWord[], length: number): SharedWord[] {
+    const blocks = this.getBlockCount(length)
+    const message = Array.from({ length: blocks * 16 }, (_, index) => words[index] ?? context.constant(0))
+    const paddingIndex = length >> 2
+    const padding = context.constant(0x80 << (24 - (length & 3) * 8))
+    message[paddingIndex] = context.xor(message[paddingIndex], padding)
+    message[blocks * 16 - 2] = context.constant(Math.floor((length * 8) / 0x100000000))
+    message[blocks * 16 - 1] = context.constant((length * 8) >>> 0)
+    let state = this.INITIAL_STATE.map(value => context.constant(value))
+    for (let block = 0; block < blocks; block++) {
+      const schedule = this.expandSchedule(context, message.slice(block * 16, block * 16 + 16))
+      const working = this.compress(context, state, schedule)
+      state = state.map((value, index) => context.add(value, working[index]))
+    }
+    return state
+  }
+
+  /**
+   * Expand message schedule of one block
+   * @param context - MPC context
+   * @param block - 16 shared message words
+   * @returns 64 shared schedule words
+   */
+  private static expandSchedule(context: MpcContext, block: SharedWord[]): SharedWord[] {
+    const schedule = [...block]
+    for (let t = 16; t < 64; t++) {
+      const w15 = schedule[t - 15]
+      const w2 = schedule[t - 2]
+      const s0 = context.xor(context.xor(context.rotr(w15, 7), context.rotr(w15, 18)), context.shr(w15, 3))
+      const s1 = context.xor(context.xor(context.rotr(w2, 17), context.rotr(w2, 19)), context.shr(w2, 10))
+      schedule.push(context.add(context.add(context.add(schedule[t - 16], s0), schedule[t - 7]), s1))
+    }
+    return schedule
+  }
+
+  /**
+   * Run the 64 compression rounds
+   * @param context - MPC context
+   * @param state - Shared chaining state
+   * @param schedule - Shared schedule words
+   * @returns Shared working variables a..h
+   */
+  private static compress(context: MpcContext, state: SharedWord[], schedule: SharedWord[]): SharedWord[] {
+    let [a, b, c, d, e, f, g, h] = state
+    for (let t = 0; t < 64; t++) {
+      const sigma1 = context.xor(context.xor(context.rotr(e, 6), context.rotr(e, 11)), context.rotr(e, 25))
+      const choose = context.xor(context.and(context.xor(f, g), e), g)
+      const sum = context.add(context.add(h, sigma1), choose)
+      const temp1 = context.add(context.add(sum, context.constant(this.ROUND_CONSTANTS[t])), schedule[t])
+      const sigma0 = context.xor(context.xor(context.rotr(a, 2), context.rotr(a, 13)), context.rotr(a, 22))
+      const majority = context.xor(context.and(context.xor(a, b), context.xor(a, c)), a)
+      const temp2 = context.add(sigma0, majority)
+      h = g
+      g = f
+      f = e
+      e = context.add(d, temp1)
+      d = c
+      c = b
+      b = a
+      a = context.add(temp1, temp2)
+    }
+    return [a, b, c, d, e, f, g, h]
+  }
+
+  /**
+   * Get number of SHA-256 blocks for an input length
+   * @param length - Input length in bytes
+   * @returns Block count
+   */
+  private static getBlockCount(length: number): number {
+    return Math.floor((length + 8) / 64) + 1
+  }
+
+  /**
+   * Read big-endian words of an input range from every share, zero-filling the last word
+   * @param shares - Input share of each slot
+   * @param offset - Range offset in bytes
+   * @param length - Range length in bytes
+   * @returns Shared words
+   */
+  private static readSharedWords(shares: Buffer[], offset: number, length: number): SharedWord[] {
+    return Array.from({ length: Math.ceil(length / 4) }, (_, index) =>
+      shares.map(share => {
+        const word = Buffer.alloc(4)
+        share.copy(word, 0, offset + index * 4, Math.min(offset + index * 4 + 4, offset + length))
+        return word.readInt32BE(0)
+      })
+    )
+  }
+
+  /**
+   * Prepend a public byte to shared words, shifting them right by one byte
+   * @param context - MPC context
+   * @param prefix - Public prefix byte
+   * @param words - Shared words
+   * @returns Shared words of the prefixed message
+   */
+  private static prefixWords(context: MpcContext, prefix: number, words: SharedWord[]): SharedWord[] {
+    return [context.constant(prefix << 24), ...words].map((word, index) => {
+      const head = index === 0 ? word : context.shl(word, 24)
+      const next = words[index]
+      return next === undefined ? head : context.xor(head, context.shr(next, 8))
+    })
+  }
+
+  /**
+   * Get number of levels of an RFC 6962 tree
+   * @param treeSize - Number of leaves
+   * @returns Tree depth, or -1 if the size is not supported
+   */
+  private static getTreeDepth(treeSize: number): number {
+    if (!Number.isInteger(treeSize) || treeSize < 1 || treeSize > 2 ** this.MAX_MEMBERSHIP_DEPTH) {
+      return -1
+    }
+    let depth = 0
+    while (2 ** depth < treeSize) {
+      depth++
+    }
+    return depth
+  }
+
+  /**
+   * Get size of one repetition's opening
+   * @param first - First opened party
+   * @param length - Input length
+   * @param gates - Gate count
+   * @returns Opening size in bytes
+   */
+  private static getOpeningLength(first: number, length: number, gates: number): number {
+    const explicitShare = first === 1 || first === 2 ? length : 0
+    return this.SEED_LENGTH * 2 + 32 + explicitShare + gates * 4
+  }
+
+  /**
+   * Expand party seed into input share and gate randomness
+   * @param seed - Party seed
+   * @param length - Input length
+   * @param gates - Gate count
+   * @returns Random tape
+   */
+  private static expandTape(seed: Buffer, length: number, gates: number): Buffer {
+    return QuantumCrypto.expandSeed(Buffer.concat([Buffer.from('quantum-zkp/zkboo/tape'), seed]), length + gates * 4)
+  }
+
+  /**
+   * Commit to a party view
+   * @param seed - Party seed
+   * @param share - Party input share
+   * @param view - Packed gate outputs
+   * @returns View commitment
+   */
+  private static commitView(seed: Buffer, share: Buffer, view: Buffer): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/zkboo/view', [seed, share, view])
+  }
+
+  /**
+   * Commit to every view commitment of every repetition
+   * @param commitments - View commitments per repetition
+   * @returns Aggregate commitment
+   */
+  private static commitAll(commitments: Buffer[][]): Buffer {
+    return QuantumCrypto.domainHash('quantum-zkp/zkboo/commitments', commitments.flat())
+  }
+
+  /**
+   * Compute Fiat-Shamir challenge
+   * @param statement - Public statement of the circuit
+   * @param outputs - Output shares per repetition
+   * @param commitments - View commitments per repetition
+   * @returns Challenge
+   */
+  private static computeChallenge(statement: Buffer[], outputs: Buffer[][], commitments: Buffer[][]): Buffer {
+    const parts = outputs.flatMap((shares, index) => [...shares, ...commitments[index]])
+    return QuantumCrypto.domainHash('quantum-zkp/zkboo/challenge', [...statement, ...parts])
+  }
+
+  /**
+   * Derive first opened party of every repetition by rejection sampling 2-bit values
+   * @param challenge - Fiat-Shamir challenge
+   * @param repetitions - Number of repetitions
+   * @returns Party index in 0..2 per repetition
+   */
+  private static deriveOpenedParties(challenge: Buffer, repetitions: number): number[] {
+    let parties: number[] = []
+    for (let length = repetitions; parties.length < repetitions; length *= 2) {
+      parties = []
+      for (const byte of QuantumCrypto.expandSeed(challenge, length)) {
+        for (let shift = 6; shift >= 0; shift -= 2) {
+          const value = (byte >> shift) & 3
+          if (value < 3 && parties.length < repetitions) {
+            parties.push(value)
+          }
+        }
+      }
+    }
+    return parties
+  }
+
+  /**
+   * Pack shared output state into one 32-byte share per slot
+   * @param state - Shared state words
+   * @param slots - Number of slots
+   * @returns Output share per slot
+   */
+  private static packOutputs(state: SharedWord[], slots: number): Buffer[] {
+    return Array.from({ length: slots }, (_, slot) => this.packWords(state.map(word => word[slot])))
+  }
+
+  /**
+   * Pack words big-endian
+   * @param words - Words
+   * @returns Packed bytes
+   */
+  private static packWords(words: number[]): Buffer {
+    const buffer = Buffer.alloc(words.length * 4)
+    words.forEach((word, index) => buffer.writeUInt32BE(word >>> 0, index * 4))
+    return buffer
+  }
+
+  /**
+   * XOR two equal-length buffers
+   * @param a - First buffer
+   * @param b - Second buffer
+   * @returns XOR of the buffers
+   */
+  private static xorBuffers(a: Buffer, b: Buffer): Buffer {
+    return Buffer.from(a.map((byte, index) => byte ^ b[index]))
+  }
+}
@@ -1,4 +1,5 @@
 import { QuantumCrypto } from '../src/utils/crypto'
+import { SeededRandom } from '../src/utils/random'
 import type { AlgorithmType } from '../src/types'
 
 describe('QuantumCrypto Utilities', () => {
@@ -148,6 +149,26 @@ describe('QuantumCrypto Utilities', () => {
       const value2 = QuantumCrypto.generateRandomBigInt(min, max)
       expect(value1).not.toEqual(value2)
     })
+
+    it('should not favour low values when the range does not divide the byte range', () => {
+      const random = new SeededRandom('bias')
+      let low = 0
+      for (let i = 0; i < 6000; i++) {
+        low += Number(QuantumCrypto.generateRandomBigInt(0n, 192n, random) < 64n)
+      }
+      // A modulo reduction of one byte would put half of the samples below 64
+      expect(low / 6000).toBeCloseTo(1 / 3, 1)
+    })
+
+    it('should be reproducible from a seeded random source', () => {
+      const first = new SeededRandom('big-int')
+      const second = new SeededRandom('big-int')
+
+      expect(QuantumCrypto.generateRandomBigInt(0n, 2n ** 100n, first)).toBe(
+        QuantumCrypto.generateRandomBigInt(0n, 2n ** 100n, second)
+      )
+      expect(QuantumCrypto.generateLargePrime(64, first)).toBe(QuantumCrypto.generateLargePrime(64, second))
+    })
   })
 
   describe('millerRabinPrimalityTest', () => {
@@ -168,6 +189,20 @@ describe('QuantumCrypto Utilities', () => {
       expect(QuantumCrypto.millerRabinPrimalityTest(1n)).toBe(false)
       expect(QuantumCrypto.millerRabinPrimalityTest(0n)).toBe(false)
     })
+
+    it('should draw bases from the given random source', () => {
+      const seeded = new SeededRandom('bases')
+      let requested = 0
+      const random = {
+        randomBytes: (length: number): Buffer => {
+          requested += length
+          return seeded.randomBytes(length)
+        }
+      }
+
+      expect(QuantumCrypto.millerRabinPrimalityTest(97n, 3, random)).toBe(true)
+      expect(requested).toBeGreaterThan(0)
+    })
   })
 
   describe('modPow', () => {
@@ -256,6 +291,8 @@ describe('QuantumCrypto Utilities', () => {
       expect(QuantumCrypto.validateParameters('multivariate', { variables: 16, equations: 24 })).toBe(true)
       expect(QuantumCrypto.validateParameters('multivariate', { variables: 4, equations: 8 })).toBe(false)
       expect(QuantumCrypto.validateParameters('multivariate', { variables: 16, equations: 8 })).toBe(false)
+      expect(QuantumCrypto.validateParameters('multivariate', { variables: 64, equations: 64 })).toBe(true)
+      expect(QuantumCrypto.validateParameters('multivariate', { variables: 64, equations: 65 })).toBe(false)
     })
 
     it('should validate hybrid parameters', () => {
@@ -299,6 +336,19 @@ describe('QuantumCrypto Utilities', () => {
     })
   })
 
+  describe('packBits / unpackBits', () => {
+    it('should round trip fixed-width values', () => {
+      const values = [0, 1, 1023, 512, 7, 1000]
+      const packed = QuantumCrypto.packBits(values, 10)
+      expect(packed.length).toBe(8)
+      expect(QuantumCrypto.unpackBits(packed, 10, values.length)).toEqual(values)
+    })
+
+    it('should pack little-endian bits', () => {
+      expect(QuantumCrypto.packBits([1, 0, 1, 1, 0, 0, 0, 0, 1], 1)).toEqual(Buffer.from([0x0d, 0x01]))
+    })
+  })
+
   describe('generateLWESample', () => {
     it('should generate LWE sample', () => {
       const sample = QuantumCrypto.generateLWESample(4, 1000n, 8n)
@@ -334,6 +384,7 @@ describe('QuantumCrypto Utilities', () => {
       const polynomial = QuantumCrypto.generateRLWEPolynomial(8, 1000n, 8n)
       expect(polynomial.length).toBe(8)
       expect(polynomial.every(coeff => typeof coeff === 'bigint')).toBe(true)
+      expect(polynomial.every(coeff => coeff >= 0n && coeff < 1000n)).toBe(true)
     })
 
     it('should throw error for non-power-of-2 degree', () => {
@@ -350,6 +401,16 @@ describe('QuantumCrypto Utilities', () => {
       expect(result.length).toBe(4)
       expect(result.every(coeff => typeof coeff === 'bigint')).toBe(true)
     })
+
+    it('should reduce modulo x^n + 1', () => {
+      const result = QuantumCrypto.polynomialMultiply([1n, 2n, 3n, 4n], [5n, 6n, 7n, 8n], 1000n)
+      expect(result).toEqual([944n, 964n, 2n, 60n])
+    })
+
+    it('should multiply polynomials of other lengths', () => {
+      const result = QuantumCrypto.polynomialMultiply([1n, 2n, 3n], [4n, 5n, 6n], 1000n)
+      expect(result).toEqual([977n, 995n, 28n])
+    })
   })
 
   describe('generateMultivariateSystem', () => {
@@ -413,6 +474,13 @@ describe('QuantumCrypto Utilities', () => {
       expect(isValid).toBe(true)
     })
 
+    it('should verify proofs for the last leaf of odd levels', () => {
+      const leaves = Array.from({ length: 5 }, (_, i) => Buffer.from(`leaf${i}`, 'utf8'))
+      const { tree, root } = QuantumCrypto.generateMerkleTree(leaves)
+      const proof = QuantumCrypto.generateMerkleProof(tree, 4)
+      expect(QuantumCrypto.verifyMerkleProof(leaves[4], proof, root, 4)).toBe(true)
+    })
+
     it('should reject invalid Merkle proof', () => {
       const leaves = [
         Buffer.from('leaf1', 'utf8'),
@@ -426,6 +494,126 @@ describe('QuantumCrypto Utilities', () => {
     })
   })
 
+  describe('Merkle multiproofs', () => {
+    const leaves = Array.from({ length: 13 }, (_, i) => QuantumCrypto.hash(`leaf${i}`, 'sha256'))
+    const { tree, root } = QuantumCrypto.generateMerkleTree(leaves)
+
+    it('should verify arbitrary leaf subsets, including the odd last leaf', () => {
+      const subsets = [[0], [12], [3, 4], [0, 1, 2, 3], [1, 6, 11, 12], leaves.map((_, i) => i)]
+      for (const subset of subsets) {
+        const proof = QuantumCrypto.generateMerkleMultiproof(tree, subset)
+        expect(QuantumCrypto.verifyMerkleMultiproof(subset.map(i => leaves[i]), proof, root)).toBe(true)
+      }
+    })
+
+    it('should share siblings between paths', () => {
+      const indices = [0, 1, 2, 3, 4, 5, 6, 7]
+      const proof = QuantumCrypto.generateMerkleMultiproof(tree, indices)
+      const separate = indices.reduce((total, i) => total + QuantumCrypto.generateMerkleProof(tree, i).length, 0)
+
+      expect(proof.siblings.length).toBeLessThan(separate)
+      expect(proof.siblings).toHaveLength(1)
+    })
+
+    it('should sort and deduplicate leaf indices', () => {
+      const proof = QuantumCrypto.generateMerkleMultiproof(tree, [9, 2, 9])
+
+      expect(proof.leafIndices).toEqual([2, 9])
+      expect(proof.leafCount).toBe(13)
+    })
+
+    it('should reject wrong leaves, indices and siblings', () => {
+      const proof = QuantumCrypto.generateMerkleMultiproof(tree, [2, 9])
+      const proven = [leaves[2], leaves[9]]
+
+      expect(QuantumCrypto.verifyMerkleMultiproof([leaves[2], leaves[8]], proof, root)).toBe(false)
+      expect(QuantumCrypto.verifyMerkleMultiproof(proven, { ...proof, leafIndices: [2, 8] }, root)).toBe(false)
+      expect(QuantumCrypto.verifyMerkleMultiproof(proven, { ...proof, leafIndices: [9, 2] }, root)).toBe(false)
+      expect(QuantumCrypto.verifyMerkleMultiproof(proven, { ...proof, siblings: proof.siblings.slice(1) }, root)).toBe(
+        false
+      )
+      expect(
+        QuantumCrypto.verifyMerkleMultiproof(proven, { ...proof, siblings: [...proof.siblings, root] }, root)
+      ).toBe(false)
+    })
+
+    it('should reject indices outside the tree', () => {
+      expect(() => QuantumCrypto.generateMerkleMultiproof(tree, [13])).toThrow(
+        'Leaf indices must be non-empty and inside the tree'
+      )
+      expect(() => QuantumCrypto.generateMerkleMultiproof(tree, [])).toThrow()
+    })
+  })
+
+  describe('domain-separated Merkle trees', () => {
+    const leaves = ['', '00', '10', '2021', '3031', '40414243', '5051525354555657', '606162636465666768696a6b6c6d6e6f'].map(
+      hex => Buffer.from(hex, 'hex')
+    )
+    const roots = [
+      '6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d',
+      'fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125',
+      'aeb6bcfe274b70a14fb067a5e5578264db0fa9b51af5e0ba159158f329e06e77',
+      'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7',
+      '4e3bbb1f7b478dcfe71fb631631519a3bca12c9aefca1612bfce4c13a86264d4',
+      '76e67dadbcdf1e10e1b74ddc608abd2f98dfb16fbce75277b5232a127f2087ef',
+      'ddb89be403809e325750d3d263cd78929c2942b7942a34b77e122c9594a74c8c',
+      '5dc9da79a70659a9ad559cb701ded9a2ab9d823aad2f4960cfe370eff4604328'
+    ]
+
+    it('should match the RFC 6962 tree hash for every tree size', () => {
+      roots.forEach((root, i) => {
+        expect(QuantumCrypto.createMerkleTree(leaves.slice(0, i + 1)).root.toString('hex')).toBe(root)
+      })
+    })
+
+    it('should verify inclusion proofs for every leaf of unbalanced trees', () => {
+      for (let size = 1; size <= leaves.length; size++) {
+        const tree = QuantumCrypto.createMerkleTree(leaves.slice(0, size))
+        for (let index = 0; index < size; index++) {
+          const proof = QuantumCrypto.createMerkleProof(tree, index)
+          expect(proof.treeSize).toBe(size)
+          expect(QuantumCrypto.verifyMerkleProof(leaves[index], proof, tree.root)).toBe(true)
+        }
+      }
+    })
+
+    it('should reject proofs with a mismatched index, size or path', () => {
+      const tree = QuantumCrypto.createMerkleTree(leaves.slice(0, 7))
+      const proof = QuantumCrypto.createMerkleProof(tree, 6)
+
+      expect(QuantumCrypto.verifyMerkleProof(leaves[6], { ...proof, leafIndex: 5 }, tree.root)).toBe(false)
+      expect(QuantumCrypto.verifyMerkleProof(leaves[6], { ...proof, treeSize: 8 }, tree.root)).toBe(false)
+      expect(QuantumCrypto.verifyMerkleProof(leaves[6], { ...proof, leafIndex: 7 }, tree.root)).toBe(false)
+      expect(QuantumCrypto.verifyMerkleProof(leaves[6], { ...proof, path: [...proof.path, tree.root] }, tree.root)).toBe(
+        false
+      )
+    })
+
+    it('should separate leaves from internal nodes', () => {
+      const tree = QuantumCrypto.createMerkleTree(leaves.slice(0, 4))
+      const node = Buffer.concat([tree.levels[1][0], tree.levels[1][1]])
+      const forged = QuantumCrypto.createMerkleTree([node])
+
+      expect(forged.root.equals(tree.root)).toBe(false)
+      expect(QuantumCrypto.hashMerkleLeaf(leaves[0])).not.toEqual(QuantumCrypto.hash(leaves[0], 'sha256'))
+    })
+
+    it('should support configurable hash functions', () => {
+      const tree = QuantumCrypto.createMerkleTree(leaves, 'sha512')
+      const proof = QuantumCrypto.createMerkleProof(tree, 3)
+
+      expect(tree.root).toHaveLength(64)
+      expect(proof.algorithm).toBe('sha512')
+      expect(QuantumCrypto.verifyMerkleProof(leaves[3], proof, tree.root)).toBe(true)
+    })
+
+    it('should reject out-of-range leaf indices', () => {
+      const tree = QuantumCrypto.createMerkleTree(leaves)
+
+      expect(() => QuantumCrypto.createMerkleProof(tree, 8)).toThrow('Leaf index 8 is outside a tree of 8 leaves')
+    })
+  })
+
   describe('getVersion', () => {
     it('should return version string', () => {
       const version = QuantumCrypto.getVersion()
@@ -0,0 +1,100 @@
+import { DiscreteSampler } from '../src/utils/discrete-sampler'
+import { SeededRandom } from '../src/utils/random'
+
+describe('DiscreteSampler', () => {
+  const SAMPLES = 20000
+
+  const chiSquare = (counts: Map<number, number>, probabilities: Map<number, number>): number =>
+    [...probabilities].reduce((sum, [value, probability]) => {
+      const expected = probability * SAMPLES
+      const observed = counts.get(value) ?? 0
+      return sum + (observed - expected) ** 2 / expected
+    }, 0)
+
+  const count = (draw: () => number): Map<number, number> => {
+    const counts = new Map<number, number>()
+    for (let i = 0; i < SAMPLES; i++) {
+      const value = draw()
+      counts.set(value, (counts.get(value) ?? 0) + 1)
+    }
+    return counts
+  }
+
+  describe('sampleUniform', () => {
+    it('should pass a chi-square test on a non-power-of-two range', () => {
+      const random = new SeededRandom('uniform')
+      const counts = count(() => Number(DiscreteSampler.sampleUniform(3n, 13n, random)))
+      const probabilities = new Map(Array.from({ length: 10 }, (_, i) => [i + 3, 0.1]))
+
+      expect([...counts.keys()].every(value => value >= 3 && value < 13)).toBe(true)
+      // 9 degrees of freedom, p = 0.001
+      expect(chiSquare(counts, probabilities)).toBeLessThan(27.88)
+    })
+
+    it('should cover large ranges and reject empty ones', () => {
+      const value = DiscreteSampler.sampleUniform(0n, 2n ** 64n)
+      expect(value >= 0n && value < 2n ** 64n).toBe(true)
+      expect(DiscreteSampler.sampleUniform(5n, 6n)).toBe(5n)
+      expect(() => DiscreteSampler.sampleUniform(4n, 4n)).toThrow('Sampling range must not be empty')
+    })
+  })
+
+  describe('sampleCenteredBinomial', () => {
+    it('should pass a chi-square test against the binomial distribution', () => {
+      const random = new SeededRandom('binomial')
+      const counts = count(() => DiscreteSampler.sampleCenteredBinomial(2, random))
+      const probabilities = new Map([
+        [-2, 1 / 16],
+        [-1, 4 / 16],
+        [0, 6 / 16],
+        [1, 4 / 16],
+        [2, 1 / 16]
+      ])
+
+      // 4 degrees of freedom, p = 0.001
+      expect(chiSquare(counts, probabilities)).toBeLessThan(18.47)
+    })
+
+    it('should stay within [-eta, eta]', () => {
+      for (let i = 0; i < 200; i++) {
+        expect(Math.abs(DiscreteSampler.sampleCenteredBinomial(3))).toBeLessThanOrEqual(3)
+      }
+      expect(() => DiscreteSampler.sampleCenteredBinomial(0)).toThrow('Binomial parameter')
+    })
+  })
+
+  describe('sampleGaussian', () => {
+    it('should pass a Kolmogorov-Smirnov test against the discrete Gaussian', () => {
+      const sigma = 3.2
+      const random = new SeededRandom('gaussian')
+      const counts = count(() => DiscreteSampler.sampleGaussian(sigma, 12, random))
+      const bound = Math.ceil(12 * sigma)
+      const weights = Array.from({ length: 2 * bound + 1 }, (_, i) => Math.exp(-((i - bound) ** 2) / (2 * sigma ** 2)))
+      const total = weights.reduce((sum, weight) => sum + weight, 0)
+      let expected = 0
+      let observed = 0
+      let distance = 0
+      weights.forEach((weight, i) => {
+        expected += weight / total
+        observed += (counts.get(i - bound) ?? 0) / SAMPLES
+        distance = Math.max(distance, Math.abs(expected - observed))
+      })
+
+      // Critical value at p = 0.001
+      expect(distance).toBeLessThan(1.95 / Math.sqrt(SAMPLES))
+    })
+
+    it('should match the requested standard deviation and respect the tail cut', () => {
+      const random = new SeededRandom('tail')
+      const samples = Array.from({ length: SAMPLES }, () => DiscreteSampler.sampleGaussian(8, 2, random))
+      const mean = samples.reduce((sum, value) => sum + value, 0) / SAMPLES
+      const unbounded = Array.from({ length: SAMPLES }, () => DiscreteSampler.sampleGaussian(8, 12, random))
+      const variance = unbounded.reduce((sum, value) => sum + value * value, 0) / SAMPLES
+
+      expect(samples.every(value => Math.abs(value) <= 16)).toBe(true)
+      expect(Math.abs(mean)).toBeLessThan(0.3)
+      expect(Math.sqrt(variance)).toBeCloseTo(8, 0)
+      expect(() => DiscreteSampler.sampleGaussian(0)).toThrow('Invalid Gaussian parameters')
+    })
+  })
+})
@@ -0,0 +1,156 @@
+import { FiniteField } from '../src/utils/finite-field'
+import { SeededRandom } from '../src/utils/random'
+
+describe('FiniteField', () => {
+  const carrylessMultiply = (a: number, b: number, polynomial: number, order: number): number => {
+    let result = 0
+    for (let i = 0; b >> i > 0; i++) {
+      if ((b >> i) & 1) {
+        result ^= a << i
+      }
+    }
+    for (let bit = 31 - Math.clz32(result); bit >= Math.log2(order); bit--) {
+      if (result & (1 << bit)) {
+        result ^= polynomial << (bit - Math.log2(order))
+      }
+    }
+    return result
+  }
+
+  describe('constructor', () => {
+    it('should create prime and binary fields', () => {
+      expect(new FiniteField(31).characteristic).toBe(31)
+      expect(new FiniteField(256).characteristic).toBe(2)
+      expect(new FiniteField(256).degree).toBe(8)
+      expect(new FiniteField(256).isBinary()).toBe(true)
+      expect(new FiniteField(2).isBinary()).toBe(false)
+      expect(new FiniteField(4294967291).elementBytes).toBe(4)
+      expect(new FiniteField(65536).elementBytes).toBe(2)
+    })
+
+    it('should reject unsupported orders', () => {
+      for (const order of [0, 1, 9, 32, 512, 2 ** 32 + 15, 2.5]) {
+        expect(() => new FiniteField(order)).toThrow('Field order must be a prime below 2^32, or 16, 256 or 65536')
+      }
+    })
+  })
+
+  describe('arithmetic', () => {
+    it.each([16, 256, 65536])('should match shift-and-add multiplication in GF(%d)', order => {
+      const field = new FiniteField(order)
+      const random = new SeededRandom(`gf-${order}`)
+      const a = field.randomVector(200, random)
+      const b = field.randomVector(200, random)
+      a.forEach((x, i) => {
+        expect(field.multiply(x, b[i])).toBe(carrylessMultiply(x, b[i], field.polynomial, order))
+      })
+    })
+
+    it('should match the AES field', () => {
+      const field = new FiniteField(256)
+      expect(field.multiply(0x57, 0x83)).toBe(0xc1)
+      expect(field.inverse(0x53)).toBe(0xca)
+      expect(field.add(0x57, 0x83)).toBe(0xd4)
+    })
+
+    it('should multiply large prime field elements exactly', () => {
+      const field = new FiniteField(4294967291)
+      const random = new SeededRandom('large-prime')
+      for (const [a, b] of field.randomVector(100, random).map((x, i, all) => [x, all[99 - i]])) {
+        expect(field.multiply(a, b)).toBe(Number((BigInt(a) * BigInt(b)) % 4294967291n))
+      }
+    })
+
+    it.each([2, 31, 3329, 4294967291, 16, 256, 65536])('should satisfy field axioms in order %d', order => {
+      const field = new FiniteField(order)
+      const [a, b, c] = field.randomVector(3, new SeededRandom(`axioms-${order}`))
+      expect(field.subtract(field.add(a, b), b)).toBe(a)
+      expect(field.add(a, field.negate(a))).toBe(0)
+      expect(field.multiply(a, field.add(b, c))).toBe(field.add(field.multiply(a, b), field.multiply(a, c)))
+      if (a !== 0) {
+        expect(field.multiply(a, field.inverse(a))).toBe(1)
+        expect(field.divide(field.multiply(a, b), a)).toBe(b)
+      }
+      expect(field.power(b, order - 1)).toBe(b === 0 ? 0 : 1)
+    })
+
+    it('should reject inverting zero', () => {
+      expect(() => new FiniteField(31).inverse(0)).toThrow('Zero has no multiplicative inverse')
+      expect(() => new FiniteField(16).inverse(0)).toThrow('Zero has no multiplicative inverse')
+    })
+
+    it('should reduce integers into the field', () => {
+      const field = new FiniteField(31)
+      expect(field.reduce(-1)).toBe(30)
+      expect(field.reduce(2n ** 64n)).toBe(Number(2n ** 64n % 31n))
+    })
+  })
+
+  describe('random sampling', () => {
+    it('should sample every element uniformly', () => {
+      const field = new FiniteField(31)
+      const counts = new Array<number>(31).fill(0)
+      field.randomVector(31000, new SeededRandom('uniform')).forEach(value => counts[value]++)
+      expect(Math.min(...counts)).toBeGreaterThan(850)
+      expect(Math.max(...counts)).toBeLessThan(1150)
+    })
+
+    it('should be reproducible with a seeded source', () => {
+      const field = new FiniteField(65536)
+      expect(field.randomVector(10, new SeededRandom('seed'))).toEqual(field.randomVector(10, new SeededRandom('seed')))
+      expect(field.isElement(field.randomElement())).toBe(true)
+    })
+  })
+
+  describe('encoding', () => {
+    it('should round trip vectors and reject non-elements', () => {
+      const field = new FiniteField(4294967291)
+      const vector = field.randomVector(5)
+      const encoded = field.encodeVector(vector)
+
+      expect(encoded.length).toBe(20)
+      expect(field.decodeVector(encoded)).toEqual(vector)
+      expect(() => field.decodeVector(encoded.subarray(1))).toThrow('Invalid field element encoding')
+      expect(() => field.decodeVector(Buffer.alloc(4, 0xff))).toThrow('Invalid field element encoding')
+    })
+  })
+
+  describe('linear algebra', () => {
+    it.each([31, 256])('should solve and invert random systems over GF(%d)', order => {
+      const field = new FiniteField(order)
+      const random = new SeededRandom(`linear-${order}`)
+      const matrix = Array.from({ length: 6 }, () => field.randomVector(6, random))
+      const inverse = field.invertMatrix(matrix)
+      const identity = Array.from({ length: 6 }, (_, i) => Array.from({ length: 6 }, (__, j) => Number(i === j)))
+      const x = field.randomVector(6, random)
+
+      expect(inverse).not.toBeNull()
+      expect(field.multiplyMatrices(matrix, inverse!)).toEqual(identity)
+      expect(field.solve(matrix, field.multiplyMatrixVector(matrix, x))).toEqual(x)
+      expect(field.rank(matrix)).toBe(6)
+    })
+
+    it('should handle singular and underdetermined systems', () => {
+      const field = new FiniteField(31)
+      const singular = [
+        [1, 2, 3],
+        [2, 4, 6],
+        [0, 1, 1]
+      ]
+      const solution = field.solve(singular, [6, 12, 2])
+
+      expect(field.rank(singular)).toBe(2)
+      expect(field.invertMatrix(singular)).toBeNull()
+      expect(solution).not.toBeNull()
+      expect(field.multiplyMatrixVector(singular, solution!)).toEqual([6, 12, 2])
+      expect(field.solve(singular, [6, 13, 2])).toBeNull()
+      expect(field.dotProduct([1, 2, 3], [4, 5, 6])).toBe(32 % 31)
+    })
+
+    it('should reject mismatched dimensions', () => {
+      const field = new FiniteField(31)
+      expect(() => field.addVectors([1, 2], [1])).toThrow('Dimension mismatch: 2 vs 1')
+      expect(() => field.solve([[1, 2]], [1, 2])).toThrow('Dimension mismatch: 1 vs 2')
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { HashSignature } from '../src/algorithms/hash-signature'
+import type { XMSSPrivateKey, XMSSPublicKey } from '../src/types'
+
+describe('HashSignature', () => {
+  const message = 'hash-based signature message'
+
+  describe('WOTS+ one-time signatures', () => {
+    it('should sign and verify a message', () => {
+      const { privateKey, publicKey } = HashSignature.generateOneTimeKeyPair()
+      const signature = HashSignature.signOneTime(message, privateKey)
+
+      expect(signature).toHaveLength(67)
+      expect(HashSignature.verifyOneTime(message, signature, publicKey)).toBe(true)
+    })
+
+    it('should reject a different message or tampered signature', () => {
+      const { privateKey, publicKey } = HashSignature.generateOneTimeKeyPair()
+      const signature = HashSignature.signOneTime(message, privateKey)
+      const tampered = signature.map(value => Buffer.from(value))
+      tampered[10][0] ^= 1
+
+      expect(HashSignature.verifyOneTime('another message', signature, publicKey)).toBe(false)
+      expect(HashSignature.verifyOneTime(message, tampered, publicKey)).toBe(false)
+      expect(HashSignature.verifyOneTime(message, signature.slice(1), publicKey)).toBe(false)
+    })
+
+    it('should refuse to sign twice with the same key', () => {
+      const { privateKey } = HashSignature.generateOneTimeKeyPair()
+      HashSignature.signOneTime(message, privateKey)
+
+      expect(() => HashSignature.signOneTime(message, privateKey)).toThrow('One-time key has already been used')
+    })
+
+    it('should derive keys deterministically from a seed', () => {
+      const seed = Buffer.alloc(32, 7)
+
+      expect(HashSignature.generateOneTimeKeyPair(seed).publicKey).toEqual(
+        HashSignature.generateOneTimeKeyPair(seed).publicKey
+      )
+    })
+  })
+
+  describe('XMSS', () => {
+    let privateKey: XMSSPrivateKey
+    let publicKey: XMSSPublicKey
+
+    beforeEach(() => {
+      ;({ privateKey, publicKey } = HashSignature.generateKeyPair(4, Buffer.alloc(32, 1)))
+    })
+
+    it('should sign and verify messages with successive indices', () => {
+      const first = HashSignature.sign(message, privateKey)
+      const second = HashSignature.sign(message, privateKey)
+
+      expect(first.index).toBe(0)
+      expect(second.index).toBe(1)
+      expect(first.authPath).toHaveLength(4)
+      expect(HashSignature.verify(message, first, publicKey)).toBe(true)
+      expect(HashSignature.verify(message, second, publicKey)).toBe(true)
+      expect(HashSignature.getRemainingSignatures(privateKey)).toBe(14)
+    })
+
+    it('should reject signatures for other messages, indices or keys', () => {
+      const signature = HashSignature.sign(message, privateKey)
+      const other = HashSignature.generateKeyPair(4, Buffer.alloc(32, 2)).publicKey
+
+      expect(HashSignature.verify('another message', signature, publicKey)).toBe(false)
+      expect(HashSignature.verify(message, { ...signature, index: 1 }, publicKey)).toBe(false)
+      expect(HashSignature.verify(message, { ...signature, index: 16 }, publicKey)).toBe(false)
+      expect(HashSignature.verify(message, { ...signature, authPath: signature.authPath.slice(1) }, publicKey)).toBe(
+        false
+      )
+      expect(HashSignature.verify(message, signature, other)).toBe(false)
+    })
+
+    it('should refuse to sign once all one-time keys are used', () => {
+      for (let i = 0; i < 16; i++) {
+        HashSignature.sign(`${message} ${i}`, privateKey)
+      }
+
+      expect(HashSignature.getRemainingSignatures(privateKey)).toBe(0)
+      expect(() => HashSignature.sign(message, privateKey)).toThrow('XMSS private key is exhausted')
+    })
+
+    it('should expose parameter sets by tree height', () => {
+      expect(HashSignature.getSupportedHeights()).toEqual([4, 8, 10])
+      expect(HashSignature.getParameterSet(10)).toEqual({
+        name: 'XMSS-SHA2_10_256',
+        height: 10,
+        winternitz: 16,
+        hashLength: 32,
+        maxSignatures: 1024
+      })
+      expect(() => HashSignature.getParameterSet(12 as never)).toThrow('Unsupported XMSS tree height: 12')
+    })
+  })
+})
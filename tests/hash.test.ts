@@ -1,5 +1,6 @@
 import { HashZKP } from '../src/algorithms/hash'
 import { QuantumCrypto } from '../src/utils/crypto'
+import { ZKBoo } from '../src/utils/zkboo'
 import type { HashProof } from '../src/types'
 
 describe('HashZKP Algorithm', () => {
@@ -123,6 +124,191 @@ describe('HashZKP Algorithm', () => {
     })
   })
 
+  describe('statement verification', () => {
+    it('should generate statement holding the SHA-256 image', () => {
+      const statement = HashZKP.generateStatement(testSecret)
+      
+      expect(statement.type).toBe('hash')
+      expect(statement.image).toEqual(QuantumCrypto.hash(testSecret, 'sha256'))
+    })
+
+    it('should not accept chain proofs for a statement', () => {
+      const proof = HashZKP.createProof(testSecret)
+      const statement = HashZKP.generateStatement(testBuffer)
+      
+      expect(HashZKP.verifyProof(proof)).toBe(true)
+      expect(HashZKP.verifyProof(proof, statement)).toBe(false)
+    })
+
+    it('should reject proof against statement of a different secret', () => {
+      const proof = HashZKP.createProof('abc')
+      const statement = HashZKP.generateStatement('xyz')
+      
+      expect(HashZKP.verifyProof(proof, statement)).toBe(false)
+    })
+
+    it('should reject proof forged from the public statement', () => {
+      const proof = HashZKP.createProof('attacker-secret')
+      const statement = HashZKP.generateStatement('victim-secret')
+      const forgedProof = {
+        ...proof,
+        response: Buffer.concat([
+          proof.response.subarray(0, 32),
+          QuantumCrypto.hmac(proof.challenge, statement.image, 'sha256')
+        ]),
+        statementDigest: HashZKP.getStatementDigest(statement)
+      }
+      
+      expect(HashZKP.verifyProof(forgedProof)).toBe(true)
+      expect(HashZKP.verifyProof(forgedProof, statement)).toBe(false)
+      expect(HashZKP.verifyProof({ ...forgedProof, mode: 'compact' }, statement)).toBe(false)
+    })
+  })
+
+  describe('compact mode', () => {
+    const options = { hashMode: 'compact', chainLength: 1000, spotChecks: 16 } as const
+
+    it('should ship only endpoints and spot check openings', () => {
+      const proof = HashZKP.createProof(testSecret, options)
+
+      expect(proof.mode).toBe('compact')
+      expect(proof.hashChain).toHaveLength(2)
+      expect(proof.merkleTree).toBeUndefined()
+      expect(proof.openings).toHaveLength(1 + 2 * 16)
+      expect(proof.openings?.[0].index).toBe(999)
+      expect(HashZKP.verifyProof(proof)).toBe(true)
+    })
+
+    it('should be much smaller than a full chain proof', () => {
+      const compact = HashZKP.createProof(testSecret, options)
+      const full = HashZKP.createProof(testSecret, { chainLength: 1000 })
+      const size = (proof: HashProof): number =>
+        [...proof.hashChain, ...(proof.merkleTree ?? []).flat()].length +
+        (proof.openings ?? []).reduce((total, opening) => total + 1 + opening.path.length, 0)
+
+      expect(size(compact) * 8).toBeLessThan(size(full))
+    })
+
+    it('should reject statements of a different secret', () => {
+      const proof = HashZKP.createProof(testSecret, options)
+
+      expect(HashZKP.verifyProof(proof, HashZKP.generateStatement('xyz'))).toBe(false)
+    })
+
+    it('should reject unlinked or unauthenticated openings', () => {
+      const proof = HashZKP.createProof(testSecret, options)
+      const openings = proof.openings!.map(opening => ({ ...opening }))
+      openings[2].value = Buffer.alloc(32)
+
+      expect(HashZKP.verifyProof({ ...proof, openings })).toBe(false)
+      expect(HashZKP.verifyProof({ ...proof, openings: proof.openings!.slice(0, -2) })).toBe(false)
+      expect(HashZKP.verifyProof({ ...proof, hashChain: [proof.hashChain[0], Buffer.alloc(32)] })).toBe(false)
+    })
+
+    it('should reject proofs with fewer spot checks than the verifier minimum', () => {
+      const proof = HashZKP.createProof(testSecret, options)
+      const openings = proof.openings!.slice(0, 1 + 2 * 8)
+
+      expect(HashZKP.verifyProof({ ...proof, openings, parameters: { ...options, spotChecks: 8 } })).toBe(false)
+    })
+
+    it('should reject spot check counts that do not match the openings', () => {
+      const proof = HashZKP.createProof(testSecret, options)
+
+      expect(HashZKP.verifyProof({ ...proof, parameters: { ...options, spotChecks: 17 } })).toBe(false)
+      expect(HashZKP.verifyProof({ ...proof, parameters: { ...options, spotChecks: 1e9 } })).toBe(false)
+    })
+
+    it('should reject invalid spot check counts', () => {
+      expect(() => HashZKP.createProof(testSecret, { hashMode: 'compact', spotChecks: 0 })).toThrow(
+        'Invalid hash parameters'
+      )
+      expect(() => HashZKP.createProof(testSecret, { hashMode: 'compact', spotChecks: 8 })).toThrow(
+        'Invalid hash parameters'
+      )
+    })
+  })
+
+  describe('RFC 6962 Merkle scheme', () => {
+    it('should commit to the chain with a domain-separated tree', () => {
+      const proof = HashZKP.createProof(testSecret, { chainLength: 100, merkleScheme: 'rfc6962' })
+      const tree = QuantumCrypto.createMerkleTree(proof.hashChain)
+
+      expect(proof.parameters.merkleScheme).toBe('rfc6962')
+      expect(proof.commitmentChain).toEqual(tree.root)
+      expect(HashZKP.verifyProof(proof)).toBe(true)
+    })
+
+    it('should support compact proofs', () => {
+      const proof = HashZKP.createProof(testSecret, { hashMode: 'compact', merkleScheme: 'rfc6962' })
+
+      expect(HashZKP.verifyProof(proof)).toBe(true)
+    })
+
+    it('should reject proofs verified under the other scheme', () => {
+      const proof = HashZKP.createProof(testSecret, { chainLength: 100, merkleScheme: 'rfc6962' })
+
+      expect(HashZKP.verifyProof({ ...proof, parameters: { chainLength: 100 } })).toBe(false)
+    })
+  })
+
+  describe('preimage mode', () => {
+    const options = { hashMode: 'preimage', repetitions: ZKBoo.MIN_REPETITIONS } as const
+    let proof: HashProof
+
+    beforeAll(() => {
+      proof = HashZKP.createProof(testSecret, options)
+    })
+
+    it('should prove knowledge of the SHA-256 preimage', () => {
+      expect(proof.mode).toBe('preimage')
+      expect(proof.image).toEqual(QuantumCrypto.hash(testSecret, 'sha256'))
+      expect(proof.parameters).toEqual(options)
+      expect(HashZKP.verifyProof(proof, HashZKP.generateStatement(testSecret))).toBe(true)
+    })
+
+    it('should reject statements about a different image', () => {
+      expect(HashZKP.verifyProof(proof, HashZKP.generateStatement('xyz'))).toBe(false)
+    })
+
+    it('should reject proofs moved to a different image', () => {
+      const image = QuantumCrypto.hash('xyz', 'sha256')
+      const moved = { ...proof, image, statementDigest: HashZKP.getStatementDigest({ type: 'hash', image }) }
+
+      expect(HashZKP.verifyProof(moved)).toBe(false)
+    })
+
+    it('should reject proofs with more repetitions than proven', () => {
+      expect(HashZKP.verifyProof({ ...proof, parameters: { ...options, repetitions: options.repetitions + 1 } })).toBe(false)
+      expect(HashZKP.verifyProof({ ...proof, parameters: { ...options, repetitions: 1e9 } })).toBe(false)
+    })
+
+    it('should reject proofs with fewer repetitions than the verifier minimum', () => {
+      const repetitions = 8
+      const low = ZKBoo.prove(testBuffer, repetitions)
+      const forged = {
+        ...proof,
+        commitment: low.commitment,
+        challenge: low.challenge,
+        response: low.response,
+        commitmentChain: low.commitment,
+        parameters: { hashMode: 'preimage', repetitions } as const
+      }
+
+      expect(ZKBoo.verify(low.image, low.commitment, low.challenge, low.response, repetitions, repetitions)).toBe(true)
+      expect(HashZKP.verifyProof(forged, HashZKP.generateStatement(testSecret))).toBe(false)
+    })
+
+    it('should reject invalid repetition counts', () => {
+      expect(() => HashZKP.createProof(testSecret, { hashMode: 'preimage', repetitions: 0 })).toThrow(
+        'Invalid hash parameters'
+      )
+      expect(() => HashZKP.createProof(testSecret, { hashMode: 'preimage', repetitions: 8 })).toThrow(
+        'Invalid hash parameters'
+      )
+    })
+  })
+
   describe('hash chain operations', () => {
     it('should create valid hash chain', () => {
       const seed = Buffer.from('test-seed', 'utf8')
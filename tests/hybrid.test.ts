@@ -2,6 +2,7 @@ import { HybridZKP } from '../src/algorithms/hybrid'
 import { HashZKP } from '../src/algorithms/hash'
 import { LatticeZKP } from '../src/algorithms/lattice'
 import { MultivariateZKP } from '../src/algorithms/multivariate'
+import { SeededRandom } from '../src/utils/random'
 import type { HybridProof, AlgorithmType } from '../src/types'
 
 describe('HybridZKP Algorithm', () => {
@@ -128,10 +129,48 @@ describe('HybridZKP Algorithm', () => {
     })
   })
 
+  describe('statement verification', () => {
+    it('should generate component statements for each algorithm', () => {
+      const statement = HybridZKP.generateStatement(testSecret)
+      
+      expect(statement.type).toBe('hybrid')
+      expect(statement.statements.map(component => component.type)).toEqual(['lattice', 'hash', 'multivariate'])
+    })
+
+    it('should verify proof of knowledge components against statement of the same secret', () => {
+      const algorithms: AlgorithmType[] = ['lattice', 'multivariate']
+      const proof = HybridZKP.createProof(testSecret, { algorithms, latticeMode: 'sigma', multivariateMode: 'mq5' })
+      
+      expect(proof.proofs.map(component => component.mode)).toEqual(['sigma', 'mq5'])
+      expect(HybridZKP.verifyProof(proof, HybridZKP.generateStatement(testSecret, { algorithms }))).toBe(true)
+      expect(HybridZKP.verifyProof(proof, HybridZKP.generateStatement('xyz', { algorithms }))).toBe(false)
+    })
+
+    it('should not accept default components for a statement', () => {
+      const proof = HybridZKP.createProof(testSecret, { algorithms: ['hash', 'multivariate'] })
+      const statement = HybridZKP.generateStatement(testSecret, { algorithms: ['hash', 'multivariate'] })
+      
+      expect(HybridZKP.verifyProof(proof)).toBe(true)
+      expect(HybridZKP.verifyProof(proof, statement)).toBe(false)
+    })
+
+    it('should reject proof forged from the public statement', () => {
+      const proof = HybridZKP.createProof('attacker-secret', { algorithms: ['hash', 'multivariate'] })
+      const statement = HybridZKP.generateStatement('victim-secret', { algorithms: ['hash', 'multivariate'] })
+      const proofs = proof.proofs.map((component, i) => ({
+        ...component,
+        statementDigest: HybridZKP['getComponentDigest'](statement.statements[i])
+      }))
+      const forgedProof = { ...proof, proofs, statementDigest: HybridZKP.getStatementDigest(statement) }
+      
+      expect(HybridZKP.verifyProof(forgedProof, statement)).toBe(false)
+    })
+  })
+
   describe('component proof generation', () => {
     it('should generate component proofs', () => {
       const algorithms: AlgorithmType[] = ['hash', 'lattice']
-      const proofs = HybridZKP['generateComponentProofs'](testBuffer, algorithms)
+      const proofs = HybridZKP['generateComponentProofs'](testBuffer, algorithms, {})
       
       expect(proofs).toBeDefined()
       expect(proofs.length).toBe(2)
@@ -141,7 +180,7 @@ describe('HybridZKP Algorithm', () => {
 
     it('should generate all component proof types', () => {
       const algorithms: AlgorithmType[] = ['hash', 'lattice', 'multivariate']
-      const proofs = HybridZKP['generateComponentProofs'](testBuffer, algorithms)
+      const proofs = HybridZKP['generateComponentProofs'](testBuffer, algorithms, {})
       
       expect(proofs.length).toBe(3)
       expect(proofs.some(p => p.type === 'hash')).toBe(true)
@@ -316,6 +355,18 @@ describe('HybridZKP Algorithm', () => {
       expect(proof.proofs.length).toBe(3) // hash, lattice, multivariate
       expect(proof.quantumSafe).toBe(true)
     })
+
+    it('should create reproducible proofs from a seeded random source', () => {
+      const optimized = HybridZKP.createOptimizedProof(testSecret, ['hash', 'lattice'], new SeededRandom('optimized'))
+      const maximum = HybridZKP.createMaximumSecurityProof(testSecret, new SeededRandom('maximum'))
+
+      expect(HybridZKP.createOptimizedProof(testSecret, ['hash', 'lattice'], new SeededRandom('optimized')).response).toEqual(
+        optimized.response
+      )
+      expect(HybridZKP.createMaximumSecurityProof(testSecret, new SeededRandom('maximum')).response).toEqual(
+        maximum.response
+      )
+    })
   })
 
   describe('performance metrics', () => {
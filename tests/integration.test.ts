@@ -4,6 +4,8 @@ import { LatticeZKP } from '../src/algorithms/lattice'
 import { MultivariateZKP } from '../src/algorithms/multivariate'
 import { HybridZKP } from '../src/algorithms/hybrid'
 import { QuantumCrypto } from '../src/utils/crypto'
+import { ProofSerializer } from '../src/utils/serialization'
+import { SeededRandom } from '../src/utils/random'
 
 describe('QuantumZKP Integration Tests', () => {
   const testSecret = 'integration-test-secret'
@@ -28,6 +30,32 @@ describe('QuantumZKP Integration Tests', () => {
       }
     })
 
+    it('should verify proofs against public statements', () => {
+      const proof = zkp.createProof('abc', 'hash', { hashMode: 'preimage' })
+      const ownStatement = zkp.generateStatement('abc', 'hash')
+      const otherStatement = zkp.generateStatement('xyz', 'hash')
+      
+      expect(zkp.verifyProof(proof, ownStatement).isValid).toBe(true)
+      expect(zkp.verifyProof(proof, otherStatement).isValid).toBe(false)
+      expect(zkp.verifyProof(zkp.createProof('abc', 'hash'), ownStatement).isValid).toBe(false)
+    })
+
+    it('should verify lattice sigma proofs against public statements', () => {
+      const proof = zkp.createProof('abc', 'lattice', { latticeMode: 'sigma' })
+      
+      expect(zkp.verifyProof(proof, zkp.generateStatement('abc', 'lattice')).isValid).toBe(true)
+      expect(zkp.verifyProof(proof, zkp.generateStatement('xyz', 'lattice')).isValid).toBe(false)
+    })
+
+    it('should report mismatched statement types', () => {
+      const proof = zkp.createProof(testSecret, 'hash')
+      const statement = zkp.generateStatement(testSecret, 'multivariate')
+      const result = zkp.verifyProof(proof, statement)
+      
+      expect(result.isValid).toBe(false)
+      expect(result.error).toContain('does not match proof type')
+    })
+
     it('should handle batch proof creation', () => {
       const secrets = ['secret1', 'secret2', 'secret3']
       const proofs = zkp.batchCreateProofs(secrets, 'hash')
@@ -37,12 +65,76 @@ describe('QuantumZKP Integration Tests', () => {
     })
 
     it('should create threshold proofs', () => {
-      const thresholdProof = zkp.createThresholdProof(testSecret, 3, 'hash')
+      const { thresholdProof, shares } = zkp.createThresholdProof(testSecret, 3, 'hash')
       
       expect(thresholdProof.parties).toBe(3)
       expect(thresholdProof.threshold).toBe(2) // Math.ceil(3/2)
       expect(thresholdProof.proofs.length).toBe(3)
       expect(thresholdProof.quantumSafe).toBe(true)
+      expect(shares.length).toBe(3)
+    })
+
+    it('should not publish shares or openings in the threshold proof', () => {
+      const { thresholdProof, shares } = zkp.createThresholdProof(testSecret, 3, 'lattice')
+      const published = Buffer.from(ProofSerializer.serializeThresholdProof(thresholdProof))
+      
+      expect(thresholdProof).not.toHaveProperty('shares')
+      expect(thresholdProof).not.toHaveProperty('openings')
+      shares.forEach(({ share, opening }) => {
+        expect(published.includes(share)).toBe(false)
+        expect(published.includes(opening)).toBe(false)
+      })
+    })
+
+    it('should create reproducible proofs from a seeded random source', () => {
+      const first = new QuantumZKP({ random: new SeededRandom('known-answer') })
+      const second = new QuantumZKP({ random: new SeededRandom('known-answer') })
+
+      for (const algorithm of ['hash', 'lattice', 'multivariate', 'hybrid'] as const) {
+        const proof = first.createProof(testSecret, algorithm)
+        const replayed = second.createProof(testSecret, algorithm)
+
+        expect(replayed.commitment).toEqual(proof.commitment)
+        expect(replayed.challenge).toEqual(proof.challenge)
+        expect(replayed.response).toEqual(proof.response)
+        expect(first.verifyProof(proof).isValid).toBe(true)
+      }
+      expect(second.createThresholdProof(testSecret, 3, 'hash').thresholdProof.commitments).toEqual(
+        first.createThresholdProof(testSecret, 3, 'hash').thresholdProof.commitments
+      )
+    })
+
+    it('should reconstruct the secret from threshold shares', () => {
+      const { shares } = zkp.createThresholdProof(testSecret, 5, 'hash', 3)
+      const [first, , third, , fifth] = shares
+
+      expect(zkp.reconstructSecret([fifth, first, third!]).toString('utf8')).toBe(testSecret)
+      expect(() => zkp.reconstructSecret([first, third!])).toThrow('At least 3 shares are required')
+    })
+
+    it('should let each party verify the proof for its own share', () => {
+      const { thresholdProof, shares } = zkp.createThresholdProof(testSecret, 3, 'hash')
+
+      shares.forEach(share => {
+        expect(zkp.verifyPartyProof(share, thresholdProof)).toBe(true)
+      })
+      const forged = Buffer.from(shares[1].share)
+      forged[forged.length - 1] ^= 1
+      expect(zkp.verifyPartyProof({ ...shares[1], share: forged }, thresholdProof)).toBe(false)
+    })
+
+    it('should verify shares against the dealing commitments', () => {
+      const { thresholdProof, shares } = zkp.createThresholdProof(testSecret, 4, 'hash', 3)
+      const [first, second, third] = shares
+      const forged = { ...second, share: Buffer.from(second.share) }
+      forged.share[2] ^= 0xff
+
+      expect(zkp.verifyShare(first, 1, thresholdProof)).toBe(true)
+      expect(zkp.verifyShare(forged, 2, thresholdProof)).toBe(false)
+      expect(zkp.reconstructSecret([first, second, third!], thresholdProof).toString('utf8')).toBe(testSecret)
+      expect(() => zkp.reconstructSecret([first, forged, third!], thresholdProof)).toThrow(
+        'Share 2 is inconsistent with the dealing commitments'
+      )
     })
 
     it('should get performance metrics for all algorithms', () => {
@@ -0,0 +1,197 @@
+import { ProofJSON } from '../src/utils/json'
+import { QuantumZKP } from '../src/core/quantum-zkp'
+import { HashZKP } from '../src/algorithms/hash'
+import { LatticeZKP } from '../src/algorithms/lattice'
+import { MultivariateZKP } from '../src/algorithms/multivariate'
+import { HybridZKP } from '../src/algorithms/hybrid'
+import { ZKPError } from '../src/types'
+import type { Proof, HashProof, LatticeProof, MultivariateProof, ProofType } from '../src/types'
+
+describe('ProofJSON', () => {
+  const testSecret = 'json-test-secret'
+
+  const expectRoundTrip = (proof: Proof): Proof => {
+    const json = ProofJSON.proofToJSON(proof)
+    const decoded = ProofJSON.proofFromJSON(json)
+
+    expect(decoded).toEqual(proof)
+    expect(ProofJSON.proofToJSON(decoded)).toBe(json)
+    return decoded
+  }
+
+  const expectError = (json: string, code: string, path: string): void => {
+    try {
+      ProofJSON.proofFromJSON(json)
+      throw new Error('Expected ZKPError')
+    } catch (error) {
+      expect(error).toBeInstanceOf(ZKPError)
+      expect((error as ZKPError).code).toBe(code)
+      expect((error as ZKPError).path).toBe(path)
+    }
+  }
+
+  const mutate = (proof: Proof, change: (value: Record<string, unknown>) => void): string => {
+    const value = JSON.parse(ProofJSON.proofToJSON(proof)) as Record<string, unknown>
+    change(value)
+    return JSON.stringify(value)
+  }
+
+  describe('round trip', () => {
+    it('should round trip hash proofs', () => {
+      const decoded = expectRoundTrip(HashZKP.createProof(testSecret, { chainLength: 100 }))
+      expect(HashZKP.verifyProof(decoded as HashProof)).toBe(true)
+    })
+
+    it('should round trip hash compact proofs', () => {
+      const decoded = expectRoundTrip(HashZKP.createProof(testSecret, { hashMode: 'compact', chainLength: 100 }))
+      expect(HashZKP.verifyProof(decoded as HashProof)).toBe(true)
+    })
+
+    it('should round trip hash preimage proofs', () => {
+      const decoded = expectRoundTrip(HashZKP.createProof(testSecret, { hashMode: 'preimage' }))
+      expect(HashZKP.verifyProof(decoded as HashProof, HashZKP.generateStatement(testSecret))).toBe(true)
+    })
+
+    it('should round trip lattice sigma proofs', () => {
+      const decoded = expectRoundTrip(LatticeZKP.createProof(testSecret, { latticeMode: 'sigma' }))
+      expect(LatticeZKP.verifyProof(decoded as LatticeProof, LatticeZKP.generateStatement(testSecret))).toBe(true)
+    })
+
+    it('should round trip multivariate proofs', () => {
+      expectRoundTrip(MultivariateZKP.createProof(testSecret))
+    })
+
+    it('should round trip MQ identification proofs', () => {
+      const decoded = expectRoundTrip(MultivariateZKP.createProof(testSecret, { multivariateMode: 'mq3' }))
+      const statement = MultivariateZKP.generateStatement(testSecret)
+      expect(MultivariateZKP.verifyProof(decoded as MultivariateProof, statement)).toBe(true)
+    })
+
+    it('should round trip hybrid proofs', () => {
+      expectRoundTrip(HybridZKP.createProof(testSecret, { algorithms: ['hash', 'multivariate'] }))
+    })
+
+    it('should be exposed through QuantumZKP', () => {
+      const zkp = new QuantumZKP()
+      const proof = zkp.createProof(testSecret, 'hash')
+
+      expect(zkp.verifyProof(zkp.proofFromJSON(zkp.proofToJSON(proof))).isValid).toBe(true)
+    })
+  })
+
+  describe('canonical encoding', () => {
+    it('should sort keys and use base64url and decimal strings', () => {
+      const proof = LatticeZKP.createProof(testSecret, { latticeMode: 'sigma' })
+      const json = ProofJSON.proofToJSON(proof)
+      const value = JSON.parse(json) as Record<string, unknown>
+
+      expect(Object.keys(value)).toEqual(Object.keys(value).sort())
+      expect(value['modulus']).toBe(proof.modulus.toString())
+      expect(value['commitment']).toBe(proof.commitment.toString('base64url'))
+      expect(json).not.toContain('=')
+    })
+
+    it('should not depend on property insertion order', () => {
+      const proof = MultivariateZKP.createProof(testSecret)
+      const reordered = Object.fromEntries(Object.entries(proof).reverse()) as unknown as Proof
+
+      expect(ProofJSON.proofToJSON(reordered)).toBe(ProofJSON.proofToJSON(proof))
+    })
+  })
+
+  describe('strict decoding', () => {
+    let hybrid: Proof
+
+    beforeAll(() => {
+      hybrid = HybridZKP.createProof(testSecret, { algorithms: ['hash', 'multivariate'] })
+    })
+
+    it('should reject malformed JSON', () => {
+      expectError('{', 'JSON_PARSE_ERROR', '$')
+    })
+
+    it('should reject unknown proof types', () => {
+      expectError(
+        mutate(hybrid, value => (value['type'] = 'quantum')),
+        'JSON_UNKNOWN_PROOF_TYPE',
+        '$.type'
+      )
+    })
+
+    it('should report missing fields with their path', () => {
+      expectError(
+        mutate(hybrid, value => delete value['combined']),
+        'JSON_MISSING_FIELD',
+        '$.combined'
+      )
+    })
+
+    it('should report unknown fields with their path', () => {
+      expectError(
+        mutate(hybrid, value => (value['extra'] = true)),
+        'JSON_UNKNOWN_FIELD',
+        '$.extra'
+      )
+    })
+
+    it.each(['__proto__', 'constructor', 'toString', 'hasOwnProperty'])(
+      'should reject the inherited key %s as an unknown field',
+      key => {
+        const json = ProofJSON.proofToJSON(hybrid)
+        const injected = `{"${key}":{"mode":"preimage","polluted":1},${json.slice(1)}`
+        const nested = json.replace('"parameters":{', `"parameters":{"${key}":1,`)
+
+        expectError(injected, 'JSON_UNKNOWN_FIELD', `$.${key}`)
+        expectError(nested, 'JSON_UNKNOWN_FIELD', `$.parameters.${key}`)
+      }
+    )
+
+    it('should report nested type errors with their path', () => {
+      const json = mutate(hybrid, value => {
+        ;(value['proofs'] as Record<string, unknown>[])[1]['commitment'] = 42
+      })
+      expectError(json, 'JSON_INVALID_TYPE', '$.proofs[1].commitment')
+    })
+
+    it('should reject malformed base64url', () => {
+      const json = mutate(hybrid, value => {
+        ;(value['proofs'] as Record<string, unknown>[])[0]['challenge'] = 'not+base64/'
+      })
+      expectError(json, 'JSON_INVALID_FORMAT', '$.proofs[0].challenge')
+    })
+
+    it('should reject non-canonical bigints', () => {
+      const json = mutate(LatticeZKP.createProof(testSecret, { latticeMode: 'sigma' }), value => {
+        value['modulus'] = '0123'
+      })
+      expectError(json, 'JSON_INVALID_FORMAT', '$.modulus')
+    })
+
+    it('should reject invalid parameter values', () => {
+      const json = mutate(hybrid, value => {
+        ;(value['parameters'] as Record<string, unknown>)['algorithms'] = ['hash', 'quantum']
+      })
+      expectError(json, 'JSON_INVALID_VALUE', '$.parameters.algorithms[1]')
+    })
+  })
+
+  describe('schemas', () => {
+    it('should publish a schema for every proof type', () => {
+      const types: ProofType[] = ['lattice', 'hash', 'multivariate', 'hybrid']
+
+      for (const type of types) {
+        const schema = ProofJSON.getSchema(type)
+        expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema')
+        expect(schema.properties?.['type']?.const).toBe(type)
+        expect(schema.additionalProperties).toBe(false)
+      }
+    })
+
+    it('should define component proofs for hybrid schemas', () => {
+      const schema = ProofJSON.getSchema('hybrid')
+
+      expect(Object.keys(schema.$defs ?? {})).toEqual(['lattice', 'hash', 'multivariate'])
+      expect(schema.properties?.['proofs']?.items?.oneOf).toHaveLength(3)
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import { LatticeKEM } from '../src/algorithms/lattice-kem'
+import type { KEMParameterSet } from '../src/types'
+
+describe('LatticeKEM', () => {
+  describe('encapsulate / decapsulate', () => {
+    it.each<KEMParameterSet>(['kem-512', 'kem-768', 'kem-1024'])('should agree on a shared secret with %s', name => {
+      const { privateKey, publicKey } = LatticeKEM.generateKeyPair(name)
+      const { ciphertext, sharedSecret } = LatticeKEM.encapsulate(publicKey)
+
+      expect(sharedSecret.length).toBe(32)
+      expect(ciphertext.length).toBe(LatticeKEM.getCiphertextSize(name))
+      expect(publicKey.t.length + publicKey.seed.length).toBe(LatticeKEM.getPublicKeySize(name))
+      expect(LatticeKEM.decapsulate(ciphertext, privateKey)).toEqual(sharedSecret)
+    })
+
+    it('should derive keys deterministically from a seed', () => {
+      const seed = Buffer.alloc(32, 7)
+      const first = LatticeKEM.generateKeyPair('kem-512', seed)
+      const second = LatticeKEM.generateKeyPair('kem-512', seed)
+
+      expect(first.publicKey.t).toEqual(second.publicKey.t)
+      expect(first.privateKey.s).toEqual(second.privateKey.s)
+      expect(LatticeKEM.generateKeyPair('kem-512').publicKey.t).not.toEqual(first.publicKey.t)
+    })
+
+    it('should implicitly reject tampered ciphertexts', () => {
+      const { privateKey, publicKey } = LatticeKEM.generateKeyPair('kem-512')
+      const { ciphertext, sharedSecret } = LatticeKEM.encapsulate(publicKey)
+      const tampered = Buffer.from(ciphertext)
+      tampered[0] ^= 0x01
+
+      const rejected = LatticeKEM.decapsulate(tampered, privateKey)
+      expect(rejected).not.toEqual(sharedSecret)
+      expect(rejected.length).toBe(32)
+      expect(LatticeKEM.decapsulate(tampered, privateKey)).toEqual(rejected)
+    })
+
+    it('should not decapsulate with another key', () => {
+      const alice = LatticeKEM.generateKeyPair('kem-512')
+      const bob = LatticeKEM.generateKeyPair('kem-512')
+      const { ciphertext, sharedSecret } = LatticeKEM.encapsulate(alice.publicKey)
+
+      expect(LatticeKEM.decapsulate(ciphertext, bob.privateKey)).not.toEqual(sharedSecret)
+    })
+
+    it('should reject malformed inputs', () => {
+      const { privateKey, publicKey } = LatticeKEM.generateKeyPair('kem-512')
+      const overflowing = { ...publicKey, t: Buffer.alloc(publicKey.t.length, 0xff) }
+
+      expect(() => LatticeKEM.encapsulate(overflowing)).toThrow('Invalid KEM public key')
+      expect(() => LatticeKEM.decapsulate(Buffer.alloc(10), privateKey)).toThrow('Invalid KEM ciphertext length')
+      expect(() => LatticeKEM.getParameterSet('kem-256' as KEMParameterSet)).toThrow('Unsupported KEM parameter set')
+    })
+  })
+
+  describe('compress / decompress', () => {
+    it('should round to within q / 2^(d+1)', () => {
+      for (const bits of [1, 4, 10, 11]) {
+        for (let value = 0; value < 3329; value++) {
+          const restored = LatticeKEM.decompress(LatticeKEM.compress(value, bits), bits)
+          const distance = Math.abs(restored - value)
+          expect(Math.min(distance, 3329 - distance)).toBeLessThanOrEqual(Math.round(3329 / 2 ** (bits + 1)))
+        }
+      }
+    })
+
+    it('should report ciphertext sizes of the parameter sets', () => {
+      expect(LatticeKEM.getCiphertextSize('kem-512')).toBe(768)
+      expect(LatticeKEM.getCiphertextSize('kem-768')).toBe(1088)
+      expect(LatticeKEM.getCiphertextSize('kem-1024')).toBe(1568)
+      expect(LatticeKEM.getPublicKeySize('kem-768')).toBe(1184)
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { LatticeSignature } from '../src/algorithms/lattice-signature'
+import type { DilithiumParameterSet } from '../src/types'
+
+describe('LatticeSignature', () => {
+  const message = 'lattice signature message'
+
+  describe('sign / verify', () => {
+    it.each<DilithiumParameterSet>(['dilithium-2', 'dilithium-3', 'dilithium-5'])(
+      'should sign and verify with %s',
+      name => {
+        const { privateKey, publicKey } = LatticeSignature.generateKeyPair(name)
+        const signature = LatticeSignature.sign(message, privateKey)
+        const size = signature.challenge.length + signature.z.length + signature.hint.length
+
+        expect(size).toBe(LatticeSignature.getSignatureSize(name))
+        expect(publicKey.seed.length + publicKey.t1.length).toBe(LatticeSignature.getPublicKeySize(name))
+        expect(LatticeSignature.verify(message, signature, publicKey)).toBe(true)
+      }
+    )
+
+    it('should derive keys deterministically from a seed', () => {
+      const seed = Buffer.alloc(32, 3)
+      const first = LatticeSignature.generateKeyPair('dilithium-2', seed)
+      const second = LatticeSignature.generateKeyPair('dilithium-2', seed)
+
+      expect(first.publicKey).toEqual(second.publicKey)
+      expect(first.privateKey).toEqual(second.privateKey)
+      expect(LatticeSignature.generateKeyPair('dilithium-3', seed).publicKey.seed).not.toEqual(first.publicKey.seed)
+    })
+
+    it('should reject wrong messages, keys and tampered signatures', () => {
+      const { privateKey, publicKey } = LatticeSignature.generateKeyPair('dilithium-2')
+      const other = LatticeSignature.generateKeyPair('dilithium-2')
+      const signature = LatticeSignature.sign(message, privateKey)
+      const tamperedZ = Buffer.from(signature.z)
+      tamperedZ[10] ^= 0x04
+      const tamperedChallenge = Buffer.from(signature.challenge)
+      tamperedChallenge[0] ^= 0x01
+
+      expect(LatticeSignature.verify('other message', signature, publicKey)).toBe(false)
+      expect(LatticeSignature.verify(message, signature, other.publicKey)).toBe(false)
+      expect(LatticeSignature.verify(message, { ...signature, z: tamperedZ }, publicKey)).toBe(false)
+      expect(LatticeSignature.verify(message, { ...signature, challenge: tamperedChallenge }, publicKey)).toBe(false)
+    })
+
+    it('should reject malformed hints and encodings', () => {
+      const { privateKey, publicKey } = LatticeSignature.generateKeyPair('dilithium-2')
+      const signature = LatticeSignature.sign(message, privateKey)
+      const overfull = Buffer.from(signature.hint)
+      overfull[overfull.length - 1] = 81
+
+      expect(LatticeSignature.verify(message, { ...signature, hint: overfull }, publicKey)).toBe(false)
+      expect(LatticeSignature.verify(message, { ...signature, z: signature.z.subarray(1) }, publicKey)).toBe(false)
+      expect(LatticeSignature.verify(message, signature, { ...publicKey, parameterSet: 'dilithium-3' })).toBe(false)
+      expect(() => LatticeSignature.getParameterSet('dilithium-4' as DilithiumParameterSet)).toThrow(
+        'Unsupported Dilithium parameter set'
+      )
+    })
+  })
+
+  describe('sizes', () => {
+    it('should match the FIPS 204 encodings', () => {
+      expect(LatticeSignature.getSignatureSize('dilithium-2')).toBe(2420)
+      expect(LatticeSignature.getSignatureSize('dilithium-3')).toBe(3309)
+      expect(LatticeSignature.getSignatureSize('dilithium-5')).toBe(4627)
+      expect(LatticeSignature.getPublicKeySize('dilithium-2')).toBe(1312)
+      expect(LatticeSignature.getPublicKeySize('dilithium-5')).toBe(2592)
+    })
+
+    it('should report performance metrics', () => {
+      const metrics = LatticeSignature.getPerformanceMetrics()
+
+      expect(metrics.proofSize).toBe(2420)
+      expect(metrics.generationTime).toBeGreaterThan(0)
+      expect(metrics.verificationTime).toBeGreaterThan(0)
+    })
+  })
+})
@@ -61,6 +61,14 @@ describe('LatticeZKP Algorithm', () => {
       expect(() => LatticeZKP.createProof(testSecret, { dimension: 64 }))
         .toThrow('Invalid lattice parameters')
     })
+
+    it('should accept non power of two dimensions without a statement digest', () => {
+      const proof = LatticeZKP.createProof(testSecret, { dimension: 200 })
+
+      expect(proof.dimension).toBe(200)
+      expect(proof.statementDigest).toBeUndefined()
+      expect(LatticeZKP.verifyProof(proof)).toBe(true)
+    })
   })
 
   describe('verifyProof', () => {
@@ -121,6 +129,106 @@ describe('LatticeZKP Algorithm', () => {
     })
   })
 
+  describe('statement verification', () => {
+    it('should generate deterministic LWE statement', () => {
+      const statement1 = LatticeZKP.generateStatement(testSecret)
+      const statement2 = LatticeZKP.generateStatement(testBuffer)
+      
+      expect(statement1.type).toBe('lattice')
+      expect(statement1.dimension).toBe(256)
+      expect(statement1.publicKey.length).toBe(2 * 256 * 4)
+      expect(statement1.publicKey).toEqual(statement2.publicKey)
+    })
+
+    it('should not accept default proofs for a statement', () => {
+      const proof = LatticeZKP.createProof(testSecret, { modulus: 2n ** 512n })
+      const statement = LatticeZKP.generateStatement(testSecret)
+      
+      expect(LatticeZKP.verifyProof(proof)).toBe(true)
+      expect(LatticeZKP.verifyProof(proof, statement)).toBe(false)
+    })
+
+    it('should reject proof forged from the public statement', () => {
+      const proof = LatticeZKP.createProof('attacker-secret', { modulus: 2n ** 512n })
+      const statement = LatticeZKP.generateStatement('victim-secret')
+      const forgedProof = { ...proof, statementDigest: LatticeZKP.getStatementDigest(statement) }
+      
+      expect(LatticeZKP.verifyProof(forgedProof)).toBe(true)
+      expect(LatticeZKP.verifyProof(forgedProof, statement)).toBe(false)
+    })
+
+    it('should reject proof against statement of a different secret', () => {
+      const proof = LatticeZKP.createProof('abc', { modulus: 2n ** 512n })
+      const statement = LatticeZKP.generateStatement('xyz')
+      
+      expect(LatticeZKP.verifyProof(proof, statement)).toBe(false)
+    })
+
+    it('should reject non power of two dimensions', () => {
+      expect(() => LatticeZKP.generateStatement(testSecret, { dimension: 200 }))
+        .toThrow('Invalid lattice parameters')
+    })
+  })
+
+  describe('sigma mode', () => {
+    let sigmaProof: LatticeProof
+
+    beforeAll(() => {
+      sigmaProof = LatticeZKP.createProof(testSecret, { latticeMode: 'sigma' })
+    })
+
+    it('should create sigma proof with public key and ring modulus', () => {
+      expect(sigmaProof.mode).toBe('sigma')
+      expect(sigmaProof.modulus).toBe(8380417n)
+      expect(sigmaProof.dimension).toBe(256)
+      expect(sigmaProof.publicKey).toEqual(LatticeZKP.generateStatement(testSecret).publicKey)
+      expect(sigmaProof.parameters.latticeMode).toBe('sigma')
+    })
+
+    it('should verify sigma proof with and without statement', () => {
+      expect(LatticeZKP.verifyProof(sigmaProof)).toBe(true)
+      expect(LatticeZKP.verifyProof(sigmaProof, LatticeZKP.generateStatement(testSecret))).toBe(true)
+    })
+
+    it('should reject sigma proof against statement of a different secret', () => {
+      expect(LatticeZKP.verifyProof(sigmaProof, LatticeZKP.generateStatement('other-secret'))).toBe(false)
+    })
+
+    it('should reject sigma proof with tampered response', () => {
+      const response = Buffer.from(sigmaProof.response)
+      response.writeInt32BE(response.readInt32BE(0) + 1, 0)
+      
+      expect(LatticeZKP.verifyProof({ ...sigmaProof, response })).toBe(false)
+    })
+
+    it('should reject sigma proof with response outside the norm bound', () => {
+      const response = Buffer.from(sigmaProof.response)
+      response.writeInt32BE(1 << 17, 0)
+      
+      expect(LatticeZKP.verifyProof({ ...sigmaProof, response })).toBe(false)
+    })
+
+    it('should reject sigma proof with tampered commitment', () => {
+      const commitment = Buffer.from(sigmaProof.commitment)
+      commitment[commitment.length - 1] ^= 1
+      
+      expect(LatticeZKP.verifyProof({ ...sigmaProof, commitment })).toBe(false)
+    })
+
+    it('should reject sigma proof with substituted public key', () => {
+      const other = LatticeZKP.generateStatement('other-secret')
+      
+      expect(LatticeZKP.verifyProof({ ...sigmaProof, publicKey: other.publicKey, seed: other.seed })).toBe(false)
+    })
+
+    it('should support smaller ring dimensions', () => {
+      const proof = LatticeZKP.createProof(testSecret, { latticeMode: 'sigma', dimension: 128 })
+      
+      expect(proof.dimension).toBe(128)
+      expect(LatticeZKP.verifyProof(proof)).toBe(true)
+    })
+  })
+
   describe('LWE operations', () => {
     it('should create LWE commitment', () => {
       const a = [1n, 2n, 3n, 4n]
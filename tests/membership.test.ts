@@ -0,0 +1,88 @@
+import { MembershipZKP } from '../src/algorithms/membership'
+import { QuantumZKP } from '../src/core/quantum-zkp'
+import { QuantumCrypto } from '../src/utils/crypto'
+import { ZKBoo } from '../src/utils/zkboo'
+import { ProofSerializer } from '../src/utils/serialization'
+import { ProofJSON } from '../src/utils/json'
+import type { MembershipProof } from '../src/types'
+
+describe('MembershipZKP', () => {
+  const secrets = ['alice-secret', 'bob-secret', 'carol-secret', 'dave-secret', 'erin-secret', 'frank-secret']
+  const tree = QuantumCrypto.createMerkleTree(secrets.map(secret => MembershipZKP.createCommitment(secret)))
+  const repetitions = ZKBoo.MIN_REPETITIONS
+  let proof: MembershipProof
+
+  beforeAll(() => {
+    proof = MembershipZKP.createProof('carol-secret', tree)
+  })
+
+  it('should prove membership without revealing the leaf', () => {
+    expect(proof.type).toBe('membership')
+    expect(proof.root).toEqual(tree.root)
+    expect(proof.treeSize).toBe(6)
+    expect(proof.parameters).toEqual({ repetitions })
+    expect(MembershipZKP.verifyProof(proof, MembershipZKP.generateStatement(tree))).toBe(true)
+    expect(proof.response.includes(MembershipZKP.createCommitment('carol-secret'))).toBe(false)
+  })
+
+  it('should be verifiable through QuantumZKP', () => {
+    const zkp = new QuantumZKP()
+    const created = zkp.createMembershipProof('frank-secret', tree, { repetitions })
+    const result = zkp.verifyProof(created, MembershipZKP.generateStatement(tree))
+
+    expect(result.isValid).toBe(true)
+    expect(result.algorithm).toBe('membership')
+    expect(zkp.verifyProof(created, { type: 'hash', image: tree.root }).isValid).toBe(false)
+  })
+
+  it('should reject statements about another tree', () => {
+    const other = QuantumCrypto.createMerkleTree(
+      secrets.slice(0, 5).map(secret => MembershipZKP.createCommitment(secret))
+    )
+
+    expect(MembershipZKP.verifyProof(proof, MembershipZKP.generateStatement(other))).toBe(false)
+    expect(MembershipZKP.verifyProof({ ...proof, root: other.root })).toBe(false)
+    expect(MembershipZKP.verifyProof({ ...proof, treeSize: 7 })).toBe(false)
+  })
+
+  it('should reject tampered proofs', () => {
+    const response = Buffer.from(proof.response)
+    response[response.length - 1] ^= 1
+
+    expect(MembershipZKP.verifyProof({ ...proof, response })).toBe(false)
+    expect(MembershipZKP.verifyProof({ ...proof, parameters: { repetitions: repetitions + 1 } })).toBe(false)
+    expect(MembershipZKP.verifyProof({ ...proof, parameters: { repetitions: 1e9 } })).toBe(false)
+  })
+
+  it('should reject proofs with fewer repetitions than the verifier minimum', () => {
+    const low = ZKBoo.proveMembership(Buffer.from('carol-secret', 'utf8'), QuantumCrypto.createMerkleProof(tree, 2), 4)
+    const forged = { ...proof, ...low, parameters: { repetitions: 4 } }
+
+    expect(ZKBoo.verifyMembership(tree.root, 6, low.commitment, low.challenge, low.response, 4, 4)).toBe(true)
+    expect(MembershipZKP.verifyProof(forged, MembershipZKP.generateStatement(tree))).toBe(false)
+  })
+
+  it('should reject non-members and unsupported trees', () => {
+    expect(() => MembershipZKP.createProof('mallory-secret', tree, { repetitions })).toThrow(
+      'Secret commitment is not a leaf of the tree'
+    )
+    expect(() => MembershipZKP.createProof('alice-secret', { ...tree, algorithm: 'sha512' })).toThrow(
+      'Membership proofs require a SHA-256 Merkle tree'
+    )
+    expect(() => MembershipZKP.createProof('alice-secret', tree, { repetitions: 0 })).toThrow(
+      'Invalid membership parameters'
+    )
+    expect(() => MembershipZKP.createProof('alice-secret', tree, { repetitions: 4 })).toThrow(
+      'Invalid membership parameters'
+    )
+  })
+
+  it('should round trip through binary and JSON encodings', () => {
+    const binary = ProofSerializer.deserializeProof(ProofSerializer.serializeProof(proof))
+    const json = ProofJSON.proofFromJSON(ProofJSON.proofToJSON(proof))
+
+    expect(binary).toEqual(proof)
+    expect(json).toEqual(proof)
+    expect(MembershipZKP.verifyProof(binary as MembershipProof)).toBe(true)
+  })
+})
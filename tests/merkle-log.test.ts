@@ -0,0 +1,112 @@
+import { MerkleLog } from '../src/core/merkle-log'
+import { HashZKP } from '../src/algorithms/hash'
+import { StatelessHashSignature } from '../src/algorithms/stateless-signature'
+import { QuantumCrypto } from '../src/utils/crypto'
+import { ProofSerializer } from '../src/utils/serialization'
+
+describe('MerkleLog', () => {
+  const leaves = Array.from({ length: 21 }, (_, i) => Buffer.from(`entry-${i}`, 'utf8'))
+
+  const buildLog = (count: number = leaves.length): MerkleLog => {
+    const log = new MerkleLog()
+    leaves.slice(0, count).forEach(leaf => log.append(leaf))
+    return log
+  }
+
+  describe('append', () => {
+    it('should match the RFC 6962 tree hash at every size', () => {
+      const log = new MerkleLog()
+      expect(log.getRoot()).toEqual(QuantumCrypto.hash(Buffer.alloc(0), 'sha256'))
+
+      leaves.forEach((leaf, i) => {
+        expect(log.append(leaf)).toBe(i)
+        expect(log.getRoot()).toEqual(QuantumCrypto.createMerkleTree(leaves.slice(0, i + 1)).root)
+      })
+    })
+
+    it('should keep historical roots', () => {
+      const log = buildLog()
+
+      expect(log.getSize()).toBe(21)
+      expect(log.getRoot(7)).toEqual(buildLog(7).getRoot())
+      expect(() => log.getRoot(22)).toThrow('Tree size 22 is outside the log of 21 leaves')
+    })
+
+    it('should log serialized proofs', () => {
+      const log = new MerkleLog()
+      const proof = HashZKP.createProof('issued', { hashMode: 'compact' })
+      const index = log.appendProof(proof)
+      const leaf = Buffer.from(ProofSerializer.serializeProof(proof))
+
+      expect(MerkleLog.verifyInclusion(leaf, log.proveInclusion(index), log.getRoot())).toBe(true)
+    })
+  })
+
+  describe('inclusion proofs', () => {
+    it('should prove every leaf against every historical size', () => {
+      const log = buildLog()
+      for (let size = 1; size <= leaves.length; size++) {
+        const root = log.getRoot(size)
+        for (let index = 0; index < size; index++) {
+          expect(MerkleLog.verifyInclusion(leaves[index], log.proveInclusion(index, size), root)).toBe(true)
+        }
+      }
+    })
+
+    it('should reject proofs against a different size', () => {
+      const log = buildLog()
+      const proof = log.proveInclusion(3, 10)
+
+      expect(MerkleLog.verifyInclusion(leaves[3], proof, log.getRoot(11))).toBe(false)
+      expect(() => log.proveInclusion(10, 10)).toThrow('Leaf index 10 is outside a tree of 10 leaves')
+    })
+  })
+
+  describe('consistency proofs', () => {
+    it('should prove consistency between every pair of sizes', () => {
+      const log = buildLog()
+      for (let second = 1; second <= leaves.length; second++) {
+        for (let first = 1; first <= second; first++) {
+          const proof = log.proveConsistency(first, second)
+          expect(MerkleLog.verifyConsistency(proof, log.getRoot(first), log.getRoot(second))).toBe(true)
+        }
+      }
+    })
+
+    it('should reject forked histories', () => {
+      const log = buildLog(12)
+      const fork = buildLog(5)
+      leaves.slice(6, 13).forEach(leaf => fork.append(leaf))
+      const proof = log.proveConsistency(7, 12)
+
+      expect(MerkleLog.verifyConsistency(proof, fork.getRoot(7), log.getRoot(12))).toBe(false)
+      expect(MerkleLog.verifyConsistency(proof, log.getRoot(7), fork.getRoot(12))).toBe(false)
+    })
+
+    it('should reject tampered paths and sizes', () => {
+      const log = buildLog(12)
+      const proof = log.proveConsistency(6, 12)
+      const first = log.getRoot(6)
+      const second = log.getRoot(12)
+
+      expect(MerkleLog.verifyConsistency({ ...proof, path: proof.path.slice(1) }, first, second)).toBe(false)
+      expect(MerkleLog.verifyConsistency({ ...proof, path: [...proof.path, first] }, first, second)).toBe(false)
+      expect(MerkleLog.verifyConsistency({ ...proof, secondSize: 20 }, first, second)).toBe(false)
+      expect(() => log.proveConsistency(0, 12)).toThrow('First tree size must be between 1 and 12')
+    })
+  })
+
+  describe('signed tree heads', () => {
+    it('should sign and verify tree heads', () => {
+      const { privateKey, publicKey } = StatelessHashSignature.generateKeyPair('tiny', Buffer.alloc(32, 1))
+      const log = buildLog(8)
+      const head = log.signTreeHead(privateKey)
+
+      expect(head.treeSize).toBe(8)
+      expect(head.rootHash).toEqual(log.getRoot())
+      expect(MerkleLog.verifyTreeHead(head, publicKey)).toBe(true)
+      expect(MerkleLog.verifyTreeHead({ ...head, treeSize: 9 }, publicKey)).toBe(false)
+      expect(MerkleLog.verifyTreeHead({ ...head, rootHash: log.getRoot(7) }, publicKey)).toBe(false)
+    })
+  })
+})
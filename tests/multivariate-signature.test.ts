@@ -0,0 +1,99 @@
+import { MultivariateSignature } from '../src/algorithms/multivariate-signature'
+import { SeededRandom } from '../src/utils/random'
+import type { UOVParameterSet } from '../src/types'
+
+describe('MultivariateSignature', () => {
+  const message = 'oil and vinegar message'
+
+  describe('sign / verify', () => {
+    it.each<UOVParameterSet>(['uov-tiny', 'uov-small'])('should sign and verify with %s', name => {
+      const { privateKey, publicKey } = MultivariateSignature.generateKeyPair(name)
+      const signature = MultivariateSignature.sign(message, privateKey)
+
+      expect(signature.salt.length + signature.solution.length).toBe(MultivariateSignature.getSignatureSize(name))
+      expect(publicKey.publicMap.length).toBe(MultivariateSignature.getPublicKeySize(name))
+      expect(MultivariateSignature.verify(message, signature, publicKey)).toBe(true)
+    })
+
+    it('should derive keys deterministically and sign reproducibly with seeded randomness', () => {
+      const seed = Buffer.alloc(32, 5)
+      const first = MultivariateSignature.generateKeyPair('uov-tiny', seed)
+      const second = MultivariateSignature.generateKeyPair('uov-tiny', seed)
+
+      expect(first.publicKey).toEqual(second.publicKey)
+      expect(first.privateKey).toEqual(second.privateKey)
+      expect(MultivariateSignature.sign(message, first.privateKey, new SeededRandom('sign'))).toEqual(
+        MultivariateSignature.sign(message, second.privateKey, new SeededRandom('sign'))
+      )
+      expect(MultivariateSignature.sign(message, first.privateKey).salt).not.toEqual(
+        MultivariateSignature.sign(message, first.privateKey).salt
+      )
+    })
+
+    it('should derive key seeds from the given random source', () => {
+      const first = MultivariateSignature.generateKeyPair('uov-tiny', undefined, new SeededRandom('keys'))
+      const second = MultivariateSignature.generateKeyPair('uov-tiny', undefined, new SeededRandom('keys'))
+
+      expect(second.publicKey).toEqual(first.publicKey)
+      expect(second.privateKey).toEqual(first.privateKey)
+      expect(first.privateKey.seed).toEqual(new SeededRandom('keys').randomBytes(first.privateKey.seed.length))
+    })
+
+    it('should reject wrong messages, keys and tampered signatures', () => {
+      const { privateKey, publicKey } = MultivariateSignature.generateKeyPair('uov-tiny')
+      const other = MultivariateSignature.generateKeyPair('uov-tiny')
+      const signature = MultivariateSignature.sign(message, privateKey)
+      const tamperedSolution = Buffer.from(signature.solution)
+      tamperedSolution[3] ^= 0x01
+      const tamperedSalt = Buffer.from(signature.salt)
+      tamperedSalt[0] ^= 0x01
+
+      expect(MultivariateSignature.verify('other message', signature, publicKey)).toBe(false)
+      expect(MultivariateSignature.verify(message, signature, other.publicKey)).toBe(false)
+      expect(MultivariateSignature.verify(message, { ...signature, solution: tamperedSolution }, publicKey)).toBe(false)
+      expect(MultivariateSignature.verify(message, { ...signature, salt: tamperedSalt }, publicKey)).toBe(false)
+    })
+
+    it('should reject malformed encodings', () => {
+      const { privateKey, publicKey } = MultivariateSignature.generateKeyPair('uov-tiny')
+      const signature = MultivariateSignature.sign(message, privateKey)
+
+      expect(
+        MultivariateSignature.verify(message, { ...signature, solution: signature.solution.subarray(1) }, publicKey)
+      ).toBe(false)
+      expect(
+        MultivariateSignature.verify(message, signature, { ...publicKey, publicMap: publicKey.publicMap.subarray(1) })
+      ).toBe(false)
+      expect(MultivariateSignature.verify(message, signature, { ...publicKey, parameterSet: 'uov-small' })).toBe(false)
+      expect(
+        MultivariateSignature.verify(message, signature, {
+          ...publicKey,
+          parameterSet: 'uov-huge' as UOVParameterSet
+        })
+      ).toBe(false)
+    })
+  })
+
+  describe('parameters', () => {
+    it('should report sizes and reject unknown parameter sets', () => {
+      expect(MultivariateSignature.getParameterSet('uov-medium')).toMatchObject({
+        fieldOrder: 256,
+        vinegar: 48,
+        oil: 24
+      })
+      expect(MultivariateSignature.getSignatureSize('uov-tiny')).toBe(16 + 12)
+      expect(MultivariateSignature.getPublicKeySize('uov-small')).toBe(16 * (1176 + 48 + 1))
+      expect(() => MultivariateSignature.getParameterSet('uov-huge' as UOVParameterSet)).toThrow(
+        'Unsupported UOV parameter set: uov-huge'
+      )
+    })
+
+    it('should report performance metrics', () => {
+      const metrics = MultivariateSignature.getPerformanceMetrics('uov-tiny')
+
+      expect(metrics.proofSize).toBe(MultivariateSignature.getSignatureSize('uov-tiny'))
+      expect(metrics.generationTime).toBeGreaterThan(0)
+      expect(metrics.verificationTime).toBeGreaterThan(0)
+    })
+  })
+})
@@ -1,4 +1,7 @@
 import { MultivariateZKP } from '../src/algorithms/multivariate'
+import { FiniteField } from '../src/utils/finite-field'
+import { QuadraticSystem } from '../src/utils/quadratic-system'
+import { ZKPError } from '../src/types'
 import type { MultivariateProof } from '../src/types'
 
 describe('MultivariateZKP Algorithm', () => {
@@ -121,24 +124,143 @@ describe('MultivariateZKP Algorithm', () => {
     })
   })
 
+  describe('statement verification', () => {
+    it('should generate deterministic statement', () => {
+      const statement1 = MultivariateZKP.generateStatement(testSecret)
+      const statement2 = MultivariateZKP.generateStatement(testBuffer)
+      
+      expect(statement1.type).toBe('multivariate')
+      expect(statement1.variables).toBe(48)
+      expect(statement1.publicOutput.length).toBe(48)
+      expect(statement1.publicOutput.every(value => value < 31)).toBe(true)
+      expect(statement1.publicOutput).toEqual(statement2.publicOutput)
+    })
+
+    it('should not accept system proofs for a statement', () => {
+      const proof = MultivariateZKP.createProof(testSecret)
+      const statement = MultivariateZKP.generateStatement(testSecret)
+      
+      expect(MultivariateZKP.verifyProof(proof)).toBe(true)
+      expect(MultivariateZKP.verifyProof(proof, statement)).toBe(false)
+    })
+
+    it('should reject proof forged from the public statement', () => {
+      const proof = MultivariateZKP.createProof('attacker-secret')
+      const statement = MultivariateZKP.generateStatement('victim-secret')
+      const forgedProof = { ...proof, statementDigest: MultivariateZKP.getStatementDigest(statement) }
+      
+      expect(MultivariateZKP.verifyProof(forgedProof)).toBe(true)
+      expect(MultivariateZKP.verifyProof(forgedProof, statement)).toBe(false)
+    })
+
+    it('should reject proof against statement of a different secret', () => {
+      const proof = MultivariateZKP.createProof('abc')
+      const statement = MultivariateZKP.generateStatement('xyz')
+      
+      expect(MultivariateZKP.verifyProof(proof, statement)).toBe(false)
+    })
+  })
+
+  describe('MQ identification proofs', () => {
+    const modes = ['mq3', 'mq5'] as const
+
+    it.each(modes)('should prove knowledge of a solution in %s mode', multivariateMode => {
+      const proof = MultivariateZKP.createProof(testSecret, { multivariateMode })
+      const statement = MultivariateZKP.generateStatement(testSecret)
+
+      expect(proof.mode).toBe(multivariateMode)
+      expect(proof.parameters.repetitions).toBe(multivariateMode === 'mq3' ? 219 : 184)
+      expect(proof.variables).toBe(48)
+      expect(proof.equations).toBe(48)
+      expect(proof.publicKey).toEqual(statement.publicOutput)
+      expect(MultivariateZKP.verifyProof(proof)).toBe(true)
+      expect(MultivariateZKP.verifyProof(proof, statement)).toBe(true)
+      expect(MultivariateZKP.verifyProof(proof, MultivariateZKP.generateStatement('xyz'))).toBe(false)
+    })
+
+    it.each(modes)('should reject tampered %s transcripts', multivariateMode => {
+      const proof = MultivariateZKP.createProof(testSecret, { multivariateMode })
+      const repetitions = proof.parameters.repetitions!
+      const response = Buffer.from(proof.response)
+      response[response.length - 1] = (response[response.length - 1] + 1) % 31
+      const publicKey = Buffer.from(proof.publicKey!)
+      publicKey[0] = (publicKey[0] + 1) % 31
+
+      expect(MultivariateZKP.verifyProof(proof)).toBe(true)
+      expect(MultivariateZKP.verifyProof({ ...proof, response })).toBe(false)
+      expect(MultivariateZKP.verifyProof({ ...proof, publicKey })).toBe(false)
+      expect(MultivariateZKP.verifyProof({ ...proof, parameters: { ...proof.parameters, repetitions: repetitions - 1 } })).toBe(
+        false
+      )
+    })
+
+    it.each(modes)('should reject %s transcripts with fewer rounds than the verifier minimum', multivariateMode => {
+      const rounds = MultivariateZKP['DEFAULT_ROUNDS']
+      const minimum = rounds[multivariateMode]
+      rounds[multivariateMode] = 1
+      let proof: MultivariateProof
+      let lowered: boolean
+      try {
+        proof = MultivariateZKP.createProof(testSecret, { multivariateMode, repetitions: 1 })
+        lowered = MultivariateZKP.verifyProof(proof)
+      } finally {
+        rounds[multivariateMode] = minimum
+      }
+
+      expect(lowered).toBe(true)
+      expect(proof.parameters.repetitions).toBe(1)
+      expect(MultivariateZKP.verifyProof(proof)).toBe(false)
+      expect(MultivariateZKP.verifyProof(proof, MultivariateZKP.generateStatement(testSecret))).toBe(false)
+    })
+
+    it('should reject dimensions above the maximum before expanding the public map', () => {
+      const proof = MultivariateZKP.createProof(testSecret, { multivariateMode: 'mq3' })
+      const parameters = { ...proof.parameters, variables: 1e6 }
+
+      expect(MultivariateZKP.verifyProof({ ...proof, variables: 1e6, parameters })).toBe(false)
+      expect(() => MultivariateZKP.createProof(testSecret, { multivariateMode: 'mq3', variables: 65, equations: 65 })).toThrow(
+        'Invalid multivariate parameters'
+      )
+    })
+
+    it('should not verify a transcript against another public key', () => {
+      const proof = MultivariateZKP.createProof('abc', { multivariateMode: 'mq3' })
+      const other = MultivariateZKP.generateStatement('xyz')
+      const statementDigest = MultivariateZKP.getStatementDigest(other)
+
+      expect(
+        MultivariateZKP.verifyProof({ ...proof, seed: other.seed, publicKey: other.publicOutput, statementDigest })
+      ).toBe(false)
+    })
+
+    it('should reject invalid round counts', () => {
+      expect(() => MultivariateZKP.createProof(testSecret, { multivariateMode: 'mq5', repetitions: 0 })).toThrow(
+        'Invalid multivariate parameters'
+      )
+      expect(() => MultivariateZKP.createProof(testSecret, { multivariateMode: 'mq3', repetitions: 1 })).toThrow(
+        'Invalid multivariate parameters'
+      )
+      expect(() => MultivariateZKP.createProof(testSecret, { multivariateMode: 'mq5', repetitions: 134 })).toThrow(
+        'Invalid multivariate parameters'
+      )
+    })
+  })
+
   describe('multivariate system operations', () => {
     it('should generate multivariate system', () => {
-      const system = MultivariateZKP['generateMultivariateSystem'](8, 12, 2)
-      
-      expect(system).toBeDefined()
-      expect(system.length).toBeGreaterThan(0) // JSON string will have variable length
-      // Note: The actual structure depends on the implementation
-      // This test may need adjustment based on the real return type
+      const system = MultivariateZKP.deserializePolynomialSystem(MultivariateZKP['generateMultivariateSystem'](8, 12))
+
+      expect(system.variables).toBe(8)
+      expect(system.equations).toBe(12)
+      expect(system.polynomials[0].quadratic.length).toBe(36)
+      expect(system.polynomials[0].quadratic.filter(value => value !== 0).length).toBeGreaterThan(1)
     })
 
-    it('should solve multivariate system', () => {
+    it('should refuse to solve a malformed system', () => {
       const secret = Buffer.from('secret', 'utf8')
       const polynomialSystem = Buffer.from('system', 'utf8')
-      
-      const solution = MultivariateZKP['solveMultivariateSystem'](secret, polynomialSystem)
-      
-      expect(solution).toBeDefined()
-      expect(solution.length).toBeGreaterThan(0)
+
+      expect(() => MultivariateZKP['solveMultivariateSystem'](secret, polynomialSystem)).toThrow(ZKPError)
     })
 
     it('should create multivariate commitment', () => {
@@ -229,29 +351,58 @@ describe('MultivariateZKP Algorithm', () => {
   })
 
   describe('polynomial system serialization', () => {
-    it('should serialize polynomial system', () => {
-      const system = [
-        [[1n, 2n], [3n, 4n]],
-        [[5n, 6n], [7n, 8n]]
-      ]
-      
-      const serialized = MultivariateZKP['serializePolynomialSystem'](system)
-      
-      expect(serialized).toBeDefined()
-      expect(serialized.length).toBeGreaterThan(0)
+    const system = QuadraticSystem.fromSeed(new FiniteField(4294967291), Buffer.alloc(32, 7), 3, 2)
+
+    it('should round trip polynomial system', () => {
+      const serialized = MultivariateZKP.serializePolynomialSystem(system)
+      const deserialized = MultivariateZKP.deserializePolynomialSystem(serialized)
+
+      expect(deserialized.polynomials).toEqual(system.polynomials)
+      expect(deserialized.evaluate([1, 2, 3])).toEqual(system.evaluate([1, 2, 3]))
     })
 
-    it('should deserialize polynomial system', () => {
-      const system = [
-        [[1n, 2n], [3n, 4n]],
-        [[5n, 6n], [7n, 8n]]
-      ]
-      
-      const serialized = MultivariateZKP['serializePolynomialSystem'](system)
-      const deserialized = MultivariateZKP['deserializePolynomialSystem'](serialized)
-      
-      expect(deserialized).toBeDefined()
-      expect(deserialized.length).toBe(system.length)
+    it('should evaluate the solution with cross terms', () => {
+      const secret = Buffer.from('secret', 'utf8')
+      const polynomialSystem = MultivariateZKP.serializePolynomialSystem(system)
+      const solution = MultivariateZKP['solveMultivariateSystem'](secret, polynomialSystem)
+      const point = [Buffer.from('se'), Buffer.from('cr'), Buffer.from('et')].map(part => part.readUInt16BE(0))
+
+      expect(new FiniteField(4294967291).decodeVector(solution)).toEqual(system.evaluate(point))
+    })
+
+    it('should publish generated systems as a seed', () => {
+      const proof = MultivariateZKP.createProof(testSecret)
+
+      expect(proof.polynomialSystem.length).toBe(35)
+      expect(MultivariateZKP.serializePolynomialSystem(system).length).toBe(3 + 2 * (6 + 3 + 1) * 4)
+    })
+
+    it.each([
+      ['a truncated header', Buffer.from([1, 8])],
+      ['an unknown form', Buffer.concat([Buffer.from([9, 8, 12]), Buffer.alloc(32)])],
+      ['zero variables', Buffer.concat([Buffer.from([1, 0, 12]), Buffer.alloc(32)])],
+      ['oversized dimensions', Buffer.concat([Buffer.from([1, 65, 65]), Buffer.alloc(32)])],
+      ['a short seed', Buffer.concat([Buffer.from([1, 8, 12]), Buffer.alloc(31)])],
+      ['missing coefficients', Buffer.concat([Buffer.from([2, 1, 1]), Buffer.alloc(11)])],
+      ['a non-field coefficient', Buffer.concat([Buffer.from([2, 1, 1]), Buffer.alloc(12, 0xff)])],
+      ['JSON', Buffer.from(JSON.stringify({ equations: 2, variables: 2, polynomials: [] }))]
+    ])('should reject %s with a ZKPError', (_, buffer) => {
+      expect(() => MultivariateZKP.deserializePolynomialSystem(buffer)).toThrow(ZKPError)
+      try {
+        MultivariateZKP.deserializePolynomialSystem(buffer)
+      } catch (error) {
+        expect((error as ZKPError).code).toBe('MULTIVARIATE_INVALID_SYSTEM')
+      }
+    })
+
+    it('should not verify proofs whose system does not decode or match', () => {
+      const proof = MultivariateZKP.createProof(testSecret)
+      const resized = Buffer.from(proof.polynomialSystem)
+      resized[1] = 9
+
+      expect(MultivariateZKP.verifyProof(proof)).toBe(true)
+      expect(MultivariateZKP.verifyProof({ ...proof, polynomialSystem: Buffer.from('system') })).toBe(false)
+      expect(MultivariateZKP.verifyProof({ ...proof, polynomialSystem: resized })).toBe(false)
     })
   })
 
@@ -0,0 +1,93 @@
+import { PolynomialRing } from '../src/utils/polynomial-ring'
+
+describe('PolynomialRing', () => {
+  const randomElement = (ring: PolynomialRing): bigint[] =>
+    Array.from({ length: ring.degree }, () => BigInt(Math.floor(Math.random() * 2 ** 32)) % ring.modulus)
+
+  const schoolbook = (a: bigint[], b: bigint[], modulus: bigint): bigint[] => {
+    const n = a.length
+    const result = new Array<bigint>(n).fill(0n)
+    a.forEach((x, i) =>
+      b.forEach((y, j) => {
+        const sign = i + j < n ? 1n : -1n
+        result[(i + j) % n] += sign * x * y
+      })
+    )
+    return result.map(value => ((value % modulus) + modulus) % modulus)
+  }
+
+  describe('constructor', () => {
+    it('should detect NTT-friendly moduli', () => {
+      expect(new PolynomialRing(256, 8380417n).supportsNTT()).toBe(true)
+      expect(new PolynomialRing(128, 3329n).supportsNTT()).toBe(true)
+      expect(new PolynomialRing(256, 3329n).supportsNTT()).toBe(false)
+      expect(new PolynomialRing(8, 1000n).supportsNTT()).toBe(false)
+      expect(PolynomialRing.isNTTFriendly(4, 17n)).toBe(true)
+      expect(PolynomialRing.isNTTFriendly(4, 33n)).toBe(false)
+    })
+
+    it('should reject invalid parameters', () => {
+      expect(() => new PolynomialRing(7, 17n)).toThrow('Ring degree must be a power of 2')
+      expect(() => new PolynomialRing(0, 17n)).toThrow('Ring degree must be a power of 2')
+      expect(() => new PolynomialRing(8, 1n)).toThrow('Ring modulus must be at least 2')
+    })
+  })
+
+  describe('multiply', () => {
+    it('should match schoolbook multiplication with and without the NTT', () => {
+      for (const ring of [new PolynomialRing(256, 8380417n), new PolynomialRing(256, 3329n)]) {
+        const a = randomElement(ring)
+        const b = randomElement(ring)
+        expect(ring.multiply(a, b)).toEqual(schoolbook(a, b, ring.modulus))
+      }
+    })
+
+    it('should wrap x^n to -1', () => {
+      const ring = new PolynomialRing(8, 17n)
+      const x = ring.fromCoefficients([0, 1, 0, 0, 0, 0, 0, 0])
+      let power = ring.fromCoefficients([1, 0, 0, 0, 0, 0, 0, 0])
+      for (let i = 0; i < 8; i++) {
+        power = ring.multiply(power, x)
+      }
+      expect(power).toEqual(ring.fromCoefficients([-1, 0, 0, 0, 0, 0, 0, 0]))
+    })
+
+    it('should reject elements of the wrong degree', () => {
+      const ring = new PolynomialRing(8, 17n)
+      expect(() => ring.multiply(ring.zero(), [1n])).toThrow('Expected 8 coefficients, got 1')
+    })
+  })
+
+  describe('ntt', () => {
+    it('should invert the transform', () => {
+      const ring = new PolynomialRing(64, 7681n)
+      const a = randomElement(ring)
+      expect(ring.inverseNTT(ring.ntt(a))).toEqual(a)
+    })
+
+    it('should be unavailable for other moduli', () => {
+      const ring = new PolynomialRing(8, 1000n)
+      expect(() => ring.ntt(ring.zero())).toThrow('does not support the NTT')
+    })
+  })
+
+  describe('arithmetic', () => {
+    it('should add, subtract and scale coefficients', () => {
+      const ring = new PolynomialRing(4, 17n)
+      const a = ring.fromCoefficients([1, 2, 3, 4])
+      const b = ring.fromCoefficients([16, 15, 14, 13])
+
+      expect(ring.add(a, b)).toEqual([0n, 0n, 0n, 0n])
+      expect(ring.subtract(a, b)).toEqual([2n, 4n, 6n, 8n])
+      expect(ring.scalarMultiply(a, -1n)).toEqual(b)
+    })
+
+    it('should center coefficients', () => {
+      const ring = new PolynomialRing(4, 17n)
+
+      expect(ring.centerCoefficients([0n, 8n, 9n, 16n])).toEqual([0n, 8n, -8n, -1n])
+      expect(ring.center(-25)).toBe(-8n)
+      expect(ring.infinityNorm([0n, 3n, 15n, 9n])).toBe(8n)
+    })
+  })
+})
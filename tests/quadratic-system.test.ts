@@ -0,0 +1,102 @@
+import { FiniteField } from '../src/utils/finite-field'
+import { QuadraticSystem } from '../src/utils/quadratic-system'
+import { SeededRandom } from '../src/utils/random'
+
+describe('QuadraticSystem', () => {
+  const naive = (system: QuadraticSystem, x: number[]): number[] => {
+    const { field } = system
+    return system.polynomials.map(({ quadratic, linear, constant }) => {
+      let result = constant
+      let term = 0
+      for (let i = 0; i < x.length; i++) {
+        for (let j = i; j < x.length; j++) {
+          result = field.add(result, field.multiply(quadratic[term++], field.multiply(x[i], x[j])))
+        }
+        result = field.add(result, field.multiply(linear[i], x[i]))
+      }
+      return result
+    })
+  }
+
+  describe('constructor', () => {
+    it('should evaluate cross terms', () => {
+      const field = new FiniteField(31)
+      // f(x) = x_0·x_1 + 2·x_1^2 + 3·x_0 + 5
+      const system = new QuadraticSystem(field, 2, [{ quadratic: [0, 1, 2], linear: [3, 0], constant: 5 }])
+
+      expect(system.evaluate([2, 3])).toEqual([(6 + 18 + 6 + 5) % 31])
+      expect(system.evaluate([0, 0])).toEqual([5])
+    })
+
+    it('should reject malformed systems', () => {
+      const field = new FiniteField(31)
+      expect(() => new QuadraticSystem(field, 0, [])).toThrow(
+        'Quadratic system needs at least one variable and one equation'
+      )
+      expect(() => new QuadraticSystem(field, 2, [{ quadratic: [1, 2], linear: [3, 0], constant: 5 }])).toThrow(
+        'Expected 3 quadratic and 2 linear coefficients per equation'
+      )
+      expect(() => new QuadraticSystem(field, 2, [{ quadratic: [0, 1, 2], linear: [3, 0], constant: 31 }])).toThrow(
+        'Coefficients must be field elements'
+      )
+    })
+  })
+
+  describe('fromSeed', () => {
+    it('should expand the same system from the same seed', () => {
+      const field = new FiniteField(256)
+      const seed = Buffer.alloc(32, 1)
+      const system = QuadraticSystem.fromSeed(field, seed, 10, 8)
+
+      expect(system.polynomials).toEqual(QuadraticSystem.fromSeed(field, seed, 10, 8).polynomials)
+      expect(system.polynomials).not.toEqual(QuadraticSystem.fromSeed(field, Buffer.alloc(32, 2), 10, 8).polynomials)
+      expect(system.polynomials[0].quadratic.length).toBe(QuadraticSystem.getQuadraticTermCount(10))
+      expect(QuadraticSystem.fromSeed(field, seed, 10, 8, false).polynomials.every(p => p.constant === 0)).toBe(true)
+    })
+  })
+
+  describe('fromCoefficients', () => {
+    it('should round trip flat coefficients', () => {
+      const field = new FiniteField(31)
+      const system = QuadraticSystem.fromSeed(field, Buffer.alloc(32, 3), 5, 4)
+      const restored = QuadraticSystem.fromCoefficients(field, 5, system.getCoefficients())
+
+      expect(system.getCoefficients().length).toBe(4 * (15 + 5 + 1))
+      expect(restored.polynomials).toEqual(system.polynomials)
+      expect(() => QuadraticSystem.fromCoefficients(field, 5, [1, 2])).toThrow(
+        'Coefficient count must be a multiple of 21'
+      )
+    })
+  })
+
+  describe('evaluate', () => {
+    it.each([31, 4294967291, 16, 256])('should match naive evaluation over GF(%d)', order => {
+      const field = new FiniteField(order)
+      const random = new SeededRandom(`evaluate-${order}`)
+      const system = QuadraticSystem.fromSeed(field, random.randomBytes(32), 12, 9)
+      const x = field.randomVector(12, random)
+
+      expect(system.evaluate(x)).toEqual(naive(system, x))
+    })
+
+    it('should reject points of the wrong dimension', () => {
+      const system = QuadraticSystem.fromSeed(new FiniteField(31), Buffer.alloc(32), 4, 4)
+      expect(() => system.evaluate([1, 2, 3])).toThrow('Expected 4 variables, got 3')
+    })
+  })
+
+  describe('polarForm', () => {
+    it('should be bilinear and symmetric', () => {
+      const field = new FiniteField(31)
+      const random = new SeededRandom('polar')
+      const system = QuadraticSystem.fromSeed(field, random.randomBytes(32), 6, 5)
+      const [x, y, z] = [field.randomVector(6, random), field.randomVector(6, random), field.randomVector(6, random)]
+
+      expect(system.polarForm(x, y)).toEqual(system.polarForm(y, x))
+      expect(system.polarForm(field.addVectors(x, z), y)).toEqual(
+        field.addVectors(system.polarForm(x, y), system.polarForm(z, y))
+      )
+      expect(system.polarForm(field.scaleVector(3, x), y)).toEqual(field.scaleVector(3, system.polarForm(x, y)))
+    })
+  })
+})
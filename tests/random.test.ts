@@ -0,0 +1,28 @@
+import { SeededRandom, SystemRandom } from '../src/utils/random'
+
+describe('Random sources', () => {
+  describe('SystemRandom', () => {
+    it('should return fresh bytes of the requested length', () => {
+      const random = new SystemRandom()
+      const first = random.randomBytes(32)
+
+      expect(first.length).toBe(32)
+      expect(random.randomBytes(32)).not.toEqual(first)
+    })
+  })
+
+  describe('SeededRandom', () => {
+    it('should match the known answer for a fixed seed', () => {
+      expect(new SeededRandom('quantum-zkp').randomBytes(16).toString('hex')).toBe('7c32bacff6e0f80c6e13820c1ce83814')
+    })
+
+    it('should return the same stream however reads are split', () => {
+      const first = new SeededRandom(Buffer.from('seed'))
+      const second = new SeededRandom('seed')
+      const prefix = Buffer.concat([first.randomBytes(100), first.randomBytes(1), first.randomBytes(499)])
+
+      expect(second.randomBytes(600)).toEqual(prefix)
+      expect(new SeededRandom('other').randomBytes(600)).not.toEqual(prefix)
+    })
+  })
+})
@@ -0,0 +1,135 @@
+import { SecretSharing } from '../src/utils/secret-sharing'
+
+describe('SecretSharing', () => {
+  const secret = Buffer.from('multi-custodian backup key', 'utf8')
+
+  describe('split', () => {
+    it('should create one distinct share per party', () => {
+      const shares = SecretSharing.split(secret, 3, 5)
+
+      expect(shares).toHaveLength(5)
+      shares.forEach((share, i) => {
+        expect(SecretSharing.getIndex(share)).toBe(i + 1)
+        expect(SecretSharing.getThreshold(share)).toBe(3)
+        expect(share.length).toBe(secret.length + 2)
+      })
+      expect(new Set(shares.map(share => share.toString('hex'))).size).toBe(5)
+    })
+
+    it('should reject invalid thresholds and party counts', () => {
+      expect(() => SecretSharing.split(secret, 0, 3)).toThrow('Threshold must be between 1 and the number of parties')
+      expect(() => SecretSharing.split(secret, 4, 3)).toThrow('Threshold must be between 1 and the number of parties')
+      expect(() => SecretSharing.split(secret, 1, 1)).toThrow('Number of parties must be between 2 and 255')
+      expect(() => SecretSharing.split(secret, 2, 256)).toThrow('Number of parties must be between 2 and 255')
+    })
+  })
+
+  describe('combine', () => {
+    it('should reconstruct from every subset of threshold shares', () => {
+      const shares = SecretSharing.split(secret, 3, 5)
+
+      for (let a = 0; a < 5; a++) {
+        for (let b = a + 1; b < 5; b++) {
+          for (let c = b + 1; c < 5; c++) {
+            expect(SecretSharing.combine([shares[c], shares[a], shares[b]!])).toEqual(secret)
+          }
+        }
+      }
+    })
+
+    it('should reconstruct from more than threshold shares', () => {
+      const shares = SecretSharing.split(secret, 2, 4)
+
+      expect(SecretSharing.combine(shares)).toEqual(secret)
+    })
+
+    it('should reconstruct with threshold one', () => {
+      const shares = SecretSharing.split(secret, 1, 3)
+
+      expect(SecretSharing.combine([shares[2]!])).toEqual(secret)
+    })
+
+    it('should not reveal the secret below threshold', () => {
+      const shares = SecretSharing.split(secret, 3, 5)
+
+      expect(() => SecretSharing.combine(shares.slice(0, 2))).toThrow('At least 3 shares are required, got 2')
+    })
+
+    it('should reject duplicate and mismatched shares', () => {
+      const shares = SecretSharing.split(secret, 2, 3)
+      const other = SecretSharing.split(Buffer.from('other'), 2, 3)
+
+      expect(() => SecretSharing.combine([shares[0], shares[0]!])).toThrow('Duplicate share index: 1')
+      expect(() => SecretSharing.combine([shares[0], other[1]!])).toThrow('Shares belong to different sharings')
+      expect(() => SecretSharing.combine([])).toThrow('At least one share is required')
+      expect(() => SecretSharing.combine([Buffer.from([0, 2, 1])])).toThrow('Malformed share')
+    })
+  })
+
+  describe('verifiable dealing', () => {
+    it('should produce shares that reconstruct the secret', () => {
+      const { dealing, shares } = SecretSharing.deal(secret, 3, 5)
+
+      expect(dealing.commitments).toHaveLength(5)
+      expect(dealing.threshold).toBe(3)
+      expect(shares).toHaveLength(5)
+      expect(SecretSharing.combine(shares.slice(2).map(({ share }) => share))).toEqual(secret)
+    })
+
+    it('should keep shares and openings out of the public dealing', () => {
+      const { dealing, shares } = SecretSharing.deal(secret, 2, 3)
+
+      expect(Object.keys(dealing).sort()).toEqual([
+        'commitments',
+        'maskedPolynomials',
+        'reconstructionKey',
+        'threshold'
+      ])
+      shares.forEach(({ share, opening }) => {
+        Object.values(dealing)
+          .flat()
+          .filter((value): value is Buffer => Buffer.isBuffer(value))
+          .forEach(value => {
+            expect(value.includes(share.subarray(2))).toBe(false)
+            expect(value.includes(opening)).toBe(false)
+          })
+      })
+    })
+
+    it('should accept every honestly dealt share', () => {
+      const { dealing, shares } = SecretSharing.deal(secret, 3, 5)
+
+      shares.forEach((partyShare, i) => {
+        expect(SecretSharing.verifyShare(partyShare, i + 1, dealing)).toBe(true)
+      })
+    })
+
+    it('should reject tampered shares, openings and wrong indices', () => {
+      const { dealing, shares } = SecretSharing.deal(secret, 2, 3)
+      const tampered = Buffer.from(shares[0].share)
+      tampered[5] ^= 0x01
+
+      expect(SecretSharing.verifyShare({ ...shares[0], share: tampered }, 1, dealing)).toBe(false)
+      expect(SecretSharing.verifyShare({ ...shares[0], opening: shares[1].opening }, 1, dealing)).toBe(false)
+      expect(SecretSharing.verifyShare(shares[0], 2, dealing)).toBe(false)
+      expect(SecretSharing.verifyShare(shares[0], 4, dealing)).toBe(false)
+    })
+
+    it('should detect a dealer whose shares do not lie on one polynomial', () => {
+      const honest = SecretSharing.deal(secret, 2, 3)
+      const other = SecretSharing.deal(Buffer.from('a different secret value....', 'utf8'), 2, 3)
+      const commitments = [honest.dealing.commitments[0], honest.dealing.commitments[1], other.dealing.commitments[2]!]
+      const mixed = { ...honest.dealing, commitments }
+
+      expect(SecretSharing.verifyShare(other.shares[2], 3, mixed)).toBe(false)
+    })
+
+    it('should bind the reconstruction key to the commitments', () => {
+      const { dealing, shares } = SecretSharing.deal(secret, 2, 3)
+      const commitments = [...dealing.commitments]
+      commitments[1] = Buffer.alloc(32)
+
+      expect(SecretSharing.verifyShare(shares[0], 1, { ...dealing, commitments })).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,160 @@
+import { ProofSerializer } from '../src/utils/serialization'
+import { QuantumZKP } from '../src/core/quantum-zkp'
+import { HashZKP } from '../src/algorithms/hash'
+import { LatticeZKP } from '../src/algorithms/lattice'
+import { MultivariateZKP } from '../src/algorithms/multivariate'
+import { HybridZKP } from '../src/algorithms/hybrid'
+import { ZKPError } from '../src/types'
+import type { Proof, HashProof, LatticeProof, MultivariateProof, HybridProof } from '../src/types'
+
+describe('ProofSerializer', () => {
+  const testSecret = 'serialization-test-secret'
+
+  const expectRoundTrip = (proof: Proof): Proof => {
+    const bytes = ProofSerializer.serializeProof(proof)
+    const decoded = ProofSerializer.deserializeProof(bytes)
+
+    expect(decoded).toEqual(proof)
+    expect(ProofSerializer.serializeProof(decoded)).toEqual(bytes)
+    return decoded
+  }
+
+  const expectErrorCode = (action: () => unknown, code: string): void => {
+    try {
+      action()
+      throw new Error('Expected ZKPError')
+    } catch (error) {
+      expect(error).toBeInstanceOf(ZKPError)
+      expect((error as ZKPError).code).toBe(code)
+    }
+  }
+
+  describe('round trip', () => {
+    it('should round trip hash proofs', () => {
+      const decoded = expectRoundTrip(HashZKP.createProof(testSecret, { chainLength: 100 }))
+      expect(HashZKP.verifyProof(decoded as HashProof)).toBe(true)
+    })
+
+    it('should round trip hash compact proofs', () => {
+      const decoded = expectRoundTrip(HashZKP.createProof(testSecret, { hashMode: 'compact', chainLength: 100 }))
+      expect(HashZKP.verifyProof(decoded as HashProof)).toBe(true)
+    })
+
+    it('should round trip hash preimage proofs', () => {
+      const decoded = expectRoundTrip(HashZKP.createProof(testSecret, { hashMode: 'preimage' }))
+      expect(HashZKP.verifyProof(decoded as HashProof, HashZKP.generateStatement(testSecret))).toBe(true)
+    })
+
+    it('should round trip lattice proofs', () => {
+      const decoded = expectRoundTrip(LatticeZKP.createProof(testSecret, { dimension: 128, modulus: 2n ** 512n }))
+      expect(LatticeZKP.verifyProof(decoded as LatticeProof)).toBe(true)
+    })
+
+    it('should round trip lattice sigma proofs', () => {
+      const decoded = expectRoundTrip(LatticeZKP.createProof(testSecret, { latticeMode: 'sigma' }))
+      expect(LatticeZKP.verifyProof(decoded as LatticeProof, LatticeZKP.generateStatement(testSecret))).toBe(true)
+    })
+
+    it('should round trip multivariate proofs', () => {
+      const decoded = expectRoundTrip(MultivariateZKP.createProof(testSecret))
+      expect(MultivariateZKP.verifyProof(decoded as MultivariateProof)).toBe(true)
+    })
+
+    it('should round trip MQ identification proofs', () => {
+      const proof = MultivariateZKP.createProof(testSecret, { multivariateMode: 'mq5' })
+      const decoded = expectRoundTrip(proof)
+      const statement = MultivariateZKP.generateStatement(testSecret)
+      expect(MultivariateZKP.verifyProof(decoded as MultivariateProof, statement)).toBe(true)
+    })
+
+    it('should round trip hybrid proofs', () => {
+      const proof = HybridZKP.createProof(testSecret, { algorithms: ['hash', 'multivariate'] })
+      const decoded = expectRoundTrip(proof)
+      expect(HybridZKP.verifyProof(decoded as HybridProof)).toBe(true)
+    })
+
+    it('should round trip threshold proofs', () => {
+      const zkp = new QuantumZKP()
+      const { thresholdProof } = zkp.createThresholdProof(testSecret, 3, 'multivariate')
+      const bytes = ProofSerializer.serializeThresholdProof(thresholdProof)
+
+      expect(ProofSerializer.deserializeThresholdProof(bytes)).toEqual(thresholdProof)
+    })
+
+    it('should be exposed through QuantumZKP', () => {
+      const zkp = new QuantumZKP()
+      const proof = zkp.createProof(testSecret, 'hash')
+      const decoded = zkp.deserializeProof(zkp.serializeProof(proof))
+
+      expect(zkp.verifyProof(decoded).isValid).toBe(true)
+    })
+
+    it('should accept plain Uint8Array input', () => {
+      const bytes = ProofSerializer.serializeProof(MultivariateZKP.createProof(testSecret))
+      const copy = new Uint8Array(bytes.length)
+      copy.set(bytes)
+
+      expect(ProofSerializer.deserializeProof(copy).type).toBe('multivariate')
+    })
+  })
+
+  describe('strict decoding', () => {
+    let bytes: Uint8Array
+
+    beforeAll(() => {
+      bytes = ProofSerializer.serializeProof(MultivariateZKP.createProof(testSecret))
+    })
+
+    it('should reject trailing bytes', () => {
+      const padded = Buffer.concat([Buffer.from(bytes), Buffer.from([0])])
+      expectErrorCode(() => ProofSerializer.deserializeProof(padded), 'SERIALIZATION_TRAILING_BYTES')
+    })
+
+    it('should reject unknown versions', () => {
+      const modified = Buffer.from(bytes)
+      modified[4] = 99
+      expectErrorCode(() => ProofSerializer.deserializeProof(modified), 'SERIALIZATION_UNSUPPORTED_VERSION')
+    })
+
+    it('should reject truncated data', () => {
+      const truncated = Buffer.from(bytes).subarray(0, bytes.length - 1)
+      expectErrorCode(() => ProofSerializer.deserializeProof(truncated), 'SERIALIZATION_TRUNCATED')
+    })
+
+    it('should reject data without magic header', () => {
+      expectErrorCode(() => ProofSerializer.deserializeProof(Buffer.from('not a proof')), 'SERIALIZATION_INVALID_MAGIC')
+    })
+
+    it('should reject unknown proof types', () => {
+      const modified = Buffer.from(bytes)
+      modified[5] = 42
+      expectErrorCode(() => ProofSerializer.deserializeProof(modified), 'SERIALIZATION_UNKNOWN_TYPE')
+    })
+
+    it('should reject threshold data passed as a proof', () => {
+      const zkp = new QuantumZKP()
+      const thresholdBytes = ProofSerializer.serializeThresholdProof(
+        zkp.createThresholdProof(testSecret, 2, 'multivariate').thresholdProof
+      )
+      expectErrorCode(() => ProofSerializer.deserializeProof(thresholdBytes), 'SERIALIZATION_UNKNOWN_TYPE')
+    })
+
+    it('should reject hybrid components nested at any depth without recursing', () => {
+      const hybrid = HybridZKP.createProof(testSecret, { algorithms: ['hash', 'multivariate'] })
+      const hybridBytes = ProofSerializer.serializeProof(hybrid)
+      const componentBody = ProofSerializer.serializeProof(hybrid.proofs[0]).subarray(6)
+      const typeOffset = hybridBytes.indexOf(componentBody) - 1
+      const nested = Buffer.from(hybridBytes)
+      nested[typeOffset] = 4
+      const level = Buffer.concat([hybridBytes.subarray(6, typeOffset), Buffer.from([4])])
+      const deep = Buffer.concat([hybridBytes.subarray(0, 6), ...Array.from({ length: 20000 }, () => level)])
+
+      expectErrorCode(() => ProofSerializer.deserializeProof(nested), 'SERIALIZATION_NESTED_HYBRID')
+      expectErrorCode(() => ProofSerializer.deserializeProof(deep), 'SERIALIZATION_NESTED_HYBRID')
+    })
+
+    it('should report the format version', () => {
+      expect(ProofSerializer.getFormatVersion()).toBe(1)
+    })
+  })
+})
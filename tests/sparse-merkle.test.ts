@@ -0,0 +1,118 @@
+import { SparseMerkleTree } from '../src/utils/sparse-merkle'
+import { ZKPError } from '../src/types'
+
+describe('SparseMerkleTree', () => {
+  const key = (name: string): Buffer => SparseMerkleTree.hashKey(name)
+  const value = (text: string): Buffer => Buffer.from(text, 'utf8')
+
+  const buildTree = (): SparseMerkleTree => {
+    const tree = new SparseMerkleTree()
+    tree.insert(key('alice'), value('allow'))
+    tree.insert(key('bob'), value('deny'))
+    tree.insert(key('carol'), value('allow'))
+    return tree
+  }
+
+  describe('updates', () => {
+    it('should insert, update and delete keys', () => {
+      const tree = buildTree()
+
+      expect(tree.getSize()).toBe(3)
+      expect(tree.get(key('bob'))).toEqual(value('deny'))
+      tree.update(key('bob'), value('allow'))
+      expect(tree.get(key('bob'))).toEqual(value('allow'))
+      expect(tree.delete(key('bob'))).toBe(true)
+      expect(tree.delete(key('bob'))).toBe(false)
+      expect(tree.has(key('bob'))).toBe(false)
+      expect(tree.getSize()).toBe(2)
+    })
+
+    it('should not depend on insertion order', () => {
+      const reversed = new SparseMerkleTree()
+      reversed.insert(key('carol'), value('allow'))
+      reversed.insert(key('bob'), value('deny'))
+      reversed.insert(key('alice'), value('allow'))
+
+      expect(reversed.getRoot()).toEqual(buildTree().getRoot())
+    })
+
+    it('should restore the empty root after deleting every key', () => {
+      const tree = buildTree()
+      const empty = new SparseMerkleTree().getRoot()
+      ;['alice', 'bob', 'carol'].forEach(name => tree.delete(key(name)))
+
+      expect(tree.getRoot()).toEqual(empty)
+    })
+
+    it('should reject duplicate inserts, missing updates and malformed keys', () => {
+      const tree = buildTree()
+
+      expect(() => tree.insert(key('alice'), value('deny'))).toThrow('Key is already present')
+      expect(() => tree.update(key('dave'), value('deny'))).toThrow('Key is not present')
+      expect(() => tree.insert(Buffer.alloc(31), value('deny'))).toThrow('Sparse Merkle keys must be 32 bytes')
+    })
+  })
+
+  describe('proofs', () => {
+    it('should prove inclusion of present keys', () => {
+      const tree = buildTree()
+      const proof = tree.prove(key('alice'))
+
+      expect(proof.value).toEqual(value('allow'))
+      expect(proof.siblings).toHaveLength(SparseMerkleTree.DEPTH)
+      expect(SparseMerkleTree.verifyProof(proof, tree.getRoot())).toBe(true)
+    })
+
+    it('should prove non-inclusion of absent keys', () => {
+      const tree = buildTree()
+      const proof = tree.prove(key('mallory'))
+
+      expect(proof.value).toBeUndefined()
+      expect(SparseMerkleTree.verifyProof(proof, tree.getRoot())).toBe(true)
+    })
+
+    it('should reject proofs with a wrong value or membership claim', () => {
+      const tree = buildTree()
+      const inclusion = tree.prove(key('alice'))
+      const { value: _, ...withoutValue } = inclusion
+      const exclusion = tree.prove(key('mallory'))
+
+      expect(SparseMerkleTree.verifyProof({ ...inclusion, value: value('deny') }, tree.getRoot())).toBe(false)
+      expect(SparseMerkleTree.verifyProof(withoutValue, tree.getRoot())).toBe(false)
+      expect(SparseMerkleTree.verifyProof({ ...exclusion, value: value('allow') }, tree.getRoot())).toBe(false)
+    })
+
+    it('should reject proofs against an outdated root', () => {
+      const tree = buildTree()
+      const root = tree.getRoot()
+      tree.insert(key('mallory'), value('deny'))
+
+      expect(SparseMerkleTree.verifyProof(tree.prove(key('mallory')), root)).toBe(false)
+      expect(SparseMerkleTree.verifyProof(tree.prove(key('mallory')), tree.getRoot())).toBe(true)
+    })
+  })
+
+  describe('compressed proofs', () => {
+    it('should round trip inclusion and non-inclusion proofs', () => {
+      const tree = buildTree()
+      for (const name of ['alice', 'mallory']) {
+        const proof = tree.prove(key(name))
+        const compressed = SparseMerkleTree.compressProof(proof)
+
+        expect(SparseMerkleTree.decompressProof(compressed)).toEqual(proof)
+        expect(compressed.length).toBeLessThan(32 * 16)
+      }
+    })
+
+    it('should reject malformed encodings', () => {
+      const compressed = SparseMerkleTree.compressProof(buildTree().prove(key('alice')))
+      const truncated = compressed.subarray(0, compressed.length - 1)
+      const invalidFlag = Buffer.from(compressed)
+      invalidFlag[32] = 2
+
+      for (const data of [truncated, invalidFlag, Buffer.concat([compressed, Buffer.alloc(1)])]) {
+        expect(() => SparseMerkleTree.decompressProof(data)).toThrow(ZKPError)
+      }
+    })
+  })
+})
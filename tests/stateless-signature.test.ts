@@ -0,0 +1,91 @@
+import { StatelessHashSignature } from '../src/algorithms/stateless-signature'
+import type { SphincsPrivateKey, SphincsPublicKey, SphincsSignature } from '../src/types'
+
+describe('StatelessHashSignature', () => {
+  const message = 'stateless signature message'
+  let privateKey: SphincsPrivateKey
+  let publicKey: SphincsPublicKey
+  let signature: SphincsSignature
+
+  beforeAll(() => {
+    ;({ privateKey, publicKey } = StatelessHashSignature.generateKeyPair('tiny', Buffer.alloc(32, 3)))
+    signature = StatelessHashSignature.sign(message, privateKey)
+  })
+
+  describe('sign and verify', () => {
+    it('should verify a valid signature', () => {
+      expect(StatelessHashSignature.verify(message, signature, publicKey)).toBe(true)
+    })
+
+    it('should sign repeatedly without keeping state', () => {
+      const second = StatelessHashSignature.sign('second message', privateKey)
+
+      expect(StatelessHashSignature.verify('second message', second, publicKey)).toBe(true)
+      expect(StatelessHashSignature.verify(message, signature, publicKey)).toBe(true)
+    })
+
+    it('should reject a different message', () => {
+      expect(StatelessHashSignature.verify('another message', signature, publicKey)).toBe(false)
+    })
+
+    it('should reject tampered FORS and hypertree components', () => {
+      const forsSecret = Buffer.from(signature.forsSignature[0].secret)
+      forsSecret[0] ^= 1
+      const tamperedFors = {
+        ...signature,
+        forsSignature: [{ ...signature.forsSignature[0], secret: forsSecret }, ...signature.forsSignature.slice(1)]
+      }
+      const wotsValue = Buffer.from(signature.hypertree[1].wotsSignature[0])
+      wotsValue[0] ^= 1
+      const tamperedHypertree = {
+        ...signature,
+        hypertree: [
+          signature.hypertree[0],
+          { ...signature.hypertree[1], wotsSignature: [wotsValue, ...signature.hypertree[1].wotsSignature.slice(1)] }
+        ]
+      }
+
+      expect(StatelessHashSignature.verify(message, tamperedFors, publicKey)).toBe(false)
+      expect(StatelessHashSignature.verify(message, tamperedHypertree, publicKey)).toBe(false)
+    })
+
+    it('should reject malformed signatures and other keys', () => {
+      const other = StatelessHashSignature.generateKeyPair('tiny', Buffer.alloc(32, 4)).publicKey
+
+      expect(StatelessHashSignature.verify(message, { ...signature, hypertree: [] }, publicKey)).toBe(false)
+      expect(StatelessHashSignature.verify(message, signature, other)).toBe(false)
+    })
+
+    it('should derive keys deterministically from a seed', () => {
+      const again = StatelessHashSignature.generateKeyPair('tiny', Buffer.alloc(32, 3)).publicKey
+
+      expect(again).toEqual(publicKey)
+    })
+  })
+
+  describe('parameters and metrics', () => {
+    it('should report exact signature sizes', () => {
+      const hashes = 1 + signature.forsSignature.length * 5 + signature.hypertree.length * (67 + 2)
+
+      expect(StatelessHashSignature.getSignatureSize('tiny')).toBe(hashes * 32)
+      expect(StatelessHashSignature.getSignatureSize('small')).toBeLessThan(
+        StatelessHashSignature.getSignatureSize('fast')
+      )
+    })
+
+    it('should report performance metrics', () => {
+      const metrics = StatelessHashSignature.getPerformanceMetrics('tiny')
+
+      expect(metrics.proofSize).toBe(StatelessHashSignature.getSignatureSize('tiny'))
+      expect(metrics.generationTime).toBeGreaterThan(0)
+      expect(metrics.verificationTime).toBeGreaterThan(0)
+      expect(metrics.memoryUsage).toBeGreaterThanOrEqual(0)
+    })
+
+    it('should reject unknown parameter sets', () => {
+      expect(() => StatelessHashSignature.getParameterSet('huge' as never)).toThrow(
+        'Unsupported SPHINCS+ parameter set: huge'
+      )
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { createHash } from 'crypto'
+import { ZKBoo } from '../src/utils/zkboo'
+import { QuantumCrypto } from '../src/utils/crypto'
+
+describe('ZKBoo', () => {
+  const preimage = Buffer.from('zkboo preimage', 'utf8')
+  const repetitions = 8
+
+  it('should prove knowledge of a SHA-256 preimage', () => {
+    const proof = ZKBoo.prove(preimage, repetitions)
+
+    expect(proof.image).toEqual(createHash('sha256').update(preimage).digest())
+    expect(ZKBoo.verify(proof.image, proof.commitment, proof.challenge, proof.response, repetitions, repetitions)).toBe(
+      true
+    )
+  })
+
+  it('should reject fewer repetitions than the minimum', () => {
+    const proof = ZKBoo.prove(preimage, repetitions)
+
+    expect(ZKBoo.verify(proof.image, proof.commitment, proof.challenge, proof.response, repetitions)).toBe(false)
+    expect(
+      ZKBoo.verify(proof.image, proof.commitment, proof.challenge, proof.response, repetitions, repetitions + 1)
+    ).toBe(false)
+  })
+
+  it('should handle preimages spanning several blocks', () => {
+    const long = Buffer.alloc(120, 7)
+    const proof = ZKBoo.prove(long, 2)
+
+    expect(ZKBoo.getGateCount(long.length)).toBe(3 * 728)
+    expect(ZKBoo.verify(proof.image, proof.commitment, proof.challenge, proof.response, 2, 2)).toBe(true)
+  })
+
+  it('should reject a different image', () => {
+    const proof = ZKBoo.prove(preimage, repetitions)
+    const other = createHash('sha256').update('other').digest()
+
+    expect(ZKBoo.verify(other, proof.commitment, proof.challenge, proof.response, repetitions, repetitions)).toBe(false)
+  })
+
+  it('should reject tampered openings', () => {
+    const proof = ZKBoo.prove(preimage, repetitions)
+    const response = Buffer.from(proof.response)
+    response[response.length - 1] ^= 1
+
+    expect(ZKBoo.verify(proof.image, proof.commitment, proof.challenge, response, repetitions, repetitions)).toBe(false)
+    expect(
+      ZKBoo.verify(proof.image, proof.commitment, proof.challenge, proof.response.subarray(1), repetitions, 1)
+    ).toBe(false)
+    expect(ZKBoo.verify(proof.image, proof.commitment, proof.challenge, proof.response, repetitions + 1, 1)).toBe(false)
+  })
+
+  it('should reject repetition counts the response cannot hold before expanding the challenge', () => {
+    const proof = ZKBoo.prove(preimage, repetitions)
+
+    expect(ZKBoo.verify(proof.image, proof.commitment, proof.challenge, proof.response, 1e9, 1)).toBe(false)
+    expect(ZKBoo.verify(proof.image, proof.commitment, proof.challenge, proof.response, 2 ** 40, 1)).toBe(false)
+  })
+})
+
+describe('ZKBoo Merkle membership', () => {
+  const secrets = Array.from({ length: 5 }, (_, i) => Buffer.from(`member-${i}`, 'utf8'))
+  const tree = QuantumCrypto.createMerkleTree(secrets.map(secret => QuantumCrypto.hash(secret, 'sha256')))
+
+  it('should prove membership of every leaf, including promoted ones', () => {
+    secrets.forEach((secret, index) => {
+      const proof = ZKBoo.proveMembership(secret, QuantumCrypto.createMerkleProof(tree, index), 2)
+
+      expect(proof.root).toEqual(tree.root)
+      expect(ZKBoo.verifyMembership(tree.root, 5, proof.commitment, proof.challenge, proof.response, 2, 2)).toBe(true)
+      expect(ZKBoo.verifyMembership(tree.root, 5, proof.commitment, proof.challenge, proof.response, 2)).toBe(false)
+    })
+  })
+
+  it('should use the same circuit for every leaf', () => {
+    const first = ZKBoo.proveMembership(secrets[0], QuantumCrypto.createMerkleProof(tree, 0), 1)
+    const last = ZKBoo.proveMembership(secrets[4], QuantumCrypto.createMerkleProof(tree, 4), 1)
+
+    expect(ZKBoo.getMembershipGateCount(8, 5)).toBe(8 * 728 + 3 * 16)
+    expect(first.response.readUInt32BE(0)).toBe(8 + 3 * 32 + 8)
+    expect(last.response.readUInt32BE(0)).toBe(first.response.readUInt32BE(0))
+  })
+
+  it('should reject a different root or tree size', () => {
+    const proof = ZKBoo.proveMembership(secrets[1], QuantumCrypto.createMerkleProof(tree, 1), 2)
+    const other = QuantumCrypto.createMerkleTree([Buffer.from('a'), Buffer.from('b')])
+
+    expect(ZKBoo.verifyMembership(other.root, 5, proof.commitment, proof.challenge, proof.response, 2, 2)).toBe(false)
+    expect(ZKBoo.verifyMembership(tree.root, 9, proof.commitment, proof.challenge, proof.response, 2, 2)).toBe(false)
+    expect(ZKBoo.verifyMembership(tree.root, 0, proof.commitment, proof.challenge, proof.response, 2, 2)).toBe(false)
+  })
+
+  it('should reject inclusion proofs of another secret', () => {
+    expect(() =>
+      ZKBoo.proveMembership(secrets[0], { ...QuantumCrypto.createMerkleProof(tree, 1), path: [] }, 1)
+    ).toThrow('Inclusion path is shorter than the tree depth requires')
+  })
+})